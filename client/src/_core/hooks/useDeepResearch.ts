@@ -5,103 +5,212 @@
 
 import { useState, useCallback } from "react";
 import { trpc } from "../../lib/trpc";
+import type {
+  AgentRole,
+  AgentStatus,
+  Citation,
+  ResearchEvent,
+  ResearchPhase,
+  ResearchStopReason,
+} from "../../../../server/_core/agents/types";
+
+export type TimelineEntry =
+  | { kind: "phase"; key: string; phase: ResearchPhase; at: Date }
+  | {
+      kind: "task";
+      key: string;
+      agentRole: AgentRole;
+      description: string;
+      status: AgentStatus;
+      error?: string;
+      at: Date;
+    }
+  | { kind: "artifact"; key: string; artifactType: string; content: string; at: Date }
+  | {
+      kind: "round";
+      key: string;
+      round: number;
+      findingsCount: number;
+      gaps: string[];
+      stopReason?: ResearchStopReason;
+      at: Date;
+    };
 
 export interface ResearchState {
-  status: 'idle' | 'searching' | 'analyzing' | 'synthesizing' | 'completed' | 'failed';
+  status: 'idle' | ResearchPhase | 'completed' | 'failed';
   progress: number;
+  timeline: TimelineEntry[];
   result: {
     report: string;
     findings: any[];
-    citations: any[];
+    citations: Citation[];
     executionTime: number;
   } | null;
   error: string | null;
 }
 
+const INITIAL_STATE: ResearchState = {
+  status: 'idle',
+  progress: 0,
+  timeline: [],
+  result: null,
+  error: null,
+};
+
+/**
+ * Fold a progress event into the timeline. Task transitions update the
+ * task's existing entry so each agent task appears once, and a phase that
+ * repeats across search rounds is shown once.
+ */
+function applyEvent(timeline: TimelineEntry[], event: ResearchEvent): TimelineEntry[] {
+  switch (event.type) {
+    case "phase": {
+      const key = `phase-${event.phase}`;
+      if (timeline.some(e => e.key === key)) return timeline;
+      return [...timeline, { kind: "phase", key, phase: event.phase, at: event.at }];
+    }
+    case "task": {
+      const key = `task-${event.task.id}`;
+      const entry: TimelineEntry = {
+        kind: "task",
+        key,
+        agentRole: event.task.agentRole,
+        description: event.task.description,
+        status: event.task.status,
+        error: event.task.error,
+        at: event.at,
+      };
+      const index = timeline.findIndex(e => e.key === key);
+      if (index === -1) return [...timeline, entry];
+      return timeline.map((e, i) => (i === index ? entry : e));
+    }
+    case "artifact":
+      return [
+        ...timeline,
+        {
+          kind: "artifact",
+          key: `artifact-${event.artifact.id}`,
+          artifactType: event.artifact.type,
+          content: event.artifact.content,
+          at: event.at,
+        },
+      ];
+    case "round":
+      return [
+        ...timeline,
+        {
+          kind: "round",
+          key: `round-${event.round.round}`,
+          round: event.round.round,
+          findingsCount: event.round.findingsCount,
+          gaps: event.round.evaluation?.gaps ?? [],
+          stopReason: event.round.stopReason,
+          at: event.at,
+        },
+      ];
+    default:
+      return timeline;
+  }
+}
+
 export function useDeepResearch() {
-  const [state, setState] = useState<ResearchState>({
-    status: 'idle',
-    progress: 0,
-    result: null,
-    error: null,
-  });
+  const [state, setState] = useState<ResearchState>(INITIAL_STATE);
+  const [jobId, setJobId] = useState<string | null>(null);
 
   const startResearchMutation = trpc.deepResearch.startResearch.useMutation();
+  const cancelResearchMutation = trpc.deepResearch.cancelResearch.useMutation();
+  const retryResearchMutation = trpc.deepResearch.retryResearch.useMutation();
 
-  const startResearch = useCallback(
-    async (query: string, llmModel?: string) => {
-      // For demo/simplicity, we use a fixed sessionId and userId
-      const sessionId = 1;
-      
-      setState({
-        status: 'searching',
-        progress: 10,
-        result: null,
-        error: null,
-      });
+  trpc.deepResearch.watch.useSubscription(
+    { researchPlanId: jobId ?? "" },
+    {
+      enabled: jobId !== null,
+      onData: event => {
+        setState(prev => {
+          if (prev.status === 'completed' || prev.status === 'failed') return prev;
 
-      try {
-        // Simulate progress updates
-        const progressInterval = setInterval(() => {
-          setState(prev => {
-            if (prev.progress >= 90) {
-              clearInterval(progressInterval);
-              return prev;
-            }
+          if (event.type === "report") {
             return {
               ...prev,
-              progress: prev.progress + 5,
-              status: prev.progress > 60 ? 'synthesizing' : (prev.progress > 30 ? 'analyzing' : 'searching')
+              status: 'completed',
+              progress: 100,
+              result: {
+                report: event.report,
+                findings: Array(event.findingsCount).fill({}),
+                citations: event.citations,
+                executionTime: event.executionTime,
+              },
+              error: null,
             };
-          });
-        }, 1000);
+          }
+
+          if (event.type === "error") {
+            return { ...prev, status: 'failed', error: event.message };
+          }
+
+          return {
+            ...prev,
+            status: event.type === "phase" ? event.phase : prev.status,
+            progress: event.type === "phase" ? event.progressPercentage : prev.progress,
+            timeline: applyEvent(prev.timeline, event),
+          };
+        });
+      },
+    }
+  );
 
-        const result = await startResearchMutation.mutateAsync({
+  const startResearch = useCallback(
+    async (query: string, llmModel?: string, limits?: { maxRounds?: number; breadth?: number }) => {
+      // For demo/simplicity, we use a fixed sessionId and userId
+      const sessionId = 1;
+
+      setState({ ...INITIAL_STATE, status: 'planning' });
+
+      try {
+        const { jobId: newJobId } = await startResearchMutation.mutateAsync({
           sessionId,
           query,
           llmModel,
+          ...limits,
         });
-
-        clearInterval(progressInterval);
-
-        setState({
-          status: 'completed',
-          progress: 100,
-          result: {
-            report: result.report,
-            findings: Array(result.findingsCount).fill({}),
-            citations: Array(result.citationsCount).fill({}),
-            executionTime: result.executionTime,
-          },
-          error: null,
-        });
-
-        return result;
+        setJobId(newJobId);
+        return newJobId;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Research failed";
-        setState({
-          status: 'failed',
-          progress: 0,
-          result: null,
-          error: errorMessage,
-        });
+        setState({ ...INITIAL_STATE, status: 'failed', error: errorMessage });
         throw error;
       }
     },
     [startResearchMutation]
   );
 
+  const cancelResearch = useCallback(async () => {
+    if (!jobId) return;
+    await cancelResearchMutation.mutateAsync({ jobId });
+    setState(prev => ({ ...prev, status: 'failed', error: "Research was cancelled" }));
+  }, [jobId, cancelResearchMutation]);
+
+  const retryResearch = useCallback(async () => {
+    if (!jobId) return;
+    const { success } = await retryResearchMutation.mutateAsync({ jobId });
+    if (!success) return;
+
+    // Re-subscribe so the retried run's events are delivered
+    const retriedJobId = jobId;
+    setJobId(null);
+    setState({ ...INITIAL_STATE, status: 'planning' });
+    setTimeout(() => setJobId(retriedJobId), 0);
+  }, [jobId, retryResearchMutation]);
+
   const resetResearch = useCallback(() => {
-    setState({
-      status: 'idle',
-      progress: 0,
-      result: null,
-      error: null,
-    });
+    setJobId(null);
+    setState(INITIAL_STATE);
   }, []);
 
   return {
     startResearch,
+    cancelResearch,
+    retryResearch,
     researchState: state,
     resetResearch,
   };
@@ -5,17 +5,28 @@
 
 import { useState, useCallback } from "react";
 import { trpc } from "../../lib/trpc";
+import type {
+  AnalysisReport,
+  MultiStockReport,
+  ReportDiff,
+  StockReport,
+} from "../../../../server/_core/agents/analysisReports";
+
+export type { AnalysisReport, MultiStockReport, ReportDiff, StockReport };
 
 export interface StockAnalysisState {
   isLoading: boolean;
   symbol: string | null;
-  analysis: string | null;
+  analysis: AnalysisReport | null;
+  /** Id of the stored report, or null when it could not be saved */
+  reportId: number | null;
   error: string | null;
 }
 
 export interface PortfolioState {
   isLoading: boolean;
-  recommendation: string | null;
+  recommendation: MultiStockReport | null;
+  reportId: number | null;
   error: string | null;
 }
 
@@ -24,12 +35,14 @@ export function useFinancialResearch() {
     isLoading: false,
     symbol: null,
     analysis: null,
+    reportId: null,
     error: null,
   });
 
   const [portfolioState, setPortfolioState] = useState<PortfolioState>({
     isLoading: false,
     recommendation: null,
+    reportId: null,
     error: null,
   });
 
@@ -42,7 +55,7 @@ export function useFinancialResearch() {
 
   // Stock analysis
   const analyzeStock = useCallback(
-    async (symbol: string, llmModel?: string) => {
+    async (symbol: string, llmModel?: string, portfolioId?: number) => {
       setAnalysisState((prev) => ({
         ...prev,
         isLoading: true,
@@ -53,6 +66,7 @@ export function useFinancialResearch() {
         const result = await analyzeStockMutation.mutateAsync({
           symbol,
           llmModel,
+          portfolioId,
         });
 
         setAnalysisState((prev) => ({
@@ -60,6 +74,7 @@ export function useFinancialResearch() {
           isLoading: false,
           symbol: result.symbol,
           analysis: result.analysis,
+          reportId: result.reportId,
         }));
 
         return result;
@@ -95,6 +110,7 @@ export function useFinancialResearch() {
           ...prev,
           isLoading: false,
           analysis: result.analysis,
+          reportId: result.reportId,
         }));
 
         return result;
@@ -117,7 +133,8 @@ export function useFinancialResearch() {
       investmentAmount: number,
       riskTolerance: "Low" | "Medium" | "High",
       investmentHorizon: string,
-      llmModel?: string
+      llmModel?: string,
+      portfolioId?: number
     ) => {
       setPortfolioState((prev) => ({
         ...prev,
@@ -131,12 +148,14 @@ export function useFinancialResearch() {
           riskTolerance,
           investmentHorizon,
           llmModel,
+          portfolioId,
         });
 
         setPortfolioState((prev) => ({
           ...prev,
           isLoading: false,
           recommendation: result.recommendation,
+          reportId: result.reportId,
         }));
 
         return result;
@@ -189,6 +208,7 @@ export function useFinancialResearch() {
       isLoading: false,
       symbol: null,
       analysis: null,
+      reportId: null,
       error: null,
     });
   }, []);
@@ -197,6 +217,7 @@ export function useFinancialResearch() {
     setPortfolioState({
       isLoading: false,
       recommendation: null,
+      reportId: null,
       error: null,
     });
   }, []);
@@ -218,3 +239,21 @@ export function useFinancialResearch() {
     resetPortfolioState,
   };
 }
+
+/**
+ * Stored stock reports for a symbol, newest first, each with what changed
+ * since the previous one
+ */
+export function useAnalysisReportHistory(symbol: string | null, kind: "stock" | "earnings_quality" = "stock") {
+  const history = trpc.financialResearch.reports.history.useQuery(
+    { symbol: symbol ?? "", kind },
+    { enabled: Boolean(symbol) }
+  );
+
+  return {
+    reports: history.data ?? [],
+    isLoading: history.isLoading,
+    error: history.error?.message ?? null,
+    refetch: history.refetch,
+  };
+}
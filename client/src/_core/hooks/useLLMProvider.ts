@@ -1,41 +1,77 @@
 /**
  * LLM Provider Hook
- * Manages LLM provider and model selection
+ * Manages LLM provider and model selection among the models the server's
+ * providers actually serve
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { trpc } from "../../lib/trpc";
+import type { ModelCapabilities, ProviderModels } from "../../../../server/_core/llm/models";
+
+export type { ModelCapabilities };
 
 export interface LLMProviderConfig {
-  provider: "openai" | "google" | "ollama";
+  /** Name the provider is registered under on the server */
+  provider: string;
   model: string;
   apiKey?: string;
   apiUrl?: string;
 }
 
-const DEFAULT_MODELS: Record<string, string[]> = {
-  openai: ["gpt-4.1-mini", "gpt-4.1-nano", "gemini-2.5-flash"],
-  google: ["gemini-2.5-flash", "gemini-2.0-flash", "gemini-1.5-pro"],
-  ollama: ["llama2", "mistral", "neural-chat", "dolphin-mixtral"],
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  description: string;
+}
+
+const PROVIDER_INFO: Record<string, Omit<ProviderInfo, "id">> = {
+  openai: { name: 'OpenAI', description: 'High-performance models via Manus Forge' },
+  gemini: { name: 'Google Gemini', description: 'Advanced reasoning and large context' },
+  anthropic: { name: 'Anthropic Claude', description: 'Careful reasoning with tool use' },
+  ollama: { name: 'Ollama', description: 'Local models for maximum privacy' },
 };
 
-export const PROVIDERS = [
-  { id: 'openai', name: 'OpenAI', description: 'High-performance models via Manus Forge' },
-  { id: 'google', name: 'Google Gemini', description: 'Advanced reasoning and large context' },
-  { id: 'ollama', name: 'Ollama', description: 'Local models for maximum privacy' },
-];
+/**
+ * Display name and description of a provider; providers configured through
+ * LLM_PROVIDERS are shown by their name
+ */
+export function providerInfo(id: string): ProviderInfo {
+  return { id, ...(PROVIDER_INFO[id] ?? { name: id, description: 'Configured provider' }) };
+}
 
 export function useLLMProvider() {
+  const utils = trpc.useUtils();
+  const modelsQuery = trpc.system.models.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+    staleTime: 5 * 60 * 1000,
+  });
+
   const [config, setConfig] = useState<LLMProviderConfig>(() => {
-    if (typeof window === 'undefined') return { provider: "openai", model: "gemini-2.5-flash" };
+    if (typeof window === 'undefined') return { provider: "openai", model: "" };
     const stored = localStorage.getItem("llmProviderConfig");
     return stored
       ? JSON.parse(stored)
       : {
           provider: "openai",
-          model: "gemini-2.5-flash",
+          model: "",
         };
   });
 
+  // Only providers that answered with at least one model can be selected
+  const providers = useMemo<ProviderModels[]>(
+    () => (modelsQuery.data ?? []).filter((p) => p.available && p.models.length > 0),
+    [modelsQuery.data]
+  );
+  const currentProvider = providers.find((p) => p.provider === config.provider);
+
+  // Replace a stored provider or model the server no longer offers
+  useEffect(() => {
+    if (providers.length === 0) return;
+    if (currentProvider && currentProvider.models.some((m) => m.id === config.model)) return;
+    const provider = currentProvider ?? providers[0];
+    setConfig((prev) => ({ ...prev, provider: provider.provider, model: provider.models[0].id }));
+  }, [providers, currentProvider, config.model]);
+
   // Save config to localStorage whenever it changes
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -44,14 +80,14 @@ export function useLLMProvider() {
   }, [config]);
 
   const setSelectedProvider = useCallback(
-    (provider: "openai" | "google" | "ollama") => {
+    (provider: string) => {
       setConfig((prev) => ({
         ...prev,
         provider,
-        model: DEFAULT_MODELS[provider]?.[0] || "",
+        model: providers.find((p) => p.provider === provider)?.models[0]?.id || "",
       }));
     },
-    []
+    [providers]
   );
 
   const setSelectedModel = useCallback((model: string) => {
@@ -75,16 +111,31 @@ export function useLLMProvider() {
     }));
   }, []);
 
+  // Ask the providers again instead of using the server's cached lists
+  const refreshModels = useCallback(async () => {
+    const models = await utils.client.system.models.query({ refresh: true });
+    utils.system.models.setData(undefined, models);
+  }, [utils]);
+
+  const currentProviderModels = currentProvider?.models ?? [];
+
   return {
     selectedProvider: config.provider,
     setSelectedProvider,
     selectedModel: config.model,
     setSelectedModel,
+    selectedModelInfo: currentProviderModels.find((m) => m.id === config.model) ?? null,
+    // What to send as llmModel, so the server routes to the selected provider
+    modelRef: config.model ? `${config.provider}:${config.model}` : undefined,
     apiKey: config.apiKey || "",
     setApiKey,
     apiUrl: config.apiUrl || "",
     setApiUrl,
-    availableProviders: PROVIDERS,
-    currentProviderModels: DEFAULT_MODELS[config.provider] || [],
+    availableProviders: providers.map((p) => providerInfo(p.provider)),
+    unavailableProviders: (modelsQuery.data ?? []).filter((p) => !p.available),
+    currentProviderModels,
+    isLoadingModels: modelsQuery.isLoading,
+    modelsError: modelsQuery.error?.message ?? null,
+    refreshModels,
   };
 }
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { useAnalysisReportHistory, ReportDiff, StockReport } from '../_core/hooks/useFinancialResearch';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { History, Loader2, AlertCircle, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+
+const RATING_LABELS: Record<string, string> = {
+  strong_buy: 'Strong Buy',
+  buy: 'Buy',
+  hold: 'Hold',
+  sell: 'Sell',
+  strong_sell: 'Strong Sell',
+};
+
+function formatTarget(report: StockReport): string {
+  const target = report.priceTarget;
+  if (!target) return 'No target';
+  return `${target.base.toFixed(2)} ${target.currency} (${target.low.toFixed(2)} – ${target.high.toFixed(2)}, ${target.horizonMonths}m)`;
+}
+
+const ChangeList: React.FC<{ label: string; added: string[]; removed: string[] }> = ({ label, added, removed }) => {
+  if (added.length === 0 && removed.length === 0) return null;
+  return (
+    <div className="text-xs space-y-0.5">
+      <p className="font-semibold text-muted-foreground">{label}</p>
+      {added.map((item) => (
+        <p key={`+${item}`} className="text-green-700 dark:text-green-400">+ {item}</p>
+      ))}
+      {removed.map((item) => (
+        <p key={`-${item}`} className="text-destructive line-through">− {item}</p>
+      ))}
+    </div>
+  );
+};
+
+const ReportChanges: React.FC<{ changes: ReportDiff }> = ({ changes }) => {
+  const { rating, priceTarget, confidence } = changes;
+  const ratingIcon =
+    rating.direction === 'upgrade' ? <ArrowUp className="w-3 h-3 text-green-600" /> :
+    rating.direction === 'downgrade' ? <ArrowDown className="w-3 h-3 text-destructive" /> :
+    <Minus className="w-3 h-3 text-muted-foreground" />;
+  const movedMetrics = changes.metrics.filter((metric) => metric.change !== null && metric.change !== 0);
+
+  return (
+    <div className="mt-3 space-y-2 border-t pt-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <span className="flex items-center gap-1">
+          {ratingIcon}
+          {rating.direction === 'unchanged'
+            ? 'Rating unchanged'
+            : `${RATING_LABELS[rating.from ?? ''] ?? 'n/a'} → ${RATING_LABELS[rating.to ?? ''] ?? 'n/a'}`}
+        </span>
+        {priceTarget.changePercent !== null && (
+          <span>Target {priceTarget.changePercent >= 0 ? '+' : ''}{priceTarget.changePercent.toFixed(1)}%</span>
+        )}
+        {confidence.change !== null && confidence.change !== 0 && (
+          <span>Confidence {confidence.change > 0 ? '+' : ''}{(confidence.change * 100).toFixed(0)} pts</span>
+        )}
+        {changes.thesisChanged && <Badge variant="outline" className="text-[10px] h-4">Thesis revised</Badge>}
+      </div>
+      <ChangeList label="Strengths" {...changes.strengths} />
+      <ChangeList label="Weaknesses" {...changes.weaknesses} />
+      <ChangeList label="Risks" {...changes.risks} />
+      {movedMetrics.length > 0 && (
+        <div className="text-xs">
+          <p className="font-semibold text-muted-foreground">Metrics</p>
+          {movedMetrics.map((metric) => (
+            <p key={`${metric.name}|${metric.unit}`}>
+              {metric.name}: {metric.from} → {metric.to}{metric.unit && ` ${metric.unit}`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AnalysisReportHistory: React.FC<{ initialSymbol?: string }> = ({ initialSymbol }) => {
+  const [input, setInput] = useState(initialSymbol ?? '');
+  const [symbol, setSymbol] = useState<string | null>(initialSymbol ?? null);
+  const { reports, isLoading, error } = useAnalysisReportHistory(symbol);
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader className="bg-muted/30">
+        <CardTitle className="text-xl flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Analysis History
+        </CardTitle>
+        <CardDescription>How the analyst's view of a stock has changed between reports</CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Symbol, e.g. AAPL"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="flex-1"
+          />
+          <Button onClick={() => setSymbol(input.trim().toUpperCase() || null)} disabled={!input.trim()}>
+            Show History
+          </Button>
+        </div>
+
+        {isLoading && symbol && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading reports...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4" /> {error}
+          </div>
+        )}
+
+        {symbol && !isLoading && !error && reports.length === 0 && (
+          <p className="text-sm text-muted-foreground">No stored analyses of {symbol} yet.</p>
+        )}
+
+        {reports.length > 0 && (
+          <ScrollArea className="h-[480px] pr-3">
+            <ol className="space-y-3">
+              {reports.map((entry) => {
+                const report = entry.report as StockReport;
+                return (
+                  <li key={entry.id} className="rounded-md border p-4 bg-card">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge>{RATING_LABELS[report.rating] ?? report.rating}</Badge>
+                      <span className="text-sm font-medium">{formatTarget(report)}</span>
+                      <span className="text-xs text-muted-foreground">
+                        Confidence {(report.confidence * 100).toFixed(0)}%
+                      </span>
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleString()} · {entry.model}
+                      </span>
+                    </div>
+                    <p className="mt-2 text-sm">{report.thesis}</p>
+                    {entry.changes && <ReportChanges changes={entry.changes} />}
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useDeepResearch } from '../_core/hooks/useDeepResearch';
+import { useDeepResearch, TimelineEntry } from '../_core/hooks/useDeepResearch';
 import { useLLMProvider } from '../_core/hooks/useLLMProvider';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from './ui/card';
 import { Button } from './ui/button';
@@ -7,16 +7,84 @@ import { Input } from './ui/input';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
-import { Search, Play, CheckCircle, AlertCircle, Loader2, FileText, Link as LinkIcon } from 'lucide-react';
+import { Search, Play, CheckCircle, AlertCircle, Loader2, FileText, Link as LinkIcon, XCircle, Circle } from 'lucide-react';
+
+const PHASE_LABELS: Record<string, string> = {
+  planning: "Planning the research strategy",
+  searching: "Worker agents are scouring the web for information",
+  analyzing: "Extracting key insights and analyzing data",
+  synthesizing: "Fact-checking findings",
+  finalizing: "Synthesizing the final report",
+};
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  complete: "research judged complete",
+  max_rounds: "round limit reached",
+  budget: "token budget reached",
+  no_gaps: "no gaps left to research",
+  evaluation_failed: "completeness check failed",
+};
+
+const TimelineItem: React.FC<{ entry: TimelineEntry }> = ({ entry }) => {
+  if (entry.kind === 'phase') {
+    return (
+      <li className="pt-2 text-xs font-semibold uppercase tracking-wider text-primary">
+        {PHASE_LABELS[entry.phase] ?? entry.phase}
+      </li>
+    );
+  }
+
+  if (entry.kind === 'round') {
+    const outcome = entry.stopReason
+      ? `stopped: ${STOP_REASON_LABELS[entry.stopReason] ?? entry.stopReason}`
+      : `${entry.gaps.length} gaps to follow up`;
+    return (
+      <li className="flex items-start gap-2 text-xs text-muted-foreground" title={entry.gaps.join('\n')}>
+        <Badge variant="secondary" className="shrink-0 text-[10px] h-4">Round {entry.round}</Badge>
+        <span className="truncate">
+          {entry.findingsCount} findings, {outcome}
+        </span>
+      </li>
+    );
+  }
+
+  if (entry.kind === 'artifact') {
+    return (
+      <li className="flex items-start gap-2 text-xs text-muted-foreground">
+        <FileText className="w-3 h-3 mt-0.5 shrink-0" />
+        <span className="truncate">
+          New {entry.artifactType}: {entry.content.substring(0, 120)}
+        </span>
+      </li>
+    );
+  }
+
+  const icon =
+    entry.status === 'completed' ? <CheckCircle className="w-3 h-3 mt-0.5 shrink-0 text-green-600" /> :
+    entry.status === 'failed' ? <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-destructive" /> :
+    entry.status === 'idle' ? <Circle className="w-3 h-3 mt-0.5 shrink-0" /> :
+    <Loader2 className="w-3 h-3 mt-0.5 shrink-0 animate-spin" />;
+
+  return (
+    <li className="flex items-start gap-2 text-xs">
+      {icon}
+      <Badge variant="outline" className="shrink-0 text-[10px] h-4">{entry.agentRole}</Badge>
+      <span className="truncate" title={entry.error ?? entry.description}>
+        {entry.description}
+      </span>
+    </li>
+  );
+};
 
 export const DeepResearchPanel: React.FC = () => {
   const [query, setQuery] = useState('');
-  const { startResearch, researchState, resetResearch } = useDeepResearch();
-  const { selectedModel } = useLLMProvider();
+  const { startResearch, cancelResearch, retryResearch, researchState, resetResearch } = useDeepResearch();
+  const { modelRef } = useLLMProvider();
+  const isRunning = !['idle', 'completed', 'failed'].includes(researchState.status);
 
   const handleStartResearch = async () => {
     if (!query.trim()) return;
-    await startResearch(query, selectedModel);
+    await startResearch(query, modelRef);
   };
 
   return (
@@ -32,11 +100,23 @@ export const DeepResearchPanel: React.FC = () => {
               Advanced multi-agent research system for comprehensive analysis
             </CardDescription>
           </div>
-          {researchState.status === 'completed' && (
-            <Button variant="outline" size="sm" onClick={resetResearch}>
-              New Research
-            </Button>
-          )}
+          <div className="flex gap-2">
+            {isRunning && (
+              <Button variant="outline" size="sm" onClick={cancelResearch}>
+                Cancel
+              </Button>
+            )}
+            {researchState.status === 'failed' && (
+              <Button variant="outline" size="sm" onClick={retryResearch}>
+                Retry
+              </Button>
+            )}
+            {(researchState.status === 'completed' || researchState.status === 'failed') && (
+              <Button variant="outline" size="sm" onClick={resetResearch}>
+                New Research
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="p-6">
@@ -47,7 +127,7 @@ export const DeepResearchPanel: React.FC = () => {
               placeholder="Enter your research query (e.g., 'Latest developments in quantum computing')"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              disabled={researchState.status === 'searching' || researchState.status === 'analyzing' || researchState.status === 'synthesizing'}
+              disabled={isRunning}
               className="flex-1"
             />
             <Button 
@@ -70,21 +150,20 @@ export const DeepResearchPanel: React.FC = () => {
           </div>
 
           {/* Progress Section */}
-          {researchState.status !== 'idle' && researchState.status !== 'completed' && (
+          {isRunning && (
             <div className="space-y-2 animate-in fade-in slide-in-from-top-4 duration-500">
               <div className="flex justify-between text-sm font-medium">
-                <span className="capitalize flex items-center gap-2">
-                  <Loader2 className="w-3 h-3 animate-spin" />
-                  {researchState.status}...
-                </span>
+                <span className="capitalize">{researchState.status}</span>
                 <span>{researchState.progress}%</span>
               </div>
               <Progress value={researchState.progress} className="h-2" />
-              <p className="text-xs text-muted-foreground italic">
-                {researchState.status === 'searching' && "Worker agents are scouring the web for information..."}
-                {researchState.status === 'analyzing' && "Extracting key insights and analyzing data..."}
-                {researchState.status === 'synthesizing' && "Fact-checking and synthesizing the final report..."}
-              </p>
+              <ScrollArea className="h-[240px] w-full rounded-md border p-3 bg-muted/20">
+                <ol className="space-y-1.5">
+                  {researchState.timeline.map((entry) => (
+                    <TimelineItem key={entry.key} entry={entry} />
+                  ))}
+                </ol>
+              </ScrollArea>
             </div>
           )}
 
@@ -146,9 +225,9 @@ export const DeepResearchPanel: React.FC = () => {
                     Sources & Citations
                   </h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                    {researchState.result.citations.map((citation, i) => (
-                      <div key={i} className="flex items-center gap-2 p-2 rounded border bg-muted/30 text-xs truncate">
-                        <Badge variant="outline" className="shrink-0">{i + 1}</Badge>
+                    {researchState.result.citations.map((citation) => (
+                      <div key={citation.id} className="flex items-center gap-2 p-2 rounded border bg-muted/30 text-xs truncate">
+                        <Badge variant="outline" className="shrink-0">{citation.number}</Badge>
                         <span className="font-medium truncate">{citation.title || citation.source}</span>
                         {citation.url && (
                           <a href={citation.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline ml-auto shrink-0">
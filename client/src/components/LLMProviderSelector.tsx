@@ -1,11 +1,21 @@
 import React from 'react';
-import { useLLMProvider } from '../_core/hooks/useLLMProvider';
+import { useLLMProvider, ModelCapabilities } from '../_core/hooks/useLLMProvider';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
-import { Brain, Zap, Cloud, Monitor, Info } from 'lucide-react';
+import { Button } from './ui/button';
+import { Brain, Zap, Cloud, Monitor, Info, Sparkles, Loader2, RefreshCw } from 'lucide-react';
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${+(tokens / 1_000_000).toFixed(1)}M` : `${Math.round(tokens / 1000)}K`;
+
+const formatCost = (cost: ModelCapabilities['cost']) => {
+  if (!cost) return null;
+  if (cost.promptCostPerMillion === 0 && cost.completionCostPerMillion === 0) return 'Free';
+  return `$${cost.promptCostPerMillion} / $${cost.completionCostPerMillion} per 1M`;
+};
 
 export const LLMProviderSelector: React.FC = () => {
   const {
@@ -15,14 +25,30 @@ export const LLMProviderSelector: React.FC = () => {
     setSelectedModel,
     apiKey,
     setApiKey,
+    selectedModelInfo,
     availableProviders,
-    currentProviderModels
+    unavailableProviders,
+    currentProviderModels,
+    isLoadingModels,
+    modelsError,
+    refreshModels
   } = useLLMProvider();
+  const [isRefreshing, setIsRefreshing] = React.useState(false);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshModels();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
 
   const getProviderIcon = (providerId: string) => {
     switch (providerId) {
       case 'openai': return <Zap className="w-4 h-4 text-yellow-500" />;
-      case 'google': return <Cloud className="w-4 h-4 text-blue-500" />;
+      case 'gemini': return <Cloud className="w-4 h-4 text-blue-500" />;
+      case 'anthropic': return <Sparkles className="w-4 h-4 text-orange-500" />;
       case 'ollama': return <Monitor className="w-4 h-4 text-green-500" />;
       default: return <Brain className="w-4 h-4" />;
     }
@@ -42,12 +68,35 @@ export const LLMProviderSelector: React.FC = () => {
       <CardContent className="space-y-6">
         {/* Provider Selection */}
         <div className="space-y-2">
-          <Label htmlFor="provider" className="text-sm font-semibold">AI Provider</Label>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="provider" className="text-sm font-semibold">AI Provider</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[10px]"
+              onClick={handleRefresh}
+              disabled={isLoadingModels || isRefreshing}
+            >
+              <RefreshCw className={`w-3 h-3 mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Refresh models
+            </Button>
+          </div>
+          {isLoadingModels && (
+            <p className="text-xs text-muted-foreground flex items-center gap-2">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading available models...
+            </p>
+          )}
+          {!isLoadingModels && availableProviders.length === 0 && (
+            <p className="text-xs text-destructive">
+              {modelsError ?? 'No provider is serving any models. Check the server configuration.'}
+            </p>
+          )}
           <div className="grid grid-cols-1 gap-2">
             {availableProviders.map((provider) => (
               <div
                 key={provider.id}
-                onClick={() => setSelectedProvider(provider.id as any)}
+                onClick={() => setSelectedProvider(provider.id)}
                 className={`
                   flex items-center justify-between p-3 rounded-lg border-2 cursor-pointer transition-all
                   ${selectedProvider === provider.id 
@@ -70,23 +119,43 @@ export const LLMProviderSelector: React.FC = () => {
               </div>
             ))}
           </div>
+          {unavailableProviders.length > 0 && (
+            <p className="text-[10px] text-muted-foreground">
+              Unavailable: {unavailableProviders.map((p) => p.provider).join(', ')}
+            </p>
+          )}
         </div>
 
         {/* Model Selection */}
         <div className="space-y-2">
           <Label htmlFor="model" className="text-sm font-semibold">Model</Label>
-          <Select value={selectedModel} onValueChange={setSelectedModel}>
+          <Select value={selectedModel} onValueChange={setSelectedModel} disabled={currentProviderModels.length === 0}>
             <SelectTrigger id="model" className="w-full">
               <SelectValue placeholder="Select a model" />
             </SelectTrigger>
             <SelectContent>
               {currentProviderModels.map((model) => (
-                <SelectItem key={model} value={model}>
-                  {model}
+                <SelectItem key={model.id} value={model.id}>
+                  {model.id}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          {selectedModelInfo && (
+            <div className="flex flex-wrap gap-1">
+              {selectedModelInfo.contextWindow !== null && (
+                <Badge variant="secondary" className="text-[10px] font-normal">
+                  {formatTokens(selectedModelInfo.contextWindow)} context
+                </Badge>
+              )}
+              {selectedModelInfo.tools && <Badge variant="secondary" className="text-[10px] font-normal">Tools</Badge>}
+              {selectedModelInfo.vision && <Badge variant="secondary" className="text-[10px] font-normal">Vision</Badge>}
+              {selectedModelInfo.jsonSchema && <Badge variant="secondary" className="text-[10px] font-normal">JSON schema</Badge>}
+              {formatCost(selectedModelInfo.cost) && (
+                <Badge variant="outline" className="text-[10px] font-normal">{formatCost(selectedModelInfo.cost)}</Badge>
+              )}
+            </div>
+          )}
         </div>
 
         {/* API Key (Optional) */}
@@ -116,7 +185,8 @@ export const LLMProviderSelector: React.FC = () => {
             <Info className="w-4 h-4 text-primary shrink-0 mt-0.5" />
             <div className="text-[11px] leading-relaxed text-muted-foreground">
               {selectedProvider === 'openai' && "OpenAI provides high-performance models like GPT-4. Requires a valid API key or server configuration."}
-              {selectedProvider === 'google' && "Google Gemini offers advanced reasoning and large context windows. Great for deep analysis."}
+              {selectedProvider === 'gemini' && "Google Gemini offers advanced reasoning and large context windows. Great for deep analysis."}
+              {selectedProvider === 'anthropic' && "Anthropic's Claude models handle long documents and tool use well. Requires an Anthropic API key on the server."}
               {selectedProvider === 'ollama' && "Ollama runs models locally on your machine. Maximum privacy and no API costs, but performance depends on your hardware."}
             </div>
           </div>
@@ -0,0 +1,130 @@
+CREATE TABLE `agent_tasks` (
+	`id` varchar(64) NOT NULL,
+	`researchPlanId` varchar(64) NOT NULL,
+	`parentTaskId` varchar(64),
+	`agentRole` enum('orchestrator','searcher','extractor','fact_checker','synthesizer') NOT NULL,
+	`description` text NOT NULL,
+	`context` text,
+	`status` enum('idle','thinking','executing','waiting','completed','failed') NOT NULL,
+	`result` text,
+	`error` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `agent_tasks_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `annotations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`messageId` int NOT NULL,
+	`userId` int NOT NULL,
+	`highlightedText` text NOT NULL,
+	`note` text NOT NULL,
+	`startOffset` int NOT NULL,
+	`endOffset` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `annotations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `attachments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`messageId` int NOT NULL,
+	`fileName` varchar(255) NOT NULL,
+	`fileKey` varchar(512) NOT NULL,
+	`fileUrl` text NOT NULL,
+	`mimeType` varchar(100) NOT NULL,
+	`fileSize` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `attachments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `chat_sessions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`description` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `chat_sessions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `citations` (
+	`id` varchar(64) NOT NULL,
+	`artifactId` varchar(64) NOT NULL,
+	`source` varchar(512) NOT NULL,
+	`url` text,
+	`title` text,
+	`accessedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `citations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `exports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`userId` int NOT NULL,
+	`format` enum('pdf','json','markdown') NOT NULL,
+	`fileKey` varchar(512) NOT NULL,
+	`fileUrl` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `exports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `insights` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`type` enum('summary','key_insights','multi_perspective') NOT NULL,
+	`content` text NOT NULL,
+	`generatedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `insights_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `messages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`role` enum('user','assistant') NOT NULL,
+	`content` text NOT NULL,
+	`metadata` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `messages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `research_artifacts` (
+	`id` varchar(64) NOT NULL,
+	`taskId` varchar(64) NOT NULL,
+	`sessionId` int NOT NULL,
+	`type` enum('source','finding','analysis','citation','verified') NOT NULL,
+	`content` text NOT NULL,
+	`metadata` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `research_artifacts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `research_memory` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`shortTermMemory` text,
+	`longTermMemory` text,
+	`lastUpdated` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `research_memory_id` PRIMARY KEY(`id`),
+	CONSTRAINT `research_memory_sessionId_unique` UNIQUE(`sessionId`)
+);
+--> statement-breakpoint
+CREATE TABLE `research_plans` (
+	`id` varchar(64) NOT NULL,
+	`sessionId` int NOT NULL,
+	`userId` int NOT NULL,
+	`query` text NOT NULL,
+	`objectives` text,
+	`strategy` text NOT NULL,
+	`estimatedSteps` int NOT NULL,
+	`status` enum('queued','running','completed','failed','cancelled') NOT NULL DEFAULT 'queued',
+	`llmModel` varchar(128),
+	`context` text,
+	`report` text,
+	`error` text,
+	`attempts` int NOT NULL DEFAULT 0,
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `research_plans_id` PRIMARY KEY(`id`)
+);
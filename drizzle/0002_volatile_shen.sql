@@ -0,0 +1 @@
+ALTER TABLE `agent_tasks` MODIFY COLUMN `agentRole` enum('orchestrator','searcher','extractor','fact_checker','synthesizer','financial_analyst') NOT NULL;
\ No newline at end of file
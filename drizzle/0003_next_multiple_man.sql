@@ -0,0 +1 @@
+ALTER TABLE `agent_tasks` ADD `steps` mediumtext;
\ No newline at end of file
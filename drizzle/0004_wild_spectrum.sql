@@ -0,0 +1,4 @@
+ALTER TABLE `citations` ADD `artifactIds` text;--> statement-breakpoint
+ALTER TABLE `citations` ADD `number` int;--> statement-breakpoint
+ALTER TABLE `citations` ADD `snippet` text;--> statement-breakpoint
+ALTER TABLE `citations` ADD `publishedAt` timestamp;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `research_plans` ADD `maxRounds` int;--> statement-breakpoint
+ALTER TABLE `research_plans` ADD `breadth` int;--> statement-breakpoint
+ALTER TABLE `research_plans` ADD `rounds` text;
\ No newline at end of file
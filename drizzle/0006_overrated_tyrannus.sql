@@ -0,0 +1,36 @@
+CREATE TABLE `holdings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`symbol` varchar(16) NOT NULL,
+	`quantity` double NOT NULL,
+	`costBasis` double NOT NULL,
+	`realizedGain` double NOT NULL DEFAULT 0,
+	`income` double NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `holdings_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `portfolios` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`description` text,
+	`benchmark` varchar(16) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `portfolios_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `transactions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`symbol` varchar(16) NOT NULL,
+	`type` enum('buy','sell','dividend') NOT NULL,
+	`quantity` double NOT NULL,
+	`price` double NOT NULL,
+	`fees` double NOT NULL DEFAULT 0,
+	`executedAt` timestamp NOT NULL,
+	`note` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `transactions_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,49 @@
+CREATE TABLE `alert_rules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`symbol` varchar(16) NOT NULL,
+	`type` enum('price_above','price_below','percent_move','fifty_two_week_high','earnings_upcoming','sentiment_flip') NOT NULL,
+	`threshold` double,
+	`channel` enum('inbox','owner') NOT NULL DEFAULT 'inbox',
+	`enabled` boolean NOT NULL DEFAULT true,
+	`state` text,
+	`snoozedUntil` timestamp,
+	`lastEvaluatedAt` timestamp,
+	`lastTriggeredAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `alert_rules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `alerts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`ruleId` int NOT NULL,
+	`symbol` varchar(16) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`content` text NOT NULL,
+	`dedupeKey` varchar(191) NOT NULL,
+	`channel` enum('inbox','owner') NOT NULL,
+	`readAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `alerts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `alerts_dedupeKey_unique` UNIQUE(`dedupeKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `watchlist_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`watchlistId` int NOT NULL,
+	`symbol` varchar(16) NOT NULL,
+	`note` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `watchlist_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `watchlists` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `watchlists_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `portfolios` ADD `reportingCurrency` varchar(3) DEFAULT 'USD' NOT NULL;
\ No newline at end of file
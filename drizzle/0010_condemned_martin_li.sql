@@ -0,0 +1,14 @@
+CREATE TABLE `analysis_reports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`kind` enum('stock','earnings_quality','comparison','sector','portfolio','dividends') NOT NULL,
+	`symbol` varchar(16),
+	`symbols` text NOT NULL,
+	`rating` varchar(16),
+	`priceTarget` double,
+	`confidence` double NOT NULL,
+	`model` varchar(128) NOT NULL,
+	`report` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `analysis_reports_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,37 @@
+CREATE TABLE `llm_usage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`sessionId` int,
+	`researchPlanId` varchar(64),
+	`agentRole` varchar(32),
+	`provider` varchar(32) NOT NULL,
+	`model` varchar(128) NOT NULL,
+	`promptTokens` int NOT NULL,
+	`completionTokens` int NOT NULL,
+	`totalTokens` int NOT NULL,
+	`costUsd` double NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `llm_usage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `model_costs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`model` varchar(128) NOT NULL,
+	`promptCostPerMillion` double NOT NULL,
+	`completionCostPerMillion` double NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `model_costs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `model_costs_model_unique` UNIQUE(`model`)
+);
+--> statement-breakpoint
+CREATE TABLE `usage_budgets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`tokenLimit` int,
+	`costLimitUsd` double,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `usage_budgets_id` PRIMARY KEY(`id`),
+	CONSTRAINT `usage_budgets_userId_unique` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+ALTER TABLE `research_plans` ADD `tokenBudget` int;
\ No newline at end of file
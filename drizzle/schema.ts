@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { boolean, double, int, mediumtext, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -111,6 +111,20 @@ export const researchPlans = mysqlTable("research_plans", {
   objectives: text("objectives"), // JSON array
   strategy: text("strategy").notNull(),
   estimatedSteps: int("estimatedSteps").notNull(),
+  // Background job state for the research run
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed", "cancelled"]).default("queued").notNull(),
+  llmModel: varchar("llmModel", { length: 128 }),
+  context: text("context"), // JSON
+  report: text("report"),
+  error: text("error"),
+  attempts: int("attempts").default(0).notNull(),
+  // Iterative search loop configuration and progress
+  maxRounds: int("maxRounds"),
+  breadth: int("breadth"),
+  tokenBudget: int("tokenBudget"),
+  rounds: text("rounds"), // JSON array of completed rounds
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -122,12 +136,13 @@ export const agentTasks = mysqlTable("agent_tasks", {
   id: varchar("id", { length: 64 }).primaryKey(),
   researchPlanId: varchar("researchPlanId", { length: 64 }).notNull(),
   parentTaskId: varchar("parentTaskId", { length: 64 }),
-  agentRole: mysqlEnum("agentRole", ["orchestrator", "searcher", "extractor", "fact_checker", "synthesizer"]).notNull(),
+  agentRole: mysqlEnum("agentRole", ["orchestrator", "searcher", "extractor", "fact_checker", "synthesizer", "financial_analyst"]).notNull(),
   description: text("description").notNull(),
   context: text("context"), // JSON
   status: mysqlEnum("status", ["idle", "thinking", "executing", "waiting", "completed", "failed"]).notNull(),
   result: text("result"), // JSON
   error: text("error"),
+  steps: mediumtext("steps"), // JSON array of model turns and tool runs, which can exceed text's 64 KB
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -151,9 +166,13 @@ export type InsertResearchArtifact = typeof researchArtifacts.$inferInsert;
 export const citations = mysqlTable("citations", {
   id: varchar("id", { length: 64 }).primaryKey(),
   artifactId: varchar("artifactId", { length: 64 }).notNull(),
+  artifactIds: text("artifactIds"), // JSON array of every artifact citing this source
+  number: int("number"), // Inline reference number in the report
   source: varchar("source", { length: 512 }).notNull(),
   url: text("url"),
   title: text("title"),
+  snippet: text("snippet"),
+  publishedAt: timestamp("publishedAt"),
   accessedAt: timestamp("accessedAt").defaultNow().notNull(),
 });
 
@@ -169,4 +188,193 @@ export const researchMemory = mysqlTable("research_memory", {
 });
 
 export type ResearchMemoryRecord = typeof researchMemory.$inferSelect;
-export type InsertResearchMemory = typeof researchMemory.$inferInsert;
\ No newline at end of file
+export type InsertResearchMemory = typeof researchMemory.$inferInsert;
+
+// Portfolio Tracking Tables
+
+export const portfolios = mysqlTable("portfolios", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  benchmark: varchar("benchmark", { length: 16 }).notNull(), // Symbol returns are compared against
+  reportingCurrency: varchar("reportingCurrency", { length: 3 }).default("USD").notNull(), // ISO 4217 code values are converted to
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Portfolio = typeof portfolios.$inferSelect;
+export type InsertPortfolio = typeof portfolios.$inferInsert;
+
+// Current positions, rebuilt from the portfolio's transactions
+export const holdings = mysqlTable("holdings", {
+  id: int("id").autoincrement().primaryKey(),
+  portfolioId: int("portfolioId").notNull(),
+  symbol: varchar("symbol", { length: 16 }).notNull(),
+  quantity: double("quantity").notNull(),
+  costBasis: double("costBasis").notNull(), // Average-cost basis of the open quantity, fees included
+  realizedGain: double("realizedGain").default(0).notNull(),
+  income: double("income").default(0).notNull(), // Dividends received, net of fees
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Holding = typeof holdings.$inferSelect;
+export type InsertHolding = typeof holdings.$inferInsert;
+
+export const transactions = mysqlTable("transactions", {
+  id: int("id").autoincrement().primaryKey(),
+  portfolioId: int("portfolioId").notNull(),
+  symbol: varchar("symbol", { length: 16 }).notNull(),
+  type: mysqlEnum("type", ["buy", "sell", "dividend"]).notNull(),
+  quantity: double("quantity").notNull(), // Shares traded, or shares paid on for dividends
+  price: double("price").notNull(), // Per-share trade price or dividend
+  fees: double("fees").default(0).notNull(),
+  executedAt: timestamp("executedAt").notNull(),
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertTransaction = typeof transactions.$inferInsert;
+
+// Watchlist and Alert Tables
+
+export const watchlists = mysqlTable("watchlists", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Watchlist = typeof watchlists.$inferSelect;
+export type InsertWatchlist = typeof watchlists.$inferInsert;
+
+export const watchlistItems = mysqlTable("watchlist_items", {
+  id: int("id").autoincrement().primaryKey(),
+  watchlistId: int("watchlistId").notNull(),
+  symbol: varchar("symbol", { length: 16 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+export type InsertWatchlistItem = typeof watchlistItems.$inferInsert;
+
+export const alertRules = mysqlTable("alert_rules", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  symbol: varchar("symbol", { length: 16 }).notNull(),
+  type: mysqlEnum("type", [
+    "price_above",
+    "price_below",
+    "percent_move",
+    "fifty_two_week_high",
+    "earnings_upcoming",
+    "sentiment_flip",
+  ]).notNull(),
+  threshold: double("threshold"), // Price level, percent move or days ahead, depending on type
+  channel: mysqlEnum("channel", ["inbox", "owner"]).default("inbox").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  state: text("state"), // JSON of the values seen at the last evaluation
+  snoozedUntil: timestamp("snoozedUntil"),
+  lastEvaluatedAt: timestamp("lastEvaluatedAt"),
+  lastTriggeredAt: timestamp("lastTriggeredAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = typeof alertRules.$inferInsert;
+
+// Triggered alerts; doubles as the in-app inbox and the de-duplication ledger
+export const alerts = mysqlTable("alerts", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  ruleId: int("ruleId").notNull(),
+  symbol: varchar("symbol", { length: 16 }).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  content: text("content").notNull(),
+  dedupeKey: varchar("dedupeKey", { length: 191 }).notNull().unique(),
+  channel: mysqlEnum("channel", ["inbox", "owner"]).notNull(),
+  readAt: timestamp("readAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = typeof alerts.$inferInsert;
+
+// Saved stock screens
+export const savedScreens = mysqlTable("saved_screens", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  definition: text("definition").notNull(), // JSON of the screen's filter and sort
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SavedScreen = typeof savedScreens.$inferSelect;
+export type InsertSavedScreen = typeof savedScreens.$inferInsert;
+
+// Structured financial analyst reports, kept so analyses can be compared over time
+export const analysisReports = mysqlTable("analysis_reports", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  kind: mysqlEnum("kind", ["stock", "earnings_quality", "comparison", "sector", "portfolio", "dividends"]).notNull(),
+  symbol: varchar("symbol", { length: 16 }), // Set for single-symbol kinds
+  symbols: text("symbols").notNull(), // JSON array of every symbol covered
+  rating: varchar("rating", { length: 16 }),
+  priceTarget: double("priceTarget"), // Base case of the report's price target
+  confidence: double("confidence").notNull(),
+  model: varchar("model", { length: 128 }).notNull(),
+  report: text("report").notNull(), // JSON of the report
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AnalysisReportRow = typeof analysisReports.$inferSelect;
+export type InsertAnalysisReport = typeof analysisReports.$inferInsert;
+
+// Tokens spent by every LLM call, with its cost at the time of the call
+export const llmUsage = mysqlTable("llm_usage", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId"), // Null for calls made outside a user's request
+  sessionId: int("sessionId"),
+  researchPlanId: varchar("researchPlanId", { length: 64 }),
+  agentRole: varchar("agentRole", { length: 32 }),
+  provider: varchar("provider", { length: 32 }).notNull(),
+  model: varchar("model", { length: 128 }).notNull(),
+  promptTokens: int("promptTokens").notNull(),
+  completionTokens: int("completionTokens").notNull(),
+  totalTokens: int("totalTokens").notNull(),
+  costUsd: double("costUsd").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = typeof llmUsage.$inferInsert;
+
+// Per-model token prices, overriding the built-in defaults
+export const modelCosts = mysqlTable("model_costs", {
+  id: int("id").autoincrement().primaryKey(),
+  model: varchar("model", { length: 128 }).notNull().unique(), // Matches models starting with this name
+  promptCostPerMillion: double("promptCostPerMillion").notNull(), // USD per million prompt tokens
+  completionCostPerMillion: double("completionCostPerMillion").notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ModelCost = typeof modelCosts.$inferSelect;
+export type InsertModelCost = typeof modelCosts.$inferInsert;
+
+// Per-user overrides of the default usage budget; null columns keep the default
+export const usageBudgets = mysqlTable("usage_budgets", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  tokenLimit: int("tokenLimit"), // Tokens per budget period; 0 is unlimited
+  costLimitUsd: double("costLimitUsd"), // USD per budget period; 0 is unlimited
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type UsageBudget = typeof usageBudgets.$inferSelect;
+export type InsertUsageBudget = typeof usageBudgets.$inferInsert;
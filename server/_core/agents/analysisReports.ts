@@ -0,0 +1,235 @@
+/**
+ * Financial Analysis Reports
+ * Typed results of the financial analyst's analyses, generated as structured
+ * output and stored so analyses of the same symbol can be compared over time
+ */
+
+import { z } from "zod";
+import { StructuredOutput } from "../llm";
+
+/** Ratings from most to least favourable */
+export const RATINGS = ["strong_buy", "buy", "hold", "sell", "strong_sell"] as const;
+export type Rating = (typeof RATINGS)[number];
+
+export const REPORT_KINDS = ["stock", "earnings_quality", "comparison", "sector", "portfolio", "dividends"] as const;
+export type ReportKind = (typeof REPORT_KINDS)[number];
+
+/** Kinds about one symbol; the others rank several */
+export const SINGLE_SYMBOL_KINDS: ReportKind[] = ["stock", "earnings_quality"];
+
+const priceTargetSchema = z
+  .object({
+    low: z.number().positive(),
+    base: z.number().positive(),
+    high: z.number().positive(),
+    currency: z.string().describe("ISO 4217 code of the prices"),
+    horizonMonths: z.number().int().min(1).max(60),
+  })
+  .refine((target) => target.low <= target.base && target.base <= target.high, {
+    message: "Price target range must satisfy low <= base <= high",
+  });
+
+const metricSchema = z.object({
+  name: z.string().min(1).describe("Metric as named in the data, e.g. P/E Ratio"),
+  value: z.number(),
+  unit: z.string().describe('e.g. "%", "x" or a currency code; empty for plain numbers'),
+  source: z.string().describe("Where the value came from, e.g. Key Metrics, [DCF] or a filing"),
+});
+
+const riskSchema = z.object({
+  description: z.string().min(1),
+  severity: z.enum(["low", "medium", "high"]),
+});
+
+const reportFields = {
+  summary: z.string().min(1).describe("The full analysis in Markdown, covering every point requested"),
+  thesis: z.string().min(1).describe("The investment thesis in two or three sentences"),
+  strengths: z.array(z.string().min(1)).max(10),
+  weaknesses: z.array(z.string().min(1)).max(10),
+  risks: z.array(riskSchema).max(10),
+  confidence: z.number().min(0).max(1).describe("Confidence in the conclusions, from 0 to 1"),
+  metricsCited: z.array(metricSchema).max(30).describe("Every figure the analysis relies on"),
+};
+
+export const stockReportSchema = z.object({
+  ...reportFields,
+  valuation: z.object({
+    method: z.string().min(1).describe("Model or multiples the fair value rests on"),
+    fairValue: z.number().positive().nullable().describe("Fair value per share, or null when it cannot be derived"),
+    summary: z.string().min(1),
+  }),
+  rating: z.enum(RATINGS),
+  priceTarget: priceTargetSchema.nullable().describe("Null when the data does not support a target"),
+});
+
+export const multiStockReportSchema = z.object({
+  ...reportFields,
+  valuation: z.string().min(1).describe("Relative valuation of the stocks"),
+  positions: z
+    .array(
+      z.object({
+        symbol: z.string().min(1),
+        rating: z.enum(RATINGS),
+        priceTarget: priceTargetSchema.nullable(),
+        allocationPercent: z.number().min(0).max(100).nullable().describe("Suggested weight, or null outside portfolios"),
+        rationale: z.string().min(1),
+      })
+    )
+    .describe("Each stock discussed, best first"),
+});
+
+export type StockReport = z.infer<typeof stockReportSchema>;
+export type MultiStockReport = z.infer<typeof multiStockReportSchema>;
+export type AnalysisReport = StockReport | MultiStockReport;
+export type PriceTarget = z.infer<typeof priceTargetSchema>;
+
+export const stockReportOutput: StructuredOutput<StockReport> = {
+  name: "stock_analysis_report",
+  schema: stockReportSchema,
+};
+
+export const multiStockReportOutput: StructuredOutput<MultiStockReport> = {
+  name: "multi_stock_analysis_report",
+  schema: multiStockReportSchema,
+};
+
+export function isStockReport(report: AnalysisReport): report is StockReport {
+  return "rating" in report;
+}
+
+/**
+ * A stored report as compared by diffReports
+ */
+export interface DatedReport {
+  id: number;
+  createdAt: Date;
+  report: AnalysisReport;
+}
+
+export interface ValueChange {
+  from: number | null;
+  to: number | null;
+  change: number | null;
+  /** Relative change as a percentage; null when either side is missing or zero */
+  changePercent: number | null;
+}
+
+export interface RatingChange {
+  from: Rating | null;
+  to: Rating | null;
+  direction: "upgrade" | "downgrade" | "unchanged";
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface ReportDiff {
+  from: { id: number; createdAt: Date };
+  to: { id: number; createdAt: Date };
+  thesisChanged: boolean;
+  rating: RatingChange;
+  priceTarget: ValueChange;
+  fairValue: ValueChange;
+  confidence: ValueChange;
+  strengths: ListChange;
+  weaknesses: ListChange;
+  risks: ListChange;
+  /** Metrics cited by either report, matched by name and unit */
+  metrics: Array<ValueChange & { name: string; unit: string }>;
+  /** Per-symbol changes for multi-stock reports */
+  positions: Array<{ symbol: string; rating: RatingChange; priceTarget: ValueChange }>;
+}
+
+function valueChange(from: number | null | undefined, to: number | null | undefined): ValueChange {
+  const a = from ?? null;
+  const b = to ?? null;
+  return {
+    from: a,
+    to: b,
+    change: a === null || b === null ? null : b - a,
+    changePercent: a === null || b === null || a === 0 ? null : ((b - a) / Math.abs(a)) * 100,
+  };
+}
+
+function ratingChange(from: Rating | null | undefined, to: Rating | null | undefined): RatingChange {
+  const a = from ?? null;
+  const b = to ?? null;
+  const order = (rating: Rating | null) => (rating === null ? -1 : RATINGS.indexOf(rating));
+  let direction: RatingChange["direction"] = "unchanged";
+  if (a !== null && b !== null && a !== b) direction = order(b) < order(a) ? "upgrade" : "downgrade";
+  return { from: a, to: b, direction };
+}
+
+// Items are matched ignoring case, spacing and trailing punctuation
+function normalizeItem(item: string): string {
+  return item.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.;]+$/, "");
+}
+
+function listChange(from: string[], to: string[]): ListChange {
+  const before = new Set(from.map(normalizeItem));
+  const after = new Set(to.map(normalizeItem));
+  return {
+    added: to.filter((item) => !before.has(normalizeItem(item))),
+    removed: from.filter((item) => !after.has(normalizeItem(item))),
+  };
+}
+
+function metricChanges(from: AnalysisReport, to: AnalysisReport): ReportDiff["metrics"] {
+  const key = (metric: { name: string; unit: string }) => `${normalizeItem(metric.name)}|${metric.unit}`;
+  const before = new Map(from.metricsCited.map((metric): [string, (typeof from.metricsCited)[number]] => [key(metric), metric]));
+  const after = new Map(to.metricsCited.map((metric): [string, (typeof to.metricsCited)[number]] => [key(metric), metric]));
+  const keys = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+  return keys.map((metricKey) => {
+    const metric = (after.get(metricKey) ?? before.get(metricKey))!;
+    return {
+      name: metric.name,
+      unit: metric.unit,
+      ...valueChange(before.get(metricKey)?.value, after.get(metricKey)?.value),
+    };
+  });
+}
+
+function positionChanges(from: AnalysisReport, to: AnalysisReport): ReportDiff["positions"] {
+  const positions = (report: AnalysisReport) =>
+    new Map(isStockReport(report) ? [] : report.positions.map((p): [string, MultiStockReport["positions"][number]] => [p.symbol.toUpperCase(), p]));
+  const before = positions(from);
+  const after = positions(to);
+  const symbols = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())])).sort();
+  return symbols.map((symbol) => ({
+    symbol,
+    rating: ratingChange(before.get(symbol)?.rating, after.get(symbol)?.rating),
+    priceTarget: valueChange(before.get(symbol)?.priceTarget?.base, after.get(symbol)?.priceTarget?.base),
+  }));
+}
+
+/**
+ * What changed between two reports, older first: rating moves, price target
+ * and fair value moves, confidence, and the strengths, weaknesses, risks and
+ * metrics that appeared or went away
+ */
+export function diffReports(older: DatedReport, newer: DatedReport): ReportDiff {
+  const a = older.report;
+  const b = newer.report;
+  const stockA = isStockReport(a) ? a : undefined;
+  const stockB = isStockReport(b) ? b : undefined;
+
+  return {
+    from: { id: older.id, createdAt: older.createdAt },
+    to: { id: newer.id, createdAt: newer.createdAt },
+    thesisChanged: normalizeItem(a.thesis) !== normalizeItem(b.thesis),
+    rating: ratingChange(stockA?.rating, stockB?.rating),
+    priceTarget: valueChange(stockA?.priceTarget?.base, stockB?.priceTarget?.base),
+    fairValue: valueChange(stockA?.valuation.fairValue, stockB?.valuation.fairValue),
+    confidence: valueChange(a.confidence, b.confidence),
+    strengths: listChange(a.strengths, b.strengths),
+    weaknesses: listChange(a.weaknesses, b.weaknesses),
+    risks: listChange(
+      a.risks.map((risk) => risk.description),
+      b.risks.map((risk) => risk.description)
+    ),
+    metrics: metricChanges(a, b),
+    positions: positionChanges(a, b),
+  };
+}
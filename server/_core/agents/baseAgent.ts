@@ -3,9 +3,32 @@
  * Provides common functionality for all agent types
  */
 
-import { invokeLLM, Message, Tool } from "../llm";
+import {
+  invokeLLM,
+  Message,
+  Tool,
+  ToolCall,
+  StructuredOutput,
+  StructuredOutputError,
+  structuredOutputMode,
+  routesForModel,
+  responseFormatFor,
+  schemaInstruction,
+  parseStructured,
+  repairInstruction,
+  UsageScope,
+} from "../llm";
 import { getCurrentDateTime } from "./tools/timeDate";
-import { AgentRole, AgentStatus, AgentTask } from "./types";
+import { AgentLoopOptions, AgentRole, AgentStep, AgentStatus, AgentTask } from "./types";
+
+export type ToolCallResult = {
+  toolCallId: string;
+  toolName: string;
+  result?: unknown;
+  error?: string;
+};
+
+export type TaskUpdateListener = (task: AgentTask) => void;
 
 export abstract class BaseAgent {
   protected role: AgentRole;
@@ -13,6 +36,11 @@ export abstract class BaseAgent {
   protected maxTokens: number = 8192;
   protected temperature: number = 0.7;
   protected systemPrompt: string = "";
+  protected maxIterations: number = 6;
+  protected tokenBudget: number = 100_000;
+  protected maxRepairs: number = 2;
+  protected usageScope: UsageScope = {};
+  private taskUpdateListeners: TaskUpdateListener[] = [];
 
   constructor(role: AgentRole, model: string = "gemini-2.5-flash") {
     this.role = role;
@@ -20,47 +48,178 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Execute the agent with a given task
+   * Execute the agent with a given task. Tool calls are run and their results
+   * fed back to the model until it answers without calling tools.
+   *
+   * With `output`, the answer must be JSON matching the schema; it is parsed
+   * into `task.result`, and invalid answers are sent back for repair.
    */
-  async execute(task: AgentTask): Promise<AgentTask> {
+  async execute(task: AgentTask, output?: StructuredOutput<unknown>): Promise<AgentTask> {
     try {
-      task.status = "thinking";
-      task.updatedAt = new Date();
+      task.error = undefined;
+      task.cause = undefined;
+      const steps: AgentStep[] = [];
+      task.steps = steps;
+      this.setTaskStatus(task, "thinking");
 
       const messages = this.buildMessages(task);
       const tools = this.getTools();
+      let tokensUsed = 0;
+      let repairs = 0;
 
-      const result = await invokeLLM({
-        messages,
-        tools: tools.length > 0 ? tools : undefined,
-        maxTokens: this.maxTokens,
-        model: this.model,
-      });
-
-      const assistantMessage = result.choices[0]?.message;
-      if (!assistantMessage) {
-        throw new Error("No response from LLM");
+      const outputMode = output ? structuredOutputMode(routesForModel(this.model).routes) : undefined;
+      if (output && outputMode === "json_object") {
+        messages.push(schemaInstruction(output));
       }
 
-      // Handle tool calls if present
-      if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-        task.status = "executing";
-        task.result = await this.handleToolCalls(assistantMessage.tool_calls, task);
-      } else {
-        task.result = assistantMessage.content;
+      for (let iteration = 1; ; iteration++) {
+        if (tokensUsed >= this.tokenBudget) {
+          throw new Error(`Token budget of ${this.tokenBudget} exhausted after ${iteration - 1} model calls`);
+        }
+
+        // On the last iteration tools are withheld so the model must answer
+        const allowTools = tools.length > 0 && iteration < this.maxIterations;
+
+        const result = await invokeLLM({
+          messages,
+          tools: allowTools ? tools : undefined,
+          maxTokens: this.maxTokens,
+          model: this.model,
+          responseFormat: output && outputMode ? responseFormatFor(output, outputMode) : undefined,
+        }, { ...this.usageScope, agentRole: this.role });
+
+        const assistantMessage = result.choices[0]?.message;
+        if (!assistantMessage) {
+          throw new Error("No response from LLM");
+        }
+
+        tokensUsed += result.usage?.total_tokens ?? 0;
+
+        const toolCalls = allowTools ? assistantMessage.tool_calls ?? [] : [];
+        steps.push({
+          type: "model",
+          iteration,
+          content: this.contentToText(assistantMessage.content),
+          toolCalls,
+          usage: result.usage,
+          provider: result.provider,
+          model: result.model,
+          at: new Date(),
+        });
+
+        if (toolCalls.length === 0) {
+          if (!output) {
+            task.result = assistantMessage.content;
+            break;
+          }
+
+          const text = this.contentToText(assistantMessage.content);
+          const parsed = parseStructured(text, output);
+          if (parsed.success) {
+            task.result = parsed.data;
+            break;
+          }
+
+          if (repairs >= this.maxRepairs) {
+            throw new StructuredOutputError(`Invalid ${output.name} output: ${parsed.error}`, text);
+          }
+          repairs++;
+          messages.push({ role: "assistant", content: assistantMessage.content }, repairInstruction(parsed.error));
+          continue;
+        }
+
+        if (task.status !== "executing") {
+          this.setTaskStatus(task, "executing");
+        }
+
+        messages.push({
+          role: "assistant",
+          content: assistantMessage.content,
+          tool_calls: toolCalls,
+        });
+
+        const toolResults = await this.handleToolCalls(toolCalls, task);
+
+        toolResults.forEach((toolResult, index) => {
+          steps.push({
+            type: "tool",
+            iteration,
+            toolCallId: toolResult.toolCallId,
+            toolName: toolResult.toolName,
+            arguments: toolCalls[index].function.arguments,
+            result: toolResult.result,
+            error: toolResult.error,
+            at: new Date(),
+          });
+
+          messages.push({
+            role: "tool",
+            tool_call_id: toolResult.toolCallId,
+            name: toolResult.toolName,
+            content: JSON.stringify(
+              toolResult.error !== undefined ? { error: toolResult.error } : toolResult.result ?? null
+            ),
+          });
+        });
       }
 
-      task.status = "completed";
-      task.updatedAt = new Date();
+      this.setTaskStatus(task, "completed");
     } catch (error) {
-      task.status = "failed";
       task.error = error instanceof Error ? error.message : String(error);
-      task.updatedAt = new Date();
+      task.cause = error;
+      this.setTaskStatus(task, "failed");
     }
 
     return task;
   }
 
+  /**
+   * Model the agent runs on
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Attribute subsequent model calls to a user, session or research and hold
+   * them to its budgets
+   */
+  setUsageScope(scope: UsageScope): void {
+    this.usageScope = scope;
+  }
+
+  /**
+   * Override the tool-calling loop limits for subsequent executions
+   */
+  configureLoop(options: Partial<AgentLoopOptions>): void {
+    if (options.maxIterations !== undefined) this.maxIterations = Math.max(1, options.maxIterations);
+    if (options.tokenBudget !== undefined) this.tokenBudget = options.tokenBudget;
+    if (options.maxRepairs !== undefined) this.maxRepairs = Math.max(0, options.maxRepairs);
+  }
+
+  /**
+   * Register a listener that is called on every task status transition
+   */
+  onTaskUpdate(listener: TaskUpdateListener): void {
+    this.taskUpdateListeners.push(listener);
+  }
+
+  /**
+   * Move a task to a new status and notify listeners
+   */
+  protected setTaskStatus(task: AgentTask, status: AgentStatus): void {
+    task.status = status;
+    task.updatedAt = new Date();
+
+    for (const listener of this.taskUpdateListeners) {
+      try {
+        listener(task);
+      } catch (error) {
+        console.error("Task update listener failed:", error);
+      }
+    }
+  }
+
   /**
    * Build messages for the LLM call
    */
@@ -113,10 +272,10 @@ export abstract class BaseAgent {
    * Handle tool calls from the LLM
    */
   protected async handleToolCalls(
-    toolCalls: Array<{ id: string; function: { name: string; arguments: string } }>,
+    toolCalls: ToolCall[],
     task: AgentTask
-  ): Promise<unknown> {
-    const results = [];
+  ): Promise<ToolCallResult[]> {
+    const results: ToolCallResult[] = [];
 
     for (const toolCall of toolCalls) {
       try {
@@ -151,6 +310,13 @@ export abstract class BaseAgent {
     }
   }
 
+  private contentToText(content: Message["content"]): string {
+    const parts = Array.isArray(content) ? content : [content];
+    return parts
+      .map((part) => (typeof part === "string" ? part : part.type === "text" ? part.text : ""))
+      .join("");
+  }
+
   /**
    * Get the role of this agent
    */
@@ -0,0 +1,256 @@
+/**
+ * Citation Registry
+ * Turns the search results and pages behind each finding into numbered,
+ * de-duplicated citations that reports can reference as [1], [2], ...
+ */
+
+import { nanoid } from "nanoid";
+import { AgentTask, Citation } from "./types";
+
+export interface SourceReference {
+  url: string;
+  canonicalUrl?: string;
+  title?: string;
+  source?: string;
+  snippet?: string;
+  publishedDate?: Date;
+  /** Whether the page was fetched, rather than only seen in search results */
+  fetched: boolean;
+}
+
+const TRACKING_PARAMS = /^(utm_.+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/**
+ * Normalize a URL so the same page reached through different links compares
+ * equal: lower-case host without www, no fragment, no tracking parameters,
+ * sorted query and no trailing slash.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = "";
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  if ((parsed.protocol === "https:" && parsed.port === "443") || (parsed.protocol === "http:" && parsed.port === "80")) {
+    parsed.port = "";
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  }
+
+  return parsed.toString();
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value !== "string") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * A fetched page or search result: an object with at least a URL
+ */
+function hasUrl(value: unknown): value is Record<string, unknown> & { url: string } {
+  return typeof value === "object" && value !== null && typeof (value as { url?: unknown }).url === "string";
+}
+
+/**
+ * A web_search result: an object listing its results
+ */
+function hasResults(value: unknown): value is { results: unknown[] } {
+  return typeof value === "object" && value !== null && Array.isArray((value as { results?: unknown }).results);
+}
+
+/**
+ * Collect the sources a worker saw while executing a task, from the
+ * web_search and fetch_url tool runs recorded in its steps.
+ */
+export function collectSources(task: AgentTask): SourceReference[] {
+  const sources: SourceReference[] = [];
+
+  for (const step of task.steps ?? []) {
+    if (step.type !== "tool" || step.error !== undefined) continue;
+    const result: unknown = step.result;
+
+    if (step.toolName === "fetch_url" && hasUrl(result)) {
+      sources.push({
+        url: result.url,
+        canonicalUrl: optionalString(result.canonicalUrl),
+        title: optionalString(result.title),
+        snippet: optionalString(result.content)?.slice(0, 280),
+        publishedDate: toDate(result.publishedDate),
+        fetched: true,
+      });
+    } else if (step.toolName === "web_search" && hasResults(result)) {
+      for (const item of result.results) {
+        if (!hasUrl(item)) continue;
+        sources.push({
+          url: item.url,
+          title: optionalString(item.title),
+          source: optionalString(item.source),
+          snippet: optionalString(item.snippet),
+          publishedDate: toDate(item.publishedDate),
+          fetched: false,
+        });
+      }
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Pick the sources a finding actually relies on: every fetched page, plus
+ * search results the answer mentions. If the answer names none of them, all
+ * search results are kept, since they were the only evidence available.
+ */
+export function selectCitedSources(sources: SourceReference[], answer: string): SourceReference[] {
+  const fetched = sources.filter((source) => source.fetched);
+  const fetchedUrls = new Set(
+    fetched.flatMap((source) => [source.url, source.canonicalUrl ?? source.url].map(canonicalizeUrl))
+  );
+
+  const searchResults = sources.filter(
+    (source) => !source.fetched && !fetchedUrls.has(canonicalizeUrl(source.url))
+  );
+  const mentioned = searchResults.filter(
+    (source) => answer.includes(source.url) || answer.includes(canonicalizeUrl(source.url))
+  );
+
+  if (fetched.length === 0 && mentioned.length === 0) {
+    return searchResults;
+  }
+  return [...fetched, ...mentioned];
+}
+
+function sourceName(source: SourceReference): string {
+  if (source.source) return source.source;
+  try {
+    return new URL(source.url).hostname.replace(/^www\./, "");
+  } catch {
+    return source.url;
+  }
+}
+
+export class CitationRegistry {
+  private citations: Citation[];
+  private byUrl: Map<string, Citation> = new Map();
+
+  /**
+   * Citations are appended to the given array so callers can share it
+   */
+  constructor(citations: Citation[] = []) {
+    this.citations = citations;
+    for (const citation of citations) {
+      this.byUrl.set(canonicalizeUrl(citation.url), citation);
+    }
+  }
+
+  /**
+   * Register the sources behind an artifact and return their citations.
+   * A page seen again (under any alias) reuses its existing number.
+   */
+  cite(artifactId: string, sources: SourceReference[]): Citation[] {
+    const cited: Citation[] = [];
+
+    for (const source of sources) {
+      const aliases = [source.url, source.canonicalUrl ?? source.url].map(canonicalizeUrl);
+      let citation = aliases.map((alias) => this.byUrl.get(alias)).find(Boolean);
+
+      if (!citation) {
+        citation = {
+          id: nanoid(),
+          number: this.citations.length + 1,
+          artifactId,
+          artifactIds: [],
+          source: sourceName(source),
+          url: canonicalizeUrl(source.canonicalUrl ?? source.url),
+          title: source.title,
+          snippet: source.snippet,
+          publishedDate: source.publishedDate,
+          accessedAt: new Date(),
+        };
+        this.citations.push(citation);
+      } else {
+        // Prefer details from a fetched page over a search result snippet
+        if (source.fetched) {
+          citation.title = source.title ?? citation.title;
+          citation.publishedDate = source.publishedDate ?? citation.publishedDate;
+        }
+      }
+
+      for (const alias of aliases) {
+        this.byUrl.set(alias, citation);
+      }
+      this.link(citation, artifactId);
+      if (!cited.includes(citation)) cited.push(citation);
+    }
+
+    return cited;
+  }
+
+  /**
+   * Attach a derived artifact (analysis, verification) to the citations of
+   * the artifact it came from
+   */
+  inherit(artifactId: string, sourceArtifactId: string): Citation[] {
+    const inherited = this.citations.filter((citation) => citation.artifactIds.includes(sourceArtifactId));
+    for (const citation of inherited) {
+      this.link(citation, artifactId);
+    }
+    return inherited;
+  }
+
+  all(): Citation[] {
+    return this.citations;
+  }
+
+  private link(citation: Citation, artifactId: string): void {
+    if (!citation.artifactIds.includes(artifactId)) {
+      citation.artifactIds.push(artifactId);
+    }
+  }
+}
+
+/**
+ * Drop inline references that do not resolve to a citation and append a
+ * numbered reference list.
+ */
+export function finalizeReferences(report: string, citations: Citation[]): string {
+  if (citations.length === 0) return report;
+
+  const numbers = new Set(citations.map((citation) => citation.number));
+  const body = report
+    .replace(/(\s*)\[(\d+(?:\s*,\s*\d+)*)\]/g, (match, space: string, group: string) => {
+      const valid = group
+        .split(",")
+        .map((n) => parseInt(n.trim(), 10))
+        .filter((n) => numbers.has(n));
+      return valid.length > 0 ? space + valid.map((n) => `[${n}]`).join("") : "";
+    })
+    .trimEnd();
+
+  const references = [...citations]
+    .sort((a, b) => a.number - b.number)
+    .map((citation) => {
+      const title = citation.title ? `${citation.title} — ` : "";
+      return `[${citation.number}] ${title}${citation.source}. ${citation.url}`;
+    });
+
+  return `${body}\n\n## References\n\n${references.join("\n")}`;
+}
@@ -13,11 +13,200 @@ import {
   getEarningsInfo,
   getStockNews,
   getFinancialStatements,
+  getRecentHistory,
+  adjustedPriceBars,
+  HistoricalData,
+  MarketDataError,
+  convertQuote,
+  ConvertedQuote,
 } from "./tools/yahooFinance";
+import {
+  annualizedVolatility,
+  bollingerBands,
+  macd,
+  maxDrawdown,
+  movingAverageCrossover,
+  periodReturn,
+  rsi,
+  sharpeRatio,
+  simpleReturns,
+  sortinoRatio,
+  supportResistance,
+} from "./tools/indicators";
+import { PortfolioContext } from "./tools/portfolio";
+import { BacktestRequest, runBacktest } from "./tools/backtest";
+import { runScreen, ScreenRow } from "./tools/screener";
+import { formatValuation, ValuationError, valueStock } from "./tools/valuation";
+import {
+  factValue,
+  filingFormSchema,
+  filingLabel,
+  FilingDocument,
+  formatFacts,
+  loadLatestFiling,
+  RESEARCH_SECTIONS,
+  truncateSection,
+} from "./tools/edgar";
+import { formatConverted, formatFxRate, formatMoney, FxError, FxRate } from "./tools/fx";
+import { ENV } from "../env";
 import { AgentTask } from "./types";
+import { BudgetExceededError, StructuredOutput, Tool } from "../llm";
+import { MultiStockReport, multiStockReportOutput, StockReport, stockReportOutput } from "./analysisReports";
 import { nanoid } from "nanoid";
 
+// Screened stocks handed to the analyst when looking for dividend ideas
+const DIVIDEND_CANDIDATES = 10;
+
+// Characters of filing text handed to the model per section
+const FILING_EXCERPT_CHARS = 3000;
+const TOOL_SECTION_MAX_CHARS = 8000;
+
+/**
+ * How converted amounts are written in a prompt, or nothing when the stock is
+ * already quoted in the reporting currency
+ */
+function conversionNote(fx: FxRate): string {
+  if (fx.source === "identity" && fx.rate === 1) return "";
+  return `\nAmounts are in ${fx.to} with native ${fx.from} values in parentheses (${formatFxRate(fx)}). Quote both when citing a price.`;
+}
+
+function formatDividend(amount: number | null, currency: string, row: ScreenRow): string {
+  if (amount === null) return "n/a";
+  const converted = formatMoney(amount, currency);
+  if (!row.nativeCurrency || row.nativeCurrency === currency || !row.fxRate) return converted;
+  return `${converted} (native ${formatMoney(amount / row.fxRate, row.nativeCurrency)})`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "n/a" : `${value.toFixed(2)}%`;
+}
+
+/**
+ * Reported figures, accrual measures and the MD&A of a filing, labelled so
+ * the model can cite it
+ */
+function formatFilingEvidence({ filing, facts, sections }: FilingDocument): string {
+  const netIncome = factValue(facts, "netIncome");
+  const operatingCashFlow = factValue(facts, "operatingCashFlow");
+  const totalAssets = factValue(facts, "totalAssets");
+  const mdna = sections.find((section) => section.key === "mdna");
+
+  const lines = [
+    `[${filing.form} ${filing.accessionNumber}] ${filing.companyName} ${filingLabel(filing)}, period ended ${filing.reportDate}`,
+    filing.url,
+    "",
+    "Reported XBRL facts:",
+    formatFacts(facts) || "- none tagged",
+  ];
+  if (netIncome !== undefined && operatingCashFlow !== undefined) {
+    lines.push(
+      `- Cash conversion (operating cash flow / net income): ${(operatingCashFlow / netIncome).toFixed(2)}x`
+    );
+    if (totalAssets) {
+      lines.push(
+        `- Accruals ratio ((net income - operating cash flow) / total assets): ${formatPercent(((netIncome - operatingCashFlow) / totalAssets) * 100)}`
+      );
+    }
+  }
+  lines.push("", "MD&A excerpt:", mdna ? truncateSection(mdna.content, FILING_EXCERPT_CHARS).content : "not found in the filing");
+
+  return lines.join("\n");
+}
+
+/**
+ * Failures callers tell apart: market data errors (unknown symbol, rate
+ * limit), a spent usage budget and unworkable valuation or currency requests
+ */
+function isTypedFailure(error: unknown): error is Error {
+  return (
+    error instanceof MarketDataError ||
+    error instanceof BudgetExceededError ||
+    error instanceof ValuationError ||
+    error instanceof FxError
+  );
+}
+
+/**
+ * Wrap a failure with context, keeping typed failures intact
+ */
+function analysisError(message: string, error: unknown): Error {
+  if (isTypedFailure(error)) return error;
+  return new Error(`${message}: ${error}`);
+}
+
+/**
+ * Indicator tool definition taking a ticker symbol plus optional parameters
+ */
+function symbolTool(name: string, description: string, properties: Record<string, unknown>): Tool {
+  return {
+    type: "function",
+    function: {
+      name,
+      description,
+      parameters: {
+        type: "object",
+        properties: {
+          symbol: {
+            type: "string",
+            description: "Stock ticker symbol, e.g. AAPL",
+          },
+          ...properties,
+        },
+        required: ["symbol"],
+      },
+    },
+  };
+}
+
+function numberParam(description: string) {
+  return { type: "number", description };
+}
+
+function backtestRequestFromArgs(args: Record<string, unknown>): BacktestRequest {
+  const symbol = args.symbol as string;
+  let strategy: BacktestRequest["strategy"];
+  if (args.strategy === "rebalance") {
+    strategy = {
+      type: "rebalance",
+      weights: args.weights as Record<string, number>,
+      frequency: args.frequency as "monthly" | "quarterly" | "annually" | undefined,
+    };
+  } else if (args.strategy === "rsi") {
+    strategy = {
+      type: "rsi",
+      symbol,
+      period: args.period as number | undefined,
+      buyBelow: args.buyBelow as number | undefined,
+      sellAbove: args.sellAbove as number | undefined,
+    };
+  } else if (args.strategy === "ma_crossover") {
+    strategy = {
+      type: "ma_crossover",
+      symbol,
+      fastPeriod: args.fastPeriod as number | undefined,
+      slowPeriod: args.slowPeriod as number | undefined,
+    };
+  } else {
+    throw new Error(`Unknown backtest strategy: ${args.strategy}`);
+  }
+
+  return {
+    strategy,
+    startDate: args.startDate as string | undefined,
+    endDate: args.endDate as string | undefined,
+    initialCapital: args.initialCapital as number | undefined,
+    commission: {
+      perTrade: args.commissionPerTrade as number | undefined,
+      rate: args.commissionRate as number | undefined,
+    },
+    slippageBps: args.slippageBps as number | undefined,
+  };
+}
+
 export class FinancialAnalystAgent extends BaseAgent {
+  private portfolio?: PortfolioContext;
+  private reportingCurrency = ENV.reportingCurrency;
+
   constructor(model: string = "gemini-2.5-flash") {
     super("financial_analyst", model);
     this.maxTokens = 12288;
@@ -32,32 +221,317 @@ export class FinancialAnalystAgent extends BaseAgent {
 
 Use available financial data to provide comprehensive, data-driven analysis.
 Always cite specific metrics and ratios in your analysis.
-Provide clear recommendations with risk assessments.`;
+Provide clear recommendations with risk assessments.
+Use the indicator tools to compute returns, risk and technical signals from price history rather than estimating them.`;
+  }
+
+  /**
+   * Currency prices and amounts are reported in; defaults to REPORTING_CURRENCY
+   */
+  setReportingCurrency(currency: string) {
+    this.reportingCurrency = currency;
+  }
+
+  /**
+   * Ground subsequent analyses in the holdings of a portfolio
+   */
+  setPortfolio(portfolio: PortfolioContext | undefined) {
+    this.portfolio = portfolio;
+  }
+
+  /**
+   * Run an analysis whose answer must be a report matching the schema
+   */
+  private async executeReport<T>(task: AgentTask, output: StructuredOutput<T>): Promise<T> {
+    const result = await this.execute(task, output as StructuredOutput<unknown>);
+    if (result.status === "failed") {
+      throw isTypedFailure(result.cause) ? result.cause : new Error(`${output.name} failed: ${result.error}`);
+    }
+    return result.result as T;
+  }
+
+  protected formatTaskDescription(task: AgentTask): string {
+    const description = super.formatTaskDescription(task);
+    if (!this.portfolio) return description;
+
+    const { name, benchmark, valuation } = this.portfolio;
+    const money = (amount: number) => formatMoney(amount, valuation.currency);
+    const open = valuation.positions.filter((position) => position.quantity > 0);
+    const positions = open
+      .map(
+        (p) =>
+          `- ${p.symbol}: ${p.quantity} shares, average cost ${money(p.averageCost)}, ` +
+          `value ${money(p.marketValue)} (${p.weight.toFixed(1)}% of portfolio), ` +
+          `unrealized ${formatPercent(p.unrealizedGainPercent)}` +
+          (p.nativeCurrency === valuation.currency
+            ? ""
+            : `, price ${money(p.price)} (native ${formatMoney(p.nativePrice, p.nativeCurrency)})`)
+      )
+      .join("\n");
+
+    return `${description}
+
+Current portfolio "${name}" (benchmark ${benchmark}, ${valuation.source} prices as of ${valuation.asOf.toISOString()}, amounts in ${valuation.currency} with cost at historical exchange rates):
+${positions || "- No open positions"}
+Total value ${money(valuation.totalMarketValue)}, cost basis ${money(valuation.totalCostBasis)}, realized gains ${money(valuation.totalRealizedGain)}, dividend income ${money(valuation.totalIncome)}
+
+Ground recommendations in these holdings: account for existing exposure, concentration and unrealized gains.`;
+  }
+
+  protected getTools(): Tool[] {
+    return [
+      ...super.getTools(),
+      symbolTool("performance_metrics", "Period returns, annualized volatility, Sharpe and Sortino ratios and max drawdown", {
+        lookbackDays: numberParam("Calendar days of daily history to use (default: 380)"),
+        riskFreeRate: numberParam("Annual risk-free rate as a fraction, e.g. 0.04 (default: configured rate)"),
+      }),
+      symbolTool("rsi", "Relative Strength Index with Wilder smoothing", {
+        period: numberParam("Lookback period in trading days (default: 14)"),
+      }),
+      symbolTool("macd", "MACD line, signal line and histogram", {
+        fastPeriod: numberParam("Fast EMA period (default: 12)"),
+        slowPeriod: numberParam("Slow EMA period (default: 26)"),
+        signalPeriod: numberParam("Signal EMA period (default: 9)"),
+      }),
+      symbolTool("bollinger_bands", "Bollinger bands, bandwidth and %B of the latest close", {
+        period: numberParam("Moving average period (default: 20)"),
+        stdDevs: numberParam("Band width in standard deviations (default: 2)"),
+      }),
+      symbolTool("support_resistance", "Support and resistance levels from swing-high and swing-low pivots", {
+        window: numberParam("Bars on each side a pivot must exceed (default: 3)"),
+        lookbackDays: numberParam("Calendar days of daily history to search (default: 180)"),
+      }),
+      symbolTool("moving_average_trend", "Trend and latest golden or death cross of two simple moving averages", {
+        fastPeriod: numberParam("Fast moving average period (default: 50)"),
+        slowPeriod: numberParam("Slow moving average period (default: 200)"),
+      }),
+      {
+        type: "function",
+        function: {
+          name: "backtest_strategy",
+          description:
+            "Backtest a strategy over historical prices to validate a recommendation. Reports CAGR, max drawdown, Sharpe ratio, turnover and recent trades.",
+          parameters: {
+            type: "object",
+            properties: {
+              strategy: {
+                type: "string",
+                enum: ["ma_crossover", "rsi", "rebalance"],
+                description:
+                  "ma_crossover: hold while the fast SMA is above the slow one; rsi: buy below one RSI level and sell above another; rebalance: hold fixed weights, rebalanced periodically",
+              },
+              symbol: {
+                type: "string",
+                description: "Ticker for ma_crossover and rsi strategies",
+              },
+              fastPeriod: numberParam("ma_crossover fast SMA period (default: 50)"),
+              slowPeriod: numberParam("ma_crossover slow SMA period (default: 200)"),
+              period: numberParam("rsi lookback period (default: 14)"),
+              buyBelow: numberParam("rsi level to buy below (default: 30)"),
+              sellAbove: numberParam("rsi level to sell above (default: 70)"),
+              weights: {
+                type: "object",
+                description: "rebalance target weights by ticker as fractions summing to at most 1, e.g. {\"AAPL\": 0.6, \"KO\": 0.4}",
+                additionalProperties: { type: "number" },
+              },
+              frequency: {
+                type: "string",
+                enum: ["monthly", "quarterly", "annually"],
+                description: "rebalance frequency (default: monthly)",
+              },
+              startDate: {
+                type: "string",
+                description: "First trading date (YYYY-MM-DD, default: a year before endDate)",
+              },
+              endDate: {
+                type: "string",
+                description: "Last trading date (YYYY-MM-DD, default: latest quote)",
+              },
+              initialCapital: numberParam("Starting cash (default: 100000)"),
+              commissionPerTrade: numberParam("Fixed commission per fill (default: 0)"),
+              commissionRate: numberParam("Commission as a fraction of each fill's notional (default: 0)"),
+              slippageBps: numberParam("Slippage per fill in basis points (default: 5)"),
+            },
+            required: ["strategy"],
+          },
+        },
+      },
+      symbolTool(
+        "valuation",
+        "DCF valuation with WACC/terminal-growth and growth/margin sensitivity tables, plus a trading-comparables valuation at peer median P/E, P/B and P/S. Cite results as [DCF] and [COMPS].",
+        {
+          revenueGrowth: numberParam("Annual revenue growth in percent (default: historical growth fading to terminal growth)"),
+          fcfMargin: numberParam("Free cash flow margin in percent (default: historical average)"),
+          wacc: numberParam("Discount rate in percent (default: CAPM cost of equity)"),
+          terminalGrowth: numberParam("Terminal growth in percent (default: 2.5)"),
+          years: numberParam("Projection years (default: 5)"),
+          peers: {
+            type: "array",
+            items: { type: "string" },
+            description: "Peer tickers for comparables (default: same-sector stocks in the screening universe)",
+          },
+        }
+      ),
+      symbolTool(
+        "sec_filings",
+        "Latest 10-K, 10-Q or 8-K from SEC EDGAR: XBRL financial facts and section text such as Risk Factors and MD&A. Cite as [FORM accession number].",
+        {
+          form: {
+            type: "string",
+            enum: filingFormSchema.options,
+            description: "Filing form (default: 10-K)",
+          },
+          sections: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Section keys to return, e.g. risk_factors, mdna, business, market_risk, item_2.02 (default: risk_factors and mdna; every item of an 8-K)",
+          },
+        }
+      ),
+    ];
+  }
+
+  protected async executeTool(toolName: string, args: Record<string, unknown>): Promise<unknown> {
+    const symbol = args.symbol as string;
+    const option = (name: string, fallback: number) => (args[name] as number | undefined) ?? fallback;
+
+    switch (toolName) {
+      case "performance_metrics": {
+        const riskFreeRate = option("riskFreeRate", ENV.riskFreeRate);
+        return this.withHistory(symbol, option("lookbackDays", 380), (closes) => {
+          const returns = simpleReturns(closes);
+          return {
+            oneMonthReturn: periodReturn(closes, 21),
+            threeMonthReturn: periodReturn(closes, 63),
+            sixMonthReturn: periodReturn(closes, 126),
+            oneYearReturn: periodReturn(closes, 252),
+            volatility: annualizedVolatility(returns),
+            sharpeRatio: sharpeRatio(returns, riskFreeRate),
+            sortinoRatio: sortinoRatio(returns, riskFreeRate),
+            maxDrawdown: maxDrawdown(closes)?.maxDrawdown ?? null,
+            riskFreeRate,
+          };
+        });
+      }
+      case "rsi":
+        return this.withHistory(symbol, 380, (closes) => ({ rsi: rsi(closes, option("period", 14)) }));
+      case "macd":
+        return this.withHistory(symbol, 380, (closes) =>
+          macd(closes, option("fastPeriod", 12), option("slowPeriod", 26), option("signalPeriod", 9))
+        );
+      case "bollinger_bands":
+        return this.withHistory(symbol, 380, (closes) =>
+          bollingerBands(closes, option("period", 20), option("stdDevs", 2))
+        );
+      case "support_resistance":
+        return this.withHistory(symbol, option("lookbackDays", 180), (closes, history) =>
+          supportResistance(
+            adjustedPriceBars(history),
+            closes[closes.length - 1],
+            option("window", 3)
+          )
+        );
+      case "moving_average_trend": {
+        const slowPeriod = option("slowPeriod", 200);
+        // Trading days to calendar days, with room for holidays
+        const lookbackDays = Math.max(380, Math.ceil(slowPeriod * 1.5) + 30);
+        return this.withHistory(symbol, lookbackDays, (closes, history) => {
+          const crossover = movingAverageCrossover(closes, option("fastPeriod", 50), slowPeriod);
+          return (
+            crossover && {
+              ...crossover,
+              lastCrossover: crossover.lastCrossover
+                ? { type: crossover.lastCrossover.type, date: history[crossover.lastCrossover.index].date }
+                : null,
+            }
+          );
+        });
+      }
+      case "valuation":
+        return valueStock({
+          symbol,
+          assumptions: {
+            revenueGrowth: args.revenueGrowth as number | undefined,
+            fcfMargin: args.fcfMargin as number | undefined,
+            wacc: args.wacc as number | undefined,
+            terminalGrowth: args.terminalGrowth as number | undefined,
+            years: args.years as number | undefined,
+          },
+          peers: args.peers as string[] | undefined,
+        });
+      case "sec_filings": {
+        const document = await loadLatestFiling(symbol, filingFormSchema.parse(String(args.form ?? "10-K").toUpperCase()));
+        const wanted = args.sections as string[] | undefined;
+        const include = (key: string) =>
+          wanted ? wanted.includes(key) : document.filing.form === "8-K" || RESEARCH_SECTIONS.includes(key);
+        return {
+          filing: document.filing,
+          facts: document.facts,
+          availableSections: document.sections.map((section) => section.key),
+          sections: document.sections
+            .filter((section) => include(section.key))
+            .map((section) => ({ ...section, ...truncateSection(section.content, TOOL_SECTION_MAX_CHARS) })),
+        };
+      }
+      case "backtest_strategy": {
+        const { equityCurve, trades, ...result } = await runBacktest(backtestRequestFromArgs(args));
+        return { ...result, recentTrades: trades.slice(-20) };
+      }
+      default:
+        return super.executeTool(toolName, args);
+    }
+  }
+
+  /**
+   * Run an indicator over the symbol's recent daily closes. A null result
+   * means the history was too short for the requested periods.
+   */
+  private async withHistory(
+    symbol: string,
+    lookbackDays: number,
+    compute: (closes: number[], history: HistoricalData[]) => unknown
+  ): Promise<unknown> {
+    const { quote, history } = await getRecentHistory(symbol, lookbackDays);
+    const closes = history.map((bar) => bar.adjClose);
+    const result = compute(closes, history);
+    return {
+      symbol: quote.symbol,
+      bars: history.length,
+      asOf: quote.asOf.toISOString(),
+      source: quote.source,
+      result: result ?? "Insufficient history for the requested periods",
+    };
   }
 
   /**
    * Analyze a single stock
    */
-  async analyzeStock(symbol: string): Promise<string> {
+  async analyzeStock(symbol: string): Promise<StockReport> {
     try {
       // Gather comprehensive stock data
-      const quote = await getStockQuote(symbol);
+      const quote = await convertQuote(await getStockQuote(symbol), this.reportingCurrency);
+      const money = (amount: number, options?: { compact?: boolean }) => formatConverted(amount, quote.fx, options);
       const profile = await getCompanyProfile(symbol);
       const metrics = await getKeyMetrics(symbol);
       const analyst = await getAnalystRecommendations(symbol);
       const performance = await analyzeStockPerformance(symbol);
       const earnings = await getEarningsInfo(symbol);
       const news = await getStockNews(symbol);
+      // A stock the models cannot value is still analyzed, without a modeled target
+      const valuation = await valueStock({ symbol })
+        .then(formatValuation)
+        .catch((error) => `Valuation models unavailable: ${error instanceof Error ? error.message : error}`);
 
       // Build analysis message
       const analysisPrompt = `
-Analyze the following stock data for ${symbol}:
+Analyze the following stock data for ${symbol} (${quote.source} data as of ${quote.asOf.toISOString()}):${conversionNote(quote.fx)}
 
 Current Quote:
-- Price: $${quote.price} (${quote.changePercent > 0 ? "+" : ""}${quote.changePercent}%)
-- Market Cap: $${(quote.marketCap / 1e12).toFixed(2)}T
+- Price: ${money(quote.price)} (${quote.changePercent > 0 ? "+" : ""}${quote.changePercent}%)
+- Market Cap: ${money(quote.marketCap, { compact: true })}
 - P/E Ratio: ${quote.peRatio}
-- 52-Week Range: $${quote.fiftyTwoWeekLow} - $${quote.fiftyTwoWeekHigh}
+- 52-Week Range: ${money(quote.fiftyTwoWeekLow)} - ${money(quote.fiftyTwoWeekHigh)}
 
 Company Profile:
 - Name: ${profile.name}
@@ -73,71 +547,86 @@ Key Metrics:
 
 Performance Analysis:
 - Trend: ${performance.technicalAnalysis.trend}
-- 1-Year Return: ${performance.performanceMetrics.oneYearReturn}%
-- Volatility: ${performance.performanceMetrics.volatility}%
-- Sharpe Ratio: ${performance.performanceMetrics.sharpeRatio}
+- 1-Year Return: ${formatPercent(performance.performanceMetrics.oneYearReturn)}
+- Volatility: ${formatPercent(performance.performanceMetrics.volatility)}
+- Sharpe Ratio: ${performance.performanceMetrics.sharpeRatio?.toFixed(2) ?? "n/a"}
+- Sortino Ratio: ${performance.performanceMetrics.sortinoRatio?.toFixed(2) ?? "n/a"}
+- Max Drawdown: ${formatPercent(performance.performanceMetrics.maxDrawdown)}
+- RSI (14): ${performance.technicalAnalysis.rsi?.toFixed(1) ?? "n/a"}
+- MACD: ${performance.technicalAnalysis.macd}
+- Support / Resistance: ${money(performance.technicalAnalysis.support)} / ${money(performance.technicalAnalysis.resistance)}
 
 Analyst Consensus:
-- Target Price: $${analyst.targetPrice}
+- Target Price: ${money(analyst.targetPrice)}
 - Rating: ${analyst.rating}
 - Number of Analysts: ${analyst.numberOfAnalysts}
 
 Recent Earnings:
-- Last EPS: $${earnings.lastEarningsPerShare}
+- Last EPS: ${money(earnings.lastEarningsPerShare)}
 - Next Earnings: ${earnings.nextEarningsDate}
 
 Recent News Sentiment: ${news.map((n) => n.sentiment).join(", ")}
 
+Valuation Models (in ${quote.currency}):
+${valuation}
+
 Provide a comprehensive analysis including:
 1. Investment thesis
 2. Key strengths and weaknesses
 3. Valuation assessment
 4. Risk factors
-5. Price target and recommendation`;
+5. Price target and recommendation
+
+Derive the price target from the valuation models above and cite [DCF] or [COMPS] for every valuation figure you quote. If the models are unavailable, say so rather than inventing a target.`;
 
       // Execute analysis through LLM
       const task: AgentTask = {
         id: `analysis-${symbol}-${nanoid()}`,
         agentRole: "extractor",
         description: analysisPrompt,
-        context: { symbol },
+        context: { symbol, reportingCurrency: this.reportingCurrency, fx: quote.fx },
         status: "idle",
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const result = await this.execute(task);
-      return result.result as string;
+      return await this.executeReport(task, stockReportOutput);
     } catch (error) {
-      throw new Error(`Failed to analyze stock ${symbol}: ${error}`);
+      throw analysisError(`Failed to analyze stock ${symbol}`, error);
     }
   }
 
   /**
    * Compare multiple stocks
    */
-  async compareStocks(symbols: string[]): Promise<string> {
+  async compareStocks(symbols: string[]): Promise<MultiStockReport> {
     try {
-      const quotes = await Promise.all(symbols.map((s) => getStockQuote(s)));
+      const quotes: ConvertedQuote[] = await Promise.all(
+        symbols.map(async (s) => convertQuote(await getStockQuote(s), this.reportingCurrency))
+      );
       const metrics = await Promise.all(symbols.map((s) => getKeyMetrics(s)));
 
       const comparisonData = symbols.map((symbol, index) => ({
         symbol,
-        price: quotes[index].price,
+        quote: quotes[index],
         peRatio: metrics[index].peRatio,
         roe: metrics[index].roe,
         debtToEquity: metrics[index].debtToEquity,
         profitMargin: metrics[index].profitMargin,
       }));
+      const rates = Array.from(new Set(quotes.filter((q) => q.fx.source !== "identity").map((q) => formatFxRate(q.fx))));
 
       const comparisonPrompt = `
-Compare the following stocks:
+Compare the following stocks, with prices in ${this.reportingCurrency}${
+        rates.length > 0 ? ` and native values in parentheses (${rates.join("; ")})` : ""
+      }:
 
 ${comparisonData
   .map(
     (data) => `
 ${data.symbol}:
-- Price: $${data.price}
+- Price: ${formatConverted(data.quote.price, data.quote.fx)}
+- Market Cap: ${formatConverted(data.quote.marketCap, data.quote.fx, { compact: true })}
 - P/E Ratio: ${data.peRatio}
 - ROE: ${data.roe}%
 - Debt-to-Equity: ${data.debtToEquity}
@@ -156,23 +645,22 @@ Provide a detailed comparison including:
         id: `comparison-${symbols.join("-")}-${nanoid()}`,
         agentRole: "extractor",
         description: comparisonPrompt,
-        context: { symbols },
+        context: { symbols, reportingCurrency: this.reportingCurrency },
         status: "idle",
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const result = await this.execute(task);
-      return result.result as string;
+      return await this.executeReport(task, multiStockReportOutput);
     } catch (error) {
-      throw new Error(`Failed to compare stocks: ${error}`);
+      throw analysisError("Failed to compare stocks", error);
     }
   }
 
   /**
    * Analyze sector trends
    */
-  async analyzeSectorTrends(sector: string, symbols: string[]): Promise<string> {
+  async analyzeSectorTrends(sector: string, symbols: string[]): Promise<MultiStockReport> {
     try {
       const sectorAnalysisPrompt = `
 Analyze trends in the ${sector} sector based on the following stocks: ${symbols.join(", ")}
@@ -195,10 +683,9 @@ Provide analysis on:
         updatedAt: new Date(),
       };
 
-      const result = await this.execute(task);
-      return result.result as string;
+      return await this.executeReport(task, multiStockReportOutput);
     } catch (error) {
-      throw new Error(`Failed to analyze sector trends: ${error}`);
+      throw analysisError("Failed to analyze sector trends", error);
     }
   }
 
@@ -209,11 +696,11 @@ Provide analysis on:
     investmentAmount: number,
     riskTolerance: "Low" | "Medium" | "High",
     investmentHorizon: string
-  ): Promise<string> {
+  ): Promise<MultiStockReport> {
     try {
       const portfolioPrompt = `
 Generate a portfolio recommendation with the following parameters:
-- Investment Amount: $${investmentAmount}
+- Investment Amount: ${formatMoney(investmentAmount, this.reportingCurrency)}
 - Risk Tolerance: ${riskTolerance}
 - Investment Horizon: ${investmentHorizon}
 
@@ -235,20 +722,37 @@ Provide:
         updatedAt: new Date(),
       };
 
-      const result = await this.execute(task);
-      return result.result as string;
+      return await this.executeReport(task, multiStockReportOutput);
     } catch (error) {
-      throw new Error(`Failed to generate portfolio recommendation: ${error}`);
+      throw analysisError("Failed to generate portfolio recommendation", error);
     }
   }
 
   /**
-   * Identify dividend opportunities
+   * Identify dividend opportunities among the screening universe
    */
-  async findDividendOpportunities(minYield: number): Promise<string> {
+  async findDividendOpportunities(minYield: number): Promise<MultiStockReport> {
     try {
+      const screen = await runScreen({
+        filter: { field: "dividendYield", op: "gte", value: minYield },
+        sort: [{ field: "dividendYield", direction: "desc" }],
+        pageSize: DIVIDEND_CANDIDATES,
+        reportingCurrency: this.reportingCurrency,
+      });
+      const candidates = screen.results
+        .map(
+          (row) =>
+            `- ${row.symbol} (${row.name}, ${row.sector ?? "sector n/a"}): yield ${formatPercent(row.dividendYield)}, ` +
+            `annual dividend ${formatDividend(row.annualDividend, screen.currency, row)}, payout ratio ${formatPercent(row.payoutRatio)}, ` +
+            `P/E ${row.peRatio ?? "n/a"}, debt to equity ${row.debtToEquity ?? "n/a"}`
+        )
+        .join("\n");
+
       const dividendPrompt = `
-Identify dividend investment opportunities with minimum yield of ${minYield}%:
+Identify dividend investment opportunities with minimum yield of ${minYield}%.
+
+Screened candidates (${screen.total} of ${screen.universeSize} stocks in the universe match, highest yield first; ${screen.source} data as of ${screen.cachedAt.toISOString()}):
+${candidates || "- None of the screened stocks meet the minimum yield"}
 
 Analyze:
 1. High-yield dividend stocks
@@ -256,39 +760,52 @@ Analyze:
 3. Payout ratio sustainability
 4. Dividend safety assessment
 5. Tax efficiency considerations
-6. Sector diversification in dividend portfolio`;
+6. Sector diversification in dividend portfolio
+
+Base the recommendations on the screened candidates; say so if there are none.`;
 
       const task: AgentTask = {
         id: `dividend-search-${nanoid()}`,
         agentRole: "extractor",
         description: dividendPrompt,
-        context: { minYield },
+        context: { minYield, candidates: screen.results.map((row) => row.symbol) },
         status: "idle",
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const result = await this.execute(task);
-      return result.result as string;
+      return await this.executeReport(task, multiStockReportOutput);
     } catch (error) {
-      throw new Error(`Failed to find dividend opportunities: ${error}`);
+      throw analysisError("Failed to find dividend opportunities", error);
     }
   }
 
   /**
    * Assess earnings quality
    */
-  async assessEarningsQuality(symbol: string): Promise<string> {
+  async assessEarningsQuality(symbol: string): Promise<StockReport> {
     try {
+      // Earnings and statements are reported in the quote's currency
+      const quote = await convertQuote(await getStockQuote(symbol), this.reportingCurrency);
+      const money = (amount: number, options?: { compact?: boolean }) => formatConverted(amount, quote.fx, options);
       const earnings = await getEarningsInfo(symbol);
       const statements = await getFinancialStatements(symbol, "annual");
+      // Without a filing the assessment falls back to the market data statements
+      let filing: FilingDocument | undefined;
+      let filingEvidence: string;
+      try {
+        filing = await loadLatestFiling(symbol, "10-K");
+        filingEvidence = formatFilingEvidence(filing);
+      } catch (error) {
+        filingEvidence = `SEC filings unavailable: ${error instanceof Error ? error.message : error}`;
+      }
 
       const earningsQualityPrompt = `
-Assess the earnings quality for ${symbol}:
+Assess the earnings quality for ${symbol}:${conversionNote(quote.fx)}
 
 Earnings History:
 ${earnings.earningsHistory
-  .map((e) => `- ${e.date}: EPS $${e.eps}, Revenue $${e.revenue}, Surprise ${e.surprise}%`)
+  .map((e) => `- ${e.date}: EPS ${money(e.eps)}, Revenue ${money(e.revenue, { compact: true })}, Surprise ${e.surprise}%`)
   .join("\n")}
 
 Financial Statements:
@@ -296,34 +813,42 @@ ${statements
   .map(
     (s) => `
 - Date: ${s.date}
-- Operating Cash Flow: $${s.operatingCashFlow}
-- Free Cash Flow: $${s.freeCashFlow}
-- Net Income: $${s.netIncome}`
+- Operating Cash Flow: ${money(s.operatingCashFlow, { compact: true })}
+- Free Cash Flow: ${money(s.freeCashFlow, { compact: true })}
+- Net Income: ${money(s.netIncome, { compact: true })}`
   )
   .join("\n")}
 
+Latest Annual Report (SEC EDGAR):
+${filingEvidence}
+
 Evaluate:
 1. Earnings consistency and predictability
 2. Cash flow quality
 3. Accrual patterns
 4. Revenue growth sustainability
 5. One-time items and adjustments
-6. Overall earnings quality rating`;
+6. Overall earnings quality rating${
+        filing
+          ? `
+
+Prefer the reported filing figures over the market data statements where they differ, and cite the filing as [${filing.filing.form} ${filing.filing.accessionNumber}] for every figure or statement taken from it.`
+          : ""
+      }`;
 
       const task: AgentTask = {
         id: `earnings-quality-${symbol}-${nanoid()}`,
         agentRole: "extractor",
         description: earningsQualityPrompt,
-        context: { symbol },
+        context: { symbol, reportingCurrency: this.reportingCurrency, fx: quote.fx, filing: filing?.filing ?? null },
         status: "idle",
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const result = await this.execute(task);
-      return result.result as string;
+      return await this.executeReport(task, stockReportOutput);
     } catch (error) {
-      throw new Error(`Failed to assess earnings quality: ${error}`);
+      throw analysisError("Failed to assess earnings quality", error);
     }
   }
 }
@@ -3,19 +3,29 @@
  */
 
 export { BaseAgent } from "./baseAgent";
+export type { TaskUpdateListener, ToolCallResult } from "./baseAgent";
 export { OrchestratorAgent } from "./orchestratorAgent";
 export { SearchAgent, ExtractionAgent, FactCheckAgent } from "./workerAgents";
 export { MemoryManager } from "./memoryManager";
 export { ResearchCoordinator } from "./researchCoordinator";
+export { ResearchEventBus, researchEventBus } from "./researchEvents";
+export { MAX_RESEARCH_BREADTH } from "./types";
 export type {
   AgentRole,
   AgentStatus,
   AgentTask,
+  AgentStep,
+  AgentLoopOptions,
   ResearchPlan,
   ResearchArtifact,
   Citation,
   ResearchMemory,
   WorkerAgentConfig,
   OrchestratorState,
+  ResearchPhase,
+  ResearchEvent,
+  ResearchLimits,
+  ResearchRound,
+  ResearchStopReason,
 } from "./types";
-export type { ResearchRequest, ResearchResult } from "./researchCoordinator";
+export type { ResearchRequest, ResearchResult, ResearchRunOptions } from "./researchCoordinator";
@@ -4,9 +4,53 @@
  */
 
 import { BaseAgent } from "./baseAgent";
-import { AgentTask, OrchestratorState, ResearchPlan, ResearchArtifact, Citation } from "./types";
-import { Tool } from "../llm";
+import { AgentTask, OrchestratorState, ResearchPlan, ResearchArtifact, Citation, MAX_RESEARCH_BREADTH } from "./types";
+import { StructuredOutput, Tool } from "../llm";
 import { nanoid } from "nanoid";
+import { z } from "zod";
+import { finalizeReferences } from "./citations";
+
+const researchPlanOutput: StructuredOutput<{
+  objectives: string[];
+  strategy: string;
+  estimatedSteps: number;
+}> = {
+  name: "research_plan",
+  schema: z.object({
+    objectives: z.array(z.string().min(1)).min(1).max(8).describe("Concrete questions the research must answer"),
+    strategy: z.string().min(1).describe("How the research will be carried out"),
+    estimatedSteps: z.number().int().min(1).max(50).describe("Number of research steps expected"),
+  }),
+};
+
+const taskDecompositionOutput: StructuredOutput<{
+  tasks: Array<{ description: string }>;
+}> = {
+  name: "task_decomposition",
+  schema: z.object({
+    tasks: z
+      .array(z.object({ description: z.string().min(1).describe("A self-contained search task") }))
+      .min(1)
+      .max(MAX_RESEARCH_BREADTH),
+  }),
+};
+
+const completenessOutput: StructuredOutput<{
+  isComplete: boolean;
+  gaps: string[];
+}> = {
+  name: "completeness_evaluation",
+  schema: z.object({
+    isComplete: z.boolean().describe("Whether the findings answer every objective"),
+    gaps: z.array(z.string()).max(MAX_RESEARCH_BREADTH).describe("Missing information, as follow-up research tasks"),
+  }),
+};
+
+/** Description of the report synthesis task, by which a checkpoint's synthesis is found */
+export const SYNTHESIS_DESCRIPTION =
+  "Synthesize all research findings into a comprehensive report. Support every claim with inline " +
+  "references to the numbered sources, e.g. [1] or [2][3], using only the numbers listed in `sources` " +
+  "and the `sources` of the artifact the claim comes from. Do not add a reference list; one is appended automatically.";
 
 export class OrchestratorAgent extends BaseAgent {
   private state: OrchestratorState;
@@ -49,16 +93,16 @@ When planning research, consider:
       updatedAt: new Date(),
     };
 
-    const result = await this.execute(planTask);
+    const { objectives, strategy, estimatedSteps } = await this.executeStructured(planTask, researchPlanOutput);
 
     const plan: ResearchPlan = {
       id: nanoid(),
       sessionId: this.state.sessionId,
       userId: 0, // Will be set by caller
       query,
-      objectives: this.extractObjectives(result.result as string),
-      strategy: result.result as string,
-      estimatedSteps: this.estimateSteps(result.result as string),
+      objectives,
+      strategy,
+      estimatedSteps,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -84,10 +128,18 @@ When planning research, consider:
       updatedAt: new Date(),
     };
 
-    const result = await this.execute(decompositionTask);
-    const tasks = this.parseTasksFromResponse(result.result as string);
+    const { tasks } = await this.executeStructured(decompositionTask, taskDecompositionOutput);
 
-    return tasks;
+    return tasks.map((task) => ({
+      id: nanoid(),
+      parentTaskId: decompositionTask.id,
+      agentRole: "searcher",
+      description: task.description,
+      context: {},
+      status: "idle",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }));
   }
 
   /**
@@ -95,19 +147,32 @@ When planning research, consider:
    */
   async synthesizeFindings(
     artifacts: ResearchArtifact[],
-    citations: Citation[]
+    citations: Citation[],
+    saved?: AgentTask
   ): Promise<string> {
+    // A synthesis completed by an interrupted run is not paid for twice
+    if (saved?.status === "completed" && saved.result !== undefined) {
+      return finalizeReferences(String(saved.result), citations);
+    }
+
     const synthesisTask: AgentTask = {
       id: nanoid(),
       agentRole: "orchestrator",
-      description: "Synthesize all research findings into a comprehensive report",
+      description: SYNTHESIS_DESCRIPTION,
       context: {
         artifacts: artifacts.map((a) => ({
           id: a.id,
           type: a.type,
           content: a.content,
+          sources: a.metadata.citationNumbers ?? [],
+        })),
+        sources: citations.map((c) => ({
+          number: c.number,
+          title: c.title,
+          source: c.source,
+          url: c.url,
+          publishedDate: c.publishedDate,
         })),
-        citationCount: citations.length,
       },
       status: "idle",
       createdAt: new Date(),
@@ -115,7 +180,7 @@ When planning research, consider:
     };
 
     const result = await this.execute(synthesisTask);
-    return result.result as string;
+    return finalizeReferences(String(result.result), citations);
   }
 
   /**
@@ -154,16 +219,14 @@ When planning research, consider:
         plan: plan.strategy,
         objectives: plan.objectives,
         findingsCount: findings.length,
+        findings: findings.map((f) => ({ type: f.type, content: f.content.substring(0, 500) })),
       },
       status: "idle",
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    const result = await this.execute(evaluationTask);
-    const evaluation = this.parseEvaluation(result.result as string);
-
-    return evaluation;
+    return this.executeStructured(evaluationTask, completenessOutput);
   }
 
   /**
@@ -182,48 +245,16 @@ When planning research, consider:
 
   // Helper methods
 
-  private extractObjectives(response: string): string[] {
-    // Parse objectives from the response
-    const lines = response.split("\n");
-    return lines
-      .filter((line) => line.includes("objective") || line.includes("goal"))
-      .slice(0, 5);
-  }
-
-  private estimateSteps(response: string): number {
-    const steps = response.match(/step|task|phase/gi) || [];
-    return Math.max(steps.length, 3);
-  }
-
-  private parseTasksFromResponse(response: string): AgentTask[] {
-    const tasks: AgentTask[] = [];
-    const lines = response.split("\n").filter((l) => l.trim());
-
-    for (const line of lines) {
-      if (line.match(/^\d+\.|^-|^•/)) {
-        tasks.push({
-          id: nanoid(),
-          agentRole: "searcher",
-          description: line.replace(/^\d+\.|^-|^•/, "").trim(),
-          context: {},
-          status: "idle",
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        });
-      }
+  /**
+   * Run a task whose answer must match the given schema, failing loudly
+   * instead of continuing with a half-parsed answer
+   */
+  private async executeStructured<T>(task: AgentTask, output: StructuredOutput<T>): Promise<T> {
+    const result = await this.execute(task, output as StructuredOutput<unknown>);
+    if (result.status !== "completed") {
+      throw new Error(`Orchestrator ${output.name} failed: ${result.error}`);
     }
-
-    return tasks.slice(0, 5); // Limit to 5 parallel tasks
-  }
-
-  private parseEvaluation(response: string): { isComplete: boolean; gaps: string[] } {
-    const isComplete = response.toLowerCase().includes("complete") || response.toLowerCase().includes("sufficient");
-    const gaps = response
-      .split("\n")
-      .filter((line) => line.toLowerCase().includes("gap") || line.toLowerCase().includes("missing"))
-      .slice(0, 3);
-
-    return { isComplete, gaps };
+    return result.result as T;
   }
 
   protected getTools(): Tool[] {
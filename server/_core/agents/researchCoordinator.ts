@@ -3,16 +3,32 @@
  * Main orchestrator for the deep research process
  */
 
-import { OrchestratorAgent } from "./orchestratorAgent";
+import { OrchestratorAgent, SYNTHESIS_DESCRIPTION } from "./orchestratorAgent";
 import { SearchAgent, ExtractionAgent, FactCheckAgent } from "./workerAgents";
 import { MemoryManager } from "./memoryManager";
+import { CitationRegistry, collectSources, finalizeReferences, selectCitedSources } from "./citations";
 import {
   AgentTask,
   OrchestratorState,
   ResearchArtifact,
   Citation,
+  ResearchEvent,
+  ResearchLimits,
+  ResearchPhase,
+  ResearchPlan,
+  ResearchRound,
+  ResearchStopReason,
+  MAX_RESEARCH_BREADTH,
 } from "./types";
 import { nanoid } from "nanoid";
+import { createAgentTask, updateAgentTask } from "../../db";
+import { ENV } from "../env";
+import { checkUsageBudget } from "../llm";
+import { buildFilingArtifacts, loadLatestFiling, FilingForm } from "./tools/edgar";
+
+// Companies whose SEC filings are read into a single research run
+const MAX_FILING_TICKERS = 3;
+const RESEARCH_FILING_FORMS: FilingForm[] = ["10-K", "10-Q"];
 
 export interface ResearchRequest {
   sessionId: number;
@@ -21,30 +37,95 @@ export interface ResearchRequest {
   context?: Record<string, unknown>;
 }
 
+export interface ResearchRunOptions {
+  signal?: AbortSignal;
+  /** Depth, breadth and budget of the search loop; defaults come from ENV */
+  limits?: Partial<ResearchLimits>;
+  /**
+   * Plan and tasks saved by an earlier, interrupted run. If the search tasks
+   * were saved, planning is skipped and completed tasks of every role are
+   * reused instead of being executed again.
+   */
+  checkpoint?: {
+    plan: ResearchPlan;
+    tasks: AgentTask[];
+  };
+}
+
 export interface ResearchResult {
   sessionId: number;
   query: string;
   report: string;
   findings: ResearchArtifact[];
   citations: Citation[];
+  /** Search rounds run, with the evaluation and stop reason of each */
+  rounds: ResearchRound[];
+  /** Why the run ended before analysis or synthesis, when a budget ran out */
+  budgetExceeded?: string;
   executionTime: number;
 }
 
+/**
+ * Tickers a research request is about: `context.tickers` plus $TICKER
+ * cashtags in the query
+ */
+export function researchTickers(request: ResearchRequest): string[] {
+  const tickers = Array.isArray(request.context?.tickers)
+    ? (request.context!.tickers as unknown[]).filter((ticker): ticker is string => typeof ticker === "string")
+    : [];
+  const cashtags = request.query.match(/\$[A-Z]{1,5}(?:[.-][A-Z])?\b/g) ?? [];
+  const all = [...tickers, ...cashtags.map((tag) => tag.slice(1))].map((ticker) => ticker.trim().toUpperCase());
+  return all.filter((ticker, i) => ticker && all.indexOf(ticker) === i).slice(0, MAX_FILING_TICKERS);
+}
+
+/**
+ * Report for a run stopped by its budget: the findings gathered so far,
+ * listed without synthesis
+ */
+function budgetReport(query: string, findings: ResearchArtifact[], citations: Citation[], reason: string): string {
+  const items = findings.map((finding, i) => {
+    const numbers = (finding.metadata.citationNumbers as number[] | undefined) ?? [];
+    const content = finding.content.length > 600 ? `${finding.content.slice(0, 600).trimEnd()}…` : finding.content;
+    return `${i + 1}. ${content.replace(/\s+/g, " ")}${numbers.map((n) => ` [${n}]`).join("")}`;
+  });
+  const report = [
+    `# ${query}`,
+    `_Research stopped early: ${reason}. The findings gathered so far are listed without synthesis._`,
+    "## Findings",
+    items.length > 0 ? items.join("\n") : "No findings were gathered.",
+  ].join("\n\n");
+  return finalizeReferences(report, citations);
+}
+
 export class ResearchCoordinator {
   private orchestrator: OrchestratorAgent;
   private searchAgent: SearchAgent;
   private extractionAgent: ExtractionAgent;
   private factCheckAgent: FactCheckAgent;
   private memoryManager: MemoryManager;
+  private citationRegistry: CitationRegistry;
   private state: OrchestratorState;
-
-  constructor(sessionId: number, llmModel: string = "gemini-2.5-flash") {
+  private eventListeners: Array<(event: ResearchEvent) => void> = [];
+  private persistedTaskIds: Set<string> = new Set();
+  private taskWrites: Map<string, Promise<void>> = new Map();
+  private tokensUsed: number = 0;
+  /** Filing sections and XBRL facts, read once and kept out of fact-checking */
+  private filingArtifacts: ResearchArtifact[] = [];
+  /** Completed analysis and verification tasks from a checkpoint, by role and parent task */
+  private savedTasks: Map<string, AgentTask> = new Map();
+  private savedSynthesis?: AgentTask;
+
+  constructor(
+    sessionId: number,
+    llmModel: string = "gemini-2.5-flash",
+    researchPlanId: string = nanoid()
+  ) {
     this.memoryManager = new MemoryManager();
     this.memoryManager.initializeMemory(sessionId);
 
     this.state = {
       sessionId,
-      researchPlanId: nanoid(),
+      researchPlanId,
       activeTasks: [],
       completedTasks: [],
       findings: [],
@@ -52,23 +133,58 @@ export class ResearchCoordinator {
       currentPhase: "planning",
       progressPercentage: 0,
     };
+    this.citationRegistry = new CitationRegistry(this.state.citations);
 
     this.orchestrator = new OrchestratorAgent(this.state, llmModel);
     this.searchAgent = new SearchAgent(llmModel);
     this.extractionAgent = new ExtractionAgent(llmModel);
     this.factCheckAgent = new FactCheckAgent(llmModel);
+
+    for (const agent of [this.orchestrator, this.searchAgent, this.extractionAgent, this.factCheckAgent]) {
+      agent.onTaskUpdate((task) => {
+        if (task.status === "completed" || task.status === "failed") {
+          this.tokensUsed += this.countTokens(task);
+        }
+        this.emitTaskUpdate(task);
+        this.persistTask(task);
+      });
+    }
+  }
+
+  /**
+   * Register a listener for progress events
+   */
+  onEvent(listener: (event: ResearchEvent) => void): void {
+    this.eventListeners.push(listener);
   }
 
   /**
    * Execute a deep research task
    */
-  async executeResearch(request: ResearchRequest): Promise<ResearchResult> {
+  async executeResearch(
+    request: ResearchRequest,
+    options: ResearchRunOptions = {}
+  ): Promise<ResearchResult> {
     const startTime = Date.now();
+    const { signal, checkpoint } = options;
+    const limits: ResearchLimits = {
+      maxRounds: options.limits?.maxRounds ?? ENV.researchMaxRounds,
+      breadth: options.limits?.breadth ?? Math.min(ENV.researchBreadth, MAX_RESEARCH_BREADTH),
+      tokenBudget: options.limits?.tokenBudget ?? ENV.researchTokenBudget,
+    };
+
+    for (const agent of [this.orchestrator, this.searchAgent, this.extractionAgent, this.factCheckAgent]) {
+      agent.setUsageScope({
+        userId: request.userId,
+        sessionId: request.sessionId,
+        researchPlanId: this.state.researchPlanId,
+        researchTokenBudget: limits.tokenBudget,
+      });
+    }
 
     try {
       // Phase 1: Planning
-      this.state.currentPhase = "planning";
-      this.state.progressPercentage = 10;
+      this.setPhase("planning", 10);
 
       // Check for stale artifacts before planning new research
       const existingFindings = this.memoryManager.getMemory(request.sessionId)?.findings || [];
@@ -78,72 +194,299 @@ export class ResearchCoordinator {
         console.warn(`Found ${staleFindings.length} stale findings. Re-evaluating or re-researching might be needed.`);
       }
 
-      const plan = await this.orchestrator.planResearch(request.query, request.context || {});
-      const tasks = await this.orchestrator.decomposeTasks(request.query, plan);
+      let plan: ResearchPlan;
+      let tasks: AgentTask[];
+
+      for (const task of checkpoint?.tasks ?? []) {
+        this.persistedTaskIds.add(task.id);
+        this.tokensUsed += this.countTokens(task);
+        if (task.status !== "completed" || task.result === undefined) continue;
+        if (task.agentRole === "extractor" || task.agentRole === "fact_checker") {
+          this.savedTasks.set(`${task.agentRole}:${task.parentTaskId}`, task);
+        } else if (task.agentRole === "orchestrator" && task.description === SYNTHESIS_DESCRIPTION) {
+          this.savedSynthesis = task;
+        }
+      }
+      const savedSearchTasks = checkpoint?.tasks.filter((task) => task.agentRole === "searcher") ?? [];
+
+      if (checkpoint && savedSearchTasks.length > 0) {
+        plan = checkpoint.plan;
+        tasks = savedSearchTasks;
+      } else {
+        plan = await this.orchestrator.planResearch(request.query, request.context || {});
+        plan.id = this.state.researchPlanId;
+        plan.userId = request.userId;
+        this.emit({ type: "plan", plan, at: new Date() });
+
+        signal?.throwIfAborted();
+        tasks = (await this.orchestrator.decomposeTasks(request.query, plan)).slice(0, limits.breadth);
+        for (const task of tasks) {
+          task.context = { ...task.context, round: 1 };
+          this.persistTask(task);
+        }
+        await this.flushTaskWrites();
+      }
 
-      // Phase 2: Searching
-      this.state.currentPhase = "searching";
-      this.state.progressPercentage = 30;
+      // Primary sources first, so completeness is judged with them in hand
+      this.filingArtifacts = await this.collectFilingArtifacts(request, signal);
 
-      const searchResults = await this.executeTasks(tasks);
+      // Phase 2: Searching, repeated while the evaluation finds gaps
+      const searchResults = await this.searchInRounds(request, plan, tasks, limits, signal);
       this.state.findings.push(...searchResults);
 
       // Update memory with findings
       this.memoryManager.updateShortTermMemory(
         request.sessionId,
-        `Found ${searchResults.length} initial findings`
+        `Found ${searchResults.length} findings in ${plan.rounds?.length ?? 1} rounds`
       );
 
-      // Phase 3: Analyzing
-      this.state.currentPhase = "analyzing";
-      this.state.progressPercentage = 60;
+      let reportFindings = [...this.filingArtifacts, ...this.state.findings];
+      let report: string;
+
+      // A spent budget ends the run with what it has gathered
+      signal?.throwIfAborted();
+      let budgetExceeded = await this.budgetExceeded(request, limits);
+      if (!budgetExceeded) {
+        // Phase 3: Analyzing
+        this.setPhase("analyzing", 60);
 
-      const analyzedFindings = await this.analyzeFindings(searchResults);
-      this.state.findings.push(...analyzedFindings);
+        const analyzedFindings = await this.analyzeFindings(searchResults);
+        this.state.findings.push(...analyzedFindings);
 
-      // Phase 4: Fact-checking
-      this.state.currentPhase = "synthesizing";
-      this.state.progressPercentage = 80;
+        // Phase 4: Fact-checking
+        signal?.throwIfAborted();
+        this.setPhase("synthesizing", 80);
 
-      const verifiedFindings = await this.verifyFindings(this.state.findings);
+        const verifiedFindings = await this.verifyFindings(this.state.findings);
+        reportFindings = [...this.filingArtifacts, ...verifiedFindings];
+        budgetExceeded = await this.budgetExceeded(request, limits);
+      }
 
       // Phase 5: Synthesizing
-      this.state.currentPhase = "finalizing";
-      this.state.progressPercentage = 90;
+      signal?.throwIfAborted();
+      this.setPhase("finalizing", 90);
 
-      const report = await this.orchestrator.synthesizeFindings(
-        verifiedFindings,
-        this.state.citations
-      );
+      if (budgetExceeded) {
+        report = budgetReport(request.query, reportFindings, this.state.citations, budgetExceeded);
+      } else {
+        report = await this.orchestrator.synthesizeFindings(reportFindings, this.state.citations, this.savedSynthesis);
+      }
 
       // Update memory with final findings
-      this.memoryManager.updateLongTermMemory(request.sessionId, verifiedFindings);
+      this.memoryManager.updateLongTermMemory(request.sessionId, reportFindings);
 
       this.state.progressPercentage = 100;
 
+      await this.flushTaskWrites();
+
+      const executionTime = Date.now() - startTime;
+      this.emit({
+        type: "report",
+        report,
+        findingsCount: reportFindings.length,
+        citationsCount: this.state.citations.length,
+        citations: this.state.citations,
+        executionTime,
+        at: new Date(),
+      });
+
       return {
         sessionId: request.sessionId,
         query: request.query,
         report,
-        findings: verifiedFindings,
+        findings: reportFindings,
         citations: this.state.citations,
-        executionTime: Date.now() - startTime,
+        rounds: plan.rounds ?? [],
+        budgetExceeded: budgetExceeded ?? undefined,
+        executionTime,
       };
     } catch (error) {
       console.error("Research execution failed:", error);
+      await this.flushTaskWrites();
+      this.emit({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date(),
+      });
       throw error;
     }
   }
 
+  /**
+   * Read the latest annual and quarterly filings of the companies the research
+   * is about. A company without filings, or an EDGAR outage, only costs the
+   * run those sources.
+   */
+  private async collectFilingArtifacts(request: ResearchRequest, signal?: AbortSignal): Promise<ResearchArtifact[]> {
+    const artifacts: ResearchArtifact[] = [];
+
+    for (const ticker of researchTickers(request)) {
+      for (const form of RESEARCH_FILING_FORMS) {
+        signal?.throwIfAborted();
+        try {
+          const document = await loadLatestFiling(ticker, form);
+          for (const artifact of buildFilingArtifacts(document, this.citationRegistry)) {
+            artifacts.push(artifact);
+            this.emit({ type: "artifact", artifact, at: new Date() });
+          }
+        } catch (error) {
+          console.warn(`[Research] Could not read the ${form} for ${ticker}:`, error);
+        }
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Run search rounds until the orchestrator judges the findings complete, the
+   * round limit or token budget is reached, or no gaps are left to research.
+   * Each round is recorded on the plan and emitted as a `round` event.
+   *
+   * Tasks passed in may span several rounds when resuming from a checkpoint;
+   * saved rounds are replayed before new ones are planned.
+   */
+  private async searchInRounds(
+    request: ResearchRequest,
+    plan: ResearchPlan,
+    tasks: AgentTask[],
+    limits: ResearchLimits,
+    signal?: AbortSignal
+  ): Promise<ResearchArtifact[]> {
+    const savedRounds = new Map<number, AgentTask[]>();
+    for (const task of tasks) {
+      const round = typeof task.context.round === "number" ? task.context.round : 1;
+      savedRounds.set(round, [...(savedRounds.get(round) ?? []), task]);
+    }
+    const previousRounds = plan.rounds ?? [];
+    plan.rounds = [];
+
+    const findings: ResearchArtifact[] = [];
+    let roundTasks = savedRounds.get(1) ?? [];
+
+    for (let round = 1; ; round++) {
+      signal?.throwIfAborted();
+      this.setPhase("searching", 30 + Math.round((25 * (round - 1)) / limits.maxRounds));
+
+      const startedAt = new Date();
+      const roundFindings = await this.executeTasks(roundTasks, signal);
+      findings.push(...roundFindings);
+
+      const record: ResearchRound = {
+        round,
+        taskIds: roundTasks.map((task) => task.id),
+        findingsCount: roundFindings.length,
+        tokensUsed: this.tokensUsed,
+        startedAt,
+        completedAt: new Date(),
+      };
+
+      const nextSaved = savedRounds.get(round + 1);
+      const previous = previousRounds.find((r) => r.round === round);
+      let nextTasks: AgentTask[] = [];
+      let stopReason: ResearchStopReason | undefined;
+
+      if (nextSaved) {
+        // Replaying a checkpoint: the next round was already planned
+        record.evaluation = previous?.evaluation;
+        nextTasks = nextSaved;
+      } else if (previous?.stopReason) {
+        // Replaying a checkpoint taken after the loop had already stopped
+        record.evaluation = previous.evaluation;
+        stopReason = previous.stopReason;
+      } else if (round >= limits.maxRounds) {
+        stopReason = "max_rounds";
+      } else if (await this.budgetExceeded(request, limits)) {
+        stopReason = "budget";
+      } else {
+        signal?.throwIfAborted();
+        try {
+          record.evaluation = await this.orchestrator.evaluateCompleteness(
+            request.query,
+            [...this.filingArtifacts, ...this.state.findings, ...findings],
+            plan
+          );
+        } catch (error) {
+          console.warn("[Research] Completeness evaluation failed:", error);
+          stopReason = "evaluation_failed";
+        }
+
+        if (record.evaluation?.isComplete) {
+          stopReason = "complete";
+        } else if (record.evaluation) {
+          nextTasks = this.createGapTasks(record.evaluation.gaps, round + 1, limits.breadth);
+          if (nextTasks.length === 0) stopReason = "no_gaps";
+        }
+        record.tokensUsed = this.tokensUsed;
+      }
+
+      record.stopReason = stopReason;
+      plan.rounds.push(record);
+      this.emit({ type: "round", round: record, at: new Date() });
+
+      if (stopReason) break;
+
+      for (const task of nextTasks) {
+        this.persistTask(task);
+      }
+      await this.flushTaskWrites();
+      roundTasks = nextTasks;
+    }
+
+    return findings;
+  }
+
+  /**
+   * Turn evaluation gaps into searcher tasks for the next round
+   */
+  private createGapTasks(gaps: string[], round: number, breadth: number): AgentTask[] {
+    return gaps
+      .map((gap) => gap.trim())
+      .filter((gap) => gap.length > 0)
+      .slice(0, breadth)
+      .map((gap) => ({
+        id: nanoid(),
+        agentRole: "searcher" as const,
+        description: gap,
+        context: { round, gap },
+        status: "idle" as const,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+  }
+
+  /**
+   * Why no further model calls should be made for this research, or null:
+   * either its own token budget or the user's usage budget is spent
+   */
+  private async budgetExceeded(request: ResearchRequest, limits: ResearchLimits): Promise<string | null> {
+    if (this.tokensUsed >= limits.tokenBudget) {
+      return `token budget of ${limits.tokenBudget.toLocaleString("en-US")} spent (${this.tokensUsed.toLocaleString("en-US")} used)`;
+    }
+    const exceeded = await checkUsageBudget({ userId: request.userId });
+    return exceeded ? exceeded.message.charAt(0).toLowerCase() + exceeded.message.slice(1) : null;
+  }
+
+  /**
+   * Tokens spent by a task, from the model turns recorded in its steps
+   */
+  private countTokens(task: AgentTask): number {
+    return (task.steps ?? []).reduce(
+      (total, step) => total + (step.type === "model" ? step.usage?.total_tokens ?? 0 : 0),
+      0
+    );
+  }
+
   /**
    * Execute multiple tasks in parallel
    */
-  private async executeTasks(tasks: AgentTask[]): Promise<ResearchArtifact[]> {
+  private async executeTasks(tasks: AgentTask[], signal?: AbortSignal): Promise<ResearchArtifact[]> {
     const findings: ResearchArtifact[] = [];
 
     // Execute tasks in parallel (limit concurrency to 3)
     const batchSize = 3;
     for (let i = 0; i < tasks.length; i += batchSize) {
+      signal?.throwIfAborted();
       const batch = tasks.slice(i, i + batchSize);
       const batchResults = await Promise.all(
         batch.map((task) => this.executeTask(task))
@@ -162,32 +505,37 @@ export class ResearchCoordinator {
     const findings: ResearchArtifact[] = [];
 
     try {
-      const result = await this.searchAgent.execute(task);
+      // Tasks restored from a checkpoint keep their earlier result
+      const alreadyCompleted = task.status === "completed" && task.result !== undefined;
+      const result = alreadyCompleted ? task : await this.searchAgent.execute(task);
+      await this.flushTaskWrites();
 
       if (result.result) {
+        const content = String(result.result);
+        const artifactId = nanoid();
+
+        // Cite the search results and pages the agent actually used
+        const citations = this.citationRegistry.cite(
+          artifactId,
+          selectCitedSources(collectSources(result), content)
+        );
+
         const artifact: ResearchArtifact = {
-          id: nanoid(),
+          id: artifactId,
           taskId: task.id,
           type: "finding",
-          content: String(result.result),
+          content,
           metadata: {
             taskDescription: task.description,
             executedAt: new Date(),
+            citationNumbers: citations.map((citation) => citation.number),
           },
           createdAt: new Date(),
           retrievedAt: new Date(),
         };
 
         findings.push(artifact);
-
-        // Add citation
-        this.state.citations.push({
-          id: nanoid(),
-          artifactId: artifact.id,
-          source: "Research Task",
-          url: "",
-          accessedAt: new Date(),
-        });
+        this.emit({ type: "artifact", artifact, at: new Date() });
       }
 
       this.state.completedTasks.push(result);
@@ -206,8 +554,10 @@ export class ResearchCoordinator {
 
     for (const finding of findings.slice(0, 5)) {
       try {
-        const task: AgentTask = {
+        const saved = this.savedTasks.get(`extractor:${finding.taskId}`);
+        const task: AgentTask = saved ?? {
           id: nanoid(),
+          parentTaskId: finding.taskId,
           agentRole: "extractor",
           description: `Analyze and extract key insights from: ${finding.content.substring(0, 100)}`,
           context: { finding },
@@ -217,20 +567,27 @@ export class ResearchCoordinator {
           updatedAt: new Date(),
         };
 
-        const result = await this.extractionAgent.execute(task);
+        if (!saved) this.persistTask(task);
+        const result = saved ?? (await this.extractionAgent.execute(task));
+        await this.flushTaskWrites();
 
         if (result.result) {
-          analyzed.push({
-            id: nanoid(),
+          const artifactId = nanoid();
+          const citations = this.citationRegistry.inherit(artifactId, finding.id);
+          const artifact: ResearchArtifact = {
+            id: artifactId,
             taskId: task.id,
             type: "analysis",
             content: String(result.result),
             metadata: {
               sourceArtifactId: finding.id,
+              citationNumbers: citations.map((citation) => citation.number),
             },
             createdAt: new Date(),
             retrievedAt: new Date(),
-          });
+          };
+          analyzed.push(artifact);
+          this.emit({ type: "artifact", artifact, at: new Date() });
         }
       } catch (error) {
         console.error("Analysis failed:", error);
@@ -248,8 +605,10 @@ export class ResearchCoordinator {
 
     for (const finding of findings.slice(0, 5)) {
       try {
-        const task: AgentTask = {
+        const saved = this.savedTasks.get(`fact_checker:${finding.taskId}`);
+        const task: AgentTask = saved ?? {
           id: nanoid(),
+          parentTaskId: finding.taskId,
           agentRole: "fact_checker",
           description: `Verify the accuracy of: ${finding.content.substring(0, 100)}`,
           context: { finding },
@@ -259,18 +618,24 @@ export class ResearchCoordinator {
           updatedAt: new Date(),
         };
 
-        const result = await this.factCheckAgent.execute(task);
+        if (!saved) this.persistTask(task);
+        const result = saved ?? (await this.factCheckAgent.execute(task));
+        await this.flushTaskWrites();
 
         if (result.result) {
-          verified.push({
+          const artifactId = nanoid();
+          this.citationRegistry.inherit(artifactId, finding.id);
+          const artifact: ResearchArtifact = {
             ...finding,
-            id: nanoid(),
+            id: artifactId,
             type: "verified",
             metadata: {
               ...finding.metadata,
               verificationResult: result.result,
             },
-          });
+          };
+          verified.push(artifact);
+          this.emit({ type: "artifact", artifact, at: new Date() });
         }
       } catch (error) {
         console.error("Verification failed:", error);
@@ -281,6 +646,82 @@ export class ResearchCoordinator {
     return verified.length > 0 ? verified : findings;
   }
 
+  /**
+   * Advance to a new research phase and notify listeners
+   */
+  private setPhase(phase: ResearchPhase, progressPercentage: number): void {
+    this.state.currentPhase = phase;
+    this.state.progressPercentage = progressPercentage;
+    this.emit({ type: "phase", phase, progressPercentage, at: new Date() });
+  }
+
+  private emitTaskUpdate(task: AgentTask): void {
+    this.emit({
+      type: "task",
+      task: {
+        id: task.id,
+        parentTaskId: task.parentTaskId,
+        agentRole: task.agentRole,
+        description: task.description,
+        status: task.status,
+        error: task.error,
+      },
+      at: new Date(),
+    });
+  }
+
+  /**
+   * Write the task's current state to agent_tasks. Writes for the same task are
+   * chained so status transitions land in order.
+   */
+  private persistTask(task: AgentTask): void {
+    const snapshot = { ...task, steps: task.steps && [...task.steps] };
+    const previous = this.taskWrites.get(task.id) ?? Promise.resolve();
+
+    const write = previous.then(async () => {
+      try {
+        if (this.persistedTaskIds.has(snapshot.id)) {
+          await updateAgentTask(snapshot.id, {
+            status: snapshot.status,
+            result: snapshot.result,
+            error: snapshot.error ?? null,
+            steps: snapshot.steps,
+          });
+        } else {
+          await createAgentTask(
+            snapshot.id,
+            this.state.researchPlanId,
+            snapshot.agentRole,
+            snapshot.description,
+            snapshot.context,
+            snapshot.status,
+            snapshot.parentTaskId,
+            { result: snapshot.result, error: snapshot.error, steps: snapshot.steps }
+          );
+          this.persistedTaskIds.add(snapshot.id);
+        }
+      } catch (error) {
+        console.warn(`[Research] Failed to persist task ${snapshot.id}:`, error);
+      }
+    });
+
+    this.taskWrites.set(task.id, write);
+  }
+
+  private async flushTaskWrites(): Promise<void> {
+    await Promise.all(this.taskWrites.values());
+  }
+
+  private emit(event: ResearchEvent): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Research event listener failed:", error);
+      }
+    }
+  }
+
   /**
    * Get current research state
    */
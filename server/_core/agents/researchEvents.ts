@@ -0,0 +1,88 @@
+/**
+ * Research Event Bus
+ * Fans out progress events from running research to live subscribers
+ */
+
+import { EventEmitter } from "events";
+import { ResearchEvent } from "./types";
+
+// How long a finished run's events stay available for late subscribers
+const HISTORY_TTL_MS = 10 * 60 * 1000;
+
+function isTerminal(event: ResearchEvent): boolean {
+  return event.type === "report" || event.type === "error";
+}
+
+export class ResearchEventBus {
+  private emitter = new EventEmitter();
+  private history: Map<string, ResearchEvent[]> = new Map();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Record an event for a research run and deliver it to subscribers
+   */
+  publish(researchPlanId: string, event: ResearchEvent): void {
+    let events = this.history.get(researchPlanId) ?? [];
+    // A retried run starts a fresh history rather than replaying the last attempt
+    if (events.length > 0 && isTerminal(events[events.length - 1])) {
+      events = [];
+    }
+    events.push(event);
+    this.history.set(researchPlanId, events);
+
+    this.emitter.emit(researchPlanId, event);
+
+    if (isTerminal(event)) {
+      setTimeout(() => this.history.delete(researchPlanId), HISTORY_TTL_MS).unref();
+    }
+  }
+
+  /**
+   * The events still kept for a run, oldest first
+   */
+  replay(researchPlanId: string): ResearchEvent[] {
+    return [...(this.history.get(researchPlanId) ?? [])];
+  }
+
+  /**
+   * Replay the events seen so far for a run, then yield new ones until the
+   * run finishes or the signal aborts
+   */
+  async *subscribe(researchPlanId: string, signal?: AbortSignal): AsyncGenerator<ResearchEvent> {
+    const queue = this.replay(researchPlanId);
+    let wake: (() => void) | null = null;
+
+    const listener = (event: ResearchEvent) => {
+      queue.push(event);
+      wake?.();
+    };
+    const onAbort = () => wake?.();
+
+    this.emitter.on(researchPlanId, listener);
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      while (!signal?.aborted) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          if (isTerminal(event)) return;
+          continue;
+        }
+
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    } finally {
+      this.emitter.off(researchPlanId, listener);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+export const researchEventBus = new ResearchEventBus();
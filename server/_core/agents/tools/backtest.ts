@@ -0,0 +1,329 @@
+/**
+ * Strategy Backtester
+ * Replays rule-based strategies over daily history from the market data
+ * provider. Signals are taken at each close and filled at the next open, with
+ * slippage and commission charged on every fill.
+ */
+
+import { z } from "zod";
+import { getHistoricalData, getStockQuote, HistoricalData } from "./yahooFinance";
+import { annualizedVolatility, maxDrawdown, rsiSeries, sharpeRatio, simpleReturns, sma } from "./indicators";
+import { ENV } from "../../env";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const backtestStrategySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("ma_crossover"),
+    symbol: z.string().min(1),
+    fastPeriod: z.number().int().min(1).default(50),
+    slowPeriod: z.number().int().min(2).default(200),
+  }),
+  z.object({
+    type: z.literal("rsi"),
+    symbol: z.string().min(1),
+    period: z.number().int().min(2).default(14),
+    buyBelow: z.number().min(0).max(100).default(30),
+    sellAbove: z.number().min(0).max(100).default(70),
+  }),
+  z.object({
+    type: z.literal("rebalance"),
+    weights: z.record(z.string(), z.number().min(0)),
+    frequency: z.enum(["monthly", "quarterly", "annually"]).default("monthly"),
+  }),
+]);
+
+export const backtestRequestSchema = z.object({
+  strategy: backtestStrategySchema,
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  initialCapital: z.number().positive().default(100000),
+  commission: z
+    .object({
+      perTrade: z.number().min(0).default(0),
+      rate: z.number().min(0).max(0.1).default(0), // Fraction of the fill's notional
+    })
+    .default({ perTrade: 0, rate: 0 }),
+  slippageBps: z.number().min(0).max(1000).default(5),
+});
+
+export type BacktestStrategy = z.output<typeof backtestStrategySchema>;
+export type BacktestRequest = z.input<typeof backtestRequestSchema>;
+
+export interface BacktestTrade {
+  date: string;
+  symbol: string;
+  side: "buy" | "sell";
+  quantity: number;
+  /** Fill price after slippage, on the dividend-adjusted basis of the closes */
+  price: number;
+  notional: number;
+  commission: number;
+  /** Cost of filling away from the open */
+  slippage: number;
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  finalEquity: number;
+  metrics: {
+    totalReturn: number;
+    cagr: number | null;
+    maxDrawdown: number;
+    maxDrawdownPeak: string;
+    maxDrawdownTrough: string;
+    volatility: number | null;
+    sharpeRatio: number | null;
+    /** One-way turnover: half the traded notional over average equity, as a percentage */
+    turnover: number;
+    tradeCount: number;
+    totalCommission: number;
+    totalSlippage: number;
+  };
+  equityCurve: Array<{ date: string; equity: number; drawdown: number }>;
+  trades: BacktestTrade[];
+  asOf: Date;
+  source: string;
+}
+
+/**
+ * Raised for strategies that cannot be simulated as configured
+ */
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BacktestError";
+  }
+}
+
+/** Target weight per symbol; null keeps the current positions */
+type Targets = Map<string, number> | null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function strategySymbols(strategy: BacktestStrategy): string[] {
+  const symbols = strategy.type === "rebalance" ? Object.keys(strategy.weights) : [strategy.symbol];
+  return symbols.map((symbol) => symbol.trim().toUpperCase());
+}
+
+/**
+ * Trading days of history an indicator needs before its first signal
+ */
+function warmUpBars(strategy: BacktestStrategy): number {
+  if (strategy.type === "ma_crossover") return strategy.slowPeriod;
+  if (strategy.type === "rsi") return strategy.period * 5;
+  return 0;
+}
+
+function validate(strategy: BacktestStrategy) {
+  if (strategy.type === "ma_crossover" && strategy.fastPeriod >= strategy.slowPeriod) {
+    throw new BacktestError("fastPeriod must be shorter than slowPeriod");
+  }
+  if (strategy.type === "rsi" && strategy.buyBelow >= strategy.sellAbove) {
+    throw new BacktestError("buyBelow must be lower than sellAbove");
+  }
+  if (strategy.type === "rebalance") {
+    const weights = Object.values(strategy.weights);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weights.length === 0 || total <= 0) throw new BacktestError("weights must include a positive weight");
+    if (total > 1 + 1e-9) throw new BacktestError("weights must sum to at most 1; the remainder is held as cash");
+  }
+}
+
+function rebalancePeriod(date: string, frequency: "monthly" | "quarterly" | "annually"): string {
+  if (frequency === "annually") return date.slice(0, 4);
+  if (frequency === "quarterly") return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3)}`;
+  return date.slice(0, 7);
+}
+
+/**
+ * Per-bar target generator for a strategy. Signal strategies only emit targets
+ * when their signal flips, so held positions are not topped up every day.
+ */
+function signalGenerator(
+  strategy: BacktestStrategy,
+  dates: string[],
+  closes: Map<string, number[]>
+): (i: number, first: boolean) => Targets {
+  if (strategy.type === "rebalance") {
+    const weights = new Map(
+      Object.keys(strategy.weights).map((symbol): [string, number] => [
+        symbol.trim().toUpperCase(),
+        strategy.weights[symbol],
+      ])
+    );
+    return (i, first) =>
+      first || rebalancePeriod(dates[i], strategy.frequency) !== rebalancePeriod(dates[i + 1], strategy.frequency)
+        ? weights
+        : null;
+  }
+
+  const symbol = strategy.symbol.trim().toUpperCase();
+  const series = closes.get(symbol)!;
+  let holding = false;
+
+  if (strategy.type === "ma_crossover") {
+    const fast = sma(series, strategy.fastPeriod);
+    const slow = sma(series, strategy.slowPeriod);
+    return (i, first) => {
+      const signal = fast[i] !== null && slow[i] !== null && fast[i]! > slow[i]!;
+      if (!first && signal === holding) return null;
+      holding = signal;
+      return new Map([[symbol, signal ? 1 : 0]]);
+    };
+  }
+
+  const rsi = rsiSeries(series, strategy.period);
+  return (i, first) => {
+    const value = rsi[i];
+    const signal = value === null ? holding : holding ? value <= strategy.sellAbove : value < strategy.buyBelow;
+    if (!first && signal === holding) return null;
+    holding = signal;
+    return new Map([[symbol, signal ? 1 : 0]]);
+  };
+}
+
+/**
+ * The open on the same dividend-adjusted basis as adjClose, so fills, marks
+ * and signals share one price series
+ */
+function adjustedOpen(bar: HistoricalData): number {
+  return bar.close > 0 ? bar.open * (bar.adjClose / bar.close) : bar.open;
+}
+
+/**
+ * Backtest a strategy between `startDate` (default: a year before `endDate`)
+ * and `endDate` (default: the latest quote). Indicators are warmed up on
+ * history before the start date; positions may be fractional.
+ */
+export async function runBacktest(input: BacktestRequest): Promise<BacktestResult> {
+  const request = backtestRequestSchema.parse(input);
+  const { strategy, initialCapital, commission } = request;
+  validate(strategy);
+
+  const symbols = strategySymbols(strategy);
+  const end = request.endDate ? new Date(`${request.endDate}T23:59:59Z`) : (await getStockQuote(symbols[0])).asOf;
+  const start = request.startDate
+    ? new Date(`${request.startDate}T00:00:00Z`)
+    : new Date(end.getTime() - 365 * DAY_MS);
+  if (start >= end) {
+    throw new BacktestError("startDate must be before endDate");
+  }
+
+  // Trading days to calendar days, with room for holidays
+  const warmUpStart = new Date(start.getTime() - (Math.ceil(warmUpBars(strategy) * 1.5) + 10) * DAY_MS);
+  const histories = await Promise.all(symbols.map((symbol) => getHistoricalData(symbol, warmUpStart, end, "1d")));
+
+  // Only trade on days every symbol has a bar
+  const bars = new Map<string, Map<string, HistoricalData>>();
+  symbols.forEach((symbol, i) => {
+    bars.set(symbol, new Map(histories[i].map((bar): [string, HistoricalData] => [bar.date, bar])));
+  });
+  const dates = histories[0].map((bar) => bar.date).filter((date) => symbols.every((s) => bars.get(s)!.has(date)));
+  const closes = new Map(
+    symbols.map((symbol): [string, number[]] => [symbol, dates.map((date) => bars.get(symbol)!.get(date)!.adjClose)])
+  );
+
+  const startDate = start.toISOString().slice(0, 10);
+  const first = dates.findIndex((date) => date >= startDate);
+  if (first < 0 || dates.length - first < 2) {
+    throw new BacktestError(`Not enough price history for ${symbols.join(", ")} after ${startDate}`);
+  }
+
+  const signals = signalGenerator(strategy, dates, closes);
+  const slippage = request.slippageBps / 10000;
+  const positions = new Map(symbols.map((symbol): [string, number] => [symbol, 0]));
+  let cash = initialCapital;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestResult["equityCurve"] = [];
+  let pending: Targets = null;
+  let peak = initialCapital;
+
+  const fill = (date: string, symbol: string, quantity: number, open: number) => {
+    const side = quantity > 0 ? "buy" : "sell";
+    const price = open * (side === "buy" ? 1 + slippage : 1 - slippage);
+    let shares = Math.abs(quantity);
+    if (side === "buy") {
+      // Scale buys down to what the cash covers after commission
+      shares = Math.min(shares, Math.max(0, (cash - commission.perTrade) / (price * (1 + commission.rate))));
+    }
+    if (shares * open < 0.01) return;
+
+    const notional = shares * price;
+    const cost = commission.perTrade + commission.rate * notional;
+    cash += side === "buy" ? -notional - cost : notional - cost;
+    positions.set(symbol, positions.get(symbol)! + (side === "buy" ? shares : -shares));
+    trades.push({ date, symbol, side, quantity: shares, price, notional, commission: cost, slippage: shares * open * slippage });
+  };
+
+  for (let i = first; i < dates.length; i++) {
+    const date = dates[i];
+
+    if (pending) {
+      const opens = new Map(symbols.map((symbol): [string, number] => [symbol, adjustedOpen(bars.get(symbol)!.get(date)!)]));
+      let equity = cash;
+      positions.forEach((quantity, symbol) => (equity += quantity * opens.get(symbol)!));
+
+      const orders = symbols.map((symbol) => {
+        const target = ((pending!.get(symbol) ?? 0) * equity) / opens.get(symbol)!;
+        return { symbol, quantity: target - positions.get(symbol)! };
+      });
+      // Sell first so the proceeds fund the buys
+      orders
+        .filter((order) => order.quantity < 0)
+        .concat(orders.filter((order) => order.quantity > 0))
+        .forEach((order) => fill(date, order.symbol, order.quantity, opens.get(order.symbol)!));
+      pending = null;
+    }
+
+    let equity = cash;
+    positions.forEach((quantity, symbol) => (equity += quantity * bars.get(symbol)!.get(date)!.adjClose));
+    peak = Math.max(peak, equity);
+    equityCurve.push({ date, equity, drawdown: (1 - equity / peak) * 100 });
+
+    if (i < dates.length - 1) {
+      pending = signals(i, i === first);
+    }
+  }
+
+  const values = equityCurve.map((point) => point.equity);
+  const returns = simpleReturns(values);
+  const finalEquity = values[values.length - 1];
+  const firstDate = equityCurve[0].date;
+  const lastDate = equityCurve[equityCurve.length - 1].date;
+  const years = (Date.parse(lastDate) - Date.parse(firstDate)) / (365.25 * DAY_MS);
+  const drawdown = maxDrawdown(values) ?? { maxDrawdown: 0, peakIndex: 0, troughIndex: 0 };
+  const averageEquity = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const traded = trades.reduce((sum, trade) => sum + trade.notional, 0);
+  const lastBar = histories[0][histories[0].length - 1];
+
+  return {
+    strategy,
+    symbols,
+    startDate: firstDate,
+    endDate: lastDate,
+    initialCapital,
+    finalEquity,
+    metrics: {
+      totalReturn: (finalEquity / initialCapital - 1) * 100,
+      cagr: years > 0 && finalEquity > 0 ? ((finalEquity / initialCapital) ** (1 / years) - 1) * 100 : null,
+      maxDrawdown: drawdown.maxDrawdown,
+      maxDrawdownPeak: equityCurve[drawdown.peakIndex].date,
+      maxDrawdownTrough: equityCurve[drawdown.troughIndex].date,
+      volatility: annualizedVolatility(returns),
+      sharpeRatio: sharpeRatio(returns, ENV.riskFreeRate),
+      turnover: (traded / 2 / averageEquity) * 100,
+      tradeCount: trades.length,
+      totalCommission: trades.reduce((sum, trade) => sum + trade.commission, 0),
+      totalSlippage: trades.reduce((sum, trade) => sum + trade.slippage, 0),
+    },
+    equityCurve,
+    trades,
+    asOf: lastBar.asOf,
+    source: lastBar.source,
+  };
+}
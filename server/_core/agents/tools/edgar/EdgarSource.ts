@@ -0,0 +1,101 @@
+/**
+ * Shapes of the SEC EDGAR endpoints the filings tool reads, and of the
+ * records it derives from them
+ */
+
+/** One row of https://www.sec.gov/files/company_tickers.json */
+export interface CompanyTickerEntry {
+  cik_str: number;
+  ticker: string;
+  title: string;
+}
+
+/** https://data.sec.gov/submissions/CIK##########.json, reduced to what is used */
+export interface SubmissionsResponse {
+  cik: string;
+  name: string;
+  tickers: string[];
+  filings: {
+    recent: {
+      accessionNumber: string[];
+      filingDate: string[];
+      reportDate: string[];
+      form: string[];
+      primaryDocument: string[];
+      primaryDocDescription: string[];
+    };
+  };
+}
+
+export interface CompanyFactValue {
+  start?: string;
+  end: string;
+  val: number;
+  accn: string;
+  fy: number;
+  fp: string;
+  form: string;
+  filed: string;
+}
+
+/** https://data.sec.gov/api/xbrl/companyfacts/CIK##########.json */
+export interface CompanyFactsResponse {
+  cik: number;
+  entityName: string;
+  facts: Record<string, Record<string, { label: string; units: Record<string, CompanyFactValue[]> }>>;
+}
+
+export interface Filing {
+  cik: string;
+  ticker: string;
+  companyName: string;
+  form: string;
+  accessionNumber: string;
+  filingDate: string;
+  /** End of the period the filing reports on */
+  reportDate: string;
+  description: string;
+  /** Primary document in the EDGAR archive */
+  url: string;
+}
+
+/** A reported XBRL value tied to the filing it came from */
+export interface FinancialFact {
+  /** Our name for the line item, e.g. revenue */
+  name: string;
+  /** us-gaap concept the value was reported under */
+  concept: string;
+  label: string;
+  unit: string;
+  value: number;
+  /** Start of a duration; absent for point-in-time values such as assets */
+  periodStart?: string;
+  periodEnd: string;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  form: string;
+  accessionNumber: string;
+  filed: string;
+}
+
+export interface FilingSection {
+  /** Stable name for well-known sections (risk_factors, mdna, ...) or item_<number> */
+  key: string;
+  /** Item number as printed, e.g. 1A or 2.02 */
+  item: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * Where raw EDGAR data comes from: the SEC's servers or recorded fixtures
+ */
+export interface EdgarSource {
+  readonly name: string;
+
+  getCompanyTickers(): Promise<CompanyTickerEntry[]>;
+  getSubmissions(cik: string): Promise<SubmissionsResponse>;
+  getCompanyFacts(cik: string): Promise<CompanyFactsResponse>;
+  /** A document from the EDGAR archive, by URL */
+  getDocument(url: string): Promise<string>;
+}
@@ -0,0 +1,40 @@
+/**
+ * On-disk cache for EDGAR responses, so repeated research on a ticker does
+ * not re-download filings. Entries are files named by a hash of their key.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import path from "path";
+
+export class FileCache {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * The cached body for a key, unless it is missing or older than maxAgeMs
+   */
+  async get(key: string, maxAgeMs: number = Infinity): Promise<string | undefined> {
+    const file = this.pathFor(key);
+    try {
+      const info = await stat(file);
+      if (Date.now() - info.mtimeMs > maxAgeMs) return undefined;
+      return await readFile(file, "utf8");
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, body: string): Promise<void> {
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(this.pathFor(key), body, "utf8");
+    } catch (error) {
+      // A read-only or full disk only costs us the cache
+      console.warn(`[EDGAR] Could not cache ${key}:`, error);
+    }
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, createHash("sha256").update(key).digest("hex"));
+  }
+}
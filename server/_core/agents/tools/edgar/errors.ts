@@ -0,0 +1,20 @@
+export class EdgarError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status returned by the SEC, when the failure came from a response */
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "EdgarError";
+  }
+}
+
+/**
+ * The ticker has no CIK, or the company has no filing of the requested form
+ */
+export class FilingNotFoundError extends EdgarError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = "FilingNotFoundError";
+  }
+}
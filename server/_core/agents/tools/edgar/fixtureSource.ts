@@ -0,0 +1,56 @@
+import { readFileSync } from "node:fs";
+import {
+  CompanyFactsResponse,
+  CompanyTickerEntry,
+  EdgarSource,
+  SubmissionsResponse,
+} from "./EdgarSource";
+import { FilingNotFoundError } from "./errors";
+import { DEFAULT_EDGAR_FIXTURES, EdgarFixtures } from "./fixtures";
+import { ENV } from "../../../env";
+
+/**
+ * Offline source serving recorded EDGAR responses. Loads EDGAR_FIXTURES_PATH
+ * when set, otherwise the bundled fixtures.
+ */
+export class FixtureEdgarSource implements EdgarSource {
+  readonly name = "fixture";
+  private fixtures?: EdgarFixtures;
+
+  constructor(fixtures?: EdgarFixtures) {
+    this.fixtures = fixtures;
+  }
+
+  async getCompanyTickers(): Promise<CompanyTickerEntry[]> {
+    return this.loadFixtures().tickers;
+  }
+
+  async getSubmissions(cik: string): Promise<SubmissionsResponse> {
+    return this.lookup(this.loadFixtures().submissions, cik, `submissions for CIK ${cik}`);
+  }
+
+  async getCompanyFacts(cik: string): Promise<CompanyFactsResponse> {
+    return this.lookup(this.loadFixtures().companyFacts, cik, `company facts for CIK ${cik}`);
+  }
+
+  async getDocument(url: string): Promise<string> {
+    return this.lookup(this.loadFixtures().documents, url, url);
+  }
+
+  private lookup<T>(records: Record<string, T>, key: string, description: string): T {
+    const record = records[key];
+    if (record === undefined) {
+      throw new FilingNotFoundError(`No recorded EDGAR ${description}`);
+    }
+    return record;
+  }
+
+  private loadFixtures(): EdgarFixtures {
+    if (!this.fixtures) {
+      this.fixtures = ENV.edgarFixturesPath
+        ? (JSON.parse(readFileSync(ENV.edgarFixturesPath, "utf8")) as EdgarFixtures)
+        : DEFAULT_EDGAR_FIXTURES;
+    }
+    return this.fixtures;
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  CompanyFactValue,
+  CompanyFactsResponse,
+  CompanyTickerEntry,
+  SubmissionsResponse,
+} from "./EdgarSource";
+
+export interface EdgarFixtures {
+  tickers: CompanyTickerEntry[];
+  /** Keyed by ten-digit CIK */
+  submissions: Record<string, SubmissionsResponse>;
+  companyFacts: Record<string, CompanyFactsResponse>;
+  /** Archive documents keyed by URL */
+  documents: Record<string, string>;
+}
+
+const ARCHIVE = "https://www.sec.gov/Archives/edgar/data/320193";
+
+const TEN_K = { accn: "0000320193-23-000106", fy: 2023, fp: "FY", form: "10-K", filed: "2023-11-03" };
+const TEN_Q = { accn: "0000320193-24-000081", fy: 2024, fp: "Q3", form: "10-Q", filed: "2024-08-02" };
+
+type FilingRef = typeof TEN_K;
+
+function duration(filing: FilingRef, start: string, end: string, val: number): CompanyFactValue {
+  return { start, end, val, ...filing };
+}
+
+function instant(filing: FilingRef, end: string, val: number): CompanyFactValue {
+  return { end, val, ...filing };
+}
+
+/** Fiscal years and quarters reported in the filings below */
+const FY2023: [string, string] = ["2022-09-25", "2023-09-30"];
+const FY2022: [string, string] = ["2021-09-26", "2022-09-24"];
+const Q3_2024: [string, string] = ["2024-03-31", "2024-06-29"];
+const YTD_2024: [string, string] = ["2023-10-01", "2024-06-29"];
+
+/** Reported amounts in the 10-K (FY2023, FY2022) and the 10-Q (quarter, year to date) */
+function flows(fy2023: number, fy2022: number, q3: number | null, ytd: number): CompanyFactValue[] {
+  const values = [
+    duration(TEN_K, ...FY2023, fy2023),
+    duration(TEN_K, ...FY2022, fy2022),
+    duration(TEN_Q, ...YTD_2024, ytd),
+  ];
+  if (q3 !== null) values.push(duration(TEN_Q, ...Q3_2024, q3));
+  return values;
+}
+
+/** Balances at the 10-K's two year ends and at the 10-Q's quarter end */
+function balances(fy2023: number, fy2022: number, q3: number): CompanyFactValue[] {
+  return [
+    instant(TEN_K, FY2023[1], fy2023),
+    instant(TEN_K, FY2022[1], fy2022),
+    instant(TEN_Q, FY2023[1], fy2023),
+    instant(TEN_Q, Q3_2024[1], q3),
+  ];
+}
+
+/**
+ * Abbreviated 10-K: the real document runs to dozens of pages. It keeps the
+ * parts the parser has to cope with: the hidden inline XBRL header, a table
+ * of contents that repeats the item headings, and page footers.
+ */
+const AAPL_10K = `<html><head><title>aapl-20230930</title></head><body>
+<div style="display:none"><ix:header><ix:hidden><ix:nonNumeric name="dei:DocumentType">10-K</ix:nonNumeric></ix:hidden></ix:header></div>
+<div><span>UNITED STATES SECURITIES AND EXCHANGE COMMISSION</span></div>
+<div><span>FORM 10-K</span></div>
+<div><span>For the fiscal year ended September 30, 2023</span></div>
+<div><span>Apple Inc.</span></div>
+<table>
+<tr><td><a href="#part1">Part I</a></td></tr>
+<tr><td><a href="#item1">Item 1.</a></td><td>Business</td><td>1</td></tr>
+<tr><td><a href="#item1a">Item 1A.</a></td><td>Risk Factors</td><td>5</td></tr>
+<tr><td><a href="#item1b">Item 1B.</a></td><td>Unresolved Staff Comments</td><td>17</td></tr>
+<tr><td><a href="#part2">Part II</a></td></tr>
+<tr><td><a href="#item7">Item 7.</a></td><td>Management's Discussion and Analysis of Financial Condition and Results of Operations</td><td>21</td></tr>
+<tr><td><a href="#item7a">Item 7A.</a></td><td>Quantitative and Qualitative Disclosures About Market Risk</td><td>27</td></tr>
+<tr><td><a href="#item8">Item 8.</a></td><td>Financial Statements and Supplementary Data</td><td>28</td></tr>
+</table>
+<div id="part1"><span>PART I</span></div>
+<div id="item1"><span>Item 1.&#160;&#160;&#160;&#160;Business</span></div>
+<div><span>Company Background</span></div>
+<div><span>The Company designs, manufactures and markets smartphones, personal computers, tablets, wearables and accessories, and sells a variety of related services. The Company&#8217;s fiscal year is the 52- or 53-week period that ends on the last Saturday of September.</span></div>
+<div><span>Apple Inc. | 2023 Form 10-K | 1</span></div>
+<div id="item1a"><span>Item 1A.&#160;&#160;&#160;&#160;Risk Factors</span></div>
+<div><span>The Company&#8217;s business, reputation, results of operations, financial condition and stock price can be affected by a number of factors, whether currently known or unknown, including those described below.</span></div>
+<div><span>Macroeconomic and Industry Risks</span></div>
+<div><span>The Company&#8217;s operations and performance depend significantly on global and regional economic conditions and adverse economic conditions can materially adversely affect the Company&#8217;s business, results of operations and financial condition.</span></div>
+<div><span>The Company&#8217;s business can be impacted by political events, trade and other international disputes, war, terrorism, natural disasters, public health issues, industrial accidents and other business interruptions.</span></div>
+<div><span>The Company depends on component and product manufacturing and logistical services provided by outsourcing partners, many of which are located outside of the U.S., and substantially all of its hardware products are manufactured by outsourcing partners located primarily in China mainland, India, Japan, South Korea, Taiwan and Vietnam.</span></div>
+<div><span>The Company&#8217;s future performance depends in part on support from third-party software developers, and the Company is subject to complex and changing laws and regulations worldwide, including those concerning the App Store and competition.</span></div>
+<div><span>The Company&#8217;s financial performance is subject to risks associated with changes in the value of the U.S. dollar relative to local currencies.</span></div>
+<div><span>Apple Inc. | 2023 Form 10-K | 5</span></div>
+<div id="item1b"><span>Item 1B.&#160;&#160;&#160;&#160;Unresolved Staff Comments</span></div>
+<div><span>None.</span></div>
+<div id="part2"><span>PART II</span></div>
+<div id="item7"><span>Item 7.&#160;&#160;&#160;&#160;Management&#8217;s Discussion and Analysis of Financial Condition and Results of Operations</span></div>
+<div><span>Fiscal 2023 Highlights</span></div>
+<div><span>Total net sales decreased 3% or $11.0 billion during 2023 compared to 2022. The weakness in foreign currencies relative to the U.S. dollar accounted for more than the entire year-over-year decrease in total net sales, which consisted primarily of lower net sales of Mac and iPhone, partially offset by higher net sales of Services.</span></div>
+<div><span>Products gross margin percentage decreased during 2023 compared to 2022 due to the weakness in foreign currencies relative to the U.S. dollar and decreased leverage, partially offset by cost savings. Services gross margin percentage decreased due primarily to higher Services costs.</span></div>
+<div><span>Liquidity and Capital Resources</span></div>
+<div><span>The Company believes its balances of unrestricted cash, cash equivalents and marketable securities, along with cash generated by ongoing operations and continued access to debt markets, will be sufficient to satisfy its cash requirements and capital return program over the next 12 months and beyond.</span></div>
+<div><span>Apple Inc. | 2023 Form 10-K | 21</span></div>
+<div id="item7a"><span>Item 7A.&#160;&#160;&#160;&#160;Quantitative and Qualitative Disclosures About Market Risk</span></div>
+<div><span>The Company is exposed to economic risk from interest rates and foreign exchange rates, and uses derivative instruments to partially offset its business exposure to foreign exchange risk.</span></div>
+<div id="item8"><span>Item 8.&#160;&#160;&#160;&#160;Financial Statements and Supplementary Data</span></div>
+<div><span>The consolidated financial statements and accompanying notes are presented in this section of the filing.</span></div>
+</body></html>`;
+
+/** Abbreviated 10-Q for the third fiscal quarter of 2024 */
+const AAPL_10Q = `<html><head><title>aapl-20240629</title></head><body>
+<div><span>FORM 10-Q</span></div>
+<div><span>For the quarterly period ended June 29, 2024</span></div>
+<div><span>PART I &#8212; FINANCIAL INFORMATION</span></div>
+<div><span>Item 1.&#160;&#160;&#160;&#160;Financial Statements</span></div>
+<div><span>The condensed consolidated financial statements and accompanying notes are presented in this section of the filing.</span></div>
+<div><span>Item 2.&#160;&#160;&#160;&#160;Management&#8217;s Discussion and Analysis of Financial Condition and Results of Operations</span></div>
+<div><span>Quarterly Highlights</span></div>
+<div><span>Total net sales increased 5% or $4.3 billion during the third quarter of 2024 compared to the same quarter in 2023, driven primarily by higher net sales of Services, iPad and Mac, partially offset by lower net sales of iPhone.</span></div>
+<div><span>Services net sales grew across advertising, cloud services and the App Store, and the Company continued to return capital to shareholders through dividends and share repurchases.</span></div>
+<div><span>Item 3.&#160;&#160;&#160;&#160;Quantitative and Qualitative Disclosures About Market Risk</span></div>
+<div><span>There have been no material changes to the Company&#8217;s market risk during the first nine months of 2024.</span></div>
+<div><span>PART II &#8212; OTHER INFORMATION</span></div>
+<div><span>Item 1.&#160;&#160;&#160;&#160;Legal Proceedings</span></div>
+<div><span>The Company is subject to legal proceedings and claims that have not been fully resolved, including an antitrust complaint filed by the U.S. Department of Justice in March 2024.</span></div>
+<div><span>Item 1A.&#160;&#160;&#160;&#160;Risk Factors</span></div>
+<div><span>There have been no material changes to the Company&#8217;s risk factors since the 2023 Form 10-K, other than the update to the legal and regulatory risks described in this section.</span></div>
+</body></html>`;
+
+/** 8-K furnishing the third-quarter 2024 earnings release */
+const AAPL_8K = `<html><head><title>aapl-20240801</title></head><body>
+<div><span>FORM 8-K</span></div>
+<div><span>Item 2.02&#160;&#160;&#160;&#160;Results of Operations and Financial Condition.</span></div>
+<div><span>On August 1, 2024, Apple Inc. issued a press release regarding Apple&#8217;s financial results for its third fiscal quarter ended June 29, 2024. A copy of Apple&#8217;s press release is attached hereto as Exhibit 99.1.</span></div>
+<div><span>Item 9.01&#160;&#160;&#160;&#160;Financial Statements and Exhibits.</span></div>
+<div><span>Exhibit 99.1: Press release issued by Apple Inc. on August 1, 2024.</span></div>
+</body></html>`;
+
+/**
+ * Recorded EDGAR responses for AAPL, trimmed to the filings and XBRL
+ * concepts the tools use, for offline tests and demos
+ */
+export const DEFAULT_EDGAR_FIXTURES: EdgarFixtures = {
+  tickers: [{ cik_str: 320193, ticker: "AAPL", title: "Apple Inc." }],
+  submissions: {
+    "0000320193": {
+      cik: "320193",
+      name: "Apple Inc.",
+      tickers: ["AAPL"],
+      filings: {
+        recent: {
+          accessionNumber: ["0000320193-24-000081", "0000320193-24-000080", "0000320193-24-000069", "0000320193-23-000106"],
+          filingDate: ["2024-08-02", "2024-08-01", "2024-05-03", "2023-11-03"],
+          reportDate: ["2024-06-29", "2024-08-01", "2024-03-30", "2023-09-30"],
+          form: ["10-Q", "8-K", "10-Q", "10-K"],
+          primaryDocument: ["aapl-20240629.htm", "aapl-20240801.htm", "aapl-20240330.htm", "aapl-20230930.htm"],
+          primaryDocDescription: ["10-Q", "8-K", "10-Q", "10-K"],
+        },
+      },
+    },
+  },
+  companyFacts: {
+    "0000320193": {
+      cik: 320193,
+      entityName: "Apple Inc.",
+      facts: {
+        "us-gaap": {
+          RevenueFromContractWithCustomerExcludingAssessedTax: {
+            label: "Revenue from Contract with Customer, Excluding Assessed Tax",
+            units: { USD: flows(383285000000, 394328000000, 85777000000, 296105000000) },
+          },
+          NetIncomeLoss: {
+            label: "Net Income (Loss) Attributable to Parent",
+            units: { USD: flows(96995000000, 99803000000, 21448000000, 79000000000) },
+          },
+          OperatingIncomeLoss: {
+            label: "Operating Income (Loss)",
+            units: { USD: flows(114301000000, 119437000000, 25352000000, 93625000000) },
+          },
+          NetCashProvidedByUsedInOperatingActivities: {
+            label: "Net Cash Provided by (Used in) Operating Activities",
+            units: { USD: flows(110543000000, 122151000000, null, 91443000000) },
+          },
+          PaymentsToAcquirePropertyPlantAndEquipment: {
+            label: "Payments to Acquire Property, Plant, and Equipment",
+            units: { USD: flows(10959000000, 10708000000, null, 6539000000) },
+          },
+          EarningsPerShareDiluted: {
+            label: "Earnings Per Share, Diluted",
+            units: { "USD/shares": flows(6.13, 6.11, 1.4, 5.11) },
+          },
+          Assets: {
+            label: "Assets",
+            units: { USD: balances(352583000000, 352755000000, 331612000000) },
+          },
+          Liabilities: {
+            label: "Liabilities",
+            units: { USD: balances(290437000000, 302083000000, 264904000000) },
+          },
+          StockholdersEquity: {
+            label: "Stockholders' Equity Attributable to Parent",
+            units: { USD: balances(62146000000, 50672000000, 66708000000) },
+          },
+          CashAndCashEquivalentsAtCarryingValue: {
+            label: "Cash and Cash Equivalents, at Carrying Value",
+            units: { USD: balances(29965000000, 23646000000, 25565000000) },
+          },
+          LongTermDebtNoncurrent: {
+            label: "Long-Term Debt, Excluding Current Maturities",
+            units: { USD: balances(95281000000, 98959000000, 86196000000) },
+          },
+        },
+      },
+    },
+  },
+  documents: {
+    [`${ARCHIVE}/000032019323000106/aapl-20230930.htm`]: AAPL_10K,
+    [`${ARCHIVE}/000032019324000081/aapl-20240629.htm`]: AAPL_10Q,
+    [`${ARCHIVE}/000032019324000080/aapl-20240801.htm`]: AAPL_8K,
+  },
+};
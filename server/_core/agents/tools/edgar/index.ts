@@ -0,0 +1,256 @@
+/**
+ * SEC EDGAR Filings
+ * Finds a company's 10-K, 10-Q and 8-K filings, splits them into sections,
+ * extracts their XBRL financial facts and turns them into cited research
+ * artifacts. The source is selected through ENV.edgarSource.
+ */
+
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { EdgarSource, Filing, FilingSection, FinancialFact } from "./EdgarSource";
+import { FilingNotFoundError } from "./errors";
+import { SecEdgarSource } from "./secSource";
+import { FixtureEdgarSource } from "./fixtureSource";
+import { splitFilingSections } from "./sections";
+import { extractFilingFacts } from "./xbrl";
+import { CitationRegistry, SourceReference } from "../../citations";
+import { ResearchArtifact } from "../../types";
+import { ENV } from "../../../env";
+
+export const FILING_FORMS = ["10-K", "10-Q", "8-K"] as const;
+export type FilingForm = (typeof FILING_FORMS)[number];
+export const filingFormSchema = z.enum(FILING_FORMS);
+
+/** Sections deep research reads from each filing */
+export const RESEARCH_SECTIONS = ["risk_factors", "mdna"];
+
+// Longest section text kept in an artifact; Risk Factors alone can run to 100k characters
+const SECTION_ARTIFACT_MAX_CHARS = 20000;
+
+export class EdgarAdapter {
+  private sources: Map<string, EdgarSource> = new Map();
+
+  constructor() {
+    this.registerSource("sec", new SecEdgarSource());
+    this.registerSource("fixture", new FixtureEdgarSource());
+  }
+
+  registerSource(name: string, source: EdgarSource) {
+    this.sources.set(name, source);
+  }
+
+  getSource(name: string): EdgarSource {
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`EDGAR source "${name}" not found.`);
+    }
+    return source;
+  }
+}
+
+export const edgarAdapter = new EdgarAdapter();
+
+function currentSource(): EdgarSource {
+  return edgarAdapter.getSource(ENV.edgarSource);
+}
+
+export interface EdgarCompany {
+  /** Ten-digit, zero-padded CIK as used in EDGAR URLs */
+  cik: string;
+  ticker: string;
+  name: string;
+}
+
+export interface FilingDocument {
+  filing: Filing;
+  sections: FilingSection[];
+  facts: FinancialFact[];
+  source: string;
+}
+
+/**
+ * Resolve a ticker to its SEC registrant. EDGAR writes share classes with a
+ * dash (BRK-B), so dotted tickers are accepted too.
+ */
+export async function lookupCompany(ticker: string): Promise<EdgarCompany> {
+  const wanted = ticker.trim().toUpperCase().replace(/\./g, "-");
+  const entry = (await currentSource().getCompanyTickers()).find((candidate) => candidate.ticker.toUpperCase() === wanted);
+  if (!entry) {
+    throw new FilingNotFoundError(`No SEC registrant found for ticker "${ticker}"`);
+  }
+  return { cik: String(entry.cik_str).padStart(10, "0"), ticker: entry.ticker, name: entry.title };
+}
+
+function archiveUrl(cik: string, accessionNumber: string, document: string): string {
+  return `https://www.sec.gov/Archives/edgar/data/${Number(cik)}/${accessionNumber.replace(/-/g, "")}/${document}`;
+}
+
+/**
+ * A company's recent filings of the given forms, newest first
+ */
+export async function listFilings(
+  ticker: string,
+  options: { forms?: readonly string[]; limit?: number } = {}
+): Promise<Filing[]> {
+  const forms = options.forms ?? FILING_FORMS;
+  const company = await lookupCompany(ticker);
+  const { recent } = (await currentSource().getSubmissions(company.cik)).filings;
+
+  const filings: Filing[] = [];
+  for (let i = 0; i < recent.accessionNumber.length && filings.length < (options.limit ?? 10); i++) {
+    if (!forms.includes(recent.form[i])) continue;
+    filings.push({
+      cik: company.cik,
+      ticker: company.ticker,
+      companyName: company.name,
+      form: recent.form[i],
+      accessionNumber: recent.accessionNumber[i],
+      filingDate: recent.filingDate[i],
+      reportDate: recent.reportDate[i],
+      description: recent.primaryDocDescription[i],
+      url: archiveUrl(company.cik, recent.accessionNumber[i], recent.primaryDocument[i]),
+    });
+  }
+
+  return filings.sort((a, b) => b.filingDate.localeCompare(a.filingDate));
+}
+
+/**
+ * Download a filing, split it into sections and pick out its XBRL facts
+ */
+export async function loadFiling(filing: Filing): Promise<FilingDocument> {
+  const source = currentSource();
+  const [html, companyFacts] = await Promise.all([
+    source.getDocument(filing.url),
+    source.getCompanyFacts(filing.cik),
+  ]);
+
+  return {
+    filing,
+    sections: splitFilingSections(html),
+    facts: extractFilingFacts(companyFacts, filing),
+    source: source.name,
+  };
+}
+
+/**
+ * The most recent filing of a form, loaded
+ */
+export async function loadLatestFiling(ticker: string, form: FilingForm): Promise<FilingDocument> {
+  const [filing] = await listFilings(ticker, { forms: [form], limit: 1 });
+  if (!filing) {
+    throw new FilingNotFoundError(`No ${form} filing found for ${ticker.toUpperCase()}`);
+  }
+  return loadFiling(filing);
+}
+
+/**
+ * How reports refer to a filing, e.g. "10-K filed 2023-11-03 (accession 0000320193-23-000106)"
+ */
+export function filingLabel(filing: Filing): string {
+  return `${filing.form} filed ${filing.filingDate} (accession ${filing.accessionNumber})`;
+}
+
+/**
+ * Citation source for a filing. Every section of a filing cites the same
+ * document, so they share one reference number.
+ */
+export function filingSourceReference(filing: Filing, snippet?: string): SourceReference {
+  return {
+    url: filing.url,
+    title: `${filing.companyName} ${filing.form} for the period ended ${filing.reportDate}`,
+    source: "SEC EDGAR",
+    snippet,
+    publishedDate: new Date(`${filing.filingDate}T00:00:00Z`),
+    fetched: true,
+  };
+}
+
+export function formatFactValue(fact: FinancialFact): string {
+  if (fact.unit === "USD") return `$${fact.value.toLocaleString("en-US")}`;
+  if (fact.unit === "USD/shares") return `$${fact.value.toFixed(2)}`;
+  return fact.value.toLocaleString("en-US");
+}
+
+/**
+ * One line per fact, with the period it covers
+ */
+export function formatFacts(facts: FinancialFact[]): string {
+  return facts
+    .map((fact) => {
+      const period = fact.periodStart ? `${fact.periodStart} to ${fact.periodEnd}` : `at ${fact.periodEnd}`;
+      return `- ${fact.label} (${fact.concept}): ${formatFactValue(fact)}, ${fact.fiscalPeriod} ${fact.fiscalYear}, ${period}`;
+    })
+    .join("\n");
+}
+
+export function truncateSection(content: string, maxChars: number): { content: string; truncated: boolean } {
+  if (content.length <= maxChars) return { content, truncated: false };
+  return { content: `${content.slice(0, maxChars).replace(/\s+\S*$/, "")} …`, truncated: true };
+}
+
+/**
+ * Turn a filing's XBRL facts and its Risk Factors and MD&A sections into
+ * source artifacts, each citing the filing in the registry
+ */
+export function buildFilingArtifacts(
+  document: FilingDocument,
+  citationRegistry: CitationRegistry,
+  sectionKeys: string[] = RESEARCH_SECTIONS
+): ResearchArtifact[] {
+  const { filing } = document;
+  const heading = `${filing.companyName} (${filing.ticker}) ${filingLabel(filing)}, period ended ${filing.reportDate}`;
+  const entries: Array<{ section: string; title: string; content: string; truncated: boolean }> = [];
+
+  if (document.facts.length > 0) {
+    entries.push({
+      section: "financial_facts",
+      title: "XBRL financial data",
+      content: formatFacts(document.facts),
+      truncated: false,
+    });
+  }
+  for (const key of sectionKeys) {
+    const section = document.sections.find((candidate) => candidate.key === key);
+    if (!section || !section.content) continue;
+    entries.push({
+      section: key,
+      title: `Item ${section.item}. ${section.title}`,
+      ...truncateSection(section.content, SECTION_ARTIFACT_MAX_CHARS),
+    });
+  }
+
+  return entries.map((entry) => {
+    const artifactId = nanoid();
+    const citations = citationRegistry.cite(artifactId, [filingSourceReference(filing, entry.content.slice(0, 200))]);
+    return {
+      id: artifactId,
+      taskId: `edgar-${filing.accessionNumber}`,
+      type: "source" as const,
+      content: `${heading}\n${entry.title}\n\n${entry.content}`,
+      metadata: {
+        ticker: filing.ticker,
+        cik: filing.cik,
+        form: filing.form,
+        accessionNumber: filing.accessionNumber,
+        filingDate: filing.filingDate,
+        reportDate: filing.reportDate,
+        section: entry.section,
+        url: filing.url,
+        truncated: entry.truncated,
+        citationNumbers: citations.map((citation) => citation.number),
+      },
+      createdAt: new Date(),
+      retrievedAt: new Date(),
+    };
+  });
+}
+
+export type { EdgarSource, Filing, FilingSection, FinancialFact } from "./EdgarSource";
+export { EdgarError, FilingNotFoundError } from "./errors";
+export { FileCache } from "./cache";
+export { SecEdgarSource } from "./secSource";
+export { FixtureEdgarSource } from "./fixtureSource";
+export type { EdgarFixtures } from "./fixtures";
+export { splitFilingSections } from "./sections";
+export { extractFilingFacts, factValue, FINANCIAL_CONCEPTS } from "./xbrl";
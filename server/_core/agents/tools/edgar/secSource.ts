@@ -0,0 +1,97 @@
+import {
+  CompanyFactsResponse,
+  CompanyTickerEntry,
+  EdgarSource,
+  SubmissionsResponse,
+} from "./EdgarSource";
+import { EdgarError, FilingNotFoundError } from "./errors";
+import { FileCache } from "./cache";
+import { ENV } from "../../../env";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** New filings show up in submissions within the day */
+const SUBMISSIONS_TTL_MS = 6 * HOUR_MS;
+const COMPANY_FACTS_TTL_MS = 24 * HOUR_MS;
+const TICKERS_TTL_MS = 7 * 24 * HOUR_MS;
+
+/** The SEC asks automated clients to stay under ten requests a second */
+const MIN_REQUEST_INTERVAL_MS = 125;
+
+/**
+ * Reads EDGAR from sec.gov. The SEC rejects requests without a User-Agent
+ * naming the requester and a contact address, so EDGAR_USER_AGENT should be
+ * set in production. Responses are cached on disk under EDGAR_CACHE_DIR;
+ * archived filing documents never change and are kept indefinitely.
+ */
+export class SecEdgarSource implements EdgarSource {
+  readonly name = "sec";
+  private nextRequestAt = 0;
+  private cache?: FileCache;
+
+  constructor(private readonly cacheDirectory?: string) {}
+
+  async getCompanyTickers(): Promise<CompanyTickerEntry[]> {
+    const body = await this.get("https://www.sec.gov/files/company_tickers.json", TICKERS_TTL_MS);
+    return Object.values(JSON.parse(body) as Record<string, CompanyTickerEntry>);
+  }
+
+  async getSubmissions(cik: string): Promise<SubmissionsResponse> {
+    const body = await this.get(`https://data.sec.gov/submissions/CIK${cik}.json`, SUBMISSIONS_TTL_MS);
+    return JSON.parse(body) as SubmissionsResponse;
+  }
+
+  async getCompanyFacts(cik: string): Promise<CompanyFactsResponse> {
+    const body = await this.get(`https://data.sec.gov/api/xbrl/companyfacts/CIK${cik}.json`, COMPANY_FACTS_TTL_MS);
+    return JSON.parse(body) as CompanyFactsResponse;
+  }
+
+  async getDocument(url: string): Promise<string> {
+    return this.get(url, Infinity);
+  }
+
+  private async get(url: string, maxAgeMs: number): Promise<string> {
+    const cache = this.getCache();
+    const cached = await cache.get(url, maxAgeMs);
+    if (cached !== undefined) return cached;
+
+    await this.throttle();
+    const response = await fetch(url, {
+      headers: {
+        "user-agent": ENV.edgarUserAgent || ENV.fetchUserAgent,
+        accept: "application/json,text/html;q=0.9,*/*;q=0.5",
+      },
+      signal: AbortSignal.timeout(ENV.fetchTimeoutMs),
+    });
+
+    if (response.status === 404) {
+      throw new FilingNotFoundError(`SEC EDGAR has no document at ${url}`);
+    }
+    if (!response.ok) {
+      throw new EdgarError(`SEC EDGAR request failed: ${response.status} ${response.statusText} for ${url}`, response.status);
+    }
+
+    const body = await response.text();
+    await cache.set(url, body);
+    return body;
+  }
+
+  private getCache(): FileCache {
+    if (!this.cache) {
+      this.cache = new FileCache(this.cacheDirectory ?? ENV.edgarCacheDir);
+    }
+    return this.cache;
+  }
+
+  /**
+   * Space requests out to respect the SEC's fair-access limit
+   */
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const wait = this.nextRequestAt - now;
+    this.nextRequestAt = Math.max(now, this.nextRequestAt) + MIN_REQUEST_INTERVAL_MS;
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Filing Sections
+ * Splits a filing's primary document into its numbered items (Item 1A Risk
+ * Factors, Item 7 MD&A, Item 2.02 of an 8-K, ...)
+ */
+
+import { htmlToText } from "../fetch/html";
+import { FilingSection } from "./EdgarSource";
+
+/**
+ * Stable keys for sections research asks for by name. Matching on the title
+ * rather than the item number works across forms: MD&A is Item 7 of a 10-K
+ * but Item 2 of a 10-Q.
+ */
+const SECTION_KEYS: Array<[RegExp, string]> = [
+  [/^risk factors$/i, "risk_factors"],
+  [/^management.s discussion and analysis/i, "mdna"],
+  [/^business$/i, "business"],
+  [/^quantitative and qualitative disclosures? about market risk$/i, "market_risk"],
+  [/^(condensed )?(consolidated )?financial statements( and supplementary data)?$/i, "financial_statements"],
+  [/^legal proceedings$/i, "legal_proceedings"],
+];
+
+const ITEM_HEADING = /^item\s+(\d{1,2}[a-z]?(?:\.\d{2})?)\s*[.:–—-]?\s*(.*)$/i;
+const PART_HEADING = /^part\s+[ivx]+\b/i;
+/** Page numbers and running footers such as "Apple Inc. | 2023 Form 10-K | 17" */
+const PAGE_FOOTER = /^(?:\d{1,3}|.*\|\s*\d{1,3})$/;
+
+const MAX_TITLE_LENGTH = 150;
+
+function sectionKey(item: string, title: string): string {
+  for (const [pattern, key] of SECTION_KEYS) {
+    if (pattern.test(title)) return key;
+  }
+  return `item_${item.toLowerCase()}`;
+}
+
+function cleanTitle(title: string): string {
+  // Table-of-contents rows end with a page number
+  return title
+    .replace(/\s+\d{1,3}$/, "")
+    .replace(/[.\s]+$/, "")
+    .replace(/[‘’]/g, "'")
+    .trim();
+}
+
+/**
+ * Split a filing into sections. Headings in the table of contents produce
+ * short spans of their own, so for each item the longest span is kept.
+ */
+export function splitFilingSections(html: string): FilingSection[] {
+  // Inline XBRL hides its machine-readable header inside the document
+  const text = htmlToText(html.replace(/<ix:header\b[\s\S]*?<\/ix:header>/gi, " "));
+  const lines = text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const sections = new Map<string, FilingSection>();
+  let current: { item: string; title: string; body: string[] } | undefined;
+
+  const close = () => {
+    if (!current) return;
+    const content = current.body.join("\n\n");
+    const key = sectionKey(current.item, current.title);
+    const existing = sections.get(key);
+    if (!existing || content.length > existing.content.length) {
+      sections.set(key, { key, item: current.item.toUpperCase(), title: current.title, content });
+    }
+    current = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = line.length <= MAX_TITLE_LENGTH + 20 ? ITEM_HEADING.exec(line) : null;
+
+    if (heading) {
+      close();
+      let title = heading[2];
+      // Some filings put the item number and its title in separate blocks
+      if (!title && i + 1 < lines.length && lines[i + 1].length <= MAX_TITLE_LENGTH) {
+        title = lines[++i];
+      }
+      current = { item: heading[1], title: cleanTitle(title), body: [] };
+    } else if (PART_HEADING.test(line)) {
+      close();
+    } else if (current && !PAGE_FOOTER.test(line)) {
+      current.body.push(line);
+    }
+  }
+  close();
+
+  return Array.from(sections.values());
+}
@@ -0,0 +1,95 @@
+/**
+ * XBRL Facts
+ * Picks the headline financial values a filing reported out of the SEC's
+ * company facts, which hold every value the company ever tagged
+ */
+
+import { CompanyFactsResponse, CompanyFactValue, Filing, FinancialFact } from "./EdgarSource";
+
+/**
+ * Line items to extract, each with the us-gaap concepts companies report it
+ * under, most common first
+ */
+export const FINANCIAL_CONCEPTS: Record<string, string[]> = {
+  revenue: ["RevenueFromContractWithCustomerExcludingAssessedTax", "Revenues", "SalesRevenueNet"],
+  netIncome: ["NetIncomeLoss", "ProfitLoss"],
+  operatingIncome: ["OperatingIncomeLoss"],
+  operatingCashFlow: ["NetCashProvidedByUsedInOperatingActivities"],
+  capitalExpenditure: ["PaymentsToAcquirePropertyPlantAndEquipment"],
+  dilutedEps: ["EarningsPerShareDiluted"],
+  totalAssets: ["Assets"],
+  totalLiabilities: ["Liabilities"],
+  stockholdersEquity: ["StockholdersEquity"],
+  cash: ["CashAndCashEquivalentsAtCarryingValue"],
+  longTermDebt: ["LongTermDebtNoncurrent", "LongTermDebt"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function durationDays(value: CompanyFactValue): number {
+  return value.start ? (Date.parse(value.end) - Date.parse(value.start)) / DAY_MS : 0;
+}
+
+/**
+ * The value a filing reported for its own period. Filings also repeat prior
+ * periods for comparison, and a 10-Q reports both the quarter and the year to
+ * date: annual reports keep the longest duration, others the shortest.
+ */
+function reportedValue(values: CompanyFactValue[], filing: Filing): CompanyFactValue | undefined {
+  const candidates = values.filter(
+    (value) => value.accn === filing.accessionNumber && value.end === filing.reportDate
+  );
+  if (candidates.length === 0) return undefined;
+
+  const annual = /^(10-K|20-F|40-F)/.test(filing.form);
+  return candidates.reduce((best, value) => {
+    const difference = durationDays(value) - durationDays(best);
+    return (annual ? difference > 0 : difference < 0) ? value : best;
+  });
+}
+
+/**
+ * Headline financial facts reported in a filing, tagged with the filing they
+ * came from. Filings without financial statements, such as most 8-Ks, have
+ * none.
+ */
+export function extractFilingFacts(companyFacts: CompanyFactsResponse, filing: Filing): FinancialFact[] {
+  const gaap = companyFacts.facts["us-gaap"] ?? {};
+  const facts: FinancialFact[] = [];
+
+  for (const name of Object.keys(FINANCIAL_CONCEPTS)) {
+    for (const concept of FINANCIAL_CONCEPTS[name]) {
+      const tagged = gaap[concept];
+      if (!tagged) continue;
+
+      const unit = Object.keys(tagged.units)[0];
+      const value = unit ? reportedValue(tagged.units[unit], filing) : undefined;
+      if (!value) continue;
+
+      facts.push({
+        name,
+        concept,
+        label: tagged.label,
+        unit,
+        value: value.val,
+        periodStart: value.start,
+        periodEnd: value.end,
+        fiscalYear: value.fy,
+        fiscalPeriod: value.fp,
+        form: value.form,
+        accessionNumber: value.accn,
+        filed: value.filed,
+      });
+      break;
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * A fact's value by name, if the filing reported it
+ */
+export function factValue(facts: FinancialFact[], name: string): number | undefined {
+  return facts.find((fact) => fact.name === name)?.value;
+}
@@ -0,0 +1,72 @@
+/**
+ * Guards against fetching internal services: a URL may only be fetched when
+ * every address its host resolves to is publicly routable.
+ */
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// Redirects are followed by hand so that every hop can be checked
+export const MAX_REDIRECTS = 5;
+export const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Loopback, private, link-local (including cloud metadata), shared, multicast,
+// documentation and other reserved ranges
+const blocked = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.0.2.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["198.51.100.0", 24],
+    ["203.0.113.0", 24],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) => blocked.addSubnet(network, prefix, "ipv4"));
+(
+  [
+    ["::", 128],
+    ["::1", 128],
+    // NAT64 and 6to4 addresses can embed any IPv4 address; IPv4-mapped
+    // ones are checked against the IPv4 ranges by BlockList itself
+    ["64:ff9b::", 96],
+    ["2002::", 16],
+    ["2001:db8::", 32],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) => blocked.addSubnet(network, prefix, "ipv6"));
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolve the URL's host and throw unless all of its addresses are public
+ */
+export async function assertPublicHost(url: URL): Promise<void> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve host ${host}`);
+  }
+
+  const internal = addresses.find(({ address }) => !isPublicAddress(address));
+  if (addresses.length === 0 || internal) {
+    throw new Error(`Refusing to fetch ${url}: ${host} resolves to a private or reserved address`);
+  }
+}
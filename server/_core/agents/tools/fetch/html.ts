@@ -0,0 +1,290 @@
+/**
+ * Readability-style extraction of the main text and metadata from an HTML page.
+ */
+
+export interface ExtractedDocument {
+  title?: string;
+  author?: string;
+  publishedDate?: Date;
+  canonicalUrl?: string;
+  language?: string;
+  content: string;
+}
+
+type Element = { tag: string; attributes: Record<string, string>; inner: string };
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+const REMOVED_WITH_CONTENT = ["script", "style", "noscript", "template", "svg", "iframe", "canvas"];
+const BOILERPLATE_ELEMENTS = ["nav", "header", "footer", "aside", "button", "select", "dialog"];
+const CONTAINER_TAGS = ["article", "main", "section", "div", "td"];
+
+const POSITIVE_HINT = /article|body|content|entry|main|page|post|story|text|blog/i;
+const NEGATIVE_HINT = /comment|sidebar|footer|footnote|masthead|menu|nav|promo|related|share|social|sponsor|widget|advert|\bads?\b|cookie|banner|subscribe|newsletter/i;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Out-of-range code points and lone surrogates are left as written
+      const valid = code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return valid ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=\/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Attributes of every start tag with the given name (for void tags like meta/link)
+ */
+function findTags(html: string, tag: string): Array<Record<string, string>> {
+  const pattern = new RegExp(`<${tag}\\b([^>]*)>`, "gi");
+  const tags: Array<Record<string, string>> = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    tags.push(parseAttributes(match[1]));
+  }
+  return tags;
+}
+
+/**
+ * Every element with the given name, matching nested tags of the same name
+ * so the inner HTML is balanced.
+ */
+function findElements(html: string, tag: string): Element[] {
+  const pattern = new RegExp(`<(/?)${tag}\\b([^>]*)>`, "gi");
+  const open: Array<{ attributes: Record<string, string>; start: number }> = [];
+  const elements: Element[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    if (match[1] === "") {
+      if (match[2].trim().endsWith("/")) continue;
+      open.push({ attributes: parseAttributes(match[2]), start: match.index + match[0].length });
+    } else {
+      const opening = open.pop();
+      if (opening) {
+        elements.push({ tag, attributes: opening.attributes, inner: html.slice(opening.start, match.index) });
+      }
+    }
+  }
+
+  return elements;
+}
+
+function removeElements(html: string, tags: string[]): string {
+  let result = html;
+  for (const tag of tags) {
+    // Remove innermost first so nested elements of the same name go too
+    const pattern = new RegExp(`<${tag}\\b[^>]*>(?:(?!<${tag}\\b)[\\s\\S])*?</${tag}>`, "gi");
+    let previous: string;
+    do {
+      previous = result;
+      result = result.replace(pattern, " ");
+    } while (result !== previous);
+  }
+  return result;
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Convert HTML to plain text with one block per paragraph, dropping blocks
+ * that are mostly links (menus, tag clouds, "read more" lists).
+ */
+export function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<li\b[^>]*>/gi, "\n\u0000- ")
+    .replace(/<(h[1-6]|p|div|section|article|blockquote|pre|tr|ul|ol|table|figure|figcaption|dd|dt)\b[^>]*>/gi, "\n\u0000")
+    .replace(/<\/(h[1-6]|p|div|section|article|blockquote|pre|tr|li|ul|ol|table|figure|figcaption|dd|dt)>/gi, "\n\u0000")
+    .replace(/<br\s*\/?>/gi, "\n");
+
+  const blocks: string[] = [];
+  for (const block of marked.split("\u0000")) {
+    const text = stripTags(block);
+    if (!text) continue;
+
+    const linkText = findElements(block, "a").map((a) => stripTags(a.inner)).join("").length;
+    if (text.length < 200 && linkText / text.length > 0.5) continue;
+
+    blocks.push(text);
+  }
+
+  return blocks.join("\n\n");
+}
+
+function paragraphTextLength(html: string): number {
+  return findElements(html, "p").reduce((total, p) => total + stripTags(p.inner).length, 0);
+}
+
+/**
+ * Pick the element that holds the article body: among containers with close to
+ * the most paragraph text, the tightest one wins.
+ */
+function findMainContent(body: string): string {
+  const candidates: Array<{ html: string; score: number }> = [];
+
+  for (const tag of CONTAINER_TAGS) {
+    for (const element of findElements(body, tag)) {
+      const hint = `${element.attributes.id ?? ""} ${element.attributes.class ?? ""} ${element.attributes.role ?? ""}`;
+      let score = paragraphTextLength(element.inner);
+      if (score === 0) continue;
+
+      if (tag === "article" || tag === "main" || element.attributes.role === "main") score *= 1.25;
+      if (POSITIVE_HINT.test(hint)) score *= 1.1;
+      if (NEGATIVE_HINT.test(hint)) score *= 0.3;
+
+      candidates.push({ html: element.inner, score });
+    }
+  }
+
+  if (candidates.length === 0) return body;
+
+  const best = Math.max(...candidates.map((candidate) => candidate.score));
+  if (best < 140) return body;
+
+  return candidates
+    .filter((candidate) => candidate.score >= best * 0.9)
+    .reduce((tightest, candidate) => (candidate.html.length < tightest.html.length ? candidate : tightest)).html;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+function readJsonLd(html: string): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object") {
+      const node = value as JsonLdNode;
+      nodes.push(node);
+      if (node["@graph"]) collect(node["@graph"]);
+    }
+  };
+
+  while ((match = pattern.exec(html))) {
+    try {
+      collect(JSON.parse(match[1]));
+    } catch {
+      // Ignore malformed structured data
+    }
+  }
+
+  return nodes;
+}
+
+function jsonLdAuthor(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    const names = value.map(jsonLdAuthor).filter((name): name is string => !!name);
+    return names.length > 0 ? names.join(", ") : undefined;
+  }
+  if (value && typeof value === "object" && typeof (value as JsonLdNode).name === "string") {
+    return (value as JsonLdNode).name as string;
+  }
+  return undefined;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function resolveUrl(href: string | undefined, base: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+export function extractHtml(html: string, pageUrl: string): ExtractedDocument {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, "");
+
+  const metas = findTags(withoutComments, "meta");
+  const meta = (...keys: string[]): string | undefined => {
+    for (const key of keys) {
+      const found = metas.find((m) => (m.property ?? m.name ?? m.itemprop ?? "").toLowerCase() === key);
+      if (found?.content?.trim()) return found.content.trim();
+    }
+    return undefined;
+  };
+
+  const article = readJsonLd(withoutComments).find(
+    (node) => node.headline || node.datePublished || node.author
+  );
+
+  const titleElement = findElements(withoutComments, "title")[0];
+  const firstHeading = findElements(withoutComments, "h1")[0];
+  const title =
+    meta("og:title", "twitter:title") ??
+    (typeof article?.headline === "string" ? article.headline : undefined) ??
+    (titleElement ? stripTags(titleElement.inner) : undefined) ??
+    (firstHeading ? stripTags(firstHeading.inner) : undefined);
+
+  const metaAuthor = meta("author", "article:author", "parsely-author", "dc.creator");
+  const author =
+    (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : undefined) ?? jsonLdAuthor(article?.author);
+
+  const timeElement = findTags(withoutComments, "time").find((t) => t.datetime);
+  const publishedDate =
+    parseDate(meta("article:published_time", "datepublished", "date", "pubdate", "publish-date", "dc.date", "dc.date.issued")) ??
+    parseDate(article?.datePublished) ??
+    parseDate(timeElement?.datetime);
+
+  const canonicalLink = findTags(withoutComments, "link").find((link) =>
+    (link.rel ?? "").toLowerCase().split(/\s+/).includes("canonical")
+  );
+  const canonicalUrl = resolveUrl(canonicalLink?.href ?? meta("og:url"), pageUrl);
+
+  const language = findTags(withoutComments, "html")[0]?.lang || undefined;
+
+  const bodyElement = findElements(withoutComments, "body")[0];
+  const cleaned = removeElements(
+    removeElements(bodyElement?.inner ?? withoutComments, REMOVED_WITH_CONTENT),
+    BOILERPLATE_ELEMENTS
+  );
+
+  return {
+    title,
+    author,
+    publishedDate,
+    canonicalUrl,
+    language,
+    content: htmlToText(findMainContent(cleaned)),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Page Fetching
+ * Downloads a URL within size and time limits, honouring robots.txt, and
+ * extracts readable text from HTML, PDF and plain-text responses.
+ */
+
+import { ENV } from "../../../env";
+import { assertPublicHost, MAX_REDIRECTS, REDIRECT_STATUSES } from "./address";
+import { extractHtml } from "./html";
+import { extractPdf, isPdf } from "./pdf";
+import { isAllowedByRobots } from "./robots";
+
+export interface FetchedPage {
+  url: string;
+  title?: string;
+  author?: string;
+  publishedDate?: Date;
+  canonicalUrl?: string;
+  content: string;
+  metadata: {
+    contentType: string;
+    statusCode: number;
+    bytes: number;
+    truncated: boolean;
+    language?: string;
+    fetchedAt: Date;
+    fetchTimeMs: number;
+  };
+}
+
+export interface FetchOptions {
+  maxBytes?: number;
+  timeoutMs?: number;
+  respectRobots?: boolean;
+}
+
+const TEXT_TYPES = /^text\/(plain|markdown|csv)|^application\/(json|xml)|\+xml$|\+json$/;
+
+/**
+ * Read the body up to maxBytes, cancelling the download once the limit is hit.
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!response.body) return { bytes: new Uint8Array(), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (received + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - received));
+      received = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    received += value.length;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return { bytes, truncated };
+}
+
+function charsetOf(contentType: string): string {
+  return /charset=["']?([\w-]+)/i.exec(contentType)?.[1] ?? "utf-8";
+}
+
+function decode(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/**
+ * Check a URL, or a redirect target, before requesting it: only http(s), only
+ * public addresses, and only paths robots.txt allows
+ */
+async function assertFetchable(target: URL, respectRobots: boolean, userAgent: string, timeoutMs: number): Promise<void> {
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    throw new Error(`Unsupported URL protocol: ${target.protocol}`);
+  }
+  await assertPublicHost(target);
+  if (respectRobots && !(await isAllowedByRobots(target, userAgent, timeoutMs))) {
+    throw new Error(`Fetching ${target} is disallowed by robots.txt`);
+  }
+}
+
+export async function fetchPage(url: string, options: FetchOptions = {}): Promise<FetchedPage> {
+  const maxBytes = options.maxBytes ?? ENV.fetchMaxBytes;
+  const timeoutMs = options.timeoutMs ?? ENV.fetchTimeoutMs;
+  const respectRobots = options.respectRobots ?? true;
+  const userAgent = ENV.fetchUserAgent;
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  const startedAt = Date.now();
+  const signal = AbortSignal.timeout(timeoutMs);
+  let response: Response;
+
+  // Redirects are followed by hand so every hop gets the same checks
+  for (let redirects = 0; ; redirects++) {
+    await assertFetchable(target, respectRobots, userAgent, timeoutMs);
+
+    response = await fetch(target, {
+      headers: {
+        "user-agent": userAgent,
+        accept: "text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.5",
+      },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) break;
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${url}`);
+    }
+    await response.body?.cancel();
+    target = new URL(location, target);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Fetch failed: ${response.status} ${response.statusText} for ${url}`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  const { bytes, truncated } = await readLimited(response, maxBytes);
+  const finalUrl = target.toString();
+
+  const metadata = {
+    contentType: mimeType || "application/octet-stream",
+    statusCode: response.status,
+    bytes: bytes.length,
+    truncated,
+    fetchedAt: new Date(),
+    fetchTimeMs: Date.now() - startedAt,
+  };
+
+  if (mimeType === "application/pdf" || isPdf(bytes)) {
+    if (truncated) {
+      throw new Error(`PDF at ${url} exceeds the ${maxBytes}-byte fetch limit`);
+    }
+    const pdf = extractPdf(bytes);
+    return {
+      url: finalUrl,
+      title: pdf.title,
+      author: pdf.author,
+      publishedDate: pdf.publishedDate,
+      content: pdf.content,
+      metadata: { ...metadata, contentType: "application/pdf", truncated: pdf.truncated },
+    };
+  }
+
+  const text = decode(bytes, charsetOf(contentType));
+
+  if (mimeType === "text/html" || mimeType === "application/xhtml+xml" || (!mimeType && /<html[\s>]/i.test(text))) {
+    const document = extractHtml(text, finalUrl);
+    return {
+      url: finalUrl,
+      title: document.title,
+      author: document.author,
+      publishedDate: document.publishedDate,
+      canonicalUrl: document.canonicalUrl,
+      content: document.content,
+      metadata: { ...metadata, contentType: mimeType || "text/html", language: document.language },
+    };
+  }
+
+  if (!mimeType || TEXT_TYPES.test(mimeType)) {
+    return {
+      url: finalUrl,
+      content: text.trim(),
+      metadata,
+    };
+  }
+
+  throw new Error(`Unsupported content type ${mimeType} for ${url}`);
+}
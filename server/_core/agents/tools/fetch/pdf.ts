@@ -0,0 +1,211 @@
+/**
+ * Best-effort text extraction from PDF files: inflates content streams and
+ * reads the strings shown by text operators. Scanned (image-only) and
+ * encrypted PDFs yield no text.
+ */
+
+import { constants, inflateSync } from "node:zlib";
+
+export interface ExtractedPdf {
+  title?: string;
+  author?: string;
+  publishedDate?: Date;
+  content: string;
+  /** Whether extraction stopped early at the size limits below */
+  truncated: boolean;
+}
+
+// A small compressed stream can inflate to gigabytes, so each stream and the
+// document as a whole are capped
+const MAX_STREAM_BYTES = 8 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 1_000_000;
+
+/**
+ * Decode a PDF literal string body (without the surrounding parentheses)
+ */
+function decodeLiteral(raw: string): string {
+  return raw.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      case "b":
+        return "\b";
+      case "f":
+        return "\f";
+      case "(":
+      case ")":
+      case "\\":
+        return escape;
+      case "\r":
+      case "\n":
+        return "";
+      default:
+        return String.fromCharCode(parseInt(escape, 8));
+    }
+  });
+}
+
+function decodeHex(raw: string): string {
+  const hex = raw.replace(/\s+/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+  }
+  // UTF-16BE with byte order mark, as used for Info dictionary strings
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  return String.fromCharCode(...bytes);
+}
+
+/**
+ * Read the strings drawn between BT/ET operators, starting a new line on
+ * line-moving operators.
+ */
+function extractTextOperators(content: string): string {
+  let text = "";
+  const tokens = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s\/\[\]()<>]+|[A-Za-z'"*]+/g;
+  let inText = false;
+  let pending: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(content))) {
+    const token = match[0];
+
+    if (token === "BT") {
+      inText = true;
+      continue;
+    }
+    if (token === "ET") {
+      inText = false;
+      pending = [];
+      text += "\n";
+      continue;
+    }
+    if (!inText) continue;
+
+    if (token.startsWith("(")) {
+      pending.push(decodeLiteral(token.slice(1, -1)));
+    } else if (token.startsWith("<")) {
+      pending.push(decodeHex(token.slice(1, -1)));
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      // Large negative kerning inside TJ arrays usually separates words
+      if (parseFloat(token) < -200 && pending.length > 0) pending.push(" ");
+    } else if (token === "Tj" || token === "TJ") {
+      text += pending.join("");
+      pending = [];
+    } else if (token === "'" || token === '"') {
+      text += "\n" + pending.join("");
+      pending = [];
+    } else if (token === "Td" || token === "TD" || token === "T*" || token === "Tm") {
+      if (!text.endsWith("\n")) text += "\n";
+    } else if (token !== "[" && token !== "]" && !token.startsWith("/")) {
+      pending = [];
+    }
+  }
+
+  return text;
+}
+
+function infoString(pdf: string, key: string): string | undefined {
+  const literal = new RegExp(`/${key}\\s*\\(((?:\\\\[\\s\\S]|[^\\\\)])*)\\)`).exec(pdf);
+  if (literal) return decodeLiteral(literal[1]).trim() || undefined;
+
+  const hex = new RegExp(`/${key}\\s*<([0-9a-fA-F\\s]*)>`).exec(pdf);
+  if (hex) return decodeHex(hex[1]).trim() || undefined;
+
+  return undefined;
+}
+
+/**
+ * Parse a PDF date such as D:20240131120000Z or D:20240131120000+01'00'
+ */
+function parsePdfDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00"] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export function isPdf(bytes: Uint8Array): boolean {
+  return bytes.length >= 5 && Buffer.from(bytes.subarray(0, 5)).toString("latin1") === "%PDF-";
+}
+
+export function extractPdf(bytes: Uint8Array): ExtractedPdf {
+  const buffer = Buffer.from(bytes);
+  const pdf = buffer.toString("latin1");
+  const parts: string[] = [];
+  let inflatedBytes = 0;
+  let textLength = 0;
+  let truncated = false;
+
+  const streamPattern = /<<((?:(?!>>\s*stream)[\s\S])*)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(pdf))) {
+    if (inflatedBytes >= MAX_INFLATED_BYTES || textLength >= MAX_TEXT_LENGTH) {
+      truncated = true;
+      break;
+    }
+
+    const dictionary = match[1];
+    const start = match.index + match[0].length;
+    const end = pdf.indexOf("endstream", start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    // Skip images, fonts and other binary streams
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1|\/Type\s*\/(XObject|XRef|ObjStm|Metadata)/.test(dictionary)) {
+      continue;
+    }
+
+    let data: Buffer = buffer.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      const maxOutputLength = Math.min(MAX_STREAM_BYTES, MAX_INFLATED_BYTES - inflatedBytes);
+      try {
+        data = inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength });
+      } catch (error) {
+        // Oversized streams are skipped, but the work spent on them counts
+        if (error instanceof RangeError) {
+          inflatedBytes += maxOutputLength;
+          truncated = true;
+        }
+        continue;
+      }
+      inflatedBytes += data.length;
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const extracted = extractTextOperators(data.toString("latin1"));
+    const text = extracted.slice(0, MAX_TEXT_LENGTH - textLength);
+    if (text.length < extracted.length) truncated = true;
+    if (text.trim()) parts.push(text);
+    textLength += text.length;
+  }
+
+  const content = parts
+    .join("\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+
+  return {
+    title: infoString(pdf, "Title"),
+    author: infoString(pdf, "Author"),
+    publishedDate: parsePdfDate(infoString(pdf, "CreationDate")),
+    content,
+    truncated,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * robots.txt parsing and a per-origin cache of the rules that apply to us.
+ */
+
+import { assertPublicHost, MAX_REDIRECTS, REDIRECT_STATUSES } from "./address";
+
+type RobotsRule = { allow: boolean; pattern: string };
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const cache = new Map<string, { rules: RobotsRule[]; expiresAt: number }>();
+
+/**
+ * Collect the rules from the most specific user-agent group that matches,
+ * falling back to the `*` group.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRule[] {
+  const agentToken = userAgent.toLowerCase().split("/")[0];
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === "allow" || field === "disallow") && current) {
+      // An empty Disallow means everything is allowed
+      if (value.length > 0) {
+        current.rules.push({ allow: field === "allow", pattern: value });
+      }
+    }
+  }
+
+  const specific = groups.filter((group) =>
+    group.agents.some((agent) => agent !== "*" && agentToken.includes(agent))
+  );
+  const chosen = specific.length > 0 ? specific : groups.filter((group) => group.agents.includes("*"));
+  return chosen.flatMap((group) => group.rules);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * The longest matching rule wins; Allow wins ties. No match means allowed.
+ */
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Fetch robots.txt, following at most MAX_REDIRECTS redirects and only to
+ * public addresses
+ */
+async function fetchRobotsTxt(origin: string, userAgent: string, timeoutMs: number): Promise<Response> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let target = new URL("/robots.txt", origin);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(target, { headers: { "user-agent": userAgent }, redirect: "manual", signal });
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) return response;
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) throw new Error(`Too many redirects fetching ${origin}/robots.txt`);
+    target = new URL(location, target);
+    await assertPublicHost(target);
+  }
+}
+
+/**
+ * Check robots.txt for the URL's origin. A missing or unreachable robots.txt,
+ * including one that redirects to a private address, allows everything; a
+ * 401/403 disallows everything.
+ */
+export async function isAllowedByRobots(
+  url: URL,
+  userAgent: string,
+  timeoutMs: number
+): Promise<boolean> {
+  let entry = cache.get(url.origin);
+
+  if (!entry || entry.expiresAt < Date.now()) {
+    let rules: RobotsRule[] = [];
+    try {
+      const response = await fetchRobotsTxt(url.origin, userAgent, timeoutMs);
+      if (response.status === 401 || response.status === 403) {
+        rules = [{ allow: false, pattern: "/" }];
+      } else if (response.ok) {
+        rules = parseRobotsTxt(await response.text(), userAgent);
+      }
+    } catch {
+      // Unreachable robots.txt is treated as no restrictions
+    }
+
+    entry = { rules, expiresAt: Date.now() + CACHE_TTL_MS };
+    cache.set(url.origin, entry);
+  }
+
+  return isPathAllowed(entry.rules, `${url.pathname}${url.search}`);
+}
+
+export function clearRobotsCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,34 @@
+/**
+ * Reference exchange rates for one base currency on one day
+ */
+export interface FxRateTable {
+  base: string;
+  /** Day the rates were fixed; earlier than the requested day over weekends and holidays */
+  date: string;
+  /** Units of each currency per unit of the base */
+  rates: Record<string, number>;
+}
+
+export interface FxRatePoint {
+  date: string;
+  rate: number;
+}
+
+/**
+ * Source of daily reference rates
+ */
+export interface FxRateProvider {
+  readonly name: string;
+
+  /**
+   * Rates from a base currency on a day (YYYY-MM-DD), or the latest fixing
+   * when no day is given. Days without a fixing use the one before.
+   */
+  getRates(base: string, date?: string): Promise<FxRateTable>;
+
+  /**
+   * Daily rates from one currency to another over a range of days, oldest
+   * first, starting with the fixing in effect on the first day
+   */
+  getSeries(base: string, quote: string, start: string, end: string): Promise<FxRatePoint[]>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Raised for a currency the rate source does not quote, or a day it has no
+ * rate for
+ */
+export class FxError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string
+  ) {
+    super(message);
+    this.name = "FxError";
+  }
+}
@@ -0,0 +1,73 @@
+import { readFileSync } from "node:fs";
+import { FxRatePoint, FxRateProvider, FxRateTable } from "./FxRateProvider";
+import { FxError } from "./errors";
+import { DEFAULT_FX_FIXTURES, FxFixtures } from "./fixtures";
+import { ENV } from "../../../env";
+
+/**
+ * Offline provider serving recorded rates. Loads FX_FIXTURES_PATH when set,
+ * otherwise the bundled fixtures. Cross rates go through the recorded base.
+ */
+export class FixtureFxProvider implements FxRateProvider {
+  readonly name = "fixture";
+  private fixtures?: FxFixtures;
+
+  constructor(fixtures?: FxFixtures) {
+    this.fixtures = fixtures;
+  }
+
+  async getRates(base: string, date?: string): Promise<FxRateTable> {
+    const fixing = this.fixingOn(date);
+    const rates: Record<string, number> = {};
+    for (const currency of this.currencies()) {
+      rates[currency] = this.cross(fixing, base, currency);
+    }
+    return { base, date: fixing, rates };
+  }
+
+  async getSeries(base: string, quote: string, start: string, end: string): Promise<FxRatePoint[]> {
+    const first = this.fixingOn(start);
+    return this.fixingDays()
+      .filter((day) => day >= first && day <= end)
+      .map((day) => ({ date: day, rate: this.cross(day, base, quote) }));
+  }
+
+  private cross(day: string, base: string, quote: string): number {
+    const rates = { ...this.loadFixtures().rates[day], [this.loadFixtures().base]: 1 };
+    for (const currency of [base, quote]) {
+      if (rates[currency] === undefined) {
+        throw new FxError(`No ${this.name} rate for ${currency}`, this.name);
+      }
+    }
+    return rates[quote] / rates[base];
+  }
+
+  /** The last fixing on or before a day, or the latest fixing */
+  private fixingOn(date?: string): string {
+    const days = this.fixingDays().filter((day) => !date || day <= date);
+    if (days.length === 0) {
+      throw new FxError(`No ${this.name} rates on or before ${date}`, this.name);
+    }
+    return days[days.length - 1];
+  }
+
+  private fixingDays(): string[] {
+    return Object.keys(this.loadFixtures().rates).sort();
+  }
+
+  private currencies(): string[] {
+    const fixtures = this.loadFixtures();
+    const all = new Set<string>([fixtures.base]);
+    Object.values(fixtures.rates).forEach((rates) => Object.keys(rates).forEach((currency) => all.add(currency)));
+    return Array.from(all);
+  }
+
+  private loadFixtures(): FxFixtures {
+    if (!this.fixtures) {
+      this.fixtures = ENV.fxFixturesPath
+        ? (JSON.parse(readFileSync(ENV.fxFixturesPath, "utf8")) as FxFixtures)
+        : DEFAULT_FX_FIXTURES;
+    }
+    return this.fixtures;
+  }
+}
@@ -0,0 +1,22 @@
+export interface FxFixtures {
+  /** Currency every recorded rate is quoted against */
+  base: string;
+  /** Units of each currency per unit of the base, by fixing day */
+  rates: Record<string, Record<string, number>>;
+}
+
+/**
+ * Approximate ECB reference rates over the span of the market data fixtures,
+ * for offline tests and demos. Days between fixings use the previous one.
+ */
+export const DEFAULT_FX_FIXTURES: FxFixtures = {
+  base: "USD",
+  rates: {
+    "2024-01-02": { EUR: 0.9075, GBP: 0.7877, JPY: 141.9, CAD: 1.3316, CHF: 0.8467 },
+    "2024-07-01": { EUR: 0.9322, GBP: 0.7907, JPY: 161.5, CAD: 1.3714, CHF: 0.9032 },
+    "2024-08-01": { EUR: 0.9251, GBP: 0.781, JPY: 149.1, CAD: 1.383, CHF: 0.8791 },
+    "2024-09-03": { EUR: 0.905, GBP: 0.7627, JPY: 145.5, CAD: 1.353, CHF: 0.8509 },
+    "2024-10-01": { EUR: 0.8985, GBP: 0.7501, JPY: 143.6, CAD: 1.3525, CHF: 0.8472 },
+    "2024-10-18": { EUR: 0.9204, GBP: 0.7664, JPY: 149.54, CAD: 1.38, CHF: 0.8645 },
+  },
+};
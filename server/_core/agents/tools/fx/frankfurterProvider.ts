@@ -0,0 +1,53 @@
+import { FxRatePoint, FxRateProvider, FxRateTable } from "./FxRateProvider";
+import { FxError } from "./errors";
+import { ENV } from "../../../env";
+
+interface FrankfurterRates {
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+interface FrankfurterSeries {
+  base: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+/**
+ * European Central Bank reference rates through the Frankfurter API
+ * (FX_API_URL). No key is needed; rates are fixed once a working day and go
+ * back to 1999.
+ */
+export class FrankfurterFxProvider implements FxRateProvider {
+  readonly name = "frankfurter";
+
+  async getRates(base: string, date?: string): Promise<FxRateTable> {
+    const body = await this.get<FrankfurterRates>(`/${date ?? "latest"}?from=${encodeURIComponent(base)}`);
+    return { base: body.base, date: body.date, rates: { ...body.rates, [body.base]: 1 } };
+  }
+
+  async getSeries(base: string, quote: string, start: string, end: string): Promise<FxRatePoint[]> {
+    const body = await this.get<FrankfurterSeries>(
+      `/${start}..${end}?from=${encodeURIComponent(base)}&to=${encodeURIComponent(quote)}`
+    );
+    return Object.keys(body.rates)
+      .sort()
+      .filter((date) => body.rates[date][quote] !== undefined)
+      .map((date) => ({ date, rate: body.rates[date][quote] }));
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const response = await fetch(`${ENV.fxApiUrl.replace(/\/+$/, "")}${path}`, {
+      headers: { "user-agent": ENV.fetchUserAgent, accept: "application/json" },
+      signal: AbortSignal.timeout(ENV.fetchTimeoutMs),
+    });
+
+    if (response.status === 404 || response.status === 422) {
+      throw new FxError(`No ${this.name} rates for ${path}`, this.name);
+    }
+    if (!response.ok) {
+      throw new Error(`${this.name} FX request failed: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Foreign Exchange
+ * Daily reference rates for converting prices, fundamentals and portfolio
+ * values into a reporting currency. Rates come from the provider selected
+ * through ENV.fxProvider and are cached in memory: fixings for past days
+ * never change, so only the latest rates expire.
+ */
+
+import { z } from "zod";
+import { FxRatePoint, FxRateProvider, FxRateTable } from "./FxRateProvider";
+import { FrankfurterFxProvider } from "./frankfurterProvider";
+import { FixtureFxProvider } from "./fixtureProvider";
+import { FxError } from "./errors";
+import { ENV } from "../../../env";
+
+// Rate tables and series kept in memory before the oldest are dropped
+const MAX_CACHE_ENTRIES = 500;
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a three-letter ISO 4217 code")
+  .transform((code) => code.toUpperCase());
+
+/**
+ * Quotes in minor units, as exchanges report them: London in pence, Tel Aviv
+ * in agorot and Johannesburg in cents
+ */
+const MINOR_UNITS: Record<string, { currency: string; scale: number }> = {
+  GBp: { currency: "GBP", scale: 0.01 },
+  GBX: { currency: "GBP", scale: 0.01 },
+  ILA: { currency: "ILS", scale: 0.01 },
+  ZAc: { currency: "ZAR", scale: 0.01 },
+};
+
+export class FxAdapter {
+  private providers: Map<string, FxRateProvider> = new Map();
+
+  constructor() {
+    this.registerProvider("frankfurter", new FrankfurterFxProvider());
+    this.registerProvider("fixture", new FixtureFxProvider());
+  }
+
+  registerProvider(name: string, provider: FxRateProvider) {
+    this.providers.set(name, provider);
+  }
+
+  getProvider(name: string): FxRateProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`FX provider "${name}" not found.`);
+    }
+    return provider;
+  }
+}
+
+export const fxAdapter = new FxAdapter();
+
+function currentProvider(): FxRateProvider {
+  return fxAdapter.getProvider(ENV.fxProvider);
+}
+
+/**
+ * An exchange rate: one unit of `from` is worth `rate` units of `to`
+ */
+export interface FxRate {
+  from: string;
+  to: string;
+  rate: number;
+  /** Day of the fixing used */
+  date: string;
+  source: string;
+}
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+function toDay(date: Date | string): string {
+  return typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+function today(): string {
+  return toDay(new Date());
+}
+
+/**
+ * Load through the cache. Values that can still change (anything reaching
+ * today) expire after FX_LATEST_TTL_MS; failures are not cached.
+ */
+function cached<T>(key: string, latest: boolean, load: () => Promise<T>): Promise<T> {
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.value as Promise<T>;
+
+  const value = load();
+  cache.delete(key);
+  cache.set(key, { value, expiresAt: latest ? Date.now() + ENV.fxLatestTtlMs : Infinity });
+  value.catch(() => {
+    if (cache.get(key)?.value === value) cache.delete(key);
+  });
+
+  // Maps iterate in insertion order, so the first keys are the oldest
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return value;
+}
+
+export function clearFxCache(): void {
+  cache.clear();
+}
+
+/**
+ * The ISO currency behind a quote currency, and what one quoted unit is worth
+ * in it (0.01 for pence)
+ */
+export function normalizeCurrency(code: string): { currency: string; scale: number } {
+  const trimmed = code.trim();
+  return MINOR_UNITS[trimmed] ?? MINOR_UNITS[trimmed.toUpperCase()] ?? { currency: trimmed.toUpperCase(), scale: 1 };
+}
+
+async function getRateTable(base: string, date?: Date | string): Promise<FxRateTable> {
+  const provider = currentProvider();
+  const day = date === undefined ? undefined : toDay(date);
+  // Today's fixing may not be published yet, so today is asked for as the latest
+  const latest = day === undefined || day >= today();
+  const key = `${provider.name}:rates:${base}:${latest ? "latest" : day}`;
+  return cached(key, latest, () => provider.getRates(base, latest ? undefined : day));
+}
+
+/**
+ * The rate from one currency to another on a day, or the latest rate.
+ * Minor-unit quote currencies are scaled; the same currency needs no lookup.
+ */
+export async function getFxRate(from: string, to: string, date?: Date | string): Promise<FxRate> {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  const scale = source.scale / target.scale;
+
+  if (source.currency === target.currency) {
+    return { from, to, rate: scale, date: toDay(date ?? new Date()), source: "identity" };
+  }
+
+  const provider = currentProvider();
+  const table = await getRateTable(source.currency, date);
+  const rate = table.rates[target.currency];
+  if (rate === undefined) {
+    throw new FxError(`No ${provider.name} rate from ${source.currency} to ${target.currency}`, provider.name);
+  }
+  return { from, to, rate: rate * scale, date: table.date, source: provider.name };
+}
+
+/**
+ * Convert an amount at the rate of a day, or the latest rate
+ */
+export async function convertAmount(amount: number, from: string, to: string, date?: Date | string): Promise<number> {
+  const { rate } = await getFxRate(from, to, date);
+  return amount * rate;
+}
+
+/**
+ * Daily rates between two currencies. Days without a fixing use the one
+ * before, so weekend prices convert at Friday's rate.
+ */
+export class FxSeries {
+  constructor(
+    readonly from: string,
+    readonly to: string,
+    readonly source: string,
+    private points: FxRatePoint[],
+    private scale: number = 1
+  ) {}
+
+  /** Rate in effect on a day; days before the series use its first fixing */
+  rateOn(date: Date | string): number {
+    if (this.points.length === 0) return this.scale;
+    const day = toDay(date);
+    let low = 0;
+    let high = this.points.length - 1;
+    let found = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.points[mid].date <= day) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return this.points[found].rate * this.scale;
+  }
+}
+
+/**
+ * Daily rates from one currency to another between two days
+ */
+export async function getFxSeries(from: string, to: string, start: Date | string, end: Date | string): Promise<FxSeries> {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  const scale = source.scale / target.scale;
+  if (source.currency === target.currency) return new FxSeries(from, to, "identity", [], scale);
+
+  const provider = currentProvider();
+  const first = toDay(start);
+  const last = toDay(end);
+  const key = `${provider.name}:series:${source.currency}:${target.currency}:${first}:${last}`;
+  const points = await cached(key, last >= today(), () =>
+    provider.getSeries(source.currency, target.currency, first, last)
+  );
+  return new FxSeries(from, to, provider.name, points, scale);
+}
+
+/**
+ * Format an amount in a currency, e.g. "$1,234.50" or "€1.2T" when compact.
+ * Minor-unit and unknown codes are written as the number and the code.
+ */
+export function formatMoney(amount: number, currency: string, options: { compact?: boolean } = {}): string {
+  if (normalizeCurrency(currency).scale === 1) {
+    try {
+      return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: currency.toUpperCase(),
+        notation: options.compact ? "compact" : "standard",
+        maximumFractionDigits: options.compact ? 2 : undefined,
+      }).format(amount);
+    } catch {
+      // Not a currency Intl knows
+    }
+  }
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+/**
+ * An amount in the reporting currency followed by its native value, e.g.
+ * "€216.29 (native $235.00)". Amounts already in the reporting currency are
+ * written once.
+ */
+export function formatConverted(amount: number, fx: FxRate, options: { compact?: boolean } = {}): string {
+  const converted = formatMoney(amount * fx.rate, fx.to, options);
+  if (fx.source === "identity" && fx.rate === 1) return converted;
+  return `${converted} (native ${formatMoney(amount, fx.from, options)})`;
+}
+
+/**
+ * Where a conversion's rate came from, e.g. "1 USD = 0.9204 EUR
+ * (frankfurter, 2024-10-18)"
+ */
+export function formatFxRate(fx: FxRate): string {
+  if (fx.source === "identity") return `amounts in ${fx.to}, no conversion`;
+  return `1 ${fx.from} = ${Number(fx.rate.toPrecision(6))} ${fx.to} (${fx.source}, ${fx.date})`;
+}
+
+export type { FxRateProvider, FxRateTable, FxRatePoint } from "./FxRateProvider";
+export { FxError } from "./errors";
+export { FrankfurterFxProvider } from "./frankfurterProvider";
+export { FixtureFxProvider } from "./fixtureProvider";
+export type { FxFixtures } from "./fixtures";
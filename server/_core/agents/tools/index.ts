@@ -7,3 +7,6 @@ export * from "./dataExtraction";
 export * from "./factChecking";
 export * from "./yahooFinance";
 export * from "./timeDate";
+export * from "./indicators";
+export * from "./portfolio";
+export * from "./backtest";
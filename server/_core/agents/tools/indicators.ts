@@ -0,0 +1,294 @@
+/**
+ * Technical Indicators
+ * Return, risk and trend measures computed from daily price series. Series
+ * run oldest to newest; returns and rates are expressed as percentages.
+ */
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export interface PriceBar {
+  date: string;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Percentage change over the last `periods` observations
+ */
+export function periodReturn(closes: number[], periods: number): number | null {
+  if (closes.length <= periods) return null;
+  const start = closes[closes.length - 1 - periods];
+  return (closes[closes.length - 1] / start - 1) * 100;
+}
+
+/**
+ * Simple returns between consecutive closes, as fractions
+ */
+export function simpleReturns(closes: number[]): number[] {
+  return closes.slice(1).map((close, i) => close / closes[i] - 1);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sampleStdDev(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+export function annualizedVolatility(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  return sampleStdDev(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+}
+
+/**
+ * Annualized Sharpe ratio of daily returns against an annual risk-free rate
+ * (a fraction, e.g. 0.04)
+ */
+export function sharpeRatio(returns: number[], riskFreeRate: number = 0): number | null {
+  if (returns.length < 2) return null;
+  const excess = returns.map((r) => r - riskFreeRate / TRADING_DAYS_PER_YEAR);
+  const deviation = sampleStdDev(excess);
+  if (deviation === 0) return null;
+  return (mean(excess) / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * Like Sharpe, but only returns below the risk-free rate count as risk
+ */
+export function sortinoRatio(returns: number[], riskFreeRate: number = 0): number | null {
+  if (returns.length < 2) return null;
+  const excess = returns.map((r) => r - riskFreeRate / TRADING_DAYS_PER_YEAR);
+  const downside = Math.sqrt(mean(excess.map((r) => Math.min(0, r) ** 2)));
+  if (downside === 0) return null;
+  return (mean(excess) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+export interface Drawdown {
+  /** Largest peak-to-trough decline, as a positive percentage */
+  maxDrawdown: number;
+  peakIndex: number;
+  troughIndex: number;
+}
+
+export function maxDrawdown(values: number[]): Drawdown | null {
+  if (values.length < 2) return null;
+
+  let peakIndex = 0;
+  let worst: Drawdown = { maxDrawdown: 0, peakIndex: 0, troughIndex: 0 };
+  values.forEach((value, i) => {
+    if (value > values[peakIndex]) peakIndex = i;
+    const drawdown = (1 - value / values[peakIndex]) * 100;
+    if (drawdown > worst.maxDrawdown) {
+      worst = { maxDrawdown: drawdown, peakIndex, troughIndex: i };
+    }
+  });
+  return worst;
+}
+
+/**
+ * Simple moving average, aligned with the input; entries before the first
+ * full window are null
+ */
+export function sma(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first window,
+ * aligned with the input
+ */
+export function ema(values: number[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  return values.map((value, i) => {
+    if (i < period - 1) return null;
+    previous = previous === null ? mean(values.slice(0, period)) : value * k + previous * (1 - k);
+    return previous;
+  });
+}
+
+/**
+ * Relative Strength Index with Wilder smoothing, aligned with the input;
+ * entries before the first full period are null
+ */
+export function rsiSeries(closes: number[], period: number = 14): (number | null)[] {
+  const series: (number | null)[] = closes.map(() => null);
+  if (closes.length <= period) return series;
+
+  const changes = closes.slice(1).map((close, i) => close - closes[i]);
+  let avgGain = mean(changes.slice(0, period).map((c) => Math.max(c, 0)));
+  let avgLoss = mean(changes.slice(0, period).map((c) => Math.max(-c, 0)));
+  const toRsi = () => (avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss));
+
+  series[period] = toRsi();
+  for (let i = period; i < changes.length; i++) {
+    avgGain = (avgGain * (period - 1) + Math.max(changes[i], 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-changes[i], 0)) / period;
+    series[i + 1] = toRsi();
+  }
+  return series;
+}
+
+/**
+ * Latest Relative Strength Index value
+ */
+export function rsi(closes: number[], period: number = 14): number | null {
+  const series = rsiSeries(closes, period);
+  return series[series.length - 1] ?? null;
+}
+
+export interface Macd {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export function macd(
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): Macd | null {
+  if (closes.length < slowPeriod + signalPeriod - 1) return null;
+
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const line = closes.slice(slowPeriod - 1).map((_, i) => fast[i + slowPeriod - 1]! - slow[i + slowPeriod - 1]!);
+  const signal = ema(line, signalPeriod);
+
+  const latest = line[line.length - 1];
+  const latestSignal = signal[signal.length - 1]!;
+  return { macd: latest, signal: latestSignal, histogram: latest - latestSignal };
+}
+
+export interface BollingerBands {
+  upper: number;
+  middle: number;
+  lower: number;
+  /** Band width relative to the middle band, as a percentage */
+  bandwidth: number;
+  /** Where the last close sits in the band: 0 at the lower band, 1 at the upper */
+  percentB: number;
+}
+
+export function bollingerBands(closes: number[], period: number = 20, stdDevs: number = 2): BollingerBands | null {
+  if (closes.length < period) return null;
+
+  const window = closes.slice(-period);
+  const middle = mean(window);
+  const deviation = Math.sqrt(mean(window.map((close) => (close - middle) ** 2)));
+  const upper = middle + stdDevs * deviation;
+  const lower = middle - stdDevs * deviation;
+  const last = closes[closes.length - 1];
+
+  return {
+    upper,
+    middle,
+    lower,
+    bandwidth: ((upper - lower) / middle) * 100,
+    percentB: upper === lower ? 0.5 : (last - lower) / (upper - lower),
+  };
+}
+
+export interface Pivot {
+  type: "high" | "low";
+  index: number;
+  date: string;
+  price: number;
+}
+
+/**
+ * Swing highs and lows: bars whose high (low) is above (below) every bar
+ * within `window` bars on either side
+ */
+export function findPivots(bars: PriceBar[], window: number = 3): Pivot[] {
+  const pivots: Pivot[] = [];
+
+  for (let i = window; i < bars.length - window; i++) {
+    const neighbours = bars.slice(i - window, i + window + 1).filter((_, j) => j !== window);
+    if (neighbours.every((bar) => bars[i].high > bar.high)) {
+      pivots.push({ type: "high", index: i, date: bars[i].date, price: bars[i].high });
+    }
+    if (neighbours.every((bar) => bars[i].low < bar.low)) {
+      pivots.push({ type: "low", index: i, date: bars[i].date, price: bars[i].low });
+    }
+  }
+
+  return pivots;
+}
+
+export interface SupportResistance {
+  support: number;
+  resistance: number;
+  pivots: Pivot[];
+}
+
+/**
+ * Nearest pivot low below and pivot high above the given price. Without a
+ * pivot on one side, the range's extreme low or high is used instead.
+ */
+export function supportResistance(bars: PriceBar[], price: number, window: number = 3): SupportResistance | null {
+  if (bars.length === 0) return null;
+
+  const pivots = findPivots(bars, window);
+  const lows = pivots.filter((p) => p.type === "low" && p.price <= price).map((p) => p.price);
+  const highs = pivots.filter((p) => p.type === "high" && p.price >= price).map((p) => p.price);
+
+  return {
+    support: lows.length > 0 ? Math.max(...lows) : Math.min(...bars.map((bar) => bar.low)),
+    resistance: highs.length > 0 ? Math.min(...highs) : Math.max(...bars.map((bar) => bar.high)),
+    pivots,
+  };
+}
+
+export type Trend = "Uptrend" | "Downtrend" | "Sideways";
+
+/**
+ * Trend from where a fast moving average sits relative to a slow one. Averages
+ * within `tolerance` percent of each other count as sideways.
+ */
+export function trendFromAverages(fast: number, slow: number, tolerance: number = 0.5): Trend {
+  const spread = ((fast - slow) / slow) * 100;
+  if (spread > tolerance) return "Uptrend";
+  if (spread < -tolerance) return "Downtrend";
+  return "Sideways";
+}
+
+export interface MovingAverageCrossover {
+  trend: Trend;
+  fastAverage: number;
+  slowAverage: number;
+  /** Most recent crossing of the fast average through the slow one */
+  lastCrossover: { type: "golden" | "death"; index: number } | null;
+}
+
+export function movingAverageCrossover(
+  closes: number[],
+  fastPeriod: number = 50,
+  slowPeriod: number = 200
+): MovingAverageCrossover | null {
+  if (closes.length < slowPeriod) return null;
+
+  const fast = sma(closes, fastPeriod);
+  const slow = sma(closes, slowPeriod);
+
+  let lastCrossover: MovingAverageCrossover["lastCrossover"] = null;
+  for (let i = slowPeriod; i < closes.length; i++) {
+    const before = fast[i - 1]! - slow[i - 1]!;
+    const after = fast[i]! - slow[i]!;
+    if (before <= 0 && after > 0) lastCrossover = { type: "golden", index: i };
+    if (before >= 0 && after < 0) lastCrossover = { type: "death", index: i };
+  }
+
+  const fastAverage = fast[fast.length - 1]!;
+  const slowAverage = slow[slow.length - 1]!;
+  return { trend: trendFromAverages(fastAverage, slowAverage), fastAverage, slowAverage, lastCrossover };
+}
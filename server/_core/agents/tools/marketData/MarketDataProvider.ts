@@ -0,0 +1,142 @@
+/**
+ * Every record a provider returns says where it came from and when the
+ * source reported it.
+ */
+export interface MarketDataRecord {
+  asOf: Date;
+  source: string;
+}
+
+export interface StockQuote extends MarketDataRecord {
+  symbol: string;
+  name: string;
+  price: number;
+  currency: string;
+  change: number;
+  changePercent: number;
+  marketCap: number;
+  volume: number;
+  averageVolume: number;
+  peRatio: number;
+  eps: number;
+  beta: number;
+  fiftyTwoWeekHigh: number;
+  fiftyTwoWeekLow: number;
+  fiftyDayAverage: number;
+  twoHundredDayAverage: number;
+  timestamp: number;
+}
+
+export interface HistoricalData extends MarketDataRecord {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  adjClose: number;
+}
+
+export interface FinancialStatement extends MarketDataRecord {
+  date: string;
+  revenue: number;
+  netIncome: number;
+  operatingIncome: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  stockholdersEquity: number;
+  operatingCashFlow: number;
+  freeCashFlow: number;
+}
+
+export interface CompanyProfile extends MarketDataRecord {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  website: string;
+  description: string;
+  ceo: string;
+  employees: number;
+  founded: string;
+  headquarters: string;
+}
+
+export interface AnalystRecommendation extends MarketDataRecord {
+  symbol: string;
+  targetPrice: number;
+  numberOfAnalysts: number;
+  rating: "Strong Buy" | "Buy" | "Hold" | "Sell" | "Strong Sell";
+  ratingChange: string;
+}
+
+/** Yield and payout ratio are percentages */
+export interface DividendInfo extends MarketDataRecord {
+  symbol: string;
+  dividendYield: number;
+  annualDividend: number;
+  exDividendDate: string;
+  payoutRatio: number;
+  frequency: string;
+}
+
+/** Returns and margins are percentages; debt to equity is a plain ratio */
+export interface KeyMetrics extends MarketDataRecord {
+  symbol: string;
+  peRatio: number;
+  pbRatio: number;
+  priceToSalesRatio: number;
+  roe: number;
+  roa: number;
+  debtToEquity: number;
+  currentRatio: number;
+  quickRatio: number;
+  profitMargin: number;
+  operatingMargin: number;
+}
+
+export interface EarningsInfo extends MarketDataRecord {
+  symbol: string;
+  lastEarningsDate: string;
+  nextEarningsDate: string;
+  lastEarningsPerShare: number;
+  lastRevenueEstimate: number;
+  earningsHistory: Array<{
+    date: string;
+    eps: number;
+    revenue: number;
+    surprise: number;
+  }>;
+}
+
+export interface NewsItem {
+  title: string;
+  /** Publisher of the article */
+  source: string;
+  date: string;
+  url: string;
+  sentiment: "Positive" | "Negative" | "Neutral";
+}
+
+export type HistoryInterval = "1d" | "1wk" | "1mo";
+export type StatementPeriod = "quarterly" | "annual";
+
+export interface MarketDataProvider {
+  /** Name recorded as the `source` of every record */
+  readonly name: string;
+
+  getQuote(symbol: string): Promise<StockQuote>;
+  getHistory(symbol: string, startDate: Date, endDate: Date, interval: HistoryInterval): Promise<HistoricalData[]>;
+  getFinancialStatements(symbol: string, period: StatementPeriod): Promise<FinancialStatement[]>;
+  getCompanyProfile(symbol: string): Promise<CompanyProfile>;
+  getAnalystRecommendation(symbol: string): Promise<AnalystRecommendation>;
+  getDividendInfo(symbol: string): Promise<DividendInfo>;
+  getKeyMetrics(symbol: string): Promise<KeyMetrics>;
+  getEarningsInfo(symbol: string): Promise<EarningsInfo>;
+  getNews(symbol: string): Promise<NewsItem[]>;
+
+  /**
+   * Symbols that screens run over
+   */
+  getUniverse(): Promise<string[]>;
+}
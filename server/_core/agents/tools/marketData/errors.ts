@@ -0,0 +1,30 @@
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string
+  ) {
+    super(message);
+    this.name = "MarketDataError";
+  }
+}
+
+export class SymbolNotFoundError extends MarketDataError {
+  constructor(
+    public readonly symbol: string,
+    source: string
+  ) {
+    super(`Symbol "${symbol}" not found in ${source} market data`, source);
+    this.name = "SymbolNotFoundError";
+  }
+}
+
+export class RateLimitError extends MarketDataError {
+  constructor(
+    source: string,
+    /** How long the source asked callers to wait, when it said */
+    public readonly retryAfterMs?: number
+  ) {
+    super(`${source} market data rate limit exceeded`, source);
+    this.name = "RateLimitError";
+  }
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from "node:fs";
+import {
+  AnalystRecommendation,
+  CompanyProfile,
+  DividendInfo,
+  EarningsInfo,
+  FinancialStatement,
+  HistoricalData,
+  HistoryInterval,
+  KeyMetrics,
+  MarketDataProvider,
+  NewsItem,
+  StatementPeriod,
+  StockQuote,
+} from "./MarketDataProvider";
+import { SymbolNotFoundError } from "./errors";
+import { DEFAULT_MARKET_DATA_FIXTURES, MarketDataFixtures, SymbolFixture } from "./fixtures";
+import { ENV } from "../../../env";
+
+/**
+ * Key of the period a daily bar belongs to: its Monday for weekly bars, its
+ * month for monthly bars
+ */
+function periodKey(date: string, interval: HistoryInterval): string {
+  if (interval === "1mo") return date.slice(0, 7);
+  if (interval === "1wk") {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    return day.toISOString().slice(0, 10);
+  }
+  return date;
+}
+
+/**
+ * Offline provider serving recorded market data. Loads
+ * MARKET_DATA_FIXTURES_PATH when set, otherwise the bundled fixtures.
+ * Weekly and monthly history is aggregated from the recorded daily bars.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = "fixture";
+  private fixtures?: MarketDataFixtures;
+
+  constructor(fixtures?: MarketDataFixtures) {
+    this.fixtures = fixtures;
+  }
+
+  async getQuote(symbol: string): Promise<StockQuote> {
+    const asOf = this.asOf();
+    return { ...this.lookup(symbol).quote, timestamp: asOf.getTime(), asOf, source: this.name };
+  }
+
+  async getHistory(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoryInterval
+  ): Promise<HistoricalData[]> {
+    const from = startDate.toISOString().slice(0, 10);
+    const to = endDate.toISOString().slice(0, 10);
+    const asOf = this.asOf();
+    const bars: HistoricalData[] = [];
+
+    for (const [date, open, high, low, close, volume] of this.lookup(symbol).history) {
+      if (date < from || date > to) continue;
+
+      const last = bars[bars.length - 1];
+      if (last && periodKey(last.date, interval) === periodKey(date, interval)) {
+        last.high = Math.max(last.high, high);
+        last.low = Math.min(last.low, low);
+        last.close = close;
+        last.adjClose = close;
+        last.volume += volume;
+      } else {
+        bars.push({ date, open, high, low, close, volume, adjClose: close, asOf, source: this.name });
+      }
+    }
+
+    return bars;
+  }
+
+  async getFinancialStatements(symbol: string, period: StatementPeriod): Promise<FinancialStatement[]> {
+    return this.lookup(symbol).statements[period].map((statement) => this.withProvenance(statement));
+  }
+
+  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+    return this.withProvenance(this.lookup(symbol).profile);
+  }
+
+  async getAnalystRecommendation(symbol: string): Promise<AnalystRecommendation> {
+    return this.withProvenance(this.lookup(symbol).recommendation);
+  }
+
+  async getDividendInfo(symbol: string): Promise<DividendInfo> {
+    return this.withProvenance(this.lookup(symbol).dividend);
+  }
+
+  async getKeyMetrics(symbol: string): Promise<KeyMetrics> {
+    return this.withProvenance(this.lookup(symbol).metrics);
+  }
+
+  async getEarningsInfo(symbol: string): Promise<EarningsInfo> {
+    return this.withProvenance(this.lookup(symbol).earnings);
+  }
+
+  async getNews(symbol: string): Promise<NewsItem[]> {
+    return this.lookup(symbol).news;
+  }
+
+  async getUniverse(): Promise<string[]> {
+    return Object.keys(this.loadFixtures().symbols);
+  }
+
+  private lookup(symbol: string): SymbolFixture {
+    const fixture = this.loadFixtures().symbols[symbol.toUpperCase()];
+    if (!fixture) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+    return fixture;
+  }
+
+  private withProvenance<T extends object>(record: T): T & { asOf: Date; source: string } {
+    return { ...record, asOf: this.asOf(), source: this.name };
+  }
+
+  private asOf(): Date {
+    return new Date(this.loadFixtures().recordedAt);
+  }
+
+  private loadFixtures(): MarketDataFixtures {
+    if (!this.fixtures) {
+      this.fixtures = ENV.marketDataFixturesPath
+        ? (JSON.parse(readFileSync(ENV.marketDataFixturesPath, "utf8")) as MarketDataFixtures)
+        : DEFAULT_MARKET_DATA_FIXTURES;
+    }
+    return this.fixtures;
+  }
+}
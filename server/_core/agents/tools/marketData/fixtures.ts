@@ -0,0 +1,410 @@
+import {
+  AnalystRecommendation,
+  CompanyProfile,
+  DividendInfo,
+  EarningsInfo,
+  FinancialStatement,
+  KeyMetrics,
+  MarketDataRecord,
+  NewsItem,
+  StatementPeriod,
+  StockQuote,
+} from "./MarketDataProvider";
+
+/** A record as stored in a fixture; provenance is added when it is served */
+type Recorded<T> = Omit<T, keyof MarketDataRecord>;
+
+export interface SymbolFixture {
+  quote: Omit<Recorded<StockQuote>, "timestamp">;
+  /** Daily bars: date, open, high, low, close, volume */
+  history: Array<[string, number, number, number, number, number]>;
+  statements: Record<StatementPeriod, Recorded<FinancialStatement>[]>;
+  profile: Recorded<CompanyProfile>;
+  recommendation: Recorded<AnalystRecommendation>;
+  dividend: Recorded<DividendInfo>;
+  metrics: Recorded<KeyMetrics>;
+  earnings: Recorded<EarningsInfo>;
+  news: NewsItem[];
+}
+
+export interface MarketDataFixtures {
+  /** When the data was captured; served as the `asOf` of every record */
+  recordedAt: string;
+  symbols: Record<string, SymbolFixture>;
+}
+
+export const DEFAULT_MARKET_DATA_FIXTURES: MarketDataFixtures = {
+  recordedAt: "2024-10-18T20:00:00.000Z",
+  symbols: {
+
+    AAPL: {
+      quote: {
+        symbol: "AAPL", name: "Apple Inc.", price: 235.0, currency: "USD", change: -3.9, changePercent: -1.63,
+        marketCap: 3573000000000, volume: 55583115, averageVolume: 50200000, peRatio: 35.72, eps: 6.58, beta: 1.24,
+        fiftyTwoWeekHigh: 242.52, fiftyTwoWeekLow: 164.08, fiftyDayAverage: 225.62, twoHundredDayAverage: 205.31,
+      },
+      history: [
+        ["2024-07-01", 185.57, 188.26, 183.27, 187.25, 42232265],
+        ["2024-07-02", 186.64, 192.03, 186.32, 189.43, 57166163],
+        ["2024-07-03", 190.21, 193.91, 186.97, 192.38, 66421846],
+        ["2024-07-05", 192.54, 196.19, 192.37, 195.16, 35832195],
+        ["2024-07-08", 195.06, 199.97, 193.54, 199.45, 54156515],
+        ["2024-07-09", 199.50, 203.17, 198.44, 201.26, 55118299],
+        ["2024-07-10", 202.30, 202.72, 197.79, 200.30, 35577572],
+        ["2024-07-11", 200.52, 201.27, 195.48, 197.62, 34452030],
+        ["2024-07-12", 197.62, 198.52, 195.90, 196.12, 18748406],
+        ["2024-07-15", 196.86, 200.05, 195.39, 196.78, 35449470],
+        ["2024-07-16", 196.40, 197.82, 192.98, 197.51, 53100029],
+        ["2024-07-17", 197.61, 200.61, 197.50, 198.45, 67405648],
+        ["2024-07-18", 197.82, 200.68, 196.82, 200.02, 62380151],
+        ["2024-07-19", 200.63, 202.16, 198.07, 201.73, 37802138],
+        ["2024-07-22", 201.16, 201.91, 200.01, 200.83, 42145400],
+        ["2024-07-23", 201.57, 205.73, 201.10, 205.61, 47358768],
+        ["2024-07-24", 206.02, 208.36, 205.33, 207.12, 43323981],
+        ["2024-07-25", 205.80, 211.86, 203.71, 209.51, 43943433],
+        ["2024-07-26", 209.04, 210.85, 207.14, 207.39, 48372322],
+        ["2024-07-29", 209.50, 209.86, 206.83, 207.97, 17886668],
+        ["2024-07-30", 209.33, 210.23, 206.98, 209.95, 48074288],
+        ["2024-07-31", 208.37, 219.04, 206.74, 213.83, 52583274],
+        ["2024-08-01", 213.66, 216.86, 213.44, 213.63, 28122303],
+        ["2024-08-02", 214.23, 220.04, 212.86, 216.79, 60024985],
+        ["2024-08-05", 218.45, 220.26, 212.83, 215.14, 56113012],
+        ["2024-08-06", 215.99, 219.68, 214.94, 218.18, 38019565],
+        ["2024-08-07", 216.97, 219.40, 215.07, 218.36, 53931198],
+        ["2024-08-08", 220.45, 220.76, 220.24, 220.63, 34702177],
+        ["2024-08-09", 220.50, 222.53, 216.52, 219.25, 54015239],
+        ["2024-08-12", 220.72, 226.49, 218.66, 225.17, 48902016],
+        ["2024-08-13", 224.41, 224.55, 222.20, 222.79, 33217839],
+        ["2024-08-14", 221.03, 227.06, 221.02, 224.72, 47733135],
+        ["2024-08-15", 224.23, 226.47, 221.46, 221.74, 52702361],
+        ["2024-08-16", 223.00, 224.28, 219.17, 222.24, 54652210],
+        ["2024-08-19", 221.52, 225.62, 221.00, 223.57, 57576935],
+        ["2024-08-20", 224.36, 227.63, 222.33, 223.45, 38259151],
+        ["2024-08-21", 222.67, 226.39, 221.47, 225.71, 56170515],
+        ["2024-08-22", 226.77, 229.41, 224.05, 224.98, 18682488],
+        ["2024-08-23", 224.87, 225.81, 219.81, 220.99, 48815148],
+        ["2024-08-26", 221.23, 225.35, 219.95, 223.77, 36466440],
+        ["2024-08-27", 222.97, 226.54, 221.27, 223.80, 44578371],
+        ["2024-08-28", 224.03, 234.50, 223.71, 234.32, 43600672],
+        ["2024-08-29", 233.95, 237.27, 232.90, 235.21, 64979564],
+        ["2024-08-30", 235.79, 235.90, 232.48, 232.83, 46720556],
+        ["2024-09-03", 233.21, 234.27, 232.70, 233.02, 48760189],
+        ["2024-09-04", 232.21, 233.49, 226.80, 228.40, 33771609],
+        ["2024-09-05", 229.35, 233.14, 227.61, 228.04, 38972065],
+        ["2024-09-06", 227.38, 227.53, 221.92, 223.69, 46878831],
+        ["2024-09-09", 223.54, 227.03, 223.34, 226.06, 56488789],
+        ["2024-09-10", 225.65, 227.46, 218.63, 220.58, 33272764],
+        ["2024-09-11", 219.15, 223.11, 218.60, 221.40, 43270273],
+        ["2024-09-12", 222.91, 226.02, 221.74, 224.98, 55211118],
+        ["2024-09-13", 223.36, 229.82, 221.91, 227.34, 56427401],
+        ["2024-09-16", 228.72, 230.68, 226.72, 228.39, 41595158],
+        ["2024-09-17", 227.97, 229.26, 227.46, 228.38, 25089206],
+        ["2024-09-18", 227.31, 229.42, 226.53, 227.46, 70024422],
+        ["2024-09-19", 230.36, 230.90, 225.35, 228.10, 41318886],
+        ["2024-09-20", 227.10, 231.76, 226.19, 228.59, 37620307],
+        ["2024-09-23", 229.59, 230.45, 222.57, 225.13, 39887764],
+        ["2024-09-24", 224.88, 224.91, 222.63, 222.83, 42101084],
+        ["2024-09-25", 223.03, 223.95, 220.72, 222.11, 63431963],
+        ["2024-09-26", 222.49, 230.99, 220.00, 230.28, 44088670],
+        ["2024-09-27", 231.16, 233.25, 227.82, 229.58, 41521643],
+        ["2024-09-30", 230.01, 230.23, 229.09, 229.44, 59839027],
+        ["2024-10-01", 229.01, 235.33, 227.75, 232.78, 35285338],
+        ["2024-10-02", 233.55, 239.74, 232.95, 237.96, 56431568],
+        ["2024-10-03", 239.31, 242.71, 238.46, 239.73, 67663299],
+        ["2024-10-04", 241.07, 242.70, 240.06, 242.29, 42589756],
+        ["2024-10-07", 240.99, 241.44, 237.79, 238.10, 44324551],
+        ["2024-10-08", 239.42, 239.80, 231.85, 234.24, 58086167],
+        ["2024-10-09", 233.07, 238.77, 232.85, 238.03, 42042226],
+        ["2024-10-10", 236.91, 240.23, 233.29, 239.81, 39020763],
+        ["2024-10-11", 239.66, 241.67, 238.41, 239.78, 54778116],
+        ["2024-10-14", 240.75, 244.07, 234.09, 235.51, 47475946],
+        ["2024-10-15", 236.06, 238.20, 233.24, 234.01, 43259963],
+        ["2024-10-16", 234.05, 237.81, 233.65, 237.46, 53753778],
+        ["2024-10-17", 237.08, 240.26, 235.66, 238.90, 58615229],
+        ["2024-10-18", 240.33, 242.00, 233.59, 235.00, 55583115],
+      ],
+      statements: {
+        annual: [
+          { date: "2023-09-30", revenue: 383285000000, netIncome: 96995000000, operatingIncome: 114301000000, totalAssets: 352583000000, totalLiabilities: 290437000000, stockholdersEquity: 62146000000, operatingCashFlow: 110543000000, freeCashFlow: 99584000000 },
+          { date: "2022-09-24", revenue: 394328000000, netIncome: 99803000000, operatingIncome: 119437000000, totalAssets: 352755000000, totalLiabilities: 302083000000, stockholdersEquity: 50672000000, operatingCashFlow: 122151000000, freeCashFlow: 111443000000 },
+        ],
+        quarterly: [
+          { date: "2024-06-29", revenue: 85777000000, netIncome: 21448000000, operatingIncome: 25352000000, totalAssets: 331612000000, totalLiabilities: 264904000000, stockholdersEquity: 66708000000, operatingCashFlow: 28858000000, freeCashFlow: 26707000000 },
+          { date: "2024-03-30", revenue: 90753000000, netIncome: 23636000000, operatingIncome: 27900000000, totalAssets: 337411000000, totalLiabilities: 263217000000, stockholdersEquity: 74194000000, operatingCashFlow: 22690000000, freeCashFlow: 20694000000 },
+        ],
+      },
+      profile: {
+        symbol: "AAPL", name: "Apple Inc.", sector: "Technology", industry: "Consumer Electronics",
+        website: "https://www.apple.com", description: "Apple Inc. designs, manufactures and markets smartphones, personal computers, tablets, wearables and accessories, and sells a variety of related services.",
+        ceo: "Timothy D. Cook", employees: 161000, founded: "1976", headquarters: "Cupertino, CA, United States",
+      },
+      recommendation: { symbol: "AAPL", targetPrice: 244.83, numberOfAnalysts: 38, rating: "Buy", ratingChange: "Maintained by Wedbush" },
+      dividend: { symbol: "AAPL", dividendYield: 0.43, annualDividend: 1.0, exDividendDate: "2024-08-12", payoutRatio: 14.77, frequency: "Quarterly" },
+      metrics: {
+        symbol: "AAPL", peRatio: 35.72, pbRatio: 53.56, priceToSalesRatio: 9.45, roe: 160.58, roa: 22.07,
+        debtToEquity: 1.51, currentRatio: 0.95, quickRatio: 0.8, profitMargin: 26.44, operatingMargin: 29.56,
+      },
+      earnings: {
+        symbol: "AAPL", lastEarningsDate: "2024-08-01", nextEarningsDate: "2024-10-31", lastEarningsPerShare: 1.4,
+        lastRevenueEstimate: 94360000000,
+        earningsHistory: [
+          { date: "2024-06-30", eps: 1.4, revenue: 85777000000, surprise: 3.7 },
+          { date: "2024-03-31", eps: 1.53, revenue: 90753000000, surprise: 2.0 },
+          { date: "2023-12-31", eps: 2.18, revenue: 119575000000, surprise: 3.81 },
+          { date: "2023-09-30", eps: 1.46, revenue: 89498000000, surprise: 4.29 },
+        ],
+      },
+      news: [
+        { title: "Apple shares slip as iPhone 16 demand checks come in weak", source: "Reuters", date: "2024-10-17", url: "https://www.reuters.com/technology/apple-iphone-16-demand-2024-10-17/", sentiment: "Negative" },
+        { title: "Apple Intelligence rollout set for October software update", source: "Bloomberg", date: "2024-10-15", url: "https://www.bloomberg.com/news/articles/2024-10-15/apple-intelligence-rollout", sentiment: "Neutral" },
+        { title: "Analysts raise Apple targets ahead of record services quarter", source: "Barron's", date: "2024-10-11", url: "https://www.barrons.com/articles/apple-stock-price-targets-services-2024-10-11", sentiment: "Positive" },
+      ],
+    },
+    MSFT: {
+      quote: {
+        symbol: "MSFT", name: "Microsoft Corporation", price: 418.16, currency: "USD", change: -0.35, changePercent: -0.08,
+        marketCap: 3108000000000, volume: 13971802, averageVolume: 19400000, peRatio: 35.35, eps: 11.83, beta: 0.89,
+        fiftyTwoWeekHigh: 468.35, fiftyTwoWeekLow: 366.5, fiftyDayAverage: 421.18, twoHundredDayAverage: 420.14,
+      },
+      history: [
+        ["2024-07-01", 382.55, 383.54, 373.80, 380.85, 18914981],
+        ["2024-07-02", 381.17, 382.65, 378.91, 380.32, 15516358],
+        ["2024-07-03", 378.97, 382.97, 378.35, 380.97, 21896861],
+        ["2024-07-05", 379.21, 387.86, 379.15, 385.71, 21003281],
+        ["2024-07-08", 385.55, 387.60, 377.34, 380.10, 16040431],
+        ["2024-07-09", 379.88, 385.64, 379.41, 383.60, 16246464],
+        ["2024-07-10", 384.03, 387.56, 382.44, 386.76, 11652806],
+        ["2024-07-11", 387.43, 389.57, 373.74, 375.30, 12845685],
+        ["2024-07-12", 376.21, 379.26, 375.57, 378.38, 19932936],
+        ["2024-07-15", 377.89, 382.76, 375.79, 382.27, 15728207],
+        ["2024-07-16", 380.07, 388.21, 379.62, 387.97, 9698192],
+        ["2024-07-17", 386.92, 388.29, 383.42, 383.77, 18416115],
+        ["2024-07-18", 381.83, 387.66, 377.81, 385.56, 17100788],
+        ["2024-07-19", 384.44, 387.11, 376.67, 378.70, 18469007],
+        ["2024-07-22", 377.49, 383.56, 375.76, 380.78, 20713674],
+        ["2024-07-23", 378.10, 384.79, 376.68, 384.55, 12490264],
+        ["2024-07-24", 385.98, 391.88, 383.59, 388.55, 14752509],
+        ["2024-07-25", 387.45, 389.64, 385.04, 387.35, 23531385],
+        ["2024-07-26", 389.21, 395.23, 388.25, 395.00, 9651450],
+        ["2024-07-29", 396.24, 405.69, 395.13, 400.23, 15858916],
+        ["2024-07-30", 401.26, 402.16, 395.69, 398.97, 14784768],
+        ["2024-07-31", 397.21, 402.03, 391.96, 393.65, 21842487],
+        ["2024-08-01", 396.67, 401.18, 387.76, 391.10, 25332993],
+        ["2024-08-02", 389.17, 393.71, 387.47, 392.90, 16694722],
+        ["2024-08-05", 397.02, 401.02, 390.87, 392.18, 12436691],
+        ["2024-08-06", 394.28, 397.36, 393.07, 394.28, 27314323],
+        ["2024-08-07", 394.40, 397.48, 389.10, 389.83, 15479947],
+        ["2024-08-08", 389.23, 391.60, 387.79, 391.33, 18566661],
+        ["2024-08-09", 395.02, 395.48, 387.43, 388.52, 14763212],
+        ["2024-08-12", 387.31, 394.69, 385.02, 391.31, 22078710],
+        ["2024-08-13", 391.40, 391.80, 389.08, 389.90, 22803831],
+        ["2024-08-14", 390.86, 398.03, 389.55, 396.19, 16824094],
+        ["2024-08-15", 394.96, 397.40, 393.02, 397.17, 16323862],
+        ["2024-08-16", 396.89, 397.41, 391.54, 392.17, 15787287],
+        ["2024-08-19", 394.23, 395.04, 388.04, 390.40, 18870764],
+        ["2024-08-20", 388.70, 392.79, 388.51, 390.27, 10497989],
+        ["2024-08-21", 385.25, 393.10, 382.86, 392.43, 10480707],
+        ["2024-08-22", 391.02, 397.36, 386.36, 395.98, 14065785],
+        ["2024-08-23", 394.08, 394.55, 384.43, 389.04, 22026902],
+        ["2024-08-26", 388.81, 394.99, 388.05, 394.28, 8453719],
+        ["2024-08-27", 394.04, 397.84, 394.01, 394.67, 14163442],
+        ["2024-08-28", 394.17, 404.28, 392.34, 403.77, 21451204],
+        ["2024-08-29", 402.15, 410.88, 398.63, 410.84, 20223959],
+        ["2024-08-30", 409.64, 416.41, 408.79, 416.11, 22235700],
+        ["2024-09-03", 416.17, 423.54, 410.65, 422.59, 11797292],
+        ["2024-09-04", 420.87, 426.66, 416.85, 422.28, 21858504],
+        ["2024-09-05", 422.77, 426.91, 405.63, 410.49, 14035054],
+        ["2024-09-06", 412.86, 415.41, 398.56, 400.68, 21922063],
+        ["2024-09-09", 400.74, 400.76, 396.69, 396.76, 21792366],
+        ["2024-09-10", 396.50, 401.76, 393.05, 400.99, 12934758],
+        ["2024-09-11", 399.78, 406.03, 399.15, 404.66, 17294075],
+        ["2024-09-12", 408.06, 409.08, 402.34, 403.35, 22940895],
+        ["2024-09-13", 407.41, 410.12, 404.40, 406.03, 18523563],
+        ["2024-09-16", 405.00, 413.24, 403.72, 407.92, 16207355],
+        ["2024-09-17", 408.72, 410.67, 400.28, 401.74, 18475349],
+        ["2024-09-18", 405.58, 411.06, 399.55, 400.56, 24079104],
+        ["2024-09-19", 401.75, 411.77, 400.66, 407.08, 18658645],
+        ["2024-09-20", 406.86, 408.95, 397.43, 401.37, 12675317],
+        ["2024-09-23", 401.17, 403.33, 399.28, 402.06, 7999662],
+        ["2024-09-24", 401.45, 408.17, 401.11, 407.83, 21800738],
+        ["2024-09-25", 407.57, 409.13, 404.40, 405.14, 20992458],
+        ["2024-09-26", 403.68, 407.36, 401.02, 403.50, 22759357],
+        ["2024-09-27", 405.11, 420.61, 404.84, 418.39, 21774695],
+        ["2024-09-30", 420.61, 422.27, 415.77, 416.37, 24340666],
+        ["2024-10-01", 420.39, 424.25, 412.82, 415.67, 20019692],
+        ["2024-10-02", 415.17, 415.32, 408.45, 410.08, 15841124],
+        ["2024-10-03", 410.07, 414.50, 404.11, 405.81, 19919934],
+        ["2024-10-04", 405.85, 409.50, 405.30, 407.66, 23577247],
+        ["2024-10-07", 409.01, 416.49, 408.37, 411.63, 17909421],
+        ["2024-10-08", 408.97, 424.39, 404.74, 423.38, 24863616],
+        ["2024-10-09", 422.31, 424.11, 418.89, 424.11, 15767865],
+        ["2024-10-10", 422.53, 425.39, 420.24, 420.87, 12689310],
+        ["2024-10-11", 417.62, 417.79, 416.27, 417.49, 13002699],
+        ["2024-10-14", 418.48, 418.94, 405.54, 405.81, 15342803],
+        ["2024-10-15", 404.89, 406.00, 399.96, 403.85, 20833251],
+        ["2024-10-16", 404.50, 412.20, 404.25, 407.98, 23195062],
+        ["2024-10-17", 408.36, 421.77, 407.71, 418.51, 18007871],
+        ["2024-10-18", 416.34, 420.43, 411.78, 418.16, 13971802],
+      ],
+      statements: {
+        annual: [
+          { date: "2024-06-30", revenue: 245122000000, netIncome: 88136000000, operatingIncome: 109433000000, totalAssets: 512163000000, totalLiabilities: 243686000000, stockholdersEquity: 268477000000, operatingCashFlow: 118548000000, freeCashFlow: 74071000000 },
+          { date: "2023-06-30", revenue: 211915000000, netIncome: 72361000000, operatingIncome: 88523000000, totalAssets: 411976000000, totalLiabilities: 205753000000, stockholdersEquity: 206223000000, operatingCashFlow: 87582000000, freeCashFlow: 59475000000 },
+        ],
+        quarterly: [
+          { date: "2024-06-30", revenue: 64727000000, netIncome: 22036000000, operatingIncome: 27925000000, totalAssets: 512163000000, totalLiabilities: 243686000000, stockholdersEquity: 268477000000, operatingCashFlow: 37221000000, freeCashFlow: 23319000000 },
+          { date: "2024-03-31", revenue: 61858000000, netIncome: 21939000000, operatingIncome: 27581000000, totalAssets: 484275000000, totalLiabilities: 231123000000, stockholdersEquity: 253152000000, operatingCashFlow: 31917000000, freeCashFlow: 21044000000 },
+        ],
+      },
+      profile: {
+        symbol: "MSFT", name: "Microsoft Corporation", sector: "Technology", industry: "Software - Infrastructure",
+        website: "https://www.microsoft.com", description: "Microsoft Corporation develops and supports software, services, devices and solutions, including Azure cloud services, Office and Windows.",
+        ceo: "Satya Nadella", employees: 228000, founded: "1975", headquarters: "Redmond, WA, United States",
+      },
+      recommendation: { symbol: "MSFT", targetPrice: 497.64, numberOfAnalysts: 43, rating: "Strong Buy", ratingChange: "Reiterated by Morgan Stanley" },
+      dividend: { symbol: "MSFT", dividendYield: 0.79, annualDividend: 3.32, exDividendDate: "2024-11-21", payoutRatio: 25.52, frequency: "Quarterly" },
+      metrics: {
+        symbol: "MSFT", peRatio: 35.35, pbRatio: 11.58, priceToSalesRatio: 12.68, roe: 35.6, roa: 14.8,
+        debtToEquity: 0.37, currentRatio: 1.27, quickRatio: 1.13, profitMargin: 35.96, operatingMargin: 43.14,
+      },
+      earnings: {
+        symbol: "MSFT", lastEarningsDate: "2024-07-30", nextEarningsDate: "2024-10-30", lastEarningsPerShare: 2.95,
+        lastRevenueEstimate: 64510000000,
+        earningsHistory: [
+          { date: "2024-06-30", eps: 2.95, revenue: 64727000000, surprise: 0.92 },
+          { date: "2024-03-31", eps: 2.94, revenue: 61858000000, surprise: 4.05 },
+          { date: "2023-12-31", eps: 2.93, revenue: 62020000000, surprise: 6.27 },
+          { date: "2023-09-30", eps: 2.99, revenue: 56517000000, surprise: 13.37 },
+        ],
+      },
+      news: [
+        { title: "Microsoft Azure growth expected to beat estimates on AI demand", source: "CNBC", date: "2024-10-16", url: "https://www.cnbc.com/2024/10/16/microsoft-azure-growth-ai-demand.html", sentiment: "Positive" },
+        { title: "Microsoft to let clients build AI agents in November", source: "Reuters", date: "2024-10-14", url: "https://www.reuters.com/technology/microsoft-ai-agents-2024-10-14/", sentiment: "Neutral" },
+        { title: "EU regulators probe Microsoft Teams bundling remedy", source: "Financial Times", date: "2024-10-09", url: "https://www.ft.com/content/microsoft-teams-eu-probe-2024-10-09", sentiment: "Negative" },
+      ],
+    },
+    KO: {
+      quote: {
+        symbol: "KO", name: "The Coca-Cola Company", price: 70.12, currency: "USD", change: 0.3, changePercent: 0.43,
+        marketCap: 302100000000, volume: 8148318, averageVolume: 13300000, peRatio: 28.05, eps: 2.5, beta: 0.61,
+        fiftyTwoWeekHigh: 73.53, fiftyTwoWeekLow: 57.93, fiftyDayAverage: 70.85, twoHundredDayAverage: 65.4,
+      },
+      history: [
+        ["2024-07-01", 67.59, 67.83, 66.99, 67.13, 13998037],
+        ["2024-07-02", 66.95, 67.18, 66.88, 66.97, 12423587],
+        ["2024-07-03", 66.84, 67.91, 66.54, 67.70, 10175514],
+        ["2024-07-05", 67.79, 68.59, 66.95, 68.53, 14421032],
+        ["2024-07-08", 68.52, 68.80, 68.45, 68.56, 3107178],
+        ["2024-07-09", 68.26, 68.58, 67.33, 67.91, 19282212],
+        ["2024-07-10", 67.77, 67.78, 67.15, 67.36, 8684063],
+        ["2024-07-11", 67.67, 68.08, 67.58, 67.88, 8925392],
+        ["2024-07-12", 67.95, 67.95, 66.89, 67.18, 8909511],
+        ["2024-07-15", 67.18, 67.67, 66.08, 66.40, 13602744],
+        ["2024-07-16", 66.47, 66.61, 66.09, 66.16, 16912042],
+        ["2024-07-17", 66.36, 66.51, 65.92, 65.99, 8967897],
+        ["2024-07-18", 66.00, 66.48, 65.38, 65.66, 8262577],
+        ["2024-07-19", 65.29, 65.54, 65.25, 65.37, 10783821],
+        ["2024-07-22", 65.32, 65.49, 65.08, 65.40, 13159789],
+        ["2024-07-23", 65.62, 66.12, 65.50, 65.75, 13831049],
+        ["2024-07-24", 65.49, 66.59, 65.07, 66.25, 7982901],
+        ["2024-07-25", 66.73, 67.07, 66.41, 66.51, 16740338],
+        ["2024-07-26", 66.71, 67.02, 66.28, 66.41, 16888699],
+        ["2024-07-29", 66.38, 66.93, 66.26, 66.91, 14800494],
+        ["2024-07-30", 66.81, 67.92, 66.48, 67.76, 9595207],
+        ["2024-07-31", 67.80, 67.93, 67.59, 67.69, 9213611],
+        ["2024-08-01", 67.75, 67.85, 67.08, 67.42, 10947111],
+        ["2024-08-02", 67.35, 67.52, 66.93, 67.38, 12344538],
+        ["2024-08-05", 67.37, 68.23, 67.27, 67.98, 15474436],
+        ["2024-08-06", 68.13, 68.44, 67.68, 68.14, 15136999],
+        ["2024-08-07", 67.97, 68.95, 67.32, 68.79, 12196454],
+        ["2024-08-08", 68.62, 68.98, 67.53, 67.57, 16593998],
+        ["2024-08-09", 67.49, 69.17, 67.37, 68.63, 18474943],
+        ["2024-08-12", 68.54, 70.22, 68.29, 69.94, 11247474],
+        ["2024-08-13", 69.93, 71.23, 69.84, 70.85, 12862563],
+        ["2024-08-14", 70.71, 70.82, 69.84, 70.49, 15319115],
+        ["2024-08-15", 70.42, 72.09, 70.32, 71.67, 10433840],
+        ["2024-08-16", 71.58, 72.14, 71.41, 72.06, 11045951],
+        ["2024-08-19", 71.90, 72.03, 71.54, 71.78, 6998004],
+        ["2024-08-20", 71.58, 71.78, 69.98, 70.46, 16393017],
+        ["2024-08-21", 70.62, 70.94, 70.30, 70.80, 16052466],
+        ["2024-08-22", 70.72, 70.95, 69.90, 70.45, 7928199],
+        ["2024-08-23", 70.71, 70.77, 70.28, 70.55, 13069718],
+        ["2024-08-26", 70.39, 71.32, 70.20, 71.27, 8753600],
+        ["2024-08-27", 71.78, 71.96, 71.49, 71.81, 12354433],
+        ["2024-08-28", 71.95, 72.31, 71.21, 71.51, 2144205],
+        ["2024-08-29", 71.71, 71.89, 71.36, 71.77, 15153638],
+        ["2024-08-30", 71.88, 72.93, 71.81, 72.07, 15406470],
+        ["2024-09-03", 72.19, 72.42, 71.80, 71.80, 11196443],
+        ["2024-09-04", 71.94, 72.30, 71.37, 71.71, 8908458],
+        ["2024-09-05", 71.70, 72.23, 70.99, 71.05, 7133291],
+        ["2024-09-06", 71.20, 71.42, 70.51, 71.07, 13113841],
+        ["2024-09-09", 71.45, 71.66, 70.48, 70.74, 12939916],
+        ["2024-09-10", 70.51, 70.85, 70.13, 70.77, 16047645],
+        ["2024-09-11", 70.70, 71.44, 70.44, 71.12, 15355099],
+        ["2024-09-12", 71.17, 71.69, 70.94, 71.60, 12300303],
+        ["2024-09-13", 71.62, 71.84, 71.29, 71.37, 13037626],
+        ["2024-09-16", 71.42, 72.16, 71.12, 71.85, 11262278],
+        ["2024-09-17", 71.90, 72.38, 71.80, 72.27, 11034229],
+        ["2024-09-18", 72.51, 72.57, 71.72, 72.05, 14885360],
+        ["2024-09-19", 72.37, 73.29, 72.34, 72.72, 12737419],
+        ["2024-09-20", 72.93, 73.37, 72.19, 72.23, 7588622],
+        ["2024-09-23", 72.36, 72.66, 71.28, 71.41, 12769397],
+        ["2024-09-24", 71.26, 71.96, 70.55, 70.89, 7755722],
+        ["2024-09-25", 71.08, 71.39, 70.89, 71.30, 13648335],
+        ["2024-09-26", 71.63, 72.04, 70.78, 70.94, 15686445],
+        ["2024-09-27", 70.72, 71.29, 70.37, 70.81, 11163381],
+        ["2024-09-30", 70.40, 70.51, 70.21, 70.50, 14122803],
+        ["2024-10-01", 70.49, 70.71, 70.29, 70.49, 14942850],
+        ["2024-10-02", 70.32, 70.69, 70.04, 70.65, 13947110],
+        ["2024-10-03", 71.00, 71.16, 69.98, 70.30, 13948160],
+        ["2024-10-04", 70.12, 70.32, 70.10, 70.24, 13907359],
+        ["2024-10-07", 70.12, 70.30, 69.92, 70.12, 12726714],
+        ["2024-10-08", 70.12, 71.04, 69.83, 70.72, 12679629],
+        ["2024-10-09", 70.74, 70.76, 70.14, 70.75, 8097240],
+        ["2024-10-10", 70.58, 71.35, 70.42, 71.07, 14441077],
+        ["2024-10-11", 70.87, 71.11, 70.13, 70.26, 15864051],
+        ["2024-10-14", 69.95, 70.82, 69.84, 70.77, 12951290],
+        ["2024-10-15", 70.77, 71.66, 70.68, 71.43, 9344134],
+        ["2024-10-16", 71.55, 71.78, 70.56, 70.66, 17098125],
+        ["2024-10-17", 71.12, 71.54, 69.70, 69.82, 10070556],
+        ["2024-10-18", 69.68, 70.59, 69.59, 70.12, 8148318],
+      ],
+      statements: {
+        annual: [
+          { date: "2023-12-31", revenue: 45754000000, netIncome: 10714000000, operatingIncome: 11311000000, totalAssets: 97703000000, totalLiabilities: 70223000000, stockholdersEquity: 25941000000, operatingCashFlow: 11599000000, freeCashFlow: 9747000000 },
+          { date: "2022-12-31", revenue: 43004000000, netIncome: 9542000000, operatingIncome: 10909000000, totalAssets: 92763000000, totalLiabilities: 66937000000, stockholdersEquity: 24105000000, operatingCashFlow: 11018000000, freeCashFlow: 9534000000 },
+        ],
+        quarterly: [
+          { date: "2024-06-28", revenue: 12363000000, netIncome: 2411000000, operatingIncome: 2595000000, totalAssets: 101209000000, totalLiabilities: 74799000000, stockholdersEquity: 24937000000, operatingCashFlow: 1437000000, freeCashFlow: 1004000000 },
+          { date: "2024-03-29", revenue: 11300000000, netIncome: 3177000000, operatingIncome: 2098000000, totalAssets: 99534000000, totalLiabilities: 72540000000, stockholdersEquity: 25437000000, operatingCashFlow: 528000000, freeCashFlow: 194000000 },
+        ],
+      },
+      profile: {
+        symbol: "KO", name: "The Coca-Cola Company", sector: "Consumer Defensive", industry: "Beverages - Non-Alcoholic",
+        website: "https://www.coca-colacompany.com", description: "The Coca-Cola Company manufactures and sells nonalcoholic beverages worldwide, including sparkling soft drinks, water, juice, coffee and tea.",
+        ceo: "James Robert B. Quincey", employees: 79100, founded: "1886", headquarters: "Atlanta, GA, United States",
+      },
+      recommendation: { symbol: "KO", targetPrice: 75.94, numberOfAnalysts: 21, rating: "Buy", ratingChange: "Upgraded by Jefferies" },
+      dividend: { symbol: "KO", dividendYield: 2.77, annualDividend: 1.94, exDividendDate: "2024-11-29", payoutRatio: 77.6, frequency: "Quarterly" },
+      metrics: {
+        symbol: "KO", peRatio: 28.05, pbRatio: 11.62, priceToSalesRatio: 6.51, roe: 40.76, roa: 8.25,
+        debtToEquity: 1.72, currentRatio: 1.06, quickRatio: 0.73, profitMargin: 23.1, operatingMargin: 21.01,
+      },
+      earnings: {
+        symbol: "KO", lastEarningsDate: "2024-07-23", nextEarningsDate: "2024-10-23", lastEarningsPerShare: 0.84,
+        lastRevenueEstimate: 11610000000,
+        earningsHistory: [
+          { date: "2024-06-30", eps: 0.84, revenue: 12363000000, surprise: 3.7 },
+          { date: "2024-03-31", eps: 0.74, revenue: 11300000000, surprise: 7.25 },
+          { date: "2023-12-31", eps: 0.49, revenue: 10849000000, surprise: 0.0 },
+          { date: "2023-09-30", eps: 0.74, revenue: 11953000000, surprise: 6.12 },
+        ],
+      },
+      news: [
+        { title: "Coca-Cola raises full-year outlook on steady pricing", source: "Reuters", date: "2024-10-17", url: "https://www.reuters.com/business/retail-consumer/coca-cola-outlook-2024-10-17/", sentiment: "Positive" },
+        { title: "Coca-Cola recalls Fanta cans over filling defect", source: "The Wall Street Journal", date: "2024-10-10", url: "https://www.wsj.com/business/coca-cola-fanta-recall-2024-10-10", sentiment: "Negative" },
+        { title: "Coca-Cola names new head of North America operating unit", source: "MarketWatch", date: "2024-10-03", url: "https://www.marketwatch.com/story/coca-cola-north-america-2024-10-03", sentiment: "Neutral" },
+      ],
+    },
+  },
+};
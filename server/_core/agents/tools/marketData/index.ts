@@ -0,0 +1,52 @@
+/**
+ * Market Data Providers
+ * Pluggable quote, history and fundamentals sources selected through
+ * ENV.marketDataProvider
+ */
+
+import { MarketDataProvider } from "./MarketDataProvider";
+import { YahooMarketDataProvider } from "./yahooProvider";
+import { FixtureMarketDataProvider } from "./fixtureProvider";
+
+export class MarketDataAdapter {
+  private providers: Map<string, MarketDataProvider> = new Map();
+
+  constructor() {
+    this.registerProvider("yahoo", new YahooMarketDataProvider());
+    this.registerProvider("fixture", new FixtureMarketDataProvider());
+  }
+
+  registerProvider(name: string, provider: MarketDataProvider) {
+    this.providers.set(name, provider);
+  }
+
+  getProvider(name: string): MarketDataProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Market data provider "${name}" not found.`);
+    }
+    return provider;
+  }
+}
+
+export const marketDataAdapter = new MarketDataAdapter();
+
+export type {
+  MarketDataProvider,
+  MarketDataRecord,
+  StockQuote,
+  HistoricalData,
+  FinancialStatement,
+  CompanyProfile,
+  AnalystRecommendation,
+  DividendInfo,
+  KeyMetrics,
+  EarningsInfo,
+  NewsItem,
+  HistoryInterval,
+  StatementPeriod,
+} from "./MarketDataProvider";
+export { MarketDataError, SymbolNotFoundError, RateLimitError } from "./errors";
+export { FixtureMarketDataProvider } from "./fixtureProvider";
+export { YahooMarketDataProvider } from "./yahooProvider";
+export type { MarketDataFixtures, SymbolFixture } from "./fixtures";
@@ -0,0 +1,23 @@
+import { NewsItem } from "./MarketDataProvider";
+
+const POSITIVE = [
+  "beat", "beats", "surge", "surges", "soar", "soars", "jump", "jumps", "rally", "rallies", "gain", "gains",
+  "record", "upgrade", "upgraded", "raises", "growth", "strong", "outperform", "profit", "tops", "rebound",
+];
+const NEGATIVE = [
+  "miss", "misses", "plunge", "plunges", "drop", "drops", "fall", "falls", "slump", "slumps", "cut", "cuts",
+  "downgrade", "downgraded", "lawsuit", "probe", "recall", "weak", "loss", "losses", "layoffs", "warns", "decline",
+];
+
+/**
+ * Rough headline sentiment from a word list, for sources that do not score
+ * their news
+ */
+export function headlineSentiment(title: string): NewsItem["sentiment"] {
+  const words = title.toLowerCase().split(/[^a-z]+/);
+  const score =
+    words.filter((word) => POSITIVE.includes(word)).length - words.filter((word) => NEGATIVE.includes(word)).length;
+  if (score > 0) return "Positive";
+  if (score < 0) return "Negative";
+  return "Neutral";
+}
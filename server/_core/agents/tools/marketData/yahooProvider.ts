@@ -0,0 +1,340 @@
+import type YahooFinance from "yahoo-finance2";
+import type { FundamentalsTimeSeriesAllResult } from "yahoo-finance2/modules/fundamentalsTimeSeries";
+import {
+  AnalystRecommendation,
+  CompanyProfile,
+  DividendInfo,
+  EarningsInfo,
+  FinancialStatement,
+  HistoricalData,
+  HistoryInterval,
+  KeyMetrics,
+  MarketDataProvider,
+  NewsItem,
+  StatementPeriod,
+  StockQuote,
+} from "./MarketDataProvider";
+import { MarketDataError, RateLimitError, SymbolNotFoundError } from "./errors";
+import { headlineSentiment } from "./sentiment";
+import { ENV } from "../../../env";
+
+type YahooClient = InstanceType<typeof YahooFinance>;
+
+const DEFAULT_UNIVERSE = [
+  "AAPL", "MSFT", "GOOGL", "AMZN", "NVDA", "META", "TSLA", "BRK-B", "JPM", "V",
+  "JNJ", "WMT", "PG", "MA", "HD", "XOM", "CVX", "KO", "PEP", "ABBV",
+  "MRK", "PFE", "COST", "AVGO", "ORCL", "CSCO", "INTC", "T", "VZ", "MCD",
+];
+
+const RATINGS: Record<string, AnalystRecommendation["rating"]> = {
+  strong_buy: "Strong Buy",
+  buy: "Buy",
+  hold: "Hold",
+  underperform: "Sell",
+  sell: "Sell",
+  strong_sell: "Strong Sell",
+};
+
+const RATING_ACTIONS: Record<string, string> = {
+  up: "Upgraded",
+  down: "Downgraded",
+  init: "Initiated",
+  main: "Maintained",
+  reit: "Reiterated",
+};
+
+function isoDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
+
+function percent(value: number | undefined): number {
+  return value === undefined ? 0 : value * 100;
+}
+
+function dividendFrequency(paymentsPerYear: number): string {
+  if (paymentsPerYear >= 11) return "Monthly";
+  if (paymentsPerYear >= 4) return "Quarterly";
+  if (paymentsPerYear >= 2) return "Semi-Annual";
+  if (paymentsPerYear === 1) return "Annual";
+  return "None";
+}
+
+/**
+ * Yahoo Finance through the yahoo-finance2 package. No API key is needed;
+ * Yahoo throttles heavy use, which surfaces as RateLimitError.
+ */
+export class YahooMarketDataProvider implements MarketDataProvider {
+  readonly name = "yahoo";
+  private client?: Promise<YahooClient>;
+
+  async getQuote(symbol: string): Promise<StockQuote> {
+    const quote = await this.call(symbol, (yf) => yf.quote(symbol));
+    if (!quote || quote.regularMarketPrice === undefined) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+
+    const asOf = quote.regularMarketTime ?? new Date();
+    return {
+      symbol: quote.symbol,
+      name: quote.longName ?? quote.shortName ?? quote.symbol,
+      price: quote.regularMarketPrice,
+      currency: quote.currency ?? "USD",
+      change: quote.regularMarketChange ?? 0,
+      changePercent: quote.regularMarketChangePercent ?? 0,
+      marketCap: quote.marketCap ?? 0,
+      volume: quote.regularMarketVolume ?? 0,
+      averageVolume: quote.averageDailyVolume3Month ?? 0,
+      peRatio: quote.trailingPE ?? 0,
+      eps: quote.epsTrailingTwelveMonths ?? 0,
+      beta: typeof quote.beta === "number" ? quote.beta : 0,
+      fiftyTwoWeekHigh: quote.fiftyTwoWeekHigh ?? 0,
+      fiftyTwoWeekLow: quote.fiftyTwoWeekLow ?? 0,
+      fiftyDayAverage: quote.fiftyDayAverage ?? 0,
+      twoHundredDayAverage: quote.twoHundredDayAverage ?? 0,
+      timestamp: asOf.getTime(),
+      asOf,
+      source: this.name,
+    };
+  }
+
+  async getHistory(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoryInterval
+  ): Promise<HistoricalData[]> {
+    const chart = await this.call(symbol, (yf) =>
+      yf.chart(symbol, { period1: startDate, period2: endDate, interval })
+    );
+    const asOf = new Date();
+
+    return chart.quotes
+      .filter((bar) => bar.close !== null)
+      .map((bar) => ({
+        date: isoDate(bar.date),
+        open: bar.open ?? bar.close!,
+        high: bar.high ?? bar.close!,
+        low: bar.low ?? bar.close!,
+        close: bar.close!,
+        volume: bar.volume ?? 0,
+        adjClose: bar.adjclose ?? bar.close!,
+        asOf,
+        source: this.name,
+      }));
+  }
+
+  async getFinancialStatements(symbol: string, period: StatementPeriod): Promise<FinancialStatement[]> {
+    const yearsBack = period === "annual" ? 5 : 2;
+    const period1 = new Date();
+    period1.setFullYear(period1.getFullYear() - yearsBack);
+
+    // module "all" merges the income statement, balance sheet and cash flow rows
+    const rows = (await this.call(symbol, (yf) =>
+      yf.fundamentalsTimeSeries(symbol, { period1, type: period, module: "all" })
+    )) as FundamentalsTimeSeriesAllResult[];
+    if (rows.length === 0) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+    const asOf = new Date();
+
+    return rows
+      .map((row) => ({
+        date: isoDate(row.date),
+        revenue: row.totalRevenue ?? 0,
+        netIncome: row.netIncome ?? 0,
+        operatingIncome: row.operatingIncome ?? 0,
+        totalAssets: row.totalAssets ?? 0,
+        totalLiabilities: row.totalLiabilitiesNetMinorityInterest ?? 0,
+        stockholdersEquity: row.stockholdersEquity ?? 0,
+        operatingCashFlow: row.operatingCashFlow ?? 0,
+        freeCashFlow: row.freeCashFlow ?? 0,
+        asOf,
+        source: this.name,
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+    const summary = await this.call(symbol, (yf) => yf.quoteSummary(symbol, { modules: ["assetProfile", "price"] }));
+    const profile = summary.assetProfile;
+    if (!profile) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+
+    const ceo = profile.companyOfficers.find((officer) => /\bCEO\b|Chief Executive/i.test(officer.title ?? ""));
+    return {
+      symbol: symbol.toUpperCase(),
+      name: summary.price?.longName ?? summary.price?.shortName ?? symbol.toUpperCase(),
+      sector: profile.sector ?? "",
+      industry: profile.industry ?? "",
+      website: profile.website ?? "",
+      description: profile.longBusinessSummary ?? "",
+      ceo: ceo?.name ?? "",
+      employees: profile.fullTimeEmployees ?? 0,
+      founded: "",
+      headquarters: [profile.city, profile.state, profile.country].filter(Boolean).join(", "),
+      asOf: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getAnalystRecommendation(symbol: string): Promise<AnalystRecommendation> {
+    const summary = await this.call(symbol, (yf) =>
+      yf.quoteSummary(symbol, { modules: ["financialData", "upgradeDowngradeHistory"] })
+    );
+    const financialData = summary.financialData;
+    if (!financialData) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+
+    const latest = summary.upgradeDowngradeHistory?.history[0];
+    return {
+      symbol: symbol.toUpperCase(),
+      targetPrice: financialData.targetMeanPrice ?? 0,
+      numberOfAnalysts: financialData.numberOfAnalystOpinions ?? 0,
+      rating: RATINGS[financialData.recommendationKey] ?? "Hold",
+      ratingChange: latest ? `${RATING_ACTIONS[latest.action] ?? latest.action} by ${latest.firm}` : "",
+      asOf: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getDividendInfo(symbol: string): Promise<DividendInfo> {
+    const oneYearAgo = new Date();
+    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+
+    const [summary, chart] = await Promise.all([
+      this.call(symbol, (yf) => yf.quoteSummary(symbol, { modules: ["summaryDetail"] })),
+      this.call(symbol, (yf) => yf.chart(symbol, { period1: oneYearAgo, interval: "1mo", events: "div" })),
+    ]);
+    const detail = summary.summaryDetail;
+    if (!detail) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+
+    return {
+      symbol: symbol.toUpperCase(),
+      dividendYield: percent(detail.dividendYield),
+      annualDividend: detail.dividendRate ?? 0,
+      exDividendDate: isoDate(detail.exDividendDate),
+      payoutRatio: percent(detail.payoutRatio),
+      frequency: dividendFrequency(chart.events?.dividends?.length ?? 0),
+      asOf: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getKeyMetrics(symbol: string): Promise<KeyMetrics> {
+    const summary = await this.call(symbol, (yf) =>
+      yf.quoteSummary(symbol, { modules: ["summaryDetail", "defaultKeyStatistics", "financialData"] })
+    );
+    const { summaryDetail, defaultKeyStatistics, financialData } = summary;
+    if (!summaryDetail && !financialData) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+
+    return {
+      symbol: symbol.toUpperCase(),
+      peRatio: summaryDetail?.trailingPE ?? 0,
+      pbRatio: defaultKeyStatistics?.priceToBook ?? 0,
+      priceToSalesRatio: summaryDetail?.priceToSalesTrailing12Months ?? 0,
+      roe: percent(financialData?.returnOnEquity),
+      roa: percent(financialData?.returnOnAssets),
+      // Yahoo reports debt to equity as a percentage
+      debtToEquity: (financialData?.debtToEquity ?? 0) / 100,
+      currentRatio: financialData?.currentRatio ?? 0,
+      quickRatio: financialData?.quickRatio ?? 0,
+      profitMargin: percent(financialData?.profitMargins),
+      operatingMargin: percent(financialData?.operatingMargins),
+      asOf: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getEarningsInfo(symbol: string): Promise<EarningsInfo> {
+    const summary = await this.call(symbol, (yf) =>
+      yf.quoteSummary(symbol, { modules: ["calendarEvents", "earnings", "earningsHistory"] })
+    );
+    const history = summary.earningsHistory?.history ?? [];
+    if (!summary.calendarEvents && history.length === 0) {
+      throw new SymbolNotFoundError(symbol, this.name);
+    }
+
+    // Both lists run oldest to newest; line them up from the latest quarter
+    const revenues = summary.earnings?.financialsChart.quarterly ?? [];
+    const earningsHistory = history
+      .map((quarter, index) => ({
+        date: isoDate(quarter.quarter),
+        eps: quarter.epsActual ?? 0,
+        revenue: revenues[revenues.length - history.length + index]?.revenue ?? 0,
+        surprise: percent(quarter.surprisePercent ?? undefined),
+      }))
+      .reverse();
+
+    const reported = summary.earnings?.earningsChart.quarterly ?? [];
+    return {
+      symbol: symbol.toUpperCase(),
+      lastEarningsDate: isoDate(reported[reported.length - 1]?.reportedDate) || earningsHistory[0]?.date || "",
+      nextEarningsDate: isoDate(summary.calendarEvents?.earnings.earningsDate[0]),
+      lastEarningsPerShare: earningsHistory[0]?.eps ?? 0,
+      lastRevenueEstimate: summary.calendarEvents?.earnings.revenueAverage ?? 0,
+      earningsHistory,
+      asOf: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getNews(symbol: string): Promise<NewsItem[]> {
+    const result = await this.call(symbol, (yf) => yf.search(symbol, { quotesCount: 0, newsCount: 10 }));
+
+    return result.news.map((item) => ({
+      title: item.title,
+      source: item.publisher,
+      date: isoDate(item.providerPublishTime),
+      url: item.link,
+      sentiment: headlineSentiment(item.title),
+    }));
+  }
+
+  async getUniverse(): Promise<string[]> {
+    const configured = ENV.marketDataUniverse
+      .split(",")
+      .map((symbol) => symbol.trim().toUpperCase())
+      .filter(Boolean);
+    return configured.length > 0 ? configured : DEFAULT_UNIVERSE;
+  }
+
+  /**
+   * yahoo-finance2 is loaded on first use so offline setups never import it
+   */
+  private getClient(): Promise<YahooClient> {
+    if (!this.client) {
+      this.client = import("yahoo-finance2").then(
+        ({ default: YahooFinanceClient }) => new YahooFinanceClient({ suppressNotices: ["yahooSurvey"] })
+      );
+    }
+    return this.client;
+  }
+
+  private async call<T>(symbol: string, request: (yf: YahooClient) => Promise<T>): Promise<T> {
+    const yf = await this.getClient();
+    try {
+      return await request(yf);
+    } catch (error) {
+      throw this.toMarketDataError(error, symbol);
+    }
+  }
+
+  private toMarketDataError(error: unknown, symbol: string): MarketDataError {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = (error as { code?: unknown })?.code;
+
+    if (status === 429 || /too many requests|rate limit/i.test(message)) {
+      return new RateLimitError(this.name);
+    }
+    if (status === 404 || /not found|no data found|delisted|no fundamentals data/i.test(message)) {
+      return new SymbolNotFoundError(symbol, this.name);
+    }
+    return new MarketDataError(`Yahoo Finance request for ${symbol} failed: ${message}`, this.name);
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Portfolio Analytics
+ * Positions, cost basis and time-weighted returns built from a portfolio's
+ * transactions and market data history, in the portfolio's reporting currency
+ */
+
+import { getHistoricalData, getStockQuote } from "./yahooFinance";
+import { getFxRate, getFxSeries } from "./fx";
+import { ENV } from "../../env";
+
+export interface PortfolioTransaction {
+  symbol: string;
+  type: "buy" | "sell" | "dividend";
+  quantity: number;
+  /** Per-share trade price, or per-share dividend, in the stock's quote currency */
+  price: number;
+  fees: number;
+  executedAt: Date;
+}
+
+export interface Position {
+  symbol: string;
+  quantity: number;
+  /** Average-cost basis of the open quantity, fees included */
+  costBasis: number;
+  realizedGain: number;
+  /** Dividends received, net of fees */
+  income: number;
+}
+
+export interface PositionValuation extends Position {
+  averageCost: number;
+  /** Latest price in the reporting currency */
+  price: number;
+  /** Latest price in the stock's quote currency */
+  nativePrice: number;
+  nativeCurrency: string;
+  /** Rate the native price was converted at */
+  fxRate: number;
+  marketValue: number;
+  unrealizedGain: number;
+  unrealizedGainPercent: number | null;
+  /** Share of the portfolio's market value, as a percentage */
+  weight: number;
+}
+
+export interface PortfolioValuation {
+  positions: PositionValuation[];
+  totalCostBasis: number;
+  totalMarketValue: number;
+  totalUnrealizedGain: number;
+  totalRealizedGain: number;
+  totalIncome: number;
+  /** Currency every amount is reported in */
+  currency: string;
+  asOf: Date;
+  source: string;
+}
+
+export interface PortfolioPerformance {
+  benchmark: string;
+  /** Currency values and returns are measured in */
+  currency: string;
+  from: string;
+  to: string;
+  /** Time-weighted return over the period, as a percentage */
+  timeWeightedReturn: number;
+  benchmarkReturn: number;
+  excessReturn: number;
+  series: Array<{ date: string; value: number; portfolioReturn: number; benchmarkReturn: number }>;
+  asOf: Date;
+  source: string;
+}
+
+/**
+ * Portfolio holdings as handed to the financial analyst
+ */
+export interface PortfolioContext {
+  name: string;
+  benchmark: string;
+  valuation: PortfolioValuation;
+}
+
+/**
+ * Raised when transactions would leave a position short
+ */
+export class PositionError extends Error {
+  constructor(
+    message: string,
+    public readonly symbol: string
+  ) {
+    super(message);
+    this.name = "PositionError";
+  }
+}
+
+// Quantities below this are rounding noise from fractional shares
+const QUANTITY_EPSILON = 1e-9;
+
+function byExecution(a: PortfolioTransaction, b: PortfolioTransaction): number {
+  return a.executedAt.getTime() - b.executedAt.getTime();
+}
+
+function applyTransaction(positions: Map<string, Position>, transaction: PortfolioTransaction) {
+  const symbol = transaction.symbol.toUpperCase();
+  const position = positions.get(symbol) ?? { symbol, quantity: 0, costBasis: 0, realizedGain: 0, income: 0 };
+  const { quantity, price, fees } = transaction;
+
+  if (transaction.type === "buy") {
+    position.quantity += quantity;
+    position.costBasis += quantity * price + fees;
+  } else if (transaction.type === "sell") {
+    if (quantity > position.quantity + QUANTITY_EPSILON) {
+      throw new PositionError(`Cannot sell ${quantity} ${symbol}: only ${position.quantity} held`, symbol);
+    }
+    const soldCost = (position.costBasis / position.quantity) * quantity;
+    position.realizedGain += quantity * price - fees - soldCost;
+    position.costBasis -= soldCost;
+    position.quantity -= quantity;
+    if (position.quantity < QUANTITY_EPSILON) {
+      position.quantity = 0;
+      position.costBasis = 0;
+    }
+  } else {
+    position.income += quantity * price - fees;
+  }
+
+  positions.set(symbol, position);
+}
+
+/**
+ * Replay transactions in execution order into per-symbol positions using
+ * average cost. Closed positions are kept for their realized gains and income.
+ */
+export function buildPositions(transactions: PortfolioTransaction[]): Position[] {
+  const positions = new Map<string, Position>();
+  [...transactions].sort(byExecution).forEach((transaction) => applyTransaction(positions, transaction));
+  return Array.from(positions.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Quote currency of each symbol
+ */
+async function quoteCurrencies(symbols: string[]): Promise<Map<string, string>> {
+  const quotes = await Promise.all(symbols.map((symbol) => getStockQuote(symbol)));
+  return new Map(symbols.map((symbol, i): [string, string] => [symbol, quotes[i].currency]));
+}
+
+function uniqueSymbols(transactions: PortfolioTransaction[]): string[] {
+  return Array.from(new Set(transactions.map((t) => t.symbol.toUpperCase())));
+}
+
+/**
+ * Restate transactions in a reporting currency at the rate of the day each
+ * was executed, so cost basis and realized gains keep their historical value
+ */
+export async function convertTransactions(
+  transactions: PortfolioTransaction[],
+  reportingCurrency: string
+): Promise<PortfolioTransaction[]> {
+  const currencies = await quoteCurrencies(uniqueSymbols(transactions));
+  return Promise.all(
+    transactions.map(async (transaction) => {
+      const currency = currencies.get(transaction.symbol.toUpperCase()) ?? reportingCurrency;
+      const { rate } = await getFxRate(currency, reportingCurrency, transaction.executedAt);
+      return { ...transaction, price: transaction.price * rate, fees: transaction.fees * rate };
+    })
+  );
+}
+
+/**
+ * Value positions at their latest quotes. Cost basis, gains and income must
+ * already be in the reporting currency (see convertTransactions); prices are
+ * converted at the rate of each quote's day.
+ */
+export async function valuePositions(
+  positions: Position[],
+  reportingCurrency: string = ENV.reportingCurrency
+): Promise<PortfolioValuation> {
+  const quotes = await Promise.all(positions.map((position) => getStockQuote(position.symbol)));
+  const rates = await Promise.all(quotes.map((quote) => getFxRate(quote.currency, reportingCurrency, quote.asOf)));
+
+  const valued = positions.map((position, i) => {
+    const price = quotes[i].price * rates[i].rate;
+    const marketValue = position.quantity * price;
+    return {
+      ...position,
+      averageCost: position.quantity > 0 ? position.costBasis / position.quantity : 0,
+      price,
+      nativePrice: quotes[i].price,
+      nativeCurrency: quotes[i].currency,
+      fxRate: rates[i].rate,
+      marketValue,
+      unrealizedGain: marketValue - position.costBasis,
+      unrealizedGainPercent: position.costBasis > 0 ? (marketValue / position.costBasis - 1) * 100 : null,
+      weight: 0,
+    };
+  });
+
+  const total = (field: "costBasis" | "marketValue" | "realizedGain" | "income") =>
+    valued.reduce((sum, position) => sum + position[field], 0);
+  const totalMarketValue = total("marketValue");
+  valued.forEach((position) => {
+    position.weight = totalMarketValue > 0 ? (position.marketValue / totalMarketValue) * 100 : 0;
+  });
+
+  const latest = quotes.reduce<(typeof quotes)[number] | undefined>(
+    (newest, quote) => (!newest || quote.asOf > newest.asOf ? quote : newest),
+    undefined
+  );
+
+  return {
+    positions: valued,
+    totalCostBasis: total("costBasis"),
+    totalMarketValue,
+    totalUnrealizedGain: totalMarketValue - total("costBasis"),
+    totalRealizedGain: total("realizedGain"),
+    totalIncome: total("income"),
+    currency: reportingCurrency,
+    asOf: latest?.asOf ?? new Date(),
+    source: latest?.source ?? "none",
+  };
+}
+
+function tradingDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Daily time-weighted return of the portfolio against a benchmark, from the
+ * first transaction to the benchmark's latest quote. Purchases and sales
+ * count as cash flows at the close of their trading day, so each day's return
+ * is independent of how much money was added or withdrawn. Dividends count as
+ * return through the dividend transactions, so holdings are valued at the
+ * split-adjusted close rather than the dividend-adjusted one; the benchmark,
+ * which has no such transactions, uses the dividend-adjusted close. Trades
+ * convert at the rate of their day and closes at each day's rate, so returns
+ * include currency moves; the benchmark is converted too.
+ */
+export async function computePerformance(
+  transactions: PortfolioTransaction[],
+  benchmark: string,
+  reportingCurrency: string = ENV.reportingCurrency
+): Promise<PortfolioPerformance> {
+  if (transactions.length === 0) {
+    throw new Error("Portfolio has no transactions");
+  }
+  const ordered = (await convertTransactions(transactions, reportingCurrency)).sort(byExecution);
+
+  const benchmarkQuote = await getStockQuote(benchmark);
+  const start = ordered[0].executedAt;
+  const end = benchmarkQuote.asOf;
+  const symbols = uniqueSymbols(ordered);
+  const currencies = await quoteCurrencies(symbols);
+
+  const [benchmarkHistory, ...histories] = await Promise.all(
+    [benchmarkQuote.symbol, ...symbols].map((symbol) => getHistoricalData(symbol, start, end, "1d"))
+  );
+  if (benchmarkHistory.length === 0) {
+    throw new Error(`No ${benchmarkQuote.symbol} history since ${tradingDate(start)}`);
+  }
+  const [benchmarkFx, ...symbolFx] = await Promise.all(
+    [benchmarkQuote.currency, ...symbols.map((symbol) => currencies.get(symbol) ?? reportingCurrency)].map((currency) =>
+      getFxSeries(currency, reportingCurrency, start, end)
+    )
+  );
+
+  const closesBySymbol = new Map<string, Map<string, number>>();
+  symbols.forEach((symbol, i) => {
+    closesBySymbol.set(
+      symbol,
+      new Map(histories[i].map((bar): [string, number] => [bar.date, bar.close * symbolFx[i].rateOn(bar.date)]))
+    );
+  });
+  const benchmarkClose = (bar: (typeof benchmarkHistory)[number]) => bar.adjClose * benchmarkFx.rateOn(bar.date);
+
+  const positions = new Map<string, Position>();
+  const lastClose = new Map<string, number>();
+  const benchmarkStart = benchmarkClose(benchmarkHistory[0]);
+  let pending = 0;
+  let previousValue = 0;
+  let growth = 1;
+  const series: PortfolioPerformance["series"] = [];
+
+  for (const bar of benchmarkHistory) {
+    let inflow = 0;
+    let outflow = 0;
+    let income = 0;
+    while (pending < ordered.length && tradingDate(ordered[pending].executedAt) <= bar.date) {
+      const transaction = ordered[pending++];
+      const { quantity, price, fees } = transaction;
+      if (transaction.type === "buy") inflow += quantity * price + fees;
+      else if (transaction.type === "sell") outflow += quantity * price - fees;
+      else income += quantity * price - fees;
+      applyTransaction(positions, transaction);
+    }
+
+    let value = 0;
+    positions.forEach((position) => {
+      const close = closesBySymbol.get(position.symbol)?.get(bar.date);
+      if (close !== undefined) lastClose.set(position.symbol, close);
+      value += position.quantity * (lastClose.get(position.symbol) ?? 0);
+    });
+
+    // Flows settle at the close; a day starting empty earns from trade price to close
+    const gain = value + outflow + income;
+    if (previousValue > 0) {
+      growth *= (gain - inflow) / previousValue;
+    } else if (inflow > 0) {
+      growth *= gain / inflow;
+    }
+    previousValue = value;
+
+    series.push({
+      date: bar.date,
+      value,
+      portfolioReturn: (growth - 1) * 100,
+      benchmarkReturn: (benchmarkClose(bar) / benchmarkStart - 1) * 100,
+    });
+  }
+
+  const last = series[series.length - 1];
+  return {
+    benchmark: benchmarkQuote.symbol,
+    currency: reportingCurrency,
+    from: series[0].date,
+    to: last.date,
+    timeWeightedReturn: last.portfolioReturn,
+    benchmarkReturn: last.benchmarkReturn,
+    excessReturn: last.portfolioReturn - last.benchmarkReturn,
+    series,
+    asOf: benchmarkQuote.asOf,
+    source: benchmarkQuote.source,
+  };
+}
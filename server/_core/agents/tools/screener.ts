@@ -0,0 +1,391 @@
+/**
+ * Stock Screener
+ * Filters, sorts and pages a cached snapshot of the market data provider's
+ * universe. Filters are a small JSON DSL: comparisons and ranges on any
+ * numeric quote, key metric or dividend field, membership tests on text
+ * fields such as sector and industry, and nested AND/OR groups. Money fields
+ * are converted to a reporting currency before filtering, so one threshold
+ * applies across markets.
+ */
+
+import { z } from "zod";
+import { marketDataAdapter, MarketDataProvider, MarketDataRecord, RateLimitError } from "./marketData";
+import { currencySchema, FxRate, getFxRate } from "./fx";
+import { ENV } from "../../env";
+
+export const NUMERIC_SCREEN_FIELDS = [
+  // Quote
+  "price",
+  "change",
+  "changePercent",
+  "marketCap",
+  "volume",
+  "averageVolume",
+  "peRatio",
+  "eps",
+  "beta",
+  "fiftyTwoWeekHigh",
+  "fiftyTwoWeekLow",
+  "fiftyDayAverage",
+  "twoHundredDayAverage",
+  // Key metrics
+  "pbRatio",
+  "priceToSalesRatio",
+  "roe",
+  "roa",
+  "debtToEquity",
+  "currentRatio",
+  "quickRatio",
+  "profitMargin",
+  "operatingMargin",
+  // Dividends
+  "dividendYield",
+  "annualDividend",
+  "payoutRatio",
+  // Rate from the native to the reporting currency
+  "fxRate",
+] as const;
+
+export const TEXT_SCREEN_FIELDS = ["symbol", "name", "currency", "nativeCurrency", "sector", "industry"] as const;
+
+/** Fields quoted in money, converted from the native to the reporting currency */
+export const MONEY_SCREEN_FIELDS = [
+  "price",
+  "change",
+  "marketCap",
+  "eps",
+  "fiftyTwoWeekHigh",
+  "fiftyTwoWeekLow",
+  "fiftyDayAverage",
+  "twoHundredDayAverage",
+  "annualDividend",
+] as const satisfies readonly NumericScreenField[];
+
+export type NumericScreenField = (typeof NUMERIC_SCREEN_FIELDS)[number];
+export type TextScreenField = (typeof TEXT_SCREEN_FIELDS)[number];
+export type ScreenField = NumericScreenField | TextScreenField;
+
+/**
+ * One symbol of the universe. Fields the provider could not supply are null
+ * and never match a filter. `currency` is the currency money fields are in;
+ * `nativeCurrency` the one the symbol is quoted in.
+ */
+export type ScreenRow = MarketDataRecord &
+  { [K in NumericScreenField]: number | null } &
+  { [K in TextScreenField]: K extends "symbol" ? string : string | null };
+
+export type ScreenFilter =
+  | { field: ScreenField; op: "gt" | "gte" | "lt" | "lte" | "eq" | "neq"; value: number | string }
+  | { field: ScreenField; op: "between"; min: number; max: number }
+  | { field: ScreenField; op: "in" | "notIn"; values: string[] }
+  | { and: ScreenFilter[] }
+  | { or: ScreenFilter[] };
+
+const fieldSchema = z.enum([...NUMERIC_SCREEN_FIELDS, ...TEXT_SCREEN_FIELDS]);
+
+export const screenFilterSchema: z.ZodType<ScreenFilter> = z.lazy(() =>
+  z.union([
+    z.object({
+      field: fieldSchema,
+      op: z.enum(["gt", "gte", "lt", "lte", "eq", "neq"]),
+      value: z.union([z.number(), z.string()]),
+    }),
+    z.object({ field: fieldSchema, op: z.literal("between"), min: z.number(), max: z.number() }),
+    z.object({ field: fieldSchema, op: z.enum(["in", "notIn"]), values: z.array(z.string()).min(1) }),
+    z.object({ and: z.array(screenFilterSchema).min(1) }),
+    z.object({ or: z.array(screenFilterSchema).min(1) }),
+  ])
+);
+
+export const screenSortSchema = z.object({
+  field: fieldSchema,
+  direction: z.enum(["asc", "desc"]).default("desc"),
+});
+
+/** What a saved screen stores: the filter and sort, without a page */
+export const screenDefinitionSchema = z.object({
+  filter: screenFilterSchema.optional(),
+  sort: z.array(screenSortSchema).default([]),
+  /** Defaults to REPORTING_CURRENCY */
+  reportingCurrency: currencySchema.optional(),
+});
+
+export const screenQuerySchema = screenDefinitionSchema.extend({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(25),
+});
+
+export type ScreenDefinition = z.input<typeof screenDefinitionSchema>;
+export type ScreenQuery = z.input<typeof screenQuerySchema>;
+
+export interface ScreenResult {
+  results: ScreenRow[];
+  /** Matches across all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  universeSize: number;
+  /** Currency of the money fields */
+  currency: string;
+  /** When the universe snapshot was taken */
+  cachedAt: Date;
+  source: string;
+}
+
+/**
+ * Raised for filters that do not make sense for their field, such as a range
+ * on a text field
+ */
+export class ScreenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScreenError";
+  }
+}
+
+interface UniverseSnapshot {
+  source: string;
+  rows: ScreenRow[];
+  cachedAt: Date;
+  expiresAt: number;
+}
+
+let snapshot: Promise<UniverseSnapshot> | null = null;
+
+function provider(): MarketDataProvider {
+  return marketDataAdapter.getProvider(ENV.marketDataProvider);
+}
+
+function isNumericField(field: ScreenField): field is NumericScreenField {
+  return (NUMERIC_SCREEN_FIELDS as readonly string[]).includes(field);
+}
+
+async function buildRow(source: MarketDataProvider, symbol: string): Promise<ScreenRow | null> {
+  const [quote, metrics, profile, dividend] = await Promise.allSettled([
+    source.getQuote(symbol),
+    source.getKeyMetrics(symbol),
+    source.getCompanyProfile(symbol),
+    source.getDividendInfo(symbol),
+  ]);
+
+  for (const result of [quote, metrics, profile, dividend]) {
+    if (result.status === "rejected" && result.reason instanceof RateLimitError) throw result.reason;
+  }
+  // Symbols without a quote are left out of the universe
+  if (quote.status === "rejected") return null;
+
+  const q = quote.value;
+  const m = metrics.status === "fulfilled" ? metrics.value : null;
+  const p = profile.status === "fulfilled" ? profile.value : null;
+  const d = dividend.status === "fulfilled" ? dividend.value : null;
+
+  return {
+    symbol: q.symbol,
+    name: q.name,
+    currency: q.currency,
+    nativeCurrency: q.currency,
+    sector: p?.sector ?? null,
+    industry: p?.industry ?? null,
+    price: q.price,
+    change: q.change,
+    changePercent: q.changePercent,
+    marketCap: q.marketCap,
+    volume: q.volume,
+    averageVolume: q.averageVolume,
+    peRatio: q.peRatio,
+    eps: q.eps,
+    beta: q.beta,
+    fiftyTwoWeekHigh: q.fiftyTwoWeekHigh,
+    fiftyTwoWeekLow: q.fiftyTwoWeekLow,
+    fiftyDayAverage: q.fiftyDayAverage,
+    twoHundredDayAverage: q.twoHundredDayAverage,
+    pbRatio: m?.pbRatio ?? null,
+    priceToSalesRatio: m?.priceToSalesRatio ?? null,
+    roe: m?.roe ?? null,
+    roa: m?.roa ?? null,
+    debtToEquity: m?.debtToEquity ?? null,
+    currentRatio: m?.currentRatio ?? null,
+    quickRatio: m?.quickRatio ?? null,
+    profitMargin: m?.profitMargin ?? null,
+    operatingMargin: m?.operatingMargin ?? null,
+    dividendYield: d?.dividendYield ?? null,
+    annualDividend: d?.annualDividend ?? null,
+    payoutRatio: d?.payoutRatio ?? null,
+    fxRate: 1,
+    asOf: q.asOf,
+    source: q.source,
+  };
+}
+
+async function buildSnapshot(source: MarketDataProvider): Promise<UniverseSnapshot> {
+  const universe = await source.getUniverse();
+  const rows = await Promise.all(universe.map((symbol) => buildRow(source, symbol)));
+  return {
+    source: source.name,
+    rows: rows.filter((row): row is ScreenRow => row !== null),
+    cachedAt: new Date(),
+    expiresAt: Date.now() + ENV.screenerCacheTtlMs,
+  };
+}
+
+/**
+ * The current provider's universe, rebuilt when the cache expires or the
+ * provider changes. Concurrent callers share one rebuild.
+ */
+export async function loadScreenUniverse(): Promise<UniverseSnapshot> {
+  const source = provider();
+  if (snapshot) {
+    const current = await snapshot.catch(() => null);
+    if (current && current.source === source.name && current.expiresAt > Date.now()) return current;
+  }
+
+  const building = buildSnapshot(source);
+  snapshot = building;
+  try {
+    return await building;
+  } catch (error) {
+    if (snapshot === building) snapshot = null;
+    throw error;
+  }
+}
+
+export function clearScreenerCache(): void {
+  snapshot = null;
+}
+
+function checkFilter(filter: ScreenFilter): void {
+  if ("and" in filter) return filter.and.forEach(checkFilter);
+  if ("or" in filter) return filter.or.forEach(checkFilter);
+
+  const numeric = isNumericField(filter.field);
+  switch (filter.op) {
+    case "between":
+      if (!numeric) throw new ScreenError(`"between" needs a numeric field, not ${filter.field}`);
+      if (filter.min > filter.max) throw new ScreenError(`Range on ${filter.field} has min above max`);
+      return;
+    case "in":
+    case "notIn":
+      if (numeric) throw new ScreenError(`"${filter.op}" needs a text field, not ${filter.field}`);
+      return;
+    case "eq":
+    case "neq":
+      if (numeric !== (typeof filter.value === "number")) {
+        throw new ScreenError(`${filter.field} must be compared with a ${numeric ? "number" : "string"}`);
+      }
+      return;
+    default:
+      if (!numeric || typeof filter.value !== "number") {
+        throw new ScreenError(`"${filter.op}" needs a numeric field and value, not ${filter.field}`);
+      }
+  }
+}
+
+function matches(row: ScreenRow, filter: ScreenFilter): boolean {
+  if ("and" in filter) return filter.and.every((child) => matches(row, child));
+  if ("or" in filter) return filter.or.some((child) => matches(row, child));
+
+  const value = row[filter.field];
+  if (value === null) return false;
+
+  // Text comparisons ignore case
+  const normalize = (text: string) => text.trim().toLowerCase();
+  switch (filter.op) {
+    case "in":
+      return filter.values.map(normalize).includes(normalize(String(value)));
+    case "notIn":
+      return !filter.values.map(normalize).includes(normalize(String(value)));
+    case "between":
+      return (value as number) >= filter.min && (value as number) <= filter.max;
+    case "eq":
+      return typeof value === "string" ? normalize(value) === normalize(String(filter.value)) : value === filter.value;
+    case "neq":
+      return typeof value === "string" ? normalize(value) !== normalize(String(filter.value)) : value !== filter.value;
+    case "gt":
+      return (value as number) > (filter.value as number);
+    case "gte":
+      return (value as number) >= (filter.value as number);
+    case "lt":
+      return (value as number) < (filter.value as number);
+    case "lte":
+      return (value as number) <= (filter.value as number);
+  }
+}
+
+function compareRows(a: ScreenRow, b: ScreenRow, sort: z.output<typeof screenSortSchema>[]): number {
+  for (const { field, direction } of sort) {
+    const left = a[field];
+    const right = b[field];
+    if (left === right) continue;
+    // Missing values sort last in either direction
+    if (left === null) return 1;
+    if (right === null) return -1;
+    const order = typeof left === "number" ? left - (right as number) : String(left).localeCompare(String(right));
+    if (order !== 0) return direction === "asc" ? order : -order;
+  }
+  return a.symbol.localeCompare(b.symbol);
+}
+
+/**
+ * Restate a snapshot's money fields in a reporting currency at the rate of
+ * each row's quote day. Rows already in that currency are returned as they are.
+ */
+async function convertRows(rows: ScreenRow[], reportingCurrency: string): Promise<ScreenRow[]> {
+  const rates = new Map<string, Promise<FxRate>>();
+  const rateFor = (row: ScreenRow) => {
+    const native = row.nativeCurrency ?? reportingCurrency;
+    const key = `${native}:${row.asOf.toISOString().slice(0, 10)}`;
+    if (!rates.has(key)) rates.set(key, getFxRate(native, reportingCurrency, row.asOf));
+    return rates.get(key) as Promise<FxRate>;
+  };
+
+  return Promise.all(
+    rows.map(async (row) => {
+      if (row.currency === reportingCurrency) return row;
+      const { rate } = await rateFor(row);
+      const converted: ScreenRow = { ...row, currency: reportingCurrency, fxRate: rate };
+      MONEY_SCREEN_FIELDS.forEach((field) => {
+        const value = row[field];
+        converted[field] = value === null ? null : value * rate;
+      });
+      return converted;
+    })
+  );
+}
+
+/**
+ * Every row of the universe that passes the filter, sorted. Without a sort
+ * the rows come in symbol order.
+ */
+export async function screenUniverse(
+  definition: ScreenDefinition
+): Promise<{ rows: ScreenRow[]; snapshot: UniverseSnapshot; currency: string }> {
+  const { filter, sort, reportingCurrency = ENV.reportingCurrency } = screenDefinitionSchema.parse(definition);
+  if (filter) checkFilter(filter);
+
+  const universe = await loadScreenUniverse();
+  const rows = (await convertRows(universe.rows, reportingCurrency))
+    .filter((row) => !filter || matches(row, filter))
+    .sort((a, b) => compareRows(a, b, sort));
+  return { rows, snapshot: universe, currency: reportingCurrency };
+}
+
+/**
+ * Run a screen and return one page of its results
+ */
+export async function runScreen(query: ScreenQuery): Promise<ScreenResult> {
+  const { page, pageSize, ...definition } = screenQuerySchema.parse(query);
+  const { rows, snapshot: universe, currency } = await screenUniverse(definition);
+
+  return {
+    results: rows.slice((page - 1) * pageSize, page * pageSize),
+    total: rows.length,
+    page,
+    pageSize,
+    pageCount: Math.ceil(rows.length / pageSize),
+    universeSize: universe.rows.length,
+    currency,
+    cachedAt: universe.cachedAt,
+    source: universe.source,
+  };
+}
@@ -0,0 +1,33 @@
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  source?: string;
+  publishedDate?: Date;
+  language?: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  query: string;
+  totalResults?: number;
+  provider?: string;
+}
+
+export interface SearchFilters {
+  domain?: string;
+  dateRange?: { from: Date; to: Date };
+  language?: string;
+}
+
+export interface SearchOptions extends SearchFilters {
+  numResults: number;
+}
+
+export interface SearchProvider {
+  /**
+   * Runs a web search. Providers pass filters to their API where it supports
+   * them; the adapter re-applies every filter to the returned results.
+   */
+  search(query: string, options: SearchOptions): Promise<SearchResponse>;
+}
@@ -0,0 +1,54 @@
+import { SearchProvider, SearchOptions, SearchResponse } from "./SearchProvider";
+import { assertOk, formatDate, parseDate, withSiteOperator } from "./filters";
+import { ENV } from "../../../env";
+
+type BingWebPage = {
+  name: string;
+  url: string;
+  snippet?: string;
+  siteName?: string;
+  datePublished?: string;
+  language?: string;
+};
+
+export class BingSearchProvider implements SearchProvider {
+  async search(query: string, options: SearchOptions): Promise<SearchResponse> {
+    if (!ENV.bingSearchApiKey) {
+      throw new Error("BING_SEARCH_API_KEY is not configured");
+    }
+
+    const url = new URL(ENV.bingSearchApiUrl || "https://api.bing.microsoft.com/v7.0/search");
+    url.searchParams.set("q", withSiteOperator(query, options.domain));
+    url.searchParams.set("count", String(Math.min(options.numResults, 50)));
+    if (options.language) url.searchParams.set("setLang", options.language);
+    if (options.dateRange) {
+      url.searchParams.set(
+        "freshness",
+        `${formatDate(options.dateRange.from)}..${formatDate(options.dateRange.to)}`
+      );
+    }
+
+    const response = await fetch(url, {
+      headers: { "ocp-apim-subscription-key": ENV.bingSearchApiKey },
+    });
+    await assertOk(response, "Bing");
+
+    const json = (await response.json()) as {
+      webPages?: { value?: BingWebPage[]; totalEstimatedMatches?: number };
+    };
+    const results = (json.webPages?.value ?? []).map((page) => ({
+      title: page.name,
+      url: page.url,
+      snippet: page.snippet ?? "",
+      source: page.siteName,
+      publishedDate: parseDate(page.datePublished),
+      language: page.language,
+    }));
+
+    return {
+      results,
+      query,
+      totalResults: json.webPages?.totalEstimatedMatches ?? results.length,
+    };
+  }
+}
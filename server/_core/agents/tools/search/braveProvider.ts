@@ -0,0 +1,53 @@
+import { SearchProvider, SearchOptions, SearchResponse } from "./SearchProvider";
+import { assertOk, formatDate, parseDate, stripTags, withSiteOperator } from "./filters";
+import { ENV } from "../../../env";
+
+type BraveResult = {
+  title: string;
+  url: string;
+  description?: string;
+  page_age?: string;
+  language?: string;
+  profile?: { name?: string };
+};
+
+export class BraveSearchProvider implements SearchProvider {
+  private baseUrl = "https://api.search.brave.com/res/v1/web/search";
+
+  async search(query: string, options: SearchOptions): Promise<SearchResponse> {
+    if (!ENV.braveSearchApiKey) {
+      throw new Error("BRAVE_SEARCH_API_KEY is not configured");
+    }
+
+    const url = new URL(this.baseUrl);
+    url.searchParams.set("q", withSiteOperator(query, options.domain));
+    url.searchParams.set("count", String(Math.min(options.numResults, 20)));
+    if (options.language) url.searchParams.set("search_lang", options.language);
+    if (options.dateRange) {
+      url.searchParams.set(
+        "freshness",
+        `${formatDate(options.dateRange.from)}to${formatDate(options.dateRange.to)}`
+      );
+    }
+
+    const response = await fetch(url, {
+      headers: {
+        accept: "application/json",
+        "x-subscription-token": ENV.braveSearchApiKey,
+      },
+    });
+    await assertOk(response, "Brave");
+
+    const json = (await response.json()) as { web?: { results?: BraveResult[] } };
+    const results = (json.web?.results ?? []).map((result) => ({
+      title: stripTags(result.title),
+      url: result.url,
+      snippet: stripTags(result.description ?? ""),
+      source: result.profile?.name,
+      publishedDate: parseDate(result.page_age),
+      language: result.language,
+    }));
+
+    return { results, query, totalResults: results.length };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Helpers shared by the search providers for translating and enforcing filters.
+ */
+
+import { SearchFilters, SearchResult } from "./SearchProvider";
+
+/**
+ * Restrict a query to a domain using the `site:` operator most engines understand.
+ */
+export function withSiteOperator(query: string, domain?: string): string {
+  return domain ? `${query} site:${domain}` : query;
+}
+
+export function matchesDomain(url: string, domain: string): boolean {
+  const wanted = domain.toLowerCase().replace(/^www\./, "");
+  try {
+    const hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    return hostname === wanted || hostname.endsWith(`.${wanted}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compare language tags by their primary subtag, so "en" matches "en-US".
+ */
+export function matchesLanguage(resultLanguage: string, language: string): boolean {
+  const primary = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+  return primary(resultLanguage) === primary(language);
+}
+
+/**
+ * Drop results that fall outside the filters. Results without a known
+ * publish date or language are kept, since the provider could not say.
+ */
+export function applyFilters(results: SearchResult[], filters: SearchFilters): SearchResult[] {
+  return results.filter((result) => {
+    if (filters.domain && !matchesDomain(result.url, filters.domain)) {
+      return false;
+    }
+    if (filters.dateRange && result.publishedDate) {
+      const time = result.publishedDate.getTime();
+      if (time < filters.dateRange.from.getTime() || time > filters.dateRange.to.getTime()) {
+        return false;
+      }
+    }
+    if (filters.language && result.language && !matchesLanguage(result.language, filters.language)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, "");
+}
+
+export async function assertOk(response: Response, providerName: string): Promise<void> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `${providerName} search failed: ${response.status} ${response.statusText} – ${errorText}`
+    );
+  }
+}
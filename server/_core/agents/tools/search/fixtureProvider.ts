@@ -0,0 +1,61 @@
+import { readFileSync } from "node:fs";
+import { SearchProvider, SearchOptions, SearchResponse, SearchResult } from "./SearchProvider";
+import { parseDate } from "./filters";
+import { DEFAULT_SEARCH_FIXTURES, SearchFixture } from "./fixtures";
+import { ENV } from "../../../env";
+
+/**
+ * Offline provider that ranks a fixed set of documents by how many query terms
+ * they contain. Loads SEARCH_FIXTURES_PATH when set, otherwise the bundled fixtures.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  private fixtures?: SearchFixture[];
+
+  constructor(fixtures?: SearchFixture[]) {
+    this.fixtures = fixtures;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResponse> {
+    const terms = this.tokenize(query);
+
+    const ranked = this.loadFixtures()
+      .map((fixture) => ({
+        fixture,
+        score: this.score(terms, `${fixture.title} ${fixture.snippet} ${(fixture.keywords ?? []).join(" ")}`),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const results: SearchResult[] = ranked.map(({ fixture }) => ({
+      title: fixture.title,
+      url: fixture.url,
+      snippet: fixture.snippet,
+      source: fixture.source,
+      publishedDate: parseDate(fixture.publishedDate),
+      language: fixture.language,
+    }));
+
+    return { results, query, totalResults: results.length };
+  }
+
+  private loadFixtures(): SearchFixture[] {
+    if (!this.fixtures) {
+      this.fixtures = ENV.searchFixturesPath
+        ? (JSON.parse(readFileSync(ENV.searchFixturesPath, "utf8")) as SearchFixture[])
+        : DEFAULT_SEARCH_FIXTURES;
+    }
+    return this.fixtures;
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\u024f]+/)
+      .filter((term) => term.length > 2);
+  }
+
+  private score(terms: string[], text: string): number {
+    const words = new Set(this.tokenize(text));
+    return terms.filter((term) => words.has(term)).length;
+  }
+}
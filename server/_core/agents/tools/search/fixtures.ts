@@ -0,0 +1,88 @@
+/**
+ * Bundled documents for the offline fixture search provider
+ */
+
+export interface SearchFixture {
+  title: string;
+  url: string;
+  snippet: string;
+  source?: string;
+  publishedDate?: string;
+  language?: string;
+  keywords?: string[];
+}
+
+export const DEFAULT_SEARCH_FIXTURES: SearchFixture[] = [
+  {
+    title: "Renewable energy - Wikipedia",
+    url: "https://en.wikipedia.org/wiki/Renewable_energy",
+    snippet: "Renewable energy is energy from renewable resources that are naturally replenished, such as sunlight, wind, water and geothermal heat.",
+    source: "Wikipedia",
+    publishedDate: "2024-11-02",
+    language: "en",
+    keywords: ["solar", "wind", "climate"],
+  },
+  {
+    title: "Renewables 2024 – Analysis",
+    url: "https://www.iea.org/reports/renewables-2024",
+    snippet: "The world is set to add more than 5 500 GW of new renewable energy capacity between 2024 and 2030, led by solar PV.",
+    source: "International Energy Agency",
+    publishedDate: "2024-10-09",
+    language: "en",
+    keywords: ["solar", "capacity", "forecast"],
+  },
+  {
+    title: "Erneuerbare Energien in Deutschland",
+    url: "https://www.umweltbundesamt.de/themen/klima-energie/erneuerbare-energien",
+    snippet: "Der Anteil erneuerbarer Energien am Bruttostromverbrauch in Deutschland steigt weiter. Renewable energy statistics for Germany.",
+    source: "Umweltbundesamt",
+    publishedDate: "2024-03-15",
+    language: "de",
+    keywords: ["renewable", "energy", "germany"],
+  },
+  {
+    title: "Attention Is All You Need",
+    url: "https://arxiv.org/abs/1706.03762",
+    snippet: "We propose a new simple network architecture, the Transformer, based solely on attention mechanisms, dispensing with recurrence and convolutions entirely.",
+    source: "arXiv",
+    publishedDate: "2017-06-12",
+    language: "en",
+    keywords: ["machine", "learning", "neural", "language", "model"],
+  },
+  {
+    title: "Large language model - Wikipedia",
+    url: "https://en.wikipedia.org/wiki/Large_language_model",
+    snippet: "A large language model is a language model trained with self-supervised machine learning on a vast amount of text.",
+    source: "Wikipedia",
+    publishedDate: "2025-01-20",
+    language: "en",
+    keywords: ["llm", "artificial", "intelligence"],
+  },
+  {
+    title: "Federal Reserve issues FOMC statement",
+    url: "https://www.federalreserve.gov/newsevents/pressreleases/monetary20240918a.htm",
+    snippet: "The Committee decided to lower the target range for the federal funds rate by 1/2 percentage point to 4-3/4 to 5 percent.",
+    source: "Federal Reserve",
+    publishedDate: "2024-09-18",
+    language: "en",
+    keywords: ["interest", "rates", "inflation", "monetary", "policy"],
+  },
+  {
+    title: "Apple reports fourth quarter results",
+    url: "https://www.apple.com/newsroom/2024/10/apple-reports-fourth-quarter-results/",
+    snippet: "Apple today announced financial results for its fiscal 2024 fourth quarter ended September 28, 2024. The Company posted quarterly revenue of $94.9 billion.",
+    source: "Apple Newsroom",
+    publishedDate: "2024-10-31",
+    language: "en",
+    keywords: ["aapl", "earnings", "revenue", "stock"],
+  },
+  {
+    title: "Climate change: global temperature",
+    url: "https://www.climate.gov/news-features/understanding-climate/climate-change-global-temperature",
+    snippet: "Earth's temperature has risen by an average of 0.11° Fahrenheit per decade since 1850, or about 2° F in total.",
+    source: "NOAA Climate.gov",
+    publishedDate: "2024-01-18",
+    language: "en",
+    keywords: ["warming", "emissions", "climate"],
+  },
+];
@@ -0,0 +1,74 @@
+/**
+ * Search Providers
+ * Pluggable web search backends selected through ENV.searchProvider
+ */
+
+import { ENV } from "../../../env";
+import { SearchProvider, SearchOptions, SearchResponse } from "./SearchProvider";
+import { SearxngSearchProvider } from "./searxngProvider";
+import { BraveSearchProvider } from "./braveProvider";
+import { BingSearchProvider } from "./bingProvider";
+import { TavilySearchProvider } from "./tavilyProvider";
+import { FixtureSearchProvider } from "./fixtureProvider";
+import { applyFilters } from "./filters";
+
+/**
+ * Throw unless a real search provider is configured. The fixture provider
+ * answers with canned documents, so production refuses it rather than
+ * producing reports that cite made-up sources.
+ */
+export function assertSearchProviderConfigured(providerName: string = ENV.searchProvider): void {
+  if (!providerName) {
+    throw new Error("SEARCH_PROVIDER is not set; choose searxng, brave, bing or tavily");
+  }
+  if (providerName === "fixture" && ENV.isProduction) {
+    throw new Error('SEARCH_PROVIDER "fixture" serves canned documents and is not allowed in production');
+  }
+}
+
+export class SearchAdapter {
+  private providers: Map<string, SearchProvider> = new Map();
+
+  constructor() {
+    this.registerProvider("searxng", new SearxngSearchProvider());
+    this.registerProvider("brave", new BraveSearchProvider());
+    this.registerProvider("bing", new BingSearchProvider());
+    this.registerProvider("tavily", new TavilySearchProvider());
+    this.registerProvider("fixture", new FixtureSearchProvider());
+  }
+
+  registerProvider(name: string, provider: SearchProvider) {
+    this.providers.set(name, provider);
+  }
+
+  getProvider(name: string): SearchProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Search provider "${name}" not found.`);
+    }
+    return provider;
+  }
+
+  /**
+   * Search with the named provider, enforcing the filters on the results
+   * even where the provider's API could only approximate them.
+   */
+  async search(providerName: string, query: string, options: SearchOptions): Promise<SearchResponse> {
+    assertSearchProviderConfigured(providerName);
+    const provider = this.getProvider(providerName);
+    const response = await provider.search(query, options);
+    const results = applyFilters(response.results, options).slice(0, options.numResults);
+
+    return {
+      ...response,
+      results,
+      provider: providerName,
+    };
+  }
+}
+
+export const searchAdapter = new SearchAdapter();
+
+export type { SearchProvider, SearchOptions, SearchFilters, SearchResult, SearchResponse } from "./SearchProvider";
+export { FixtureSearchProvider } from "./fixtureProvider";
+export type { SearchFixture } from "./fixtures";
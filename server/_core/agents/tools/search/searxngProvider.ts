@@ -0,0 +1,64 @@
+import { SearchProvider, SearchOptions, SearchResponse } from "./SearchProvider";
+import { assertOk, parseDate, withSiteOperator } from "./filters";
+import { ENV } from "../../../env";
+
+type SearxngResult = {
+  title?: string;
+  url: string;
+  content?: string;
+  engine?: string;
+  publishedDate?: string | null;
+};
+
+/**
+ * SearXNG metasearch. Requires an instance with the JSON output format enabled.
+ */
+export class SearxngSearchProvider implements SearchProvider {
+  async search(query: string, options: SearchOptions): Promise<SearchResponse> {
+    if (!ENV.searxngUrl) {
+      throw new Error("SEARXNG_URL is not configured");
+    }
+
+    // Resolve against the base with a trailing slash so an instance served
+    // under a path (https://host/searx) keeps it
+    const base = ENV.searxngUrl.endsWith("/") ? ENV.searxngUrl : `${ENV.searxngUrl}/`;
+    const url = new URL("search", base);
+    url.searchParams.set("q", withSiteOperator(query, options.domain));
+    url.searchParams.set("format", "json");
+    if (options.language) url.searchParams.set("language", options.language);
+
+    const timeRange = options.dateRange && this.toTimeRange(options.dateRange.from);
+    if (timeRange) url.searchParams.set("time_range", timeRange);
+
+    const response = await fetch(url, { headers: { accept: "application/json" } });
+    await assertOk(response, "SearXNG");
+
+    const json = (await response.json()) as { results?: SearxngResult[]; number_of_results?: number };
+    const results = (json.results ?? []).map((result) => ({
+      title: result.title ?? result.url,
+      url: result.url,
+      snippet: result.content ?? "",
+      source: result.engine,
+      publishedDate: parseDate(result.publishedDate),
+    }));
+
+    return {
+      results,
+      query,
+      totalResults: json.number_of_results || results.length,
+    };
+  }
+
+  /**
+   * SearXNG only supports relative ranges; pick the smallest one that still
+   * reaches back to `from`.
+   */
+  private toTimeRange(from: Date): string | undefined {
+    const days = (Date.now() - from.getTime()) / (24 * 60 * 60 * 1000);
+    if (days <= 1) return "day";
+    if (days <= 7) return "week";
+    if (days <= 31) return "month";
+    if (days <= 366) return "year";
+    return undefined;
+  }
+}
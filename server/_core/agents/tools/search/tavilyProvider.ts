@@ -0,0 +1,55 @@
+import { SearchProvider, SearchOptions, SearchResponse } from "./SearchProvider";
+import { assertOk, formatDate, parseDate } from "./filters";
+import { ENV } from "../../../env";
+
+type TavilyResult = {
+  title: string;
+  url: string;
+  content?: string;
+  published_date?: string;
+};
+
+/**
+ * Tavily search. The API has no language parameter, so language filtering
+ * relies on the query itself.
+ */
+export class TavilySearchProvider implements SearchProvider {
+  private baseUrl = "https://api.tavily.com/search";
+
+  async search(query: string, options: SearchOptions): Promise<SearchResponse> {
+    if (!ENV.tavilyApiKey) {
+      throw new Error("TAVILY_API_KEY is not configured");
+    }
+
+    const payload: Record<string, unknown> = {
+      query,
+      max_results: Math.min(options.numResults, 20),
+      search_depth: "basic",
+    };
+    if (options.domain) payload.include_domains = [options.domain];
+    if (options.dateRange) {
+      payload.start_date = formatDate(options.dateRange.from);
+      payload.end_date = formatDate(options.dateRange.to);
+    }
+
+    const response = await fetch(this.baseUrl, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${ENV.tavilyApiKey}`,
+      },
+      body: JSON.stringify(payload),
+    });
+    await assertOk(response, "Tavily");
+
+    const json = (await response.json()) as { results?: TavilyResult[] };
+    const results = (json.results ?? []).map((result) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content ?? "",
+      publishedDate: parseDate(result.published_date),
+    }));
+
+    return { results, query, totalResults: results.length };
+  }
+}
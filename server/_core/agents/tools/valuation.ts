@@ -0,0 +1,448 @@
+/**
+ * Valuation Models
+ * Discounted cash flow valuation built from reported annual statements, with
+ * sensitivity tables, and a trading-comparables valuation from peers' key
+ * metrics. Rates, growth and margins are percentages, like KeyMetrics.
+ *
+ * Each model carries a `ref` ("DCF", "COMPS") and the records it was built
+ * from, so an analysis can cite the model behind every number it quotes.
+ */
+
+import { z } from "zod";
+import {
+  getCompanyProfile,
+  getFinancialStatements,
+  getKeyMetrics,
+  getStockQuote,
+  FinancialStatement,
+  KeyMetrics,
+  StockQuote,
+} from "./yahooFinance";
+import { screenUniverse } from "./screener";
+import { formatMoney } from "./fx";
+import { ENV } from "../../env";
+
+export const dcfAssumptionsSchema = z.object({
+  /** One rate for every year, or one per projected year (the last repeats) */
+  revenueGrowth: z.union([z.number(), z.array(z.number()).min(1)]).optional(),
+  /** Free cash flow as a percentage of revenue */
+  fcfMargin: z.number().optional(),
+  wacc: z.number().positive().optional(),
+  terminalGrowth: z.number().optional(),
+  years: z.number().int().min(1).max(15).default(5),
+  /** Debt less cash, subtracted from enterprise value */
+  netDebt: z.number().optional(),
+  sharesOutstanding: z.number().positive().optional(),
+});
+
+export const valuationRequestSchema = z.object({
+  symbol: z.string().min(1),
+  assumptions: dcfAssumptionsSchema.default({ years: 5 }),
+  /** Peer tickers; defaults to the screening universe's other names in the sector */
+  peers: z.array(z.string().min(1)).max(20).optional(),
+});
+
+export type DcfAssumptionsInput = z.input<typeof dcfAssumptionsSchema>;
+export type ValuationRequest = z.input<typeof valuationRequestSchema>;
+
+export interface DcfAssumptions {
+  revenueGrowth: number[];
+  fcfMargin: number;
+  wacc: number;
+  terminalGrowth: number;
+  years: number;
+  netDebt: number;
+  sharesOutstanding: number;
+}
+
+/** A record a model was built from */
+export interface ValuationInput {
+  description: string;
+  source: string;
+  asOf: string;
+}
+
+export interface SensitivityTable {
+  rowLabel: string;
+  columnLabel: string;
+  rows: number[];
+  columns: number[];
+  /** Value per share for each row and column; null where the model is undefined */
+  values: (number | null)[][];
+}
+
+export interface DcfValuation {
+  ref: "DCF";
+  symbol: string;
+  currency: string;
+  baseYear: { date: string; revenue: number; freeCashFlow: number };
+  assumptions: DcfAssumptions;
+  /** Assumptions derived from the data rather than given */
+  derivedAssumptions: (keyof DcfAssumptions)[];
+  projections: Array<{ year: number; revenueGrowth: number; revenue: number; freeCashFlow: number; presentValue: number }>;
+  terminalValue: number;
+  presentValueOfTerminal: number;
+  /** Share of enterprise value that comes from the terminal value */
+  terminalValueShare: number;
+  enterpriseValue: number;
+  equityValue: number;
+  valuePerShare: number;
+  currentPrice: number;
+  upside: number;
+  sensitivity: {
+    waccVsTerminalGrowth: SensitivityTable;
+    revenueGrowthVsMargin: SensitivityTable;
+  };
+  inputs: ValuationInput[];
+}
+
+export interface PeerMultiples {
+  symbol: string;
+  peRatio: number;
+  pbRatio: number;
+  priceToSalesRatio: number;
+  source: string;
+  asOf: string;
+}
+
+export interface MultipleValuation {
+  /** Median of the peers' positive multiples */
+  peerMedian: number | null;
+  /** The target's per-share earnings, book value or sales */
+  perShareMetric: number;
+  impliedPrice: number | null;
+}
+
+export interface ComparablesValuation {
+  ref: "COMPS";
+  symbol: string;
+  peers: PeerMultiples[];
+  multiples: {
+    peRatio: MultipleValuation;
+    pbRatio: MultipleValuation;
+    priceToSalesRatio: MultipleValuation;
+  };
+  /** Range of the implied prices; null when no multiple could be applied */
+  impliedPrice: { low: number; median: number; high: number } | null;
+  currentPrice: number;
+  upside: number | null;
+  inputs: ValuationInput[];
+}
+
+export interface ValuationResult {
+  symbol: string;
+  dcf: DcfValuation;
+  comparables: ComparablesValuation;
+}
+
+/**
+ * Raised when a model cannot be built from the data and assumptions given
+ */
+export class ValuationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValuationError";
+  }
+}
+
+const DEFAULT_TERMINAL_GROWTH = 2.5;
+// Long-run premium of equities over the risk-free rate, for the default WACC
+const EQUITY_RISK_PREMIUM = 5.5;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function inputFrom(record: { source: string; asOf: Date }, description: string): ValuationInput {
+  return { description, source: record.source, asOf: record.asOf.toISOString() };
+}
+
+/**
+ * Fill in the assumptions not given: revenue growth fades from the historical
+ * CAGR to terminal growth, the margin is the historical average free cash
+ * flow margin, WACC is the CAPM cost of equity, and net debt is total debt
+ * implied by debt to equity (providers do not report cash).
+ */
+export function resolveAssumptions(
+  input: DcfAssumptionsInput,
+  statements: FinancialStatement[],
+  quote: StockQuote,
+  metrics: KeyMetrics | null
+): { assumptions: DcfAssumptions; derived: (keyof DcfAssumptions)[] } {
+  const given = dcfAssumptionsSchema.parse(input);
+  const derived: (keyof DcfAssumptions)[] = [];
+  const [latest] = statements;
+  const oldest = statements[statements.length - 1];
+
+  const terminalGrowth = given.terminalGrowth ?? DEFAULT_TERMINAL_GROWTH;
+  if (given.terminalGrowth === undefined) derived.push("terminalGrowth");
+
+  let revenueGrowth: number[];
+  if (typeof given.revenueGrowth === "number") {
+    revenueGrowth = Array(given.years).fill(given.revenueGrowth);
+  } else if (given.revenueGrowth) {
+    const rates = given.revenueGrowth;
+    revenueGrowth = Array.from({ length: given.years }, (_, i) => rates[Math.min(i, rates.length - 1)]);
+  } else {
+    if (statements.length < 2 || oldest.revenue <= 0) {
+      throw new ValuationError(`Not enough annual revenue history for ${quote.symbol}; give revenueGrowth`);
+    }
+    const cagr = (Math.pow(latest.revenue / oldest.revenue, 1 / (statements.length - 1)) - 1) * 100;
+    revenueGrowth = Array.from({ length: given.years }, (_, i) =>
+      given.years === 1 ? cagr : cagr + ((terminalGrowth - cagr) * i) / (given.years - 1)
+    );
+    derived.push("revenueGrowth");
+  }
+
+  let fcfMargin = given.fcfMargin;
+  if (fcfMargin === undefined) {
+    const margins = statements.filter((s) => s.revenue > 0).map((s) => (s.freeCashFlow / s.revenue) * 100);
+    if (margins.length === 0) throw new ValuationError(`No reported revenue for ${quote.symbol}; give fcfMargin`);
+    fcfMargin = margins.reduce((sum, margin) => sum + margin, 0) / margins.length;
+    derived.push("fcfMargin");
+  }
+
+  let wacc = given.wacc;
+  if (wacc === undefined) {
+    wacc = ENV.riskFreeRate * 100 + quote.beta * EQUITY_RISK_PREMIUM;
+    derived.push("wacc");
+  }
+  if (wacc <= terminalGrowth) {
+    throw new ValuationError(`WACC (${wacc.toFixed(2)}%) must exceed terminal growth (${terminalGrowth}%)`);
+  }
+
+  let netDebt = given.netDebt;
+  if (netDebt === undefined) {
+    netDebt = metrics ? metrics.debtToEquity * latest.stockholdersEquity : 0;
+    derived.push("netDebt");
+  }
+
+  let sharesOutstanding = given.sharesOutstanding;
+  if (sharesOutstanding === undefined) {
+    if (quote.price <= 0 || quote.marketCap <= 0) {
+      throw new ValuationError(`Cannot derive shares outstanding for ${quote.symbol}; give sharesOutstanding`);
+    }
+    sharesOutstanding = quote.marketCap / quote.price;
+    derived.push("sharesOutstanding");
+  }
+
+  return {
+    assumptions: { revenueGrowth, fcfMargin, wacc, terminalGrowth, years: given.years, netDebt, sharesOutstanding },
+    derived,
+  };
+}
+
+function projectDcf(baseRevenue: number, a: DcfAssumptions) {
+  const rate = a.wacc / 100;
+  const projections: DcfValuation["projections"] = [];
+  let revenue = baseRevenue;
+
+  a.revenueGrowth.forEach((growth, i) => {
+    revenue *= 1 + growth / 100;
+    const freeCashFlow = (revenue * a.fcfMargin) / 100;
+    projections.push({
+      year: i + 1,
+      revenueGrowth: growth,
+      revenue,
+      freeCashFlow,
+      presentValue: freeCashFlow / Math.pow(1 + rate, i + 1),
+    });
+  });
+
+  const finalCashFlow = projections[projections.length - 1].freeCashFlow;
+  const terminalValue = (finalCashFlow * (1 + a.terminalGrowth / 100)) / (rate - a.terminalGrowth / 100);
+  const presentValueOfTerminal = terminalValue / Math.pow(1 + rate, a.years);
+  const enterpriseValue = projections.reduce((sum, p) => sum + p.presentValue, 0) + presentValueOfTerminal;
+  const equityValue = enterpriseValue - a.netDebt;
+
+  return {
+    projections,
+    terminalValue,
+    presentValueOfTerminal,
+    enterpriseValue,
+    equityValue,
+    valuePerShare: equityValue / a.sharesOutstanding,
+  };
+}
+
+function sensitivityTable(
+  rowLabel: string,
+  columnLabel: string,
+  rows: number[],
+  columns: number[],
+  value: (row: number, column: number) => number | null
+): SensitivityTable {
+  return { rowLabel, columnLabel, rows, columns, values: rows.map((row) => columns.map((column) => value(row, column))) };
+}
+
+const steps = (center: number, step: number) => [-2, -1, 0, 1, 2].map((n) => center + n * step);
+
+/**
+ * Build a DCF valuation from the latest annual statements
+ */
+export async function buildDcf(symbol: string, assumptions: DcfAssumptionsInput = {}): Promise<DcfValuation> {
+  const quote = await getStockQuote(symbol);
+  const statements = await getFinancialStatements(symbol, "annual");
+  if (statements.length === 0) throw new ValuationError(`No annual statements for ${quote.symbol}`);
+  const metrics = await getKeyMetrics(symbol).catch(() => null);
+
+  const sorted = [...statements].sort((a, b) => b.date.localeCompare(a.date));
+  const [latest] = sorted;
+  const { assumptions: a, derived } = resolveAssumptions(assumptions, sorted, quote, metrics);
+  const model = projectDcf(latest.revenue, a);
+
+  const perShare = (changes: Partial<DcfAssumptions>) => {
+    const scenario = { ...a, ...changes };
+    return scenario.wacc > scenario.terminalGrowth ? projectDcf(latest.revenue, scenario).valuePerShare : null;
+  };
+
+  const inputs = [
+    ...sorted.map((s) => inputFrom(s, `Annual statement ${s.date}: revenue and free cash flow`)),
+    inputFrom(quote, "Quote: price, market cap and beta"),
+  ];
+  if (metrics && derived.includes("netDebt")) inputs.push(inputFrom(metrics, "Key metrics: debt to equity"));
+
+  return {
+    ref: "DCF",
+    symbol: quote.symbol,
+    currency: quote.currency,
+    baseYear: { date: latest.date, revenue: latest.revenue, freeCashFlow: latest.freeCashFlow },
+    assumptions: a,
+    derivedAssumptions: derived,
+    ...model,
+    terminalValueShare: (model.presentValueOfTerminal / model.enterpriseValue) * 100,
+    currentPrice: quote.price,
+    upside: (model.valuePerShare / quote.price - 1) * 100,
+    sensitivity: {
+      waccVsTerminalGrowth: sensitivityTable(
+        "WACC (%)",
+        "Terminal growth (%)",
+        steps(a.wacc, 1),
+        steps(a.terminalGrowth, 0.5),
+        (wacc, terminalGrowth) => perShare({ wacc, terminalGrowth })
+      ),
+      revenueGrowthVsMargin: sensitivityTable(
+        "Revenue growth shift (percentage points)",
+        "FCF margin (%)",
+        steps(0, 2),
+        steps(a.fcfMargin, 2),
+        (shift, fcfMargin) => perShare({ fcfMargin, revenueGrowth: a.revenueGrowth.map((g) => g + shift) })
+      ),
+    },
+    inputs,
+  };
+}
+
+async function defaultPeers(symbol: string): Promise<string[]> {
+  const profile = await getCompanyProfile(symbol);
+  const { rows } = await screenUniverse({
+    filter: {
+      and: [
+        { field: "sector", op: "in", values: [profile.sector] },
+        { field: "symbol", op: "neq", value: profile.symbol },
+      ],
+    },
+    sort: [{ field: "marketCap", direction: "desc" }],
+  });
+  return rows.map((row) => row.symbol);
+}
+
+/**
+ * Value a stock at its peers' median P/E, P/B and P/S multiples
+ */
+export async function buildComparables(symbol: string, peerSymbols?: string[]): Promise<ComparablesValuation> {
+  const quote = await getStockQuote(symbol);
+  const statements = await getFinancialStatements(symbol, "annual");
+  const [latest] = [...statements].sort((a, b) => b.date.localeCompare(a.date));
+
+  const requested = peerSymbols ?? (await defaultPeers(symbol));
+  const unique = Array.from(new Set(requested.map((peer) => peer.trim().toUpperCase()))).filter(
+    (peer) => peer !== quote.symbol
+  );
+  const peers: PeerMultiples[] = [];
+  for (const peer of unique) {
+    const metrics = await getKeyMetrics(peer);
+    peers.push({
+      symbol: metrics.symbol,
+      peRatio: metrics.peRatio,
+      pbRatio: metrics.pbRatio,
+      priceToSalesRatio: metrics.priceToSalesRatio,
+      source: metrics.source,
+      asOf: metrics.asOf.toISOString(),
+    });
+  }
+
+  const shares = quote.price > 0 ? quote.marketCap / quote.price : 0;
+  const perShare = (total: number | undefined) => (total !== undefined && shares > 0 ? total / shares : 0);
+  const valueAt = (multiple: keyof PeerMultiples & keyof ComparablesValuation["multiples"], metric: number) => {
+    const peerMedian = median(peers.map((peer) => peer[multiple]).filter((value) => value > 0));
+    return {
+      peerMedian,
+      perShareMetric: metric,
+      impliedPrice: peerMedian !== null && metric > 0 ? peerMedian * metric : null,
+    };
+  };
+
+  const multiples = {
+    peRatio: valueAt("peRatio", quote.eps),
+    pbRatio: valueAt("pbRatio", perShare(latest?.stockholdersEquity)),
+    priceToSalesRatio: valueAt("priceToSalesRatio", perShare(latest?.revenue)),
+  };
+  const implied = Object.values(multiples)
+    .map((m) => m.impliedPrice)
+    .filter((price): price is number => price !== null);
+  const impliedMedian = median(implied);
+
+  const inputs = [inputFrom(quote, "Quote: price, EPS and market cap")];
+  if (latest) inputs.push(inputFrom(latest, `Annual statement ${latest.date}: equity and revenue`));
+  peers.forEach((peer) =>
+    inputs.push({ description: `${peer.symbol} key metrics: P/E, P/B and P/S`, source: peer.source, asOf: peer.asOf })
+  );
+
+  return {
+    ref: "COMPS",
+    symbol: quote.symbol,
+    peers,
+    multiples,
+    impliedPrice:
+      impliedMedian === null
+        ? null
+        : { low: Math.min(...implied), median: impliedMedian, high: Math.max(...implied) },
+    currentPrice: quote.price,
+    upside: impliedMedian === null ? null : (impliedMedian / quote.price - 1) * 100,
+    inputs,
+  };
+}
+
+/**
+ * Run both models for a symbol
+ */
+export async function valueStock(request: ValuationRequest): Promise<ValuationResult> {
+  const { symbol, assumptions, peers } = valuationRequestSchema.parse(request);
+  const dcf = await buildDcf(symbol, assumptions);
+  const comparables = await buildComparables(symbol, peers);
+  return { symbol: dcf.symbol, dcf, comparables };
+}
+
+/**
+ * Summary of both models for a prompt, tagged with the refs to cite
+ */
+export function formatValuation({ dcf, comparables }: ValuationResult): string {
+  const a = dcf.assumptions;
+  const money = (value: number | null) => (value === null ? "n/a" : formatMoney(value, dcf.currency));
+  const comps = comparables.impliedPrice
+    ? `${money(comparables.impliedPrice.median)} per share (range ${money(comparables.impliedPrice.low)} - ${money(
+        comparables.impliedPrice.high
+      )}) at peer median multiples of ${comparables.peers.map((peer) => peer.symbol).join(", ")}`
+    : "no implied price (no peers with usable multiples)";
+
+  return `[DCF] ${money(dcf.valuePerShare)} per share vs. ${money(dcf.currentPrice)} (${dcf.upside.toFixed(1)}% upside). Base year ${dcf.baseYear.date}; revenue growth ${a.revenueGrowth
+    .map((g) => g.toFixed(1))
+    .join("/")}%, FCF margin ${a.fcfMargin.toFixed(1)}%, WACC ${a.wacc.toFixed(2)}%, terminal growth ${a.terminalGrowth}%; terminal value is ${dcf.terminalValueShare.toFixed(0)}% of enterprise value. WACC ±2 points moves the value from ${money(
+    dcf.sensitivity.waccVsTerminalGrowth.values[4][2]
+  )} to ${money(dcf.sensitivity.waccVsTerminalGrowth.values[0][2])}.
+[COMPS] ${comps}.`;
+}
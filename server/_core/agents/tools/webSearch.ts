@@ -3,75 +3,26 @@
  * Integrates with search APIs for information gathering
  */
 
-export interface SearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-  source?: string;
-}
+import { searchAdapter, SearchFilters, SearchResponse } from "./search";
+import { fetchPage, FetchedPage, FetchOptions } from "./fetch";
+import { ENV } from "../../env";
 
-export interface SearchResponse {
-  results: SearchResult[];
-  query: string;
-  totalResults?: number;
-}
+export type { SearchResult, SearchResponse, SearchFilters } from "./search";
+export type { FetchedPage, FetchOptions } from "./fetch";
 
 /**
- * Perform a web search
- * In production, integrate with Google Custom Search, Bing, or DuckDuckGo API
+ * Perform a web search with the provider configured in ENV.searchProvider
  */
 export async function webSearch(query: string, numResults: number = 5): Promise<SearchResponse> {
-  // Placeholder implementation
-  // In production, replace with actual API call
-
-  console.log(`Searching for: ${query}`);
-
-  // Mock results for demonstration
-  const mockResults: SearchResult[] = [
-    {
-      title: "Example Result 1",
-      url: "https://example.com/1",
-      snippet: "This is an example search result about " + query,
-      source: "Example Source 1",
-    },
-    {
-      title: "Example Result 2",
-      url: "https://example.com/2",
-      snippet: "Another example result related to " + query,
-      source: "Example Source 2",
-    },
-  ];
-
-  return {
-    results: mockResults.slice(0, numResults),
-    query,
-    totalResults: mockResults.length,
-  };
+  return filteredSearch(query, {}, numResults);
 }
 
 /**
- * Fetch and extract content from a URL
+ * Fetch a URL and extract its readable content, title, author, publish date
+ * and canonical URL. Handles HTML, PDF and plain text; honours robots.txt.
  */
-export async function fetchUrl(url: string): Promise<{
-  url: string;
-  title?: string;
-  content: string;
-  metadata?: Record<string, unknown>;
-}> {
-  // Placeholder implementation
-  // In production, use fetch with proper error handling and content extraction
-
-  console.log(`Fetching URL: ${url}`);
-
-  return {
-    url,
-    title: "Example Page Title",
-    content: "Example content extracted from the page",
-    metadata: {
-      fetchedAt: new Date(),
-      contentType: "text/html",
-    },
-  };
+export async function fetchUrl(url: string, options?: FetchOptions): Promise<FetchedPage> {
+  return fetchPage(url, options);
 }
 
 /**
@@ -89,19 +40,13 @@ export async function advancedSearch(
 }
 
 /**
- * Search with filters
+ * Search with filters. Results outside the domain, date range or language are
+ * dropped even when the provider's API cannot express the filter.
  */
 export async function filteredSearch(
   query: string,
-  filters: {
-    domain?: string;
-    dateRange?: { from: Date; to: Date };
-    language?: string;
-  },
+  filters: SearchFilters,
   numResults: number = 5
 ): Promise<SearchResponse> {
-  // Placeholder implementation with filter support
-  console.log(`Searching with filters:`, { query, filters });
-
-  return webSearch(query, numResults);
+  return searchAdapter.search(ENV.searchProvider, query, { ...filters, numResults });
 }
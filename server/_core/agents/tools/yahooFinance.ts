@@ -1,123 +1,70 @@
 /**
  * Yahoo Finance Tool
- * Provides comprehensive stock analysis and financial data retrieval
+ * Provides comprehensive stock analysis and financial data retrieval through
+ * the market data provider named by MARKET_DATA_PROVIDER
  */
 
-export interface StockQuote {
-  symbol: string;
-  name: string;
-  price: number;
-  currency: string;
-  change: number;
-  changePercent: number;
-  marketCap: number;
-  volume: number;
-  averageVolume: number;
-  peRatio: number;
-  eps: number;
-  beta: number;
-  fiftyTwoWeekHigh: number;
-  fiftyTwoWeekLow: number;
-  fiftyDayAverage: number;
-  twoHundredDayAverage: number;
-  timestamp: number;
-}
-
-export interface HistoricalData {
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-  adjClose: number;
-}
-
-export interface FinancialStatement {
-  date: string;
-  revenue: number;
-  netIncome: number;
-  operatingIncome: number;
-  totalAssets: number;
-  totalLiabilities: number;
-  stockholdersEquity: number;
-  operatingCashFlow: number;
-  freeCashFlow: number;
+import {
+  marketDataAdapter,
+  MarketDataProvider,
+  StockQuote,
+  HistoricalData,
+  FinancialStatement,
+  CompanyProfile,
+  AnalystRecommendation,
+  DividendInfo,
+  KeyMetrics,
+  EarningsInfo,
+  NewsItem,
+} from "./marketData";
+import {
+  annualizedVolatility,
+  bollingerBands,
+  BollingerBands,
+  macd,
+  Macd,
+  maxDrawdown,
+  movingAverageCrossover,
+  periodReturn,
+  PriceBar,
+  rsi,
+  sharpeRatio,
+  simpleReturns,
+  sortinoRatio,
+  supportResistance,
+  Trend,
+  trendFromAverages,
+} from "./indicators";
+import { screenUniverse, ScreenFilter, ScreenRow } from "./screener";
+import { FxRate, getFxRate } from "./fx";
+import { ENV } from "../../env";
+
+export type {
+  StockQuote,
+  HistoricalData,
+  FinancialStatement,
+  CompanyProfile,
+  AnalystRecommendation,
+  DividendInfo,
+  KeyMetrics,
+  EarningsInfo,
+  NewsItem,
+} from "./marketData";
+export { MarketDataError, SymbolNotFoundError, RateLimitError } from "./marketData";
+
+function provider(): MarketDataProvider {
+  return marketDataAdapter.getProvider(ENV.marketDataProvider);
 }
 
-export interface CompanyProfile {
-  symbol: string;
-  name: string;
-  sector: string;
-  industry: string;
-  website: string;
-  description: string;
-  ceo: string;
-  employees: number;
-  founded: string;
-  headquarters: string;
-}
-
-export interface AnalystRecommendation {
-  symbol: string;
-  targetPrice: number;
-  numberOfAnalysts: number;
-  rating: "Strong Buy" | "Buy" | "Hold" | "Sell" | "Strong Sell";
-  ratingChange: string;
-}
-
-export interface DividendInfo {
-  symbol: string;
-  dividendYield: number;
-  annualDividend: number;
-  exDividendDate: string;
-  payoutRatio: number;
-  frequency: string;
-}
-
-export interface KeyMetrics {
-  symbol: string;
-  peRatio: number;
-  pbRatio: number;
-  priceToSalesRatio: number;
-  roe: number;
-  roa: number;
-  debtToEquity: number;
-  currentRatio: number;
-  quickRatio: number;
-  profitMargin: number;
-  operatingMargin: number;
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
 }
 
 /**
  * Get current stock quote and key metrics
  */
 export async function getStockQuote(symbol: string): Promise<StockQuote> {
-  // Placeholder implementation
-  // In production, use yahoo-finance2 npm package
-  console.log(`Fetching quote for ${symbol}`);
-
-  const mockQuote: StockQuote = {
-    symbol: symbol.toUpperCase(),
-    name: `${symbol.toUpperCase()} Inc.`,
-    price: 150.25,
-    currency: "USD",
-    change: 2.5,
-    changePercent: 1.69,
-    marketCap: 2500000000000,
-    volume: 45000000,
-    averageVolume: 40000000,
-    peRatio: 28.5,
-    eps: 5.27,
-    beta: 1.2,
-    fiftyTwoWeekHigh: 180.5,
-    fiftyTwoWeekLow: 120.75,
-    fiftyDayAverage: 148.3,
-    twoHundredDayAverage: 145.8,
-    timestamp: Date.now(),
-  };
-
-  return mockQuote;
+  return provider().getQuote(normalizeSymbol(symbol));
 }
 
 /**
@@ -129,40 +76,7 @@ export async function getHistoricalData(
   endDate: Date,
   interval: "1d" | "1wk" | "1mo" = "1d"
 ): Promise<HistoricalData[]> {
-  // Placeholder implementation
-  console.log(`Fetching historical data for ${symbol} from ${startDate} to ${endDate}`);
-
-  const mockData: HistoricalData[] = [
-    {
-      date: "2024-01-01",
-      open: 145.0,
-      high: 148.5,
-      low: 144.2,
-      close: 147.8,
-      volume: 50000000,
-      adjClose: 147.8,
-    },
-    {
-      date: "2024-01-02",
-      open: 147.8,
-      high: 150.2,
-      low: 147.5,
-      close: 149.5,
-      volume: 45000000,
-      adjClose: 149.5,
-    },
-    {
-      date: "2024-01-03",
-      open: 149.5,
-      high: 152.0,
-      low: 149.0,
-      close: 150.25,
-      volume: 48000000,
-      adjClose: 150.25,
-    },
-  ];
-
-  return mockData;
+  return provider().getHistory(normalizeSymbol(symbol), startDate, endDate, interval);
 }
 
 /**
@@ -172,58 +86,14 @@ export async function getFinancialStatements(
   symbol: string,
   period: "quarterly" | "annual" = "annual"
 ): Promise<FinancialStatement[]> {
-  // Placeholder implementation
-  console.log(`Fetching ${period} financial statements for ${symbol}`);
-
-  const mockStatements: FinancialStatement[] = [
-    {
-      date: "2023-12-31",
-      revenue: 383285000000,
-      netIncome: 96995000000,
-      operatingIncome: 120656000000,
-      totalAssets: 352755000000,
-      totalLiabilities: 106385000000,
-      stockholdersEquity: 246370000000,
-      operatingCashFlow: 110543000000,
-      freeCashFlow: 93736000000,
-    },
-    {
-      date: "2022-12-31",
-      revenue: 394328000000,
-      netIncome: 99803000000,
-      operatingIncome: 119437000000,
-      totalAssets: 346926000000,
-      totalLiabilities: 105718000000,
-      stockholdersEquity: 241208000000,
-      operatingCashFlow: 122151000000,
-      freeCashFlow: 110543000000,
-    },
-  ];
-
-  return mockStatements;
+  return provider().getFinancialStatements(normalizeSymbol(symbol), period);
 }
 
 /**
  * Get company profile and information
  */
 export async function getCompanyProfile(symbol: string): Promise<CompanyProfile> {
-  // Placeholder implementation
-  console.log(`Fetching company profile for ${symbol}`);
-
-  const mockProfile: CompanyProfile = {
-    symbol: symbol.toUpperCase(),
-    name: `${symbol.toUpperCase()} Inc.`,
-    sector: "Technology",
-    industry: "Consumer Electronics",
-    website: `https://www.${symbol.toLowerCase()}.com`,
-    description: `${symbol.toUpperCase()} is a leading technology company known for innovation.`,
-    ceo: "John Doe",
-    employees: 161000,
-    founded: "1976",
-    headquarters: "Cupertino, California",
-  };
-
-  return mockProfile;
+  return provider().getCompanyProfile(normalizeSymbol(symbol));
 }
 
 /**
@@ -232,155 +102,197 @@ export async function getCompanyProfile(symbol: string): Promise<CompanyProfile>
 export async function getAnalystRecommendations(
   symbol: string
 ): Promise<AnalystRecommendation> {
-  // Placeholder implementation
-  console.log(`Fetching analyst recommendations for ${symbol}`);
-
-  const mockRecommendation: AnalystRecommendation = {
-    symbol: symbol.toUpperCase(),
-    targetPrice: 165.5,
-    numberOfAnalysts: 45,
-    rating: "Buy",
-    ratingChange: "Upgraded",
-  };
-
-  return mockRecommendation;
+  return provider().getAnalystRecommendation(normalizeSymbol(symbol));
 }
 
 /**
  * Get dividend information
  */
 export async function getDividendInfo(symbol: string): Promise<DividendInfo> {
-  // Placeholder implementation
-  console.log(`Fetching dividend info for ${symbol}`);
-
-  const mockDividend: DividendInfo = {
-    symbol: symbol.toUpperCase(),
-    dividendYield: 0.45,
-    annualDividend: 0.92,
-    exDividendDate: "2024-02-09",
-    payoutRatio: 16.8,
-    frequency: "Quarterly",
-  };
-
-  return mockDividend;
+  return provider().getDividendInfo(normalizeSymbol(symbol));
 }
 
 /**
  * Get key financial metrics and ratios
  */
 export async function getKeyMetrics(symbol: string): Promise<KeyMetrics> {
-  // Placeholder implementation
-  console.log(`Fetching key metrics for ${symbol}`);
+  return provider().getKeyMetrics(normalizeSymbol(symbol));
+}
+
+/**
+ * A quote with its money fields converted to a reporting currency at the
+ * rate of the quote's day. The quote's own fields stay in its native currency.
+ */
+export interface ConvertedQuote extends StockQuote {
+  reportingCurrency: string;
+  fx: FxRate;
+  converted: {
+    price: number;
+    change: number;
+    marketCap: number;
+    eps: number;
+    fiftyTwoWeekHigh: number;
+    fiftyTwoWeekLow: number;
+  };
+}
 
-  const mockMetrics: KeyMetrics = {
-    symbol: symbol.toUpperCase(),
-    peRatio: 28.5,
-    pbRatio: 45.2,
-    priceToSalesRatio: 6.5,
-    roe: 39.4,
-    roa: 27.5,
-    debtToEquity: 0.43,
-    currentRatio: 1.07,
-    quickRatio: 1.04,
-    profitMargin: 25.3,
-    operatingMargin: 31.5,
+export async function convertQuote(quote: StockQuote, reportingCurrency: string = ENV.reportingCurrency): Promise<ConvertedQuote> {
+  const fx = await getFxRate(quote.currency, reportingCurrency, quote.asOf);
+  return {
+    ...quote,
+    reportingCurrency,
+    fx,
+    converted: {
+      price: quote.price * fx.rate,
+      change: quote.change * fx.rate,
+      marketCap: quote.marketCap * fx.rate,
+      eps: quote.eps * fx.rate,
+      fiftyTwoWeekHigh: quote.fiftyTwoWeekHigh * fx.rate,
+      fiftyTwoWeekLow: quote.fiftyTwoWeekLow * fx.rate,
+    },
   };
+}
 
-  return mockMetrics;
+/**
+ * Compare multiple stocks, normalized to one reporting currency
+ */
+export async function compareStocks(
+  symbols: string[],
+  reportingCurrency: string = ENV.reportingCurrency
+): Promise<ConvertedQuote[]> {
+  return Promise.all(symbols.map(async (symbol) => convertQuote(await getStockQuote(symbol), reportingCurrency)));
 }
 
 /**
- * Compare multiple stocks
+ * Get daily history for the `lookbackDays` calendar days before the latest
+ * quote, so fixture and delayed data stay anchored to their own as-of time
  */
-export async function compareStocks(symbols: string[]): Promise<StockQuote[]> {
-  // Placeholder implementation
-  console.log(`Comparing stocks: ${symbols.join(", ")}`);
+export async function getRecentHistory(
+  symbol: string,
+  lookbackDays: number = 380
+): Promise<{ quote: StockQuote; history: HistoricalData[] }> {
+  const quote = await getStockQuote(symbol);
+  const start = new Date(quote.asOf);
+  start.setDate(start.getDate() - lookbackDays);
+  const history = await getHistoricalData(quote.symbol, start, quote.asOf, "1d");
+  return { quote, history };
+}
 
-  const quotes = await Promise.all(symbols.map((symbol) => getStockQuote(symbol)));
-  return quotes;
+/**
+ * Bars on the split- and dividend-adjusted basis of adjClose, with each bar's
+ * high and low scaled by the same factor as its close
+ */
+export function adjustedPriceBars(history: HistoricalData[]): PriceBar[] {
+  return history.map((bar) => {
+    const factor = bar.close > 0 ? bar.adjClose / bar.close : 1;
+    return { date: bar.date, high: bar.high * factor, low: bar.low * factor, close: bar.adjClose };
+  });
 }
 
 /**
- * Analyze stock performance
+ * Analyze stock performance over the year of history before the latest quote.
+ * Sharpe and Sortino ratios are measured against `riskFreeRate` (annual, as a
+ * fraction), defaulting to RISK_FREE_RATE.
  */
-export async function analyzeStockPerformance(symbol: string): Promise<{
+export async function analyzeStockPerformance(
+  symbol: string,
+  options: { riskFreeRate?: number } = {}
+): Promise<{
   symbol: string;
   performanceMetrics: {
-    oneMonthReturn: number;
-    threeMonthReturn: number;
-    sixMonthReturn: number;
-    oneYearReturn: number;
-    volatility: number;
-    sharpeRatio: number;
+    oneMonthReturn: number | null;
+    threeMonthReturn: number | null;
+    sixMonthReturn: number | null;
+    oneYearReturn: number | null;
+    volatility: number | null;
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+    maxDrawdown: number | null;
+    riskFreeRate: number;
   };
   technicalAnalysis: {
-    trend: "Uptrend" | "Downtrend" | "Sideways";
+    trend: Trend;
+    lastCrossover: { type: "golden" | "death"; date: string } | null;
     support: number;
     resistance: number;
-    rsi: number;
+    rsi: number | null;
     macd: string;
+    macdValues: Macd | null;
+    bollingerBands: BollingerBands | null;
   };
   recommendation: string;
+  asOf: Date;
+  source: string;
 }> {
-  // Placeholder implementation
-  console.log(`Analyzing performance for ${symbol}`);
+  const riskFreeRate = options.riskFreeRate ?? ENV.riskFreeRate;
+  const { quote, history } = await getRecentHistory(symbol);
+  const closes = history.map((bar) => bar.adjClose);
+  const returns = simpleReturns(closes);
+
+  // Under 200 bars the crossover cannot be computed, so fall back to the
+  // quote's own 50/200-day averages
+  const crossover = movingAverageCrossover(closes);
+  const trend = crossover
+    ? crossover.trend
+    : trendFromAverages(quote.fiftyDayAverage, quote.twoHundredDayAverage);
+  const lastCrossover = crossover?.lastCrossover
+    ? { type: crossover.lastCrossover.type, date: history[crossover.lastCrossover.index].date }
+    : null;
+
+  const levels = supportResistance(adjustedPriceBars(history.slice(-120)), quote.price);
+
+  const macdValues = macd(closes);
+  const macdLabel = macdValues ? (macdValues.histogram >= 0 ? "Positive" : "Negative") : "Insufficient data";
+
+  const rsiValue = rsi(closes);
+  const momentum =
+    rsiValue === null
+      ? ""
+      : rsiValue >= 70
+        ? ", RSI overbought"
+        : rsiValue <= 30
+          ? ", RSI oversold"
+          : `, RSI ${rsiValue.toFixed(0)}`;
 
   return {
-    symbol: symbol.toUpperCase(),
+    symbol: quote.symbol,
     performanceMetrics: {
-      oneMonthReturn: 5.2,
-      threeMonthReturn: 12.8,
-      sixMonthReturn: 18.5,
-      oneYearReturn: 35.2,
-      volatility: 22.5,
-      sharpeRatio: 1.45,
+      oneMonthReturn: periodReturn(closes, 21),
+      threeMonthReturn: periodReturn(closes, 63),
+      sixMonthReturn: periodReturn(closes, 126),
+      oneYearReturn: periodReturn(closes, 252),
+      volatility: annualizedVolatility(returns),
+      sharpeRatio: sharpeRatio(returns, riskFreeRate),
+      sortinoRatio: sortinoRatio(returns, riskFreeRate),
+      maxDrawdown: maxDrawdown(closes)?.maxDrawdown ?? null,
+      riskFreeRate,
     },
     technicalAnalysis: {
-      trend: "Uptrend",
-      support: 145.5,
-      resistance: 155.0,
-      rsi: 65,
-      macd: "Positive",
+      trend,
+      lastCrossover,
+      support: levels?.support ?? quote.price,
+      resistance: levels?.resistance ?? quote.price,
+      rsi: rsiValue,
+      macd: macdLabel,
+      macdValues,
+      bollingerBands: bollingerBands(closes),
     },
-    recommendation: "Strong Buy - Stock shows strong uptrend with positive momentum",
+    recommendation: `${trend} with ${macdLabel.toLowerCase()} MACD momentum${momentum}`,
+    asOf: quote.asOf,
+    source: quote.source,
   };
 }
 
 /**
  * Get earnings information
  */
-export async function getEarningsInfo(symbol: string): Promise<{
-  symbol: string;
-  lastEarningsDate: string;
-  nextEarningsDate: string;
-  lastEarningsPerShare: number;
-  lastRevenueEstimate: number;
-  earningsHistory: Array<{
-    date: string;
-    eps: number;
-    revenue: number;
-    surprise: number;
-  }>;
-}> {
-  // Placeholder implementation
-  console.log(`Fetching earnings info for ${symbol}`);
-
-  return {
-    symbol: symbol.toUpperCase(),
-    lastEarningsDate: "2024-01-30",
-    nextEarningsDate: "2024-04-30",
-    lastEarningsPerShare: 5.27,
-    lastRevenueEstimate: 383285000000,
-    earningsHistory: [
-      { date: "2024-01-30", eps: 5.27, revenue: 383285000000, surprise: 2.5 },
-      { date: "2023-10-30", eps: 5.05, revenue: 119437000000, surprise: 1.2 },
-      { date: "2023-07-31", eps: 4.95, revenue: 81797000000, surprise: -0.5 },
-    ],
-  };
+export async function getEarningsInfo(symbol: string): Promise<EarningsInfo> {
+  return provider().getEarningsInfo(normalizeSymbol(symbol));
 }
 
 /**
- * Screen stocks based on criteria
+ * Screen the provider's universe on common criteria. Screens needing other
+ * fields, OR groups, sorting or pages go through `runScreen`.
  */
 export async function screenStocks(criteria: {
   minPrice?: number;
@@ -389,56 +301,26 @@ export async function screenStocks(criteria: {
   maxPeRatio?: number;
   minDividendYield?: number;
   sector?: string;
-}): Promise<StockQuote[]> {
-  // Placeholder implementation
-  console.log(`Screening stocks with criteria:`, criteria);
-
-  // In production, this would query Yahoo Finance for matching stocks
-  const mockResults: StockQuote[] = [
-    await getStockQuote("AAPL"),
-    await getStockQuote("MSFT"),
-    await getStockQuote("GOOGL"),
-  ];
-
-  return mockResults;
+}): Promise<ScreenRow[]> {
+  const filters: ScreenFilter[] = [];
+  if (criteria.minPrice !== undefined) filters.push({ field: "price", op: "gte", value: criteria.minPrice });
+  if (criteria.maxPrice !== undefined) filters.push({ field: "price", op: "lte", value: criteria.maxPrice });
+  if (criteria.minMarketCap !== undefined) filters.push({ field: "marketCap", op: "gte", value: criteria.minMarketCap });
+  if (criteria.maxPeRatio !== undefined) {
+    filters.push({ field: "peRatio", op: "gt", value: 0 }, { field: "peRatio", op: "lte", value: criteria.maxPeRatio });
+  }
+  if (criteria.minDividendYield !== undefined) {
+    filters.push({ field: "dividendYield", op: "gte", value: criteria.minDividendYield });
+  }
+  if (criteria.sector) filters.push({ field: "sector", op: "in", values: [criteria.sector] });
+
+  const { rows } = await screenUniverse({ filter: filters.length > 0 ? { and: filters } : undefined });
+  return rows;
 }
 
 /**
  * Get market news and sentiment for a stock
  */
-export async function getStockNews(symbol: string): Promise<
-  Array<{
-    title: string;
-    source: string;
-    date: string;
-    url: string;
-    sentiment: "Positive" | "Negative" | "Neutral";
-  }>
-> {
-  // Placeholder implementation
-  console.log(`Fetching news for ${symbol}`);
-
-  return [
-    {
-      title: `${symbol} Announces Strong Q4 Earnings`,
-      source: "Reuters",
-      date: "2024-01-30",
-      url: "https://example.com/news1",
-      sentiment: "Positive",
-    },
-    {
-      title: `${symbol} Faces Regulatory Challenges`,
-      source: "Bloomberg",
-      date: "2024-01-29",
-      url: "https://example.com/news2",
-      sentiment: "Negative",
-    },
-    {
-      title: `Industry Analysis: ${symbol} Market Position`,
-      source: "Financial Times",
-      date: "2024-01-28",
-      url: "https://example.com/news3",
-      sentiment: "Neutral",
-    },
-  ];
+export async function getStockNews(symbol: string): Promise<NewsItem[]> {
+  return provider().getNews(normalizeSymbol(symbol));
 }
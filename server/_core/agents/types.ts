@@ -3,6 +3,8 @@
  * Defines the core types for orchestrator and worker agents
  */
 
+import type { ToolCall, Usage } from "../llm";
+
 export type AgentRole = "orchestrator" | "searcher" | "extractor" | "fact_checker" | "synthesizer" | "financial_analyst";
 
 export type AgentStatus = "idle" | "thinking" | "executing" | "waiting" | "completed" | "failed";
@@ -19,6 +21,44 @@ export interface AgentTask {
   retrievedAt?: Date;
   result?: unknown;
   error?: string;
+  /** What was thrown when the task failed; not persisted */
+  cause?: unknown;
+  steps?: AgentStep[];
+}
+
+/**
+ * One step of an agent's tool-calling loop: either a model turn or a tool run
+ */
+export type AgentStep =
+  | {
+      type: "model";
+      iteration: number;
+      content: string;
+      toolCalls: ToolCall[];
+      usage?: Usage;
+      /** Provider and model that answered, after any fallbacks */
+      provider?: string;
+      model?: string;
+      at: Date;
+    }
+  | {
+      type: "tool";
+      iteration: number;
+      toolCallId: string;
+      toolName: string;
+      arguments: string;
+      result?: unknown;
+      error?: string;
+      at: Date;
+    };
+
+export interface AgentLoopOptions {
+  /** Maximum model calls per task; the last call is made without tools to force an answer */
+  maxIterations: number;
+  /** Total tokens a task may spend across all model calls */
+  tokenBudget: number;
+  /** Times an answer that fails its output schema is sent back for repair */
+  maxRepairs: number;
 }
 
 export interface ResearchPlan {
@@ -29,10 +69,42 @@ export interface ResearchPlan {
   objectives: string[];
   strategy: string;
   estimatedSteps: number;
+  rounds?: ResearchRound[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** Most search tasks a single round may run */
+export const MAX_RESEARCH_BREADTH = 10;
+
+/**
+ * Limits for the iterative search loop
+ */
+export interface ResearchLimits {
+  /** Maximum search rounds (depth), including the first */
+  maxRounds: number;
+  /** Maximum search tasks per round (breadth) */
+  breadth: number;
+  /** Total tokens the research may spend across all agents */
+  tokenBudget: number;
+}
+
+export type ResearchStopReason = "complete" | "max_rounds" | "budget" | "no_gaps" | "evaluation_failed";
+
+/**
+ * One pass of searching followed by a completeness evaluation
+ */
+export interface ResearchRound {
+  round: number;
+  taskIds: string[];
+  findingsCount: number;
+  evaluation?: { isComplete: boolean; gaps: string[] };
+  tokensUsed: number; // Cumulative for the research so far
+  stopReason?: ResearchStopReason; // Set on the last round
+  startedAt: Date;
+  completedAt: Date;
+}
+
 export interface ResearchArtifact {
   id: string;
   taskId: string;
@@ -45,10 +117,14 @@ export interface ResearchArtifact {
 
 export interface Citation {
   id: string;
-  artifactId: string;
+  number: number; // Inline reference number, e.g. [1]
+  artifactId: string; // Artifact the source was first cited for
+  artifactIds: string[]; // Every artifact that relies on the source
   source: string;
-  url: string;
+  url: string; // Canonical URL
   title?: string;
+  snippet?: string;
+  publishedDate?: Date;
   accessedAt: Date;
 }
 
@@ -78,3 +154,29 @@ export interface OrchestratorState {
   currentPhase: "planning" | "searching" | "analyzing" | "synthesizing" | "finalizing";
   progressPercentage: number;
 }
+
+export type ResearchPhase = OrchestratorState["currentPhase"];
+
+/**
+ * Progress events emitted while a research run executes
+ */
+export type ResearchEvent =
+  | { type: "phase"; phase: ResearchPhase; progressPercentage: number; at: Date }
+  | { type: "plan"; plan: ResearchPlan; at: Date }
+  | { type: "round"; round: ResearchRound; at: Date }
+  | {
+      type: "task";
+      task: Pick<AgentTask, "id" | "parentTaskId" | "agentRole" | "description" | "status" | "error">;
+      at: Date;
+    }
+  | { type: "artifact"; artifact: ResearchArtifact; at: Date }
+  | {
+      type: "report";
+      report: string;
+      findingsCount: number;
+      citationsCount: number;
+      citations: Citation[];
+      executionTime: number;
+      at: Date;
+    }
+  | { type: "error"; message: string; at: Date };
@@ -6,6 +6,7 @@
 import { BaseAgent } from "./baseAgent";
 import { AgentTask } from "./types";
 import { Tool } from "../llm";
+import { fetchUrl, filteredSearch, SearchFilters } from "./tools/webSearch";
 
 /**
  * Search Agent - Performs web searches and information gathering
@@ -20,7 +21,7 @@ export class SearchAgent extends BaseAgent {
 2. Identify the most relevant sources
 3. Extract key information from search results
 4. Identify gaps and formulate follow-up searches
-5. Provide citations for all information found
+5. Provide citations for all information found, including the URL of every source you rely on
 
 When searching, prioritize:
 - Academic and peer-reviewed sources
@@ -47,6 +48,22 @@ When searching, prioritize:
                 type: "number",
                 description: "Number of results to return (default: 5)",
               },
+              domain: {
+                type: "string",
+                description: "Only return results from this domain, e.g. sec.gov",
+              },
+              fromDate: {
+                type: "string",
+                description: "Only return results published on or after this date (YYYY-MM-DD)",
+              },
+              toDate: {
+                type: "string",
+                description: "Only return results published on or before this date (YYYY-MM-DD)",
+              },
+              language: {
+                type: "string",
+                description: "Only return results in this language (ISO 639-1 code, e.g. en)",
+              },
             },
             required: ["query"],
           },
@@ -77,34 +94,36 @@ When searching, prioritize:
     args: Record<string, unknown>
   ): Promise<unknown> {
     if (toolName === "web_search") {
-      return this.webSearch(args.query as string, (args.numResults as number) || 5);
+      return this.webSearch(args.query as string, (args.numResults as number) || 5, {
+        domain: args.domain as string | undefined,
+        language: args.language as string | undefined,
+        dateRange:
+          args.fromDate || args.toDate
+            ? {
+                from: new Date((args.fromDate as string | undefined) ?? 0),
+                to: args.toDate ? new Date(args.toDate as string) : new Date(),
+              }
+            : undefined,
+      });
     } else if (toolName === "fetch_url") {
       return this.fetchUrl(args.url as string);
     }
     throw new Error(`Unknown tool: ${toolName}`);
   }
 
-  private async webSearch(query: string, numResults: number): Promise<unknown> {
-    // Placeholder for actual web search implementation
-    // In production, integrate with a search API like Google Custom Search, Bing, or DuckDuckGo
-    return {
-      results: [
-        {
-          title: "Example Result",
-          url: "https://example.com",
-          snippet: "This is an example search result",
-        },
-      ],
-    };
+  private async webSearch(query: string, numResults: number, filters: SearchFilters): Promise<unknown> {
+    return filteredSearch(query, filters, numResults);
   }
 
   private async fetchUrl(url: string): Promise<unknown> {
-    // Placeholder for actual URL fetching
-    // In production, use fetch with proper error handling and content extraction
+    const page = await fetchUrl(url);
+
+    // Keep long documents from crowding out the rest of the conversation
+    const maxChars = 12_000;
     return {
-      url,
-      title: "Example Page",
-      content: "Example content from the page",
+      ...page,
+      content: page.content.slice(0, maxChars),
+      contentTruncated: page.content.length > maxChars,
     };
   }
 }
@@ -10,6 +10,51 @@ export const ENV = {
   googleApiKey: process.env.GOOGLE_API_KEY ?? "",
   googleApiUrl: process.env.GOOGLE_API_URL ?? "",
   ollamaApiUrl: process.env.OLLAMA_API_URL ?? "",
+  anthropicApiKey: process.env.ANTHROPIC_API_KEY ?? "",
+  anthropicApiUrl: process.env.ANTHROPIC_API_URL ?? "",
+  llmProviders: process.env.LLM_PROVIDERS ?? "", // JSON array of extra providers, see MULTI_PROVIDER_LLM_GUIDE.md
   llmProvider: process.env.LLM_PROVIDER ?? "openai", // Default LLM provider
+  llmFallbackChain: process.env.LLM_FALLBACK_CHAIN ?? "", // e.g. "gemini,ollama:llama3.1", tried in order after LLM_PROVIDER
+  llmMaxRetries: parseInt(process.env.LLM_MAX_RETRIES ?? "2"), // retries per provider for 429, 5xx, timeouts and network errors
+  llmRetryBaseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS ?? "500"),
+  llmRetryMaxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS ?? "8000"),
+  llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS ?? "120000"), // per attempt; streams until the first chunk
+  llmProviderTimeoutsMs: process.env.LLM_PROVIDER_TIMEOUTS_MS ?? "", // per-provider overrides, e.g. "ollama=300000"
+  llmCircuitFailureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD ?? "5"),
+  llmCircuitCooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS ?? "60000"),
+  llmModelsCacheTtlMs: parseInt(process.env.LLM_MODELS_CACHE_TTL_MS ?? "600000"), // how long listed provider models are reused
+  researchJobConcurrency: parseInt(process.env.RESEARCH_JOB_CONCURRENCY ?? "2"),
+  researchMaxRounds: parseInt(process.env.RESEARCH_MAX_ROUNDS ?? "3"),
+  researchBreadth: parseInt(process.env.RESEARCH_BREADTH ?? "3"),
+  researchTokenBudget: parseInt(process.env.RESEARCH_TOKEN_BUDGET ?? "400000"), // default per-research budget
+  usageBudgetPeriod: process.env.USAGE_BUDGET_PERIOD ?? "month", // day | month, in UTC
+  usageUserTokenBudget: parseInt(process.env.USAGE_USER_TOKEN_BUDGET ?? "0"), // tokens per user per period; 0 is unlimited
+  usageUserCostBudgetUsd: parseFloat(process.env.USAGE_USER_COST_BUDGET_USD ?? "0"), // USD per user per period; 0 is unlimited
+  searchProvider: process.env.SEARCH_PROVIDER ?? "", // searxng | brave | bing | tavily; required. fixture is for tests and refused in production
+  searxngUrl: process.env.SEARXNG_URL ?? "",
+  braveSearchApiKey: process.env.BRAVE_SEARCH_API_KEY ?? "",
+  bingSearchApiKey: process.env.BING_SEARCH_API_KEY ?? "",
+  bingSearchApiUrl: process.env.BING_SEARCH_API_URL ?? "",
+  tavilyApiKey: process.env.TAVILY_API_KEY ?? "",
+  searchFixturesPath: process.env.SEARCH_FIXTURES_PATH ?? "",
+  fetchMaxBytes: parseInt(process.env.FETCH_MAX_BYTES ?? String(5 * 1024 * 1024)),
+  fetchTimeoutMs: parseInt(process.env.FETCH_TIMEOUT_MS ?? "15000"),
+  fetchUserAgent: process.env.FETCH_USER_AGENT ?? "AgentJ-Research/1.0",
+  marketDataProvider: process.env.MARKET_DATA_PROVIDER ?? "yahoo", // yahoo | fixture
+  marketDataFixturesPath: process.env.MARKET_DATA_FIXTURES_PATH ?? "",
+  marketDataUniverse: process.env.MARKET_DATA_UNIVERSE ?? "", // comma-separated symbols for screens
+  screenerCacheTtlMs: parseInt(process.env.SCREENER_CACHE_TTL_MS ?? "900000"), // how long a universe snapshot is reused
+  portfolioBenchmark: process.env.PORTFOLIO_BENCHMARK ?? "SPY", // default benchmark for new portfolios
+  alertCheckIntervalMs: parseInt(process.env.ALERT_CHECK_INTERVAL_MS ?? "300000"), // 0 disables alert checks
+  riskFreeRate: parseFloat(process.env.RISK_FREE_RATE ?? "0.04"), // annual, as a fraction
+  edgarSource: process.env.EDGAR_SOURCE ?? "sec", // sec | fixture
+  edgarUserAgent: process.env.EDGAR_USER_AGENT ?? "", // SEC requires "Name contact@example.com"
+  edgarCacheDir: process.env.EDGAR_CACHE_DIR ?? ".cache/edgar",
+  edgarFixturesPath: process.env.EDGAR_FIXTURES_PATH ?? "",
+  fxProvider: process.env.FX_PROVIDER ?? "frankfurter", // frankfurter | fixture
+  fxApiUrl: process.env.FX_API_URL ?? "https://api.frankfurter.app",
+  fxLatestTtlMs: parseInt(process.env.FX_LATEST_TTL_MS ?? "3600000"), // historical rates are cached indefinitely
+  fxFixturesPath: process.env.FX_FIXTURES_PATH ?? "",
+  reportingCurrency: process.env.REPORTING_CURRENCY ?? "USD", // default currency prices are converted to
 
 };
@@ -7,6 +7,9 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { researchJobQueue } from "../researchJobs";
+import { alertScheduler } from "../alertScheduler";
+import { assertSearchProviderConfigured } from "./agents/tools/search";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -28,6 +31,9 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 }
 
 async function startServer() {
+  // Research without a real search backend would cite made-up sources
+  assertSearchProviderConfigured();
+
   const app = express();
   const server = createServer(app);
   // Configure body parser with larger size limit for file uploads
@@ -60,6 +66,19 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Pick up research jobs that were interrupted by the last shutdown
+  researchJobQueue
+    .resumeInterrupted()
+    .then(count => {
+      if (count > 0) console.log(`Resumed ${count} research job(s)`);
+    })
+    .catch(error => console.warn("[ResearchJobs] Could not resume jobs:", error));
+
+  alertScheduler.start();
 }
 
-startServer().catch(console.error);
+startServer().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -2,37 +2,278 @@ import { LLMProvider } from "./LLMProvider";
 import { OpenAIProvider } from "./openaiProvider";
 import { OllamaProvider } from "./ollamaProvider";
 import { GoogleGeminiProvider } from "./googleGeminiProvider";
-import { InvokeParams, InvokeResult } from "./types";
+import { AnthropicProvider } from "./anthropicProvider";
+import { createProvider, parseProviderConfigs, ProviderConfig } from "./providerConfig";
+import { InvokeParams, InvokeResult, ProviderModel, StreamChunk } from "./types";
+import { isRetryable, LLMProviderError, LLMUnavailableError } from "./errors";
+import { backoffDelay, CircuitBreaker, RetryPolicy, sleep, withTimeout } from "./resilience";
+import { ENV } from "../env";
+
+/**
+ * A provider in a fallback chain, with the model to ask it for. Without a
+ * model the request's own model is used.
+ */
+export interface ProviderRoute {
+  provider: string;
+  model?: string;
+}
+
+type FailedAttempt = { provider: string; model: string; error: string };
+
+/**
+ * Parse a chain such as "gemini, ollama:llama3.1" into routes
+ */
+export function parseProviderRoutes(spec: string): ProviderRoute[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return separator === -1
+        ? { provider: entry }
+        : { provider: entry.slice(0, separator).trim(), model: entry.slice(separator + 1).trim() || undefined };
+    });
+}
+
+/**
+ * The configured provider, or the given one, followed by the fallback chain
+ */
+export function configuredRoutes(primary: string = ENV.llmProvider || "openai"): ProviderRoute[] {
+  const fallbacks = parseProviderRoutes(ENV.llmFallbackChain).filter(
+    (route) => route.provider !== primary || route.model !== undefined
+  );
+  return [{ provider: primary }, ...fallbacks];
+}
+
+/**
+ * Routes for a request's model. A model named as "provider:model", as the
+ * model picker sends it, goes to that provider first; any other model takes
+ * the configured routes. The returned model has the provider prefix removed.
+ */
+export function routesForModel(model: string): { routes: ProviderRoute[]; model: string } {
+  const separator = model.indexOf(":");
+  const provider = separator === -1 ? "" : model.slice(0, separator);
+  if (!llmAdapter.getProviderNames().includes(provider)) {
+    return { routes: configuredRoutes(), model };
+  }
+  return { routes: configuredRoutes(provider), model: model.slice(separator + 1) };
+}
+
+function parseTimeouts(spec: string): Map<string, number> {
+  const timeouts = new Map<string, number>();
+  spec.split(",").forEach((entry) => {
+    const [name, value] = entry.split("=").map((part) => part.trim());
+    const ms = parseInt(value ?? "");
+    if (name && Number.isFinite(ms)) timeouts.set(name, ms);
+  });
+  return timeouts;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 export class LLMAdapter {
   private providers: Map<string, LLMProvider> = new Map();
+  // Model lists per provider; the pending request is shared by concurrent callers
+  private modelCache: Map<string, { expiresAt: number; models: Promise<ProviderModel[]> }> = new Map();
+  private circuitBreaker = new CircuitBreaker(() => ({
+    failureThreshold: ENV.llmCircuitFailureThreshold,
+    cooldownMs: ENV.llmCircuitCooldownMs,
+  }));
 
   constructor() {
     this.registerProvider("openai", new OpenAIProvider());
     this.registerProvider("ollama", new OllamaProvider());
     this.registerProvider("gemini", new GoogleGeminiProvider());
+    this.registerProvider("anthropic", new AnthropicProvider());
+
+    try {
+      this.registerConfiguredProviders(parseProviderConfigs(ENV.llmProviders));
+    } catch (error) {
+      console.error("[LLM] Ignoring LLM_PROVIDERS:", error);
+    }
+  }
+
+  /**
+   * Register a provider for each config; a config named like a built-in
+   * provider replaces it
+   */
+  registerConfiguredProviders(configs: ProviderConfig[]) {
+    configs.forEach((config) => this.registerProvider(config.name, createProvider(config)));
   }
 
   registerProvider(name: string, provider: LLMProvider) {
     this.providers.set(name, provider);
+    this.modelCache.delete(name);
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  findProvider(name: string): LLMProvider | undefined {
+    return this.providers.get(name);
   }
 
   getProvider(name: string): LLMProvider {
-    const provider = this.providers.get(name);
+    const provider = this.findProvider(name);
     if (!provider) {
       throw new Error(`LLM provider "${name}" not found.`);
     }
     return provider;
   }
 
-  async invoke(providerName: string, params: InvokeParams): Promise<InvokeResult> {
-    const provider = this.getProvider(providerName);
-    return provider.invoke(params);
+  /**
+   * Invoke the first provider of the chain that answers. Each provider is
+   * retried with backoff on throttling, server errors and timeouts, then the
+   * next one is tried; providers whose circuit is open, or that are not
+   * registered, are skipped. The result records the provider and model that
+   * answered.
+   */
+  async invoke(route: string | ProviderRoute[], params: InvokeParams): Promise<InvokeResult> {
+    const failures: FailedAttempt[] = [];
+
+    for (const { provider: name, model = params.model } of this.resolveRoutes(route)) {
+      const provider = this.findProvider(name);
+      if (!provider) {
+        failures.push({ provider: name, model, error: "not registered" });
+        continue;
+      }
+      if (!this.circuitBreaker.isAvailable(name)) {
+        failures.push({ provider: name, model, error: "circuit open" });
+        continue;
+      }
+
+      try {
+        const result = await this.withRetries(name, (signal) => provider.invoke({ ...params, model, signal }));
+        return { ...result, model: result.model || model, provider: name };
+      } catch (error) {
+        failures.push({ provider: name, model, error: errorMessage(error) });
+      }
+    }
+
+    throw this.unavailable(failures);
   }
 
-  async getAvailableModels(providerName: string): Promise<string[]> {
+  /**
+   * Stream from the first provider of the chain that starts answering.
+   * Retries and fallbacks happen only before the first chunk; a stream that
+   * fails part-way through is not restarted, since its output was consumed.
+   */
+  async *stream(route: string | ProviderRoute[], params: InvokeParams): AsyncGenerator<StreamChunk> {
+    const failures: FailedAttempt[] = [];
+
+    for (const { provider: name, model = params.model } of this.resolveRoutes(route)) {
+      const provider = this.findProvider(name);
+      if (!provider) {
+        failures.push({ provider: name, model, error: "not registered" });
+        continue;
+      }
+      if (!this.circuitBreaker.isAvailable(name)) {
+        failures.push({ provider: name, model, error: "circuit open" });
+        continue;
+      }
+
+      let started: { iterator: AsyncIterator<StreamChunk>; first: IteratorResult<StreamChunk> };
+      try {
+        started = await this.withRetries(name, async (signal) => {
+          const iterator = provider.stream({ ...params, model, signal })[Symbol.asyncIterator]();
+          return { iterator, first: await iterator.next() };
+        });
+      } catch (error) {
+        failures.push({ provider: name, model, error: errorMessage(error) });
+        continue;
+      }
+
+      const tag = (chunk: StreamChunk): StreamChunk => (chunk.type === "usage" ? { ...chunk, provider: name } : chunk);
+      try {
+        for (let next = started.first; !next.done; next = await started.iterator.next()) {
+          yield tag(next.value);
+        }
+      } catch (error) {
+        if (isRetryable(error)) this.circuitBreaker.recordFailure(name);
+        throw error;
+      }
+      return;
+    }
+
+    throw this.unavailable(failures);
+  }
+
+  /**
+   * Models the provider serves, cached for LLM_MODELS_CACHE_TTL_MS. Failed
+   * lookups are not cached, and `refresh` asks the provider again.
+   */
+  async getAvailableModels(providerName: string, options: { refresh?: boolean } = {}): Promise<ProviderModel[]> {
     const provider = this.getProvider(providerName);
-    return provider.getAvailableModels();
+    const cached = this.modelCache.get(providerName);
+    if (cached && !options.refresh && cached.expiresAt > Date.now()) {
+      return cached.models;
+    }
+
+    const models = provider.getAvailableModels();
+    const entry = { expiresAt: Date.now() + ENV.llmModelsCacheTtlMs, models };
+    this.modelCache.set(providerName, entry);
+    models.catch(() => {
+      if (this.modelCache.get(providerName) === entry) this.modelCache.delete(providerName);
+    });
+    return models;
+  }
+
+  /**
+   * Whether a provider is currently being skipped after repeated failures
+   */
+  isCircuitOpen(providerName: string): boolean {
+    return !this.circuitBreaker.isAvailable(providerName);
+  }
+
+  resetCircuits(): void {
+    this.circuitBreaker.reset();
+  }
+
+  private resolveRoutes(route: string | ProviderRoute[]): ProviderRoute[] {
+    const routes = typeof route === "string" ? [{ provider: route }] : route;
+    if (routes.length === 0) {
+      throw new Error("LLM provider chain is empty.");
+    }
+    return routes;
+  }
+
+  private retryPolicy(providerName: string): RetryPolicy {
+    return {
+      maxRetries: Math.max(0, ENV.llmMaxRetries),
+      baseDelayMs: ENV.llmRetryBaseDelayMs,
+      maxDelayMs: ENV.llmRetryMaxDelayMs,
+      timeoutMs: parseTimeouts(ENV.llmProviderTimeoutsMs).get(providerName) ?? ENV.llmTimeoutMs,
+    };
+  }
+
+  private async withRetries<T>(providerName: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const policy = this.retryPolicy(providerName);
+
+    for (let retry = 0; ; retry++) {
+      try {
+        const result = await withTimeout(providerName, policy.timeoutMs, run);
+        this.circuitBreaker.recordSuccess(providerName);
+        return result;
+      } catch (error) {
+        // Requests the provider rejects say nothing about its health
+        if (!isRetryable(error)) throw error;
+        this.circuitBreaker.recordFailure(providerName);
+        if (retry >= policy.maxRetries || !this.circuitBreaker.isAvailable(providerName)) {
+          throw error;
+        }
+        const retryAfterMs = error instanceof LLMProviderError ? error.retryAfterMs : undefined;
+        await sleep(backoffDelay(retry, policy, retryAfterMs));
+      }
+    }
+  }
+
+  private unavailable(failures: FailedAttempt[]): LLMUnavailableError {
+    const summary = failures.map((failure) => `${failure.provider}/${failure.model}: ${failure.error}`).join("; ");
+    return new LLMUnavailableError(`No LLM provider answered (${summary})`, failures);
   }
 }
 
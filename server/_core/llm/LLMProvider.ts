@@ -1,6 +1,11 @@
-import { Message, Tool, ToolChoice, InvokeResult, ResponseFormat } from "./types";
+import { Message, Tool, ToolChoice, InvokeResult, ResponseFormat, InvokeParams, ProviderModel, StreamChunk, StructuredOutputMode } from "./types";
 
 export interface LLMProvider {
+  /**
+   * Strongest JSON output the provider supports.
+   */
+  readonly structuredOutput: StructuredOutputMode;
+
   /**
    * Invokes the LLM with the given messages and parameters.
    */
@@ -11,10 +16,17 @@ export interface LLMProvider {
     maxTokens?: number;
     responseFormat?: ResponseFormat;
     model: string;
+    signal?: AbortSignal;
   }): Promise<InvokeResult>;
 
   /**
-   * Returns a list of available models for this provider.
+   * Invokes the LLM and yields the completion incrementally as it is generated.
+   */
+  stream(params: InvokeParams): AsyncIterable<StreamChunk>;
+
+  /**
+   * Lists the models the provider's endpoint currently serves. Fails when the
+   * endpoint cannot be reached rather than guessing.
    */
-  getAvailableModels(): Promise<string[]>;
+  getAvailableModels(): Promise<ProviderModel[]>;
 }
@@ -0,0 +1,313 @@
+import { LLMProvider } from "./LLMProvider";
+import {
+  Message,
+  MessageContent,
+  Tool,
+  ToolCall,
+  ToolChoice,
+  InvokeResult,
+  InvokeParams,
+  ProviderModel,
+  StreamChunk,
+  Usage,
+} from "./types";
+import { readServerSentEvents } from "./streaming";
+import { LLMProviderError, providerError } from "./errors";
+import { ENV } from "../env";
+
+// Messages API version the request and response shapes below follow
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface AnthropicOptions {
+  /** Name the provider is registered under, used in errors */
+  name?: string;
+  apiKey?: string;
+  /** API root that /v1/messages is appended to */
+  baseUrl?: string;
+  /** Models to offer instead of asking the API's /v1/models endpoint */
+  models?: string[];
+}
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+type AnthropicMessage = { role: "user" | "assistant"; content: AnthropicBlock[] };
+
+const STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+};
+
+function finishReason(stopReason: string | null | undefined): string | null {
+  return stopReason ? STOP_REASONS[stopReason] ?? stopReason : null;
+}
+
+function usageOf(inputTokens = 0, outputTokens = 0): Usage {
+  return { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens };
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Claude models through the Anthropic Messages API, with tool use
+ */
+export class AnthropicProvider implements LLMProvider {
+  // The Messages API has no JSON mode; schemas are given in the prompt
+  readonly structuredOutput = "json_object" as const;
+  private name: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private models?: string[];
+
+  constructor(options: AnthropicOptions = {}) {
+    this.name = options.name ?? "anthropic";
+    this.apiKey = options.apiKey ?? ENV.anthropicApiKey;
+    this.baseUrl = (options.baseUrl ?? (ENV.anthropicApiUrl || "https://api.anthropic.com")).replace(/\/$/, "");
+    this.models = options.models;
+  }
+
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const response = await this.request(this.buildPayload(params, false), params.signal);
+    const jsonResponse = await response.json();
+
+    const blocks: AnthropicBlock[] = jsonResponse.content ?? [];
+    const toolCalls: ToolCall[] = blocks
+      .filter((block): block is Extract<AnthropicBlock, { type: "tool_use" }> => block.type === "tool_use")
+      .map((block) => ({
+        id: block.id,
+        type: "function",
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      }));
+    const text = blocks
+      .filter((block): block is Extract<AnthropicBlock, { type: "text" }> => block.type === "text")
+      .map((block) => block.text)
+      .join("");
+
+    return {
+      id: jsonResponse.id,
+      created: Date.now(),
+      model: jsonResponse.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: text,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: finishReason(jsonResponse.stop_reason),
+        },
+      ],
+      usage: usageOf(jsonResponse.usage?.input_tokens, jsonResponse.usage?.output_tokens),
+    };
+  }
+
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    const response = await this.request(this.buildPayload(params, true), params.signal);
+
+    if (!response.body) {
+      throw new Error("Anthropic stream failed: response has no body");
+    }
+
+    let model = params.model;
+    let stopReason: string | null = null;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // Content block index -> tool call index, counting tool calls only
+    const toolCallIndexes = new Map<number, number>();
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const event = JSON.parse(data);
+
+      switch (event.type) {
+        case "message_start":
+          model = event.message?.model ?? model;
+          inputTokens = event.message?.usage?.input_tokens ?? 0;
+          outputTokens = event.message?.usage?.output_tokens ?? 0;
+          break;
+        case "content_block_start":
+          if (event.content_block?.type === "tool_use") {
+            const index = toolCallIndexes.size;
+            toolCallIndexes.set(event.index, index);
+            yield { type: "tool_call", index, id: event.content_block.id, name: event.content_block.name, argumentsDelta: "" };
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            yield { type: "text", delta: event.delta.text };
+          } else if (event.delta?.type === "input_json_delta") {
+            const index = toolCallIndexes.get(event.index);
+            if (index !== undefined) {
+              yield { type: "tool_call", index, argumentsDelta: event.delta.partial_json ?? "" };
+            }
+          }
+          break;
+        case "message_delta":
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case "error":
+          // Errors after the response started arrive in the stream, e.g. overloaded_error
+          throw new LLMProviderError(
+            `Anthropic stream failed: ${event.error?.type} – ${event.error?.message}`,
+            this.name,
+            event.error?.type === "overloaded_error" ? 529 : undefined,
+            event.error?.type === "overloaded_error"
+          );
+      }
+    }
+
+    yield { type: "usage", model, usage: usageOf(inputTokens, outputTokens), finish_reason: finishReason(stopReason) };
+  }
+
+  async getAvailableModels(): Promise<ProviderModel[]> {
+    if (this.models) return this.models.map((id) => ({ id }));
+    if (!this.apiKey) {
+      throw new Error("Anthropic API Key is not configured");
+    }
+
+    const response = await fetch(`${this.baseUrl}/v1/models?limit=1000`, { headers: this.headers() });
+    if (!response.ok) {
+      throw await providerError(this.name, "List models", response);
+    }
+    const jsonResponse = (await response.json()) as { data: Array<{ id: string }> };
+    // Every current Claude model takes tools and images
+    return jsonResponse.data.map((m) => ({ id: m.id, tools: true, vision: true }));
+  }
+
+  private buildPayload(params: InvokeParams, stream: boolean): Record<string, unknown> {
+    const { messages, tools, model } = params;
+
+    const system = messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => this.contentToText(msg.content))
+      .join("\n\n");
+
+    const payload: Record<string, unknown> = {
+      model,
+      max_tokens: params.maxTokens || params.max_tokens || 8192,
+      messages: this.toAnthropicMessages(messages.filter((msg) => msg.role !== "system")),
+      stream,
+    };
+    if (system) payload.system = system;
+
+    if (tools && tools.length > 0) {
+      payload.tools = tools.map((tool: Tool) => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters ?? { type: "object", properties: {} },
+      }));
+      const toolChoice = this.normalizeToolChoice(params.toolChoice || params.tool_choice);
+      if (toolChoice) payload.tool_choice = toolChoice;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Map chat messages onto alternating user and assistant turns: tool results
+   * become tool_result blocks of a user turn and consecutive turns of the same
+   * role are merged, as the Messages API requires
+   */
+  private toAnthropicMessages(messages: Message[]): AnthropicMessage[] {
+    const turns: AnthropicMessage[] = [];
+
+    messages.forEach((msg) => {
+      let role: AnthropicMessage["role"];
+      let content: AnthropicBlock[];
+
+      if (msg.role === "tool" || msg.role === "function") {
+        role = "user";
+        content = [{ type: "tool_result", tool_use_id: msg.tool_call_id ?? "", content: this.contentToText(msg.content) }];
+      } else if (msg.role === "assistant") {
+        role = "assistant";
+        content = this.toBlocks(msg.content).filter((block) => block.type !== "text" || block.text.length > 0);
+        (msg.tool_calls ?? []).forEach((call) =>
+          content.push({ type: "tool_use", id: call.id, name: call.function.name, input: parseArguments(call.function.arguments) })
+        );
+      } else {
+        role = "user";
+        content = this.toBlocks(msg.content);
+      }
+
+      const previous = turns[turns.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...content);
+      } else {
+        turns.push({ role, content });
+      }
+    });
+
+    return turns;
+  }
+
+  private toBlocks(content: MessageContent | MessageContent[]): AnthropicBlock[] {
+    const parts = Array.isArray(content) ? content : [content];
+    return parts.map((part): AnthropicBlock => {
+      if (typeof part === "string") return { type: "text", text: part };
+      if (part.type === "text") return { type: "text", text: part.text };
+      if (part.type === "image_url") {
+        const dataUrl = /^data:([^;]+);base64,(.*)$/.exec(part.image_url.url);
+        return {
+          type: "image",
+          source: dataUrl
+            ? { type: "base64", media_type: dataUrl[1], data: dataUrl[2] }
+            : { type: "url", url: part.image_url.url },
+        };
+      }
+      return { type: "text", text: `[File: ${part.file_url.url}]` };
+    });
+  }
+
+  private contentToText(content: MessageContent | MessageContent[]): string {
+    const parts = Array.isArray(content) ? content : [content];
+    return parts
+      .map((part) => (typeof part === "string" ? part : part.type === "text" ? part.text : JSON.stringify(part)))
+      .join("\n");
+  }
+
+  private normalizeToolChoice(toolChoice: ToolChoice | undefined): Record<string, unknown> | undefined {
+    if (!toolChoice) return undefined;
+    if (toolChoice === "auto" || toolChoice === "none") return { type: toolChoice };
+    if (toolChoice === "required") return { type: "any" };
+    if ("name" in toolChoice) return { type: "tool", name: toolChoice.name };
+    return { type: "tool", name: toolChoice.function.name };
+  }
+
+  private headers(): Record<string, string> {
+    return { "x-api-key": this.apiKey, "anthropic-version": ANTHROPIC_VERSION };
+  }
+
+  private async request(payload: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error("Anthropic API Key is not configured");
+    }
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.headers(),
+      },
+      body: JSON.stringify(payload),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await providerError(this.name, "Anthropic invoke", response);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * LLM Errors
+ * Failures of provider requests, classified so the adapter can decide whether
+ * to retry, fall back to the next provider or give up
+ */
+
+// Throttling, timeouts and transient server failures (529 is Anthropic's "overloaded")
+const RETRYABLE_STATUS = [408, 425, 429, 500, 502, 503, 504, 529];
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly retryable: boolean = status !== undefined && RETRYABLE_STATUS.includes(status),
+    /** Delay the provider asked for before the next request */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+/**
+ * Raised when every provider in a fallback chain failed or was skipped
+ */
+export class LLMUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: Array<{ provider: string; model: string; error: string }>
+  ) {
+    super(message);
+    this.name = "LLMUnavailableError";
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Error for a non-OK provider response, reading its body and Retry-After
+ */
+export async function providerError(provider: string, label: string, response: Response): Promise<LLMProviderError> {
+  const errorText = await response.text();
+  return new LLMProviderError(
+    `${label} failed: ${response.status} ${response.statusText} – ${errorText}`,
+    provider,
+    response.status,
+    undefined,
+    parseRetryAfter(response.headers.get("retry-after"))
+  );
+}
+
+/**
+ * Whether another attempt at the same provider may succeed. Network failures
+ * (fetch rejects with a TypeError) and timeouts are transient; configuration
+ * and request errors are not.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMProviderError) return error.retryable;
+  if (error instanceof TypeError) return true;
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
@@ -1,72 +1,71 @@
 import { LLMProvider } from "./LLMProvider";
-import { Message, InvokeResult, InvokeParams, TextContent, ImageContent } from "./types";
+import { Message, InvokeResult, InvokeParams, TextContent, ImageContent, ProviderModel, StreamChunk, ToolCall, ToolChoice, Usage } from "./types";
+import { readServerSentEvents } from "./streaming";
+import { providerError } from "./errors";
 import { ENV } from "../env";
 
+type GeminiPart = {
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+  inline_data?: { mime_type: string; data: string };
+};
+
+type GeminiContent = { role: "user" | "model"; parts: GeminiPart[] };
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * functionResponse.response must be an object; other tool results are wrapped
+ */
+function toFunctionResponse(content: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { result: parsed };
+  } catch {
+    return { result: content };
+  }
+}
+
+function finishReason(geminiReason: string | undefined, hasToolCalls: boolean): string | null {
+  if (hasToolCalls) return "tool_calls";
+  if (!geminiReason) return null;
+  if (geminiReason === "STOP") return "stop";
+  if (geminiReason === "MAX_TOKENS") return "length";
+  return geminiReason.toLowerCase();
+}
+
 export class GoogleGeminiProvider implements LLMProvider {
+  readonly structuredOutput = "json_schema" as const;
   private apiKey: string;
   private baseUrl: string;
 
   constructor() {
     this.apiKey = ENV.googleApiKey || "";
     this.baseUrl = ENV.googleApiUrl || "https://generativelanguage.googleapis.com/v1beta";
-    if (!this.apiKey) {
-      throw new Error("Google API Key is not configured");
-    }
   }
 
   async invoke(params: InvokeParams): Promise<InvokeResult> {
-    const {
-      messages,
-      model,
-      maxTokens,
-    } = params;
-
-    const geminiMessages = await Promise.all(messages.map(async msg => {
-      let parts: any[] = [];
-      
-      if (typeof msg.content === "string") {
-        parts = [{ text: msg.content }];
-      } else if (Array.isArray(msg.content)) {
-        parts = await Promise.all(msg.content.map(async c => {
-          if (typeof c === "string") return { text: c };
-          if (c.type === "text") return { text: (c as TextContent).text };
-          if (c.type === "image_url") {
-            const base64 = await this.fetchImageAsBase64((c as ImageContent).image_url.url);
-            return { inline_data: { mime_type: "image/jpeg", data: base64 } };
-          }
-          return {};
-        }));
-      }
-
-      return {
-        role: msg.role === "assistant" ? "model" : "user",
-        parts,
-      };
-    }));
-
-    const payload: Record<string, unknown> = {
-      contents: geminiMessages,
-      generationConfig: {
-        maxOutputTokens: maxTokens,
-      },
-    };
-
-    const response = await fetch(`${this.baseUrl}/models/${model}:generateContent?key=${this.apiKey}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Gemini invoke failed: ${response.status} ${response.statusText} – ${errorText}`
-      );
-    }
+    const { model } = params;
+    const response = await this.request(model, "generateContent", await this.buildPayload(params), params.signal);
 
     const jsonResponse = await response.json();
+    const candidate = jsonResponse.candidates?.[0];
+    const parts: GeminiPart[] = candidate?.content?.parts ?? [];
+    const toolCalls: ToolCall[] = parts
+      .filter(part => part.functionCall)
+      .map((part, i) => ({
+        id: `gemini-call-${Date.now()}-${i}`,
+        type: "function",
+        function: { name: part.functionCall!.name, arguments: JSON.stringify(part.functionCall!.args ?? {}) },
+      }));
 
     const invokeResult: InvokeResult = {
       id: `gemini-chat-${Date.now()}`,
@@ -77,9 +76,12 @@ export class GoogleGeminiProvider implements LLMProvider {
           index: 0,
           message: {
             role: "assistant",
-            content: jsonResponse.candidates[0].content.parts[0].text,
+            content: parts.map(part => part.text ?? "").join(""),
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
           },
-          finish_reason: jsonResponse.promptFeedback?.blockReason ? "content_filter" : "stop",
+          finish_reason: jsonResponse.promptFeedback?.blockReason
+            ? "content_filter"
+            : finishReason(candidate?.finishReason, toolCalls.length > 0) ?? "stop",
         },
       ],
       usage: {
@@ -92,18 +94,232 @@ export class GoogleGeminiProvider implements LLMProvider {
     return invokeResult;
   }
 
-  async getAvailableModels(): Promise<string[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/models?key=${this.apiKey}`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch Gemini models: ${response.statusText}`);
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    const response = await this.request(
+      params.model,
+      "streamGenerateContent",
+      await this.buildPayload(params),
+      params.signal
+    );
+
+    if (!response.body) {
+      throw new Error("Gemini stream failed: response has no body");
+    }
+
+    let geminiReason: string | undefined;
+    let blocked = false;
+    let usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let toolCallIndex = 0;
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const chunk = JSON.parse(data);
+      const candidate = chunk.candidates?.[0];
+
+      for (const part of candidate?.content?.parts ?? []) {
+        if (typeof part.text === "string" && part.text.length > 0) {
+          yield { type: "text", delta: part.text };
+        } else if (part.functionCall) {
+          // Gemini emits each function call whole rather than as fragments.
+          yield {
+            type: "tool_call",
+            index: toolCallIndex,
+            id: `gemini-call-${Date.now()}-${toolCallIndex}`,
+            name: part.functionCall.name,
+            argumentsDelta: JSON.stringify(part.functionCall.args ?? {}),
+          };
+          toolCallIndex++;
+        }
+      }
+
+      if (candidate?.finishReason) {
+        geminiReason = candidate.finishReason;
+      }
+      if (chunk.promptFeedback?.blockReason) {
+        blocked = true;
       }
-      const jsonResponse = await response.json();
-      return jsonResponse.models.map((m: { name: string }) => m.name);
-    } catch (error) {
-      console.error("Error fetching Gemini models:", error);
-      return ["gemini-1.5-flash", "gemini-1.5-pro", "gemini-2.0-flash-exp"];
+      if (chunk.usageMetadata) {
+        usage = {
+          prompt_tokens: chunk.usageMetadata.promptTokenCount || 0,
+          completion_tokens: chunk.usageMetadata.candidatesTokenCount || 0,
+          total_tokens: (chunk.usageMetadata.promptTokenCount || 0) + (chunk.usageMetadata.candidatesTokenCount || 0),
+        };
+      }
+    }
+
+    yield {
+      type: "usage",
+      model: params.model,
+      usage,
+      finish_reason: blocked ? "content_filter" : finishReason(geminiReason, toolCallIndex > 0),
+    };
+  }
+
+  /**
+   * Models that can generate content, leaving out embedding models. Names
+   * come as "models/<id>" and are listed without the prefix.
+   */
+  async getAvailableModels(): Promise<ProviderModel[]> {
+    if (!this.apiKey) {
+      throw new Error("Google API Key is not configured");
     }
+
+    const response = await fetch(`${this.baseUrl}/models?key=${this.apiKey}&pageSize=1000`);
+    if (!response.ok) {
+      throw await providerError("gemini", "List models", response);
+    }
+    const jsonResponse = (await response.json()) as {
+      models?: Array<{ name: string; inputTokenLimit?: number; supportedGenerationMethods?: string[] }>;
+    };
+    return (jsonResponse.models ?? [])
+      .filter(m => (m.supportedGenerationMethods ?? []).includes("generateContent"))
+      .map(m => ({ id: m.name.replace(/^models\//, ""), contextWindow: m.inputTokenLimit }));
+  }
+
+  private async buildPayload(params: InvokeParams): Promise<Record<string, unknown>> {
+    const {
+      messages,
+      maxTokens,
+      tools,
+    } = params;
+    const responseFormat = params.responseFormat || params.response_format;
+
+    const system = messages
+      .filter(msg => msg.role === "system")
+      .map(msg => this.contentToText(msg.content))
+      .join("\n\n");
+
+    const payload: Record<string, unknown> = {
+      contents: await this.toContents(messages.filter(msg => msg.role !== "system")),
+      generationConfig: {
+        maxOutputTokens: maxTokens,
+        responseMimeType: responseFormat && responseFormat.type !== "text" ? "application/json" : undefined,
+        responseJsonSchema: responseFormat?.type === "json_schema" ? responseFormat.json_schema.schema : undefined,
+      },
+    };
+    if (system) {
+      payload.systemInstruction = { parts: [{ text: system }] };
+    }
+
+    if (tools && tools.length > 0) {
+      payload.tools = [
+        {
+          functionDeclarations: tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            parametersJsonSchema: tool.function.parameters ?? { type: "object", properties: {} },
+          })),
+        },
+      ];
+      const functionCallingConfig = this.normalizeToolChoice(params.toolChoice || params.tool_choice);
+      if (functionCallingConfig) {
+        payload.toolConfig = { functionCallingConfig };
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Map chat messages to Gemini contents: assistant tool calls become
+   * functionCall parts, tool results become functionResponse parts of a user
+   * turn, and consecutive turns of the same role are merged so parallel calls
+   * are answered together
+   */
+  private async toContents(messages: Message[]): Promise<GeminiContent[]> {
+    const contents: GeminiContent[] = [];
+    const toolNames = new Map<string, string>();
+
+    for (const msg of messages) {
+      let role: GeminiContent["role"];
+      let parts: GeminiPart[];
+
+      if (msg.role === "tool" || msg.role === "function") {
+        role = "user";
+        parts = [{
+          functionResponse: {
+            name: msg.name ?? toolNames.get(msg.tool_call_id ?? "") ?? "",
+            response: toFunctionResponse(this.contentToText(msg.content)),
+          },
+        }];
+      } else {
+        role = msg.role === "assistant" ? "model" : "user";
+        parts = (await this.toParts(msg.content)).filter(part => part.text === undefined || part.text.length > 0);
+        (msg.tool_calls ?? []).forEach(call => {
+          toolNames.set(call.id, call.function.name);
+          parts.push({ functionCall: { name: call.function.name, args: parseArguments(call.function.arguments) } });
+        });
+      }
+
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
+  }
+
+  private async toParts(content: Message["content"]): Promise<GeminiPart[]> {
+    if (typeof content === "string") {
+      return [{ text: content }];
+    }
+    if (!Array.isArray(content)) {
+      return this.toParts([content]);
+    }
+    return Promise.all(content.map(async c => {
+      if (typeof c === "string") return { text: c };
+      if (c.type === "text") return { text: (c as TextContent).text };
+      if (c.type === "image_url") {
+        const base64 = await this.fetchImageAsBase64((c as ImageContent).image_url.url);
+        return { inline_data: { mime_type: "image/jpeg", data: base64 } };
+      }
+      return {};
+    }));
+  }
+
+  private contentToText(content: Message["content"]): string {
+    const parts = Array.isArray(content) ? content : [content];
+    return parts
+      .map(part => (typeof part === "string" ? part : part.type === "text" ? part.text : JSON.stringify(part)))
+      .join("\n");
+  }
+
+  private normalizeToolChoice(toolChoice: ToolChoice | undefined): Record<string, unknown> | undefined {
+    if (!toolChoice) return undefined;
+    if (toolChoice === "auto") return { mode: "AUTO" };
+    if (toolChoice === "none") return { mode: "NONE" };
+    if (toolChoice === "required") return { mode: "ANY" };
+    const name = "name" in toolChoice ? toolChoice.name : toolChoice.function.name;
+    return { mode: "ANY", allowedFunctionNames: [name] };
+  }
+
+  private async request(
+    model: string,
+    method: "generateContent" | "streamGenerateContent",
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error("Google API Key is not configured");
+    }
+
+    const query = method === "streamGenerateContent" ? `alt=sse&key=${this.apiKey}` : `key=${this.apiKey}`;
+    const response = await fetch(`${this.baseUrl}/models/${model}:${method}?${query}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await providerError("gemini", "Gemini invoke", response);
+    }
+
+    return response;
   }
 
   private async fetchImageAsBase64(url: string): Promise<string> {
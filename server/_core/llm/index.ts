@@ -1,15 +1,77 @@
-import { llmAdapter } from "./LLMAdapter";
-import { InvokeParams, InvokeResult, Message, Tool, ToolChoice, ResponseFormat, JsonSchema, OutputSchema } from "./types";
+import { llmAdapter, routesForModel } from "./LLMAdapter";
+import { InvokeParams, InvokeResult, Message, Tool, ToolCall, ToolChoice, ResponseFormat, JsonSchema, OutputSchema, StreamChunk, Usage } from "./types";
 import { ENV } from "../env";
+import { assertWithinBudget, recordUsage, UsageScope } from "./usage";
 
-export { Message, Tool, ToolChoice, InvokeResult, ResponseFormat, JsonSchema, OutputSchema };
+export {
+  StructuredOutputError,
+  structuredOutputMode,
+  responseFormatFor,
+  schemaInstruction,
+  parseStructured,
+  repairInstruction,
+} from "./structured";
+export type { StructuredOutput } from "./structured";
+export { LLMProviderError, LLMUnavailableError } from "./errors";
+export { parseProviderRoutes, routesForModel } from "./LLMAdapter";
+export type { ProviderRoute } from "./LLMAdapter";
+export { OpenAICompatibleProvider } from "./openaiCompatibleProvider";
+export type { OpenAICompatibleOptions } from "./openaiCompatibleProvider";
+export { AnthropicProvider } from "./anthropicProvider";
+export type { AnthropicOptions } from "./anthropicProvider";
+export { parseProviderConfigs } from "./providerConfig";
+export type { ProviderConfig } from "./providerConfig";
+export {
+  BudgetExceededError,
+  assertWithinBudget,
+  checkUsageBudget,
+  budgetPeriod,
+  budgetPeriodBounds,
+  getUserBudget,
+  clearModelCostCache,
+  DEFAULT_MODEL_COSTS,
+} from "./usage";
+export type { UsageAttribution, UsageScope, ModelPrice } from "./usage";
+export { listModelCapabilities } from "./models";
+export type { ModelCapabilities, ProviderModels } from "./models";
+export type { StructuredOutputMode, ProviderModel } from "./types";
+export { InvokeParams, Message, Tool, ToolCall, ToolChoice, InvokeResult, ResponseFormat, JsonSchema, OutputSchema, StreamChunk, Usage };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  const providerName = ENV.llmProvider || "openai"; // Default to openai
-  return llmAdapter.invoke(providerName, params);
+/**
+ * Invokes the configured provider, or the one named by a "provider:model"
+ * model, falling back along LLM_FALLBACK_CHAIN when it keeps failing.
+ * `provider` and `model` on the result say who answered.
+ *
+ * The call's tokens are recorded against `scope`, and a call the scope's
+ * user or research budget no longer allows fails with BudgetExceededError
+ * before reaching a provider.
+ */
+export async function invokeLLM(params: InvokeParams, scope: UsageScope = {}): Promise<InvokeResult> {
+  await assertWithinBudget(scope);
+  const { routes, model } = routesForModel(params.model);
+  const result = await llmAdapter.invoke(routes, { ...params, model });
+  await recordUsage(scope, result.provider ?? ENV.llmProvider, result.model, result.usage);
+  return result;
+}
+
+/**
+ * Streams text deltas, tool-call deltas and a final usage record as the
+ * configured provider (or the first fallback that starts answering)
+ * generates them.
+ */
+export async function* invokeLLMStream(params: InvokeParams, scope: UsageScope = {}): AsyncGenerator<StreamChunk> {
+  await assertWithinBudget(scope);
+  const { routes, model } = routesForModel(params.model);
+  for await (const chunk of llmAdapter.stream(routes, { ...params, model })) {
+    if (chunk.type === "usage") {
+      await recordUsage(scope, chunk.provider ?? ENV.llmProvider, chunk.model, chunk.usage);
+    }
+    yield chunk;
+  }
 }
 
 export async function getAvailableLLMModels(providerName?: string): Promise<string[]> {
   const selectedProvider = providerName || ENV.llmProvider || "openai";
-  return llmAdapter.getAvailableModels(selectedProvider);
+  const models = await llmAdapter.getAvailableModels(selectedProvider);
+  return models.map((model) => model.id);
 }
@@ -0,0 +1,99 @@
+/**
+ * Model Discovery
+ * Lists the models each registered provider actually serves, with their
+ * capabilities and prices.
+ */
+
+import { llmAdapter } from "./LLMAdapter";
+import { ModelPrice, longestPrefixMatch, modelPrice } from "./usage";
+import { ProviderModel } from "./types";
+
+type KnownCapabilities = { contextWindow: number; tools: boolean; vision: boolean };
+
+/**
+ * Capabilities of well-known model families, for providers whose model list
+ * does not report them. Matched on the longest prefix of the model id.
+ */
+const KNOWN_MODEL_CAPABILITIES = new Map<string, KnownCapabilities>(
+  Object.entries({
+    "gpt-4.1": { contextWindow: 1_047_576, tools: true, vision: true },
+    "gpt-4o": { contextWindow: 128_000, tools: true, vision: true },
+    o3: { contextWindow: 200_000, tools: true, vision: true },
+    "o4-mini": { contextWindow: 200_000, tools: true, vision: true },
+    "gemini-2.5": { contextWindow: 1_048_576, tools: true, vision: true },
+    "gemini-2.0-flash": { contextWindow: 1_048_576, tools: true, vision: true },
+    "gemini-1.5-pro": { contextWindow: 2_097_152, tools: true, vision: true },
+    "gemini-1.5-flash": { contextWindow: 1_048_576, tools: true, vision: true },
+    "claude-": { contextWindow: 200_000, tools: true, vision: true },
+    "llama3.1": { contextWindow: 131_072, tools: true, vision: false },
+    "llama3.2": { contextWindow: 131_072, tools: true, vision: false },
+    "llama3.2-vision": { contextWindow: 131_072, tools: false, vision: true },
+    "llama3.3": { contextWindow: 131_072, tools: true, vision: false },
+    "qwen2.5": { contextWindow: 32_768, tools: true, vision: false },
+    mistral: { contextWindow: 32_768, tools: true, vision: false },
+    llava: { contextWindow: 4_096, tools: false, vision: true },
+  })
+);
+
+export interface ModelCapabilities {
+  id: string;
+  provider: string;
+  /** Input tokens the model accepts, when known */
+  contextWindow: number | null;
+  tools: boolean;
+  vision: boolean;
+  /** Whether responses can be constrained to a JSON schema */
+  jsonSchema: boolean;
+  /** Null when the model is not priced */
+  cost: ModelPrice | null;
+}
+
+export interface ProviderModels {
+  provider: string;
+  /** False when the provider's model list could not be fetched */
+  available: boolean;
+  error?: string;
+  models: ModelCapabilities[];
+}
+
+async function describe(provider: string, model: ProviderModel, jsonSchema: boolean): Promise<ModelCapabilities> {
+  // Aggregators such as OpenRouter prefix ids with the vendor, e.g. "openai/gpt-4.1"
+  const known = longestPrefixMatch(KNOWN_MODEL_CAPABILITIES, model.id.slice(model.id.lastIndexOf("/") + 1));
+  return {
+    id: model.id,
+    provider,
+    contextWindow: model.contextWindow ?? known?.contextWindow ?? null,
+    tools: model.tools ?? known?.tools ?? false,
+    vision: model.vision ?? known?.vision ?? false,
+    jsonSchema,
+    cost: await modelPrice(provider, model.id),
+  };
+}
+
+/**
+ * Models of every registered provider. What a provider reports about a model
+ * wins over the known families above; a provider that cannot be reached is
+ * listed as unavailable with its error.
+ */
+export async function listModelCapabilities(options: { refresh?: boolean } = {}): Promise<ProviderModels[]> {
+  return Promise.all(
+    llmAdapter.getProviderNames().map(async (provider): Promise<ProviderModels> => {
+      try {
+        const models = await llmAdapter.getAvailableModels(provider, options);
+        const jsonSchema = llmAdapter.getProvider(provider).structuredOutput === "json_schema";
+        return {
+          provider,
+          available: true,
+          models: await Promise.all(models.map((model) => describe(provider, model, jsonSchema))),
+        };
+      } catch (error) {
+        return {
+          provider,
+          available: false,
+          error: error instanceof Error ? error.message : String(error),
+          models: [],
+        };
+      }
+    })
+  );
+}
@@ -1,8 +1,41 @@
 import { LLMProvider } from "./LLMProvider";
-import { Message, InvokeResult, InvokeParams, TextContent, ImageContent } from "./types";
+import { InvokeResult, InvokeParams, TextContent, ImageContent, ProviderModel, StreamChunk, Tool, ToolCall, Usage } from "./types";
+import { readNdjson } from "./streaming";
+import { providerError } from "./errors";
 import { ENV } from "../env";
 
+type OllamaToolCall = { id?: string; function: { name: string; arguments: Record<string, unknown> | string } };
+
+/**
+ * Tool calls in the OpenAI shape. Ollama sends arguments as an object and
+ * may omit call ids, so ids are made up where missing.
+ */
+function toToolCalls(calls: OllamaToolCall[], firstIndex = 0): ToolCall[] {
+  return calls.map((call, i) => ({
+    id: call.id || `ollama-call-${Date.now()}-${firstIndex + i}`,
+    type: "function",
+    function: {
+      name: call.function.name,
+      arguments: typeof call.function.arguments === "string" ? call.function.arguments : JSON.stringify(call.function.arguments ?? {}),
+    },
+  }));
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function finishReason(hasToolCalls: boolean, doneReason?: string): string {
+  if (hasToolCalls) return "tool_calls";
+  return doneReason === "length" ? "length" : "stop";
+}
+
 export class OllamaProvider implements LLMProvider {
+  readonly structuredOutput = "json_schema" as const;
   private baseUrl: string;
 
   constructor() {
@@ -10,12 +43,135 @@ export class OllamaProvider implements LLMProvider {
   }
 
   async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const response = await this.request(this.buildPayload(params, false), params.signal);
+
+    const jsonResponse = await response.json();
+    const toolCalls = toToolCalls(jsonResponse.message.tool_calls ?? []);
+
+    const invokeResult: InvokeResult = {
+      id: jsonResponse.id || `ollama-chat-${Date.now()}`,
+      created: Date.now(),
+      model: jsonResponse.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: jsonResponse.message.content,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: finishReason(toolCalls.length > 0, jsonResponse.done_reason),
+        },
+      ],
+      usage: {
+        prompt_tokens: jsonResponse.prompt_eval_count || 0,
+        completion_tokens: jsonResponse.eval_count || 0,
+        total_tokens: (jsonResponse.prompt_eval_count || 0) + (jsonResponse.eval_count || 0),
+      },
+    };
+
+    return invokeResult;
+  }
+
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    const response = await this.request(this.buildPayload(params, true), params.signal);
+
+    if (!response.body) {
+      throw new Error("Ollama stream failed: response has no body");
+    }
+
+    let model = params.model;
+    let usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let doneReason: string | undefined;
+    let toolCallIndex = 0;
+
+    for await (const chunk of readNdjson<{
+      model?: string;
+      message?: { content?: string; tool_calls?: OllamaToolCall[] };
+      done?: boolean;
+      done_reason?: string;
+      prompt_eval_count?: number;
+      eval_count?: number;
+    }>(response.body)) {
+      if (chunk.model) model = chunk.model;
+
+      if (chunk.message?.content) {
+        yield { type: "text", delta: chunk.message.content };
+      }
+
+      // Ollama emits each tool call whole rather than as fragments
+      for (const toolCall of toToolCalls(chunk.message?.tool_calls ?? [], toolCallIndex)) {
+        yield {
+          type: "tool_call",
+          index: toolCallIndex++,
+          id: toolCall.id,
+          name: toolCall.function.name,
+          argumentsDelta: toolCall.function.arguments,
+        };
+      }
+
+      if (chunk.done) {
+        doneReason = chunk.done_reason;
+        usage = {
+          prompt_tokens: chunk.prompt_eval_count || 0,
+          completion_tokens: chunk.eval_count || 0,
+          total_tokens: (chunk.prompt_eval_count || 0) + (chunk.eval_count || 0),
+        };
+      }
+    }
+
+    yield { type: "usage", model, usage, finish_reason: finishReason(toolCallIndex > 0, doneReason) };
+  }
+
+  /**
+   * Locally pulled models from /tags, with capabilities and context length
+   * from /show. Embedding-only models are left out.
+   */
+  async getAvailableModels(): Promise<ProviderModel[]> {
+    const response = await fetch(`${this.baseUrl}/tags`);
+    if (!response.ok) {
+      throw await providerError("ollama", "List models", response);
+    }
+    const jsonResponse = (await response.json()) as { models: Array<{ name: string }> };
+
+    const models = await Promise.all(jsonResponse.models.map(m => this.describeModel(m.name)));
+    return models.filter((model): model is ProviderModel => model !== null);
+  }
+
+  private async describeModel(id: string): Promise<ProviderModel | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/show`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: id }),
+      });
+      if (!response.ok) return { id };
+
+      const details = (await response.json()) as { capabilities?: string[]; model_info?: Record<string, unknown> };
+      // Older Ollama versions report no capabilities
+      const capabilities = details.capabilities;
+      if (capabilities && !capabilities.includes("completion")) return null;
+
+      const contextKey = Object.keys(details.model_info ?? {}).find(key => key.endsWith(".context_length"));
+      const contextLength = contextKey ? details.model_info![contextKey] : undefined;
+      return {
+        id,
+        contextWindow: typeof contextLength === "number" ? contextLength : undefined,
+        tools: capabilities ? capabilities.includes("tools") : undefined,
+        vision: capabilities ? capabilities.includes("vision") : undefined,
+      };
+    } catch {
+      return { id };
+    }
+  }
+
+  private buildPayload(params: InvokeParams, stream: boolean): Record<string, unknown> {
     const {
       messages,
       model,
       maxTokens,
-      responseFormat,
     } = params;
+    const responseFormat = params.responseFormat || params.response_format;
 
     const ollamaMessages = messages.map(msg => {
       let content = "";
@@ -30,6 +186,20 @@ export class OllamaProvider implements LLMProvider {
         }).join("\n");
       }
 
+      if (msg.role === "tool" || msg.role === "function") {
+        return { role: "tool", content, tool_name: msg.name };
+      }
+
+      if (msg.role === "assistant" && msg.tool_calls && msg.tool_calls.length > 0) {
+        return {
+          role: msg.role,
+          content,
+          tool_calls: msg.tool_calls.map(call => ({
+            function: { name: call.function.name, arguments: parseArguments(call.function.arguments) },
+          })),
+        };
+      }
+
       return {
         role: msg.role,
         content,
@@ -42,62 +212,56 @@ export class OllamaProvider implements LLMProvider {
       options: {
         num_predict: maxTokens,
       },
-      format: responseFormat?.type === "json_object" ? "json" : undefined,
-      stream: false,
+      format: this.normalizeFormat(responseFormat),
+      stream,
     };
 
+    const tools = this.selectTools(params);
+    if (tools.length > 0) {
+      payload.tools = tools;
+    }
+
+    return payload;
+  }
+
+  /**
+   * A JSON schema is passed as `format`, which constrains decoding to it
+   */
+  private normalizeFormat(responseFormat: InvokeParams["responseFormat"]): unknown {
+    if (responseFormat?.type === "json_schema") return responseFormat.json_schema.schema;
+    if (responseFormat?.type === "json_object") return "json";
+    return undefined;
+  }
+
+  /**
+   * Ollama has no tool_choice: "none" withholds the tools and naming a tool
+   * offers only that one. "required" cannot be enforced.
+   */
+  private selectTools(params: InvokeParams): Tool[] {
+    const { tools = [] } = params;
+    const toolChoice = params.toolChoice || params.tool_choice;
+    if (toolChoice === "none") return [];
+    if (toolChoice && typeof toolChoice === "object") {
+      const name = "name" in toolChoice ? toolChoice.name : toolChoice.function.name;
+      return tools.filter(tool => tool.function.name === name);
+    }
+    return tools;
+  }
+
+  private async request(payload: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
     const response = await fetch(`${this.baseUrl}/chat`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify(payload),
+      signal,
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Ollama invoke failed: ${response.status} ${response.statusText} – ${errorText}`
-      );
+      throw await providerError("ollama", "Ollama invoke", response);
     }
 
-    const jsonResponse = await response.json();
-
-    const invokeResult: InvokeResult = {
-      id: jsonResponse.id || `ollama-chat-${Date.now()}`,
-      created: Date.now(),
-      model: jsonResponse.model,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: "assistant",
-            content: jsonResponse.message.content,
-          },
-          finish_reason: jsonResponse.done ? "stop" : "stop",
-        },
-      ],
-      usage: {
-        prompt_tokens: jsonResponse.prompt_eval_count || 0,
-        completion_tokens: jsonResponse.eval_count || 0,
-        total_tokens: (jsonResponse.prompt_eval_count || 0) + (jsonResponse.eval_count || 0),
-      },
-    };
-
-    return invokeResult;
-  }
-
-  async getAvailableModels(): Promise<string[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/tags`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch Ollama models: ${response.statusText}`);
-      }
-      const jsonResponse = await response.json();
-      return jsonResponse.models.map((m: { name: string }) => m.name);
-    } catch (error) {
-      console.error("Error fetching Ollama models:", error);
-      return ["llama3", "mistral", "phi3"];
-    }
+    return response;
   }
 }
@@ -0,0 +1,333 @@
+import { LLMProvider } from "./LLMProvider";
+import { 
+  Message, 
+  Tool, 
+  ToolChoice, 
+  InvokeResult, 
+  ResponseFormat, 
+  OutputSchema, 
+  ToolChoiceExplicit, 
+  InvokeParams, 
+  TextContent, 
+  ImageContent, 
+  FileContent, 
+  MessageContent,
+  ProviderModel,
+  StreamChunk,
+  StructuredOutputMode,
+  Usage
+} from "./types";
+import { readServerSentEvents } from "./streaming";
+import { providerError } from "./errors";
+
+export interface OpenAICompatibleOptions {
+  /** Name the provider is registered under, used in errors */
+  name: string;
+  /** API root that /chat/completions and /models are appended to, e.g. http://localhost:8000/v1 */
+  baseUrl: string;
+  /** Sent as a bearer token; local servers usually need none */
+  apiKey?: string;
+  /** Extra request headers, such as OpenRouter's HTTP-Referer */
+  headers?: Record<string, string>;
+  /** Models to offer instead of asking the server's /models endpoint */
+  models?: string[];
+  /** Whether the server enforces json_schema response formats; defaults to json_object */
+  structuredOutput?: StructuredOutputMode;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: vLLM, LM Studio,
+ * llama.cpp server, OpenRouter and the like
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly structuredOutput: StructuredOutputMode;
+
+  constructor(protected readonly options: OpenAICompatibleOptions) {
+    this.structuredOutput = options.structuredOutput ?? "json_object";
+  }
+
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const response = await this.request(this.buildPayload(params), params.signal);
+    const result = (await response.json()) as InvokeResult;
+    // Content is null alongside tool calls; callers expect text
+    result.choices.forEach(choice => {
+      if (choice.message.content === null) choice.message.content = "";
+    });
+    return result;
+  }
+
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    const response = await this.request({
+      ...this.buildPayload(params),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, params.signal);
+
+    if (!response.body) {
+      throw new Error("LLM stream failed: response has no body");
+    }
+
+    let model = params.model;
+    let finishReason: string | null = null;
+    let usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const chunk = JSON.parse(data) as {
+        model?: string;
+        choices?: Array<{
+          delta?: {
+            content?: string | null;
+            tool_calls?: Array<{
+              index: number;
+              id?: string;
+              function?: { name?: string; arguments?: string };
+            }>;
+          };
+          finish_reason?: string | null;
+        }>;
+        usage?: Usage | null;
+      };
+
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) usage = chunk.usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta?.content) {
+        yield { type: "text", delta: choice.delta.content };
+      }
+
+      for (const toolCall of choice.delta?.tool_calls ?? []) {
+        yield {
+          type: "tool_call",
+          index: toolCall.index,
+          id: toolCall.id,
+          name: toolCall.function?.name,
+          argumentsDelta: toolCall.function?.arguments ?? "",
+        };
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    yield { type: "usage", model, usage, finish_reason: finishReason };
+  }
+
+  /**
+   * Models from /models. OpenRouter reports context length, input
+   * modalities and supported parameters, and vLLM its max_model_len.
+   */
+  async getAvailableModels(): Promise<ProviderModel[]> {
+    if (this.options.models) return this.options.models.map(id => ({ id }));
+
+    const response = await fetch(`${this.apiRoot()}/models`, { headers: this.headers() });
+    if (!response.ok) {
+      throw await providerError(this.options.name, "List models", response);
+    }
+    const jsonResponse = (await response.json()) as {
+      data: Array<{
+        id: string;
+        context_length?: number;
+        max_model_len?: number;
+        architecture?: { input_modalities?: string[] };
+        supported_parameters?: string[];
+      }>;
+    };
+    return jsonResponse.data.map(m => ({
+      id: m.id,
+      contextWindow: m.context_length ?? m.max_model_len,
+      tools: m.supported_parameters ? m.supported_parameters.includes("tools") : undefined,
+      vision: m.architecture?.input_modalities ? m.architecture.input_modalities.includes("image") : undefined,
+    }));
+  }
+
+  /**
+   * API root without a trailing slash
+   */
+  protected apiRoot(): string {
+    return this.options.baseUrl.replace(/\/$/, "");
+  }
+
+  protected apiKey(): string | undefined {
+    return this.options.apiKey;
+  }
+
+  private headers(): Record<string, string> {
+    const apiKey = this.apiKey();
+    return {
+      ...this.options.headers,
+      ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+
+  private buildPayload(params: InvokeParams): Record<string, unknown> {
+    const {
+      messages,
+      tools,
+      toolChoice,
+      tool_choice,
+      outputSchema,
+      output_schema,
+      responseFormat,
+      response_format,
+      model,
+    } = params;
+
+    const payload: Record<string, unknown> = {
+      model: model,
+      messages: messages.map(this.normalizeMessage),
+    };
+
+    if (tools && tools.length > 0) {
+      payload.tools = tools;
+    }
+
+    const normalizedToolChoice = this.normalizeToolChoice(
+      toolChoice || tool_choice,
+      tools
+    );
+    if (normalizedToolChoice) {
+      payload.tool_choice = normalizedToolChoice;
+    }
+
+    payload.max_tokens = params.maxTokens || 32768;
+    
+    const normalizedResponseFormat = this.normalizeResponseFormat({
+      responseFormat,
+      response_format,
+      outputSchema,
+      output_schema,
+    });
+
+    if (normalizedResponseFormat) {
+      payload.response_format = normalizedResponseFormat;
+    }
+
+    return payload;
+  }
+
+  private async request(payload: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.apiRoot()}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...this.headers(),
+      },
+      body: JSON.stringify(payload),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await providerError(this.options.name, "LLM invoke", response);
+    }
+
+    return response;
+  }
+
+  private ensureArray(value: MessageContent | MessageContent[]): MessageContent[] {
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private normalizeContentPart(part: MessageContent): TextContent | ImageContent | FileContent {
+    if (typeof part === "string") {
+      return { type: "text", text: part };
+    }
+    return part as TextContent | ImageContent | FileContent;
+  }
+
+  private normalizeMessage = (message: Message) => {
+    const { role, name, tool_call_id } = message;
+
+    if (role === "tool" || role === "function") {
+      const content = this.ensureArray(message.content)
+        .map(part => (typeof part === "string" ? part : JSON.stringify(part)))
+        .join("\n");
+
+      return {
+        role,
+        name,
+        tool_call_id,
+        content,
+      };
+    }
+
+    const contentParts = this.ensureArray(message.content).map(this.normalizeContentPart);
+
+    if (role === "assistant" && message.tool_calls && message.tool_calls.length > 0) {
+      return {
+        role,
+        name,
+        content: contentParts.length === 1 && contentParts[0].type === "text" ? contentParts[0].text : contentParts,
+        tool_calls: message.tool_calls,
+      };
+    }
+
+    if (contentParts.length === 1 && contentParts[0].type === "text") {
+      return {
+        role,
+        name,
+        content: contentParts[0].text,
+      };
+    }
+
+    return {
+      role,
+      name,
+      content: contentParts,
+    };
+  };
+
+  private normalizeToolChoice(
+    toolChoice: ToolChoice | undefined,
+    tools: Tool[] | undefined
+  ): "none" | "auto" | ToolChoiceExplicit | undefined {
+    if (!toolChoice) return undefined;
+
+    if (toolChoice === "none" || toolChoice === "auto") {
+      return toolChoice;
+    }
+
+    if (toolChoice === "required") {
+      if (!tools || tools.length === 0) {
+        throw new Error("tool_choice 'required' was provided but no tools were configured");
+      }
+      return {
+        type: "function",
+        function: { name: tools[0].function.name },
+      };
+    }
+
+    if ("name" in toolChoice) {
+      return {
+        type: "function",
+        function: { name: toolChoice.name },
+      };
+    }
+
+    return toolChoice as ToolChoiceExplicit;
+  }
+
+  private normalizeResponseFormat(params: {
+    responseFormat?: ResponseFormat;
+    response_format?: ResponseFormat;
+    outputSchema?: OutputSchema;
+    output_schema?: OutputSchema;
+  }): any {
+    const { responseFormat, response_format, outputSchema, output_schema } = params;
+    const explicitFormat = responseFormat || response_format;
+    if (explicitFormat) return explicitFormat;
+
+    const schema = outputSchema || output_schema;
+    if (!schema) return undefined;
+
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: schema.name,
+        schema: schema.schema,
+        ...(typeof schema.strict === "boolean" ? { strict: schema.strict } : {}),
+      },
+    };
+  }
+}
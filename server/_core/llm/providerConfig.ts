@@ -0,0 +1,74 @@
+/**
+ * Provider Configuration
+ * Extra LLM providers declared in LLM_PROVIDERS, so several OpenAI-compatible
+ * or Anthropic endpoints can be registered side by side under their own names
+ */
+
+import { z } from "zod";
+import { LLMProvider } from "./LLMProvider";
+import { OpenAICompatibleProvider } from "./openaiCompatibleProvider";
+import { AnthropicProvider } from "./anthropicProvider";
+
+const commonFields = {
+  // Used in LLM_PROVIDER and LLM_FALLBACK_CHAIN, where ":" separates the model
+  name: z.string().regex(/^[A-Za-z0-9][\w.-]*$/, "Provider names may use letters, digits, '.', '_' and '-'"),
+  apiKey: z.string().optional(),
+  /** Environment variable holding the key, to keep secrets out of the JSON */
+  apiKeyEnv: z.string().optional(),
+  models: z.array(z.string()).optional(),
+};
+
+export const providerConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("openai-compatible"),
+    ...commonFields,
+    baseUrl: z.string().url(),
+    headers: z.record(z.string(), z.string()).optional(),
+    structuredOutput: z.enum(["json_schema", "json_object"]).optional(),
+  }),
+  z.object({
+    type: z.literal("anthropic"),
+    ...commonFields,
+    baseUrl: z.string().url().optional(),
+  }),
+]);
+
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+
+/**
+ * Parse the JSON array of provider configs in LLM_PROVIDERS
+ */
+export function parseProviderConfigs(spec: string): ProviderConfig[] {
+  if (spec.trim().length === 0) return [];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(spec);
+  } catch (error) {
+    throw new Error(`LLM_PROVIDERS is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = z.array(providerConfigSchema).safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid LLM_PROVIDERS: ${parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const apiKey = config.apiKey ?? (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+
+  switch (config.type) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        name: config.name,
+        baseUrl: config.baseUrl,
+        apiKey,
+        headers: config.headers,
+        models: config.models,
+        structuredOutput: config.structuredOutput,
+      });
+    case "anthropic":
+      return new AnthropicProvider({ name: config.name, apiKey, baseUrl: config.baseUrl, models: config.models });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * LLM Request Resilience
+ * Retry with exponential backoff, per-attempt timeouts and a per-provider
+ * circuit breaker, used by LLMAdapter to ride out throttling and outages
+ */
+
+import { LLMProviderError } from "./errors";
+
+export interface RetryPolicy {
+  /** Retries per provider after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each one after */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed attempts that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips the provider before letting a trial request through */
+  cooldownMs: number;
+}
+
+/**
+ * Delay before retry `retry` (0-based) with full jitter: a random point
+ * between zero and the exponential cap, so concurrent callers spread out. A
+ * provider's Retry-After is honoured when it asks for longer.
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry));
+  const jittered = Math.random() * cap;
+  return retryAfterMs !== undefined ? Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs)) : jittered;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/**
+ * Run `run` with an abort signal that fires after `timeoutMs`. The attempt is
+ * rejected at the deadline even if the provider ignores the signal.
+ */
+export async function withTimeout<T>(
+  provider: string,
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMProviderError(`${provider} timed out after ${timeoutMs}ms`, provider, undefined, true));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+type CircuitState = { failures: number; openedAt: number | null };
+
+/**
+ * Consecutive-failure circuit breaker keyed by provider. An open circuit
+ * skips its provider until the cooldown passes; the next request is then a
+ * trial that closes the circuit on success or reopens it on failure.
+ */
+export class CircuitBreaker {
+  private circuits: Map<string, CircuitState> = new Map();
+
+  constructor(private readonly options: () => CircuitBreakerOptions) {}
+
+  private state(provider: string): CircuitState {
+    let state = this.circuits.get(provider);
+    if (!state) {
+      state = { failures: 0, openedAt: null };
+      this.circuits.set(provider, state);
+    }
+    return state;
+  }
+
+  /**
+   * Whether requests to the provider may be attempted now
+   */
+  isAvailable(provider: string, now: number = Date.now()): boolean {
+    const { openedAt } = this.state(provider);
+    return openedAt === null || now - openedAt >= this.options().cooldownMs;
+  }
+
+  isOpen(provider: string): boolean {
+    return this.state(provider).openedAt !== null;
+  }
+
+  recordSuccess(provider: string): void {
+    this.circuits.set(provider, { failures: 0, openedAt: null });
+  }
+
+  recordFailure(provider: string, now: number = Date.now()): void {
+    const state = this.state(provider);
+    state.failures++;
+    // A failed trial after the cooldown reopens the circuit straight away
+    if (state.openedAt !== null || state.failures >= this.options().failureThreshold) {
+      state.openedAt = now;
+    }
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+}
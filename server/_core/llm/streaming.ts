@@ -0,0 +1,70 @@
+/**
+ * Helpers for reading streamed HTTP responses from LLM providers.
+ */
+
+/**
+ * Split a response body into lines as they arrive. Stopping early (a consumer
+ * that breaks out, or an error) cancels the body so the connection is freed.
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex !== -1) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, "");
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf("\n");
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer.replace(/\r$/, "");
+    }
+  } finally {
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent events stream, stopping at the
+ * OpenAI-style `[DONE]` sentinel.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith("data:")) continue;
+
+    const data = line.slice("data:".length).trim();
+    if (data === "[DONE]") return;
+    if (data.length > 0) yield data;
+  }
+}
+
+/**
+ * Yield each JSON object of a newline-delimited JSON stream.
+ */
+export async function* readNdjson<T = unknown>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    if (line.trim().length === 0) continue;
+    yield JSON.parse(line) as T;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Structured Output
+ * Turns zod schemas into response formats and validates model output against them.
+ */
+
+import { z } from "zod";
+import { configuredRoutes, llmAdapter, ProviderRoute } from "./LLMAdapter";
+import { Message, ResponseFormat, StructuredOutputMode } from "./types";
+
+export interface StructuredOutput<T> {
+  name: string;
+  schema: z.ZodType<T>;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly rawOutput: string
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * How the configured provider can be asked for JSON. Providers that cannot
+ * enforce a schema get `json_object` plus the schema in the prompt. Given a
+ * chain, or without a provider name, every provider of the chain is
+ * considered, so a request stays valid for whichever one ends up answering it.
+ */
+export function structuredOutputMode(route: string | ProviderRoute[] = configuredRoutes()): StructuredOutputMode {
+  const routes = typeof route === "string" ? [{ provider: route }] : route;
+  // Unregistered providers are skipped when the request is sent, so they don't count
+  return routes.every(({ provider }) => llmAdapter.findProvider(provider)?.structuredOutput !== "json_object")
+    ? "json_schema"
+    : "json_object";
+}
+
+export function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+export function responseFormatFor<T>(output: StructuredOutput<T>, mode: StructuredOutputMode): ResponseFormat {
+  if (mode === "json_object") {
+    return { type: "json_object" };
+  }
+  return {
+    type: "json_schema",
+    json_schema: { name: output.name, schema: toJsonSchema(output.schema), strict: true },
+  };
+}
+
+/**
+ * Instructions that carry the schema for providers without schema enforcement
+ */
+export function schemaInstruction<T>(output: StructuredOutput<T>): Message {
+  return {
+    role: "system",
+    content:
+      `Respond with a single JSON object and nothing else. It must match this JSON schema (${output.name}):\n` +
+      JSON.stringify(toJsonSchema(output.schema), null, 2),
+  };
+}
+
+/**
+ * Pull the JSON value out of a response, tolerating code fences and prose
+ * around it
+ */
+function extractJson(text: string): string {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[{[]/);
+  if (start === -1) return candidate;
+  const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+  return end > start ? candidate.slice(start, end + 1) : candidate.slice(start);
+}
+
+export function parseStructured<T>(
+  text: string,
+  output: StructuredOutput<T>
+): { success: true; data: T } | { success: false; error: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const result = output.schema.safeParse(value);
+  if (!result.success) {
+    return { success: false, error: `JSON does not match the schema: ${z.prettifyError(result.error)}` };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Follow-up message asking the model to fix its previous output
+ */
+export function repairInstruction(error: string): Message {
+  return {
+    role: "user",
+    content: `Your previous response could not be used. ${error}\nRespond again with only the corrected JSON object.`,
+  };
+}
@@ -28,6 +28,7 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  tool_calls?: ToolCall[]; // Set on assistant messages that requested tools
 };
 
 export type Tool = {
@@ -65,6 +66,7 @@ export type InvokeParams = {
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
   model: string; // Added model parameter
+  signal?: AbortSignal; // Set by LLMAdapter to enforce its per-provider timeout
 };
 
 export type ToolCall = {
@@ -89,13 +91,39 @@ export type InvokeResult = {
     };
     finish_reason: string | null;
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: Usage;
+  /** Provider that answered, set by LLMAdapter after any retries and fallbacks */
+  provider?: string;
+};
+
+export type Usage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 };
 
+/**
+ * Incremental piece of a streamed completion. Tool-call deltas carry the
+ * call's `index` so consumers can stitch argument fragments back together;
+ * the stream always ends with a single `usage` chunk.
+ */
+export type StreamChunk =
+  | { type: "text"; delta: string }
+  | {
+      type: "tool_call";
+      index: number;
+      id?: string;
+      name?: string;
+      argumentsDelta: string;
+    }
+  | {
+      type: "usage";
+      model: string;
+      provider?: string;
+      usage: Usage;
+      finish_reason: string | null;
+    };
+
 export type JsonSchema = {
   name: string;
   schema: Record<string, unknown>;
@@ -104,6 +132,24 @@ export type JsonSchema = {
 
 export type OutputSchema = JsonSchema;
 
+/**
+ * A model a provider serves, with whatever capabilities the provider reports.
+ * Fields left out are filled in from known model families.
+ */
+export type ProviderModel = {
+  id: string;
+  /** Maximum prompt plus completion tokens */
+  contextWindow?: number;
+  tools?: boolean;
+  vision?: boolean;
+};
+
+/**
+ * How a provider can be asked for JSON: enforced against a schema, or only as
+ * a free-form JSON object
+ */
+export type StructuredOutputMode = "json_schema" | "json_object";
+
 export type ResponseFormat =
   | { type: "text" }
   | { type: "json_object" }
@@ -0,0 +1,254 @@
+/**
+ * LLM Usage Accounting
+ * Records the tokens and cost of every LLM call, attributed to the user,
+ * session, research plan and agent role it was made for, and enforces
+ * per-user and per-research token budgets
+ */
+
+import { ENV } from "../env";
+import { createLlmUsage, getLlmUsageTotals, getModelCosts, getUsageBudget } from "../../db";
+import { Usage } from "./types";
+
+export interface UsageAttribution {
+  userId?: number;
+  sessionId?: number;
+  researchPlanId?: string;
+  agentRole?: string;
+}
+
+/**
+ * Attribution of a call plus the research budget it counts against
+ */
+export interface UsageScope extends UsageAttribution {
+  /** Tokens the research may spend in total; checked when researchPlanId is set */
+  researchTokenBudget?: number;
+}
+
+/**
+ * Raised before an LLM call that a spent budget does not allow
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly scope: "user" | "research",
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly unit: "tokens" | "usd"
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export interface ModelPrice {
+  /** USD per million prompt tokens */
+  promptCostPerMillion: number;
+  /** USD per million completion tokens */
+  completionCostPerMillion: number;
+}
+
+/**
+ * List prices used when the model_costs table has no row for a model
+ */
+export const DEFAULT_MODEL_COSTS: Record<string, ModelPrice> = {
+  "gpt-4.1": { promptCostPerMillion: 2, completionCostPerMillion: 8 },
+  "gpt-4.1-mini": { promptCostPerMillion: 0.4, completionCostPerMillion: 1.6 },
+  "gpt-4.1-nano": { promptCostPerMillion: 0.1, completionCostPerMillion: 0.4 },
+  "gpt-4o": { promptCostPerMillion: 2.5, completionCostPerMillion: 10 },
+  "gpt-4o-mini": { promptCostPerMillion: 0.15, completionCostPerMillion: 0.6 },
+  "gemini-2.5-pro": { promptCostPerMillion: 1.25, completionCostPerMillion: 10 },
+  "gemini-2.5-flash": { promptCostPerMillion: 0.3, completionCostPerMillion: 2.5 },
+  "gemini-2.0-flash": { promptCostPerMillion: 0.1, completionCostPerMillion: 0.4 },
+  "claude-opus-4": { promptCostPerMillion: 15, completionCostPerMillion: 75 },
+  "claude-opus-4-5": { promptCostPerMillion: 5, completionCostPerMillion: 25 },
+  "claude-sonnet-4": { promptCostPerMillion: 3, completionCostPerMillion: 15 },
+  "claude-haiku-4-5": { promptCostPerMillion: 1, completionCostPerMillion: 5 },
+};
+
+// Providers that run on local hardware and cost nothing per token
+const FREE_PROVIDERS = ["ollama"];
+
+const COST_CACHE_TTL_MS = 5 * 60 * 1000;
+let costCache: { prices: Map<string, ModelPrice>; loadedAt: number } | null = null;
+
+export function clearModelCostCache(): void {
+  costCache = null;
+}
+
+async function modelPrices(): Promise<Map<string, ModelPrice>> {
+  if (costCache && Date.now() - costCache.loadedAt < COST_CACHE_TTL_MS) {
+    return costCache.prices;
+  }
+
+  const prices = new Map(Object.entries(DEFAULT_MODEL_COSTS));
+  try {
+    (await getModelCosts()).forEach((row) =>
+      prices.set(row.model, {
+        promptCostPerMillion: row.promptCostPerMillion,
+        completionCostPerMillion: row.completionCostPerMillion,
+      })
+    );
+  } catch (error) {
+    console.warn("[Usage] Could not load model costs, using defaults:", error);
+  }
+  costCache = { prices, loadedAt: Date.now() };
+  return prices;
+}
+
+/**
+ * Value of the longest listed name the model starts with, so dated snapshots
+ * such as gpt-4.1-mini-2025-04-14 are treated like their family
+ */
+export function longestPrefixMatch<T>(entries: Map<string, T>, model: string): T | undefined {
+  let match: string | undefined;
+  entries.forEach((_, name) => {
+    if (model.startsWith(name) && (!match || name.length > match.length)) match = name;
+  });
+  return match === undefined ? undefined : entries.get(match);
+}
+
+export function findModelPrice(prices: Map<string, ModelPrice>, model: string): ModelPrice | undefined {
+  return longestPrefixMatch(prices, model);
+}
+
+/**
+ * Price of a provider's model, or null when it is not priced
+ */
+export async function modelPrice(provider: string, model: string): Promise<ModelPrice | null> {
+  if (FREE_PROVIDERS.includes(provider)) return { promptCostPerMillion: 0, completionCostPerMillion: 0 };
+  return findModelPrice(await modelPrices(), model) ?? null;
+}
+
+/**
+ * USD cost of a call; unpriced models count as free
+ */
+export async function usageCost(provider: string, model: string, usage: Usage): Promise<number> {
+  const price = await modelPrice(provider, model);
+  if (!price) return 0;
+  return (
+    (usage.prompt_tokens * price.promptCostPerMillion + usage.completion_tokens * price.completionCostPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Store a call's usage. Accounting failures are logged rather than failing a
+ * call that has already been answered.
+ */
+export async function recordUsage(
+  attribution: UsageAttribution,
+  provider: string,
+  model: string,
+  usage: Usage | undefined
+): Promise<void> {
+  if (!usage) return;
+  try {
+    await createLlmUsage({
+      userId: attribution.userId ?? null,
+      sessionId: attribution.sessionId ?? null,
+      researchPlanId: attribution.researchPlanId ?? null,
+      agentRole: attribution.agentRole ?? null,
+      provider,
+      model,
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+      costUsd: await usageCost(provider, model, usage),
+    });
+  } catch (error) {
+    console.warn(`[Usage] Failed to record usage of ${provider}/${model}:`, error);
+  }
+}
+
+export type BudgetPeriod = "day" | "month";
+
+export function budgetPeriod(): BudgetPeriod {
+  return ENV.usageBudgetPeriod === "day" ? "day" : "month";
+}
+
+/**
+ * Start of the UTC day or month containing `now`, and of the one after it
+ */
+export function budgetPeriodBounds(now: Date = new Date(), period: BudgetPeriod = budgetPeriod()): { since: Date; until: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (period === "day") {
+    const day = now.getUTCDate();
+    return { since: new Date(Date.UTC(year, month, day)), until: new Date(Date.UTC(year, month, day + 1)) };
+  }
+  return { since: new Date(Date.UTC(year, month, 1)), until: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+/**
+ * A user's limits per budget period; 0 is unlimited
+ */
+export async function getUserBudget(userId: number): Promise<{ tokenLimit: number; costLimitUsd: number }> {
+  const override = await getUsageBudget(userId);
+  return {
+    tokenLimit: override?.tokenLimit ?? ENV.usageUserTokenBudget,
+    costLimitUsd: override?.costLimitUsd ?? ENV.usageUserCostBudgetUsd,
+  };
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString("en-US");
+const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * The budget a call in this scope would exceed, or null when it may go
+ * ahead. Lookups that fail are logged and let the call through, so an
+ * accounting outage does not stop analyses.
+ */
+export async function checkUsageBudget(scope: UsageScope): Promise<BudgetExceededError | null> {
+  try {
+    if (scope.researchPlanId !== undefined && scope.researchTokenBudget) {
+      const { totalTokens } = await getLlmUsageTotals({ researchPlanId: scope.researchPlanId });
+      if (totalTokens >= scope.researchTokenBudget) {
+        return new BudgetExceededError(
+          `Research token budget of ${formatTokens(scope.researchTokenBudget)} exhausted (${formatTokens(totalTokens)} used)`,
+          "research",
+          scope.researchTokenBudget,
+          totalTokens,
+          "tokens"
+        );
+      }
+    }
+
+    if (scope.userId !== undefined) {
+      const { tokenLimit, costLimitUsd } = await getUserBudget(scope.userId);
+      if (tokenLimit <= 0 && costLimitUsd <= 0) return null;
+
+      const period = budgetPeriod();
+      const { since, until } = budgetPeriodBounds(new Date(), period);
+      const totals = await getLlmUsageTotals({ userId: scope.userId, since });
+      const resets = `resets ${until.toISOString().slice(0, 10)}`;
+      const label = period === "day" ? "Daily" : "Monthly";
+
+      if (tokenLimit > 0 && totals.totalTokens >= tokenLimit) {
+        return new BudgetExceededError(
+          `${label} token budget of ${formatTokens(tokenLimit)} exhausted (${formatTokens(totals.totalTokens)} used); ${resets}`,
+          "user",
+          tokenLimit,
+          totals.totalTokens,
+          "tokens"
+        );
+      }
+      if (costLimitUsd > 0 && totals.costUsd >= costLimitUsd) {
+        return new BudgetExceededError(
+          `${label} spending budget of ${formatUsd(costLimitUsd)} exhausted (${formatUsd(totals.costUsd)} used); ${resets}`,
+          "user",
+          costLimitUsd,
+          totals.costUsd,
+          "usd"
+        );
+      }
+    }
+  } catch (error) {
+    console.warn("[Usage] Could not check usage budget:", error);
+  }
+  return null;
+}
+
+export async function assertWithinBudget(scope: UsageScope): Promise<void> {
+  const exceeded = await checkUsageBudget(scope);
+  if (exceeded) throw exceeded;
+}
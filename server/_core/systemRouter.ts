@@ -1,6 +1,7 @@
 import { z } from "zod";
+import { listModelCapabilities } from "./llm";
 import { notifyOwner } from "./notification";
-import { adminProcedure, publicProcedure, router } from "./trpc";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "./trpc";
 
 export const systemRouter = router({
   health: publicProcedure
@@ -13,6 +14,14 @@ export const systemRouter = router({
       ok: true,
     })),
 
+  /**
+   * Models each LLM provider currently serves, with context window, tool,
+   * vision and JSON schema support and price. `refresh` bypasses the cache.
+   */
+  models: protectedProcedure
+    .input(z.object({ refresh: z.boolean().optional() }).optional())
+    .query(({ input }) => listModelCapabilities({ refresh: input?.refresh })),
+
   notifyOwner: adminProcedure
     .input(
       z.object({
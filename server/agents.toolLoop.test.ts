@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { invokeLLM } = vi.hoisted(() => ({ invokeLLM: vi.fn() }));
+
+vi.mock("./_core/llm", () => ({ invokeLLM }));
+
+import { BaseAgent } from "./_core/agents/baseAgent";
+import type { AgentTask } from "./_core/agents/types";
+
+class EchoAgent extends BaseAgent {
+  constructor() {
+    super("searcher", "test-model");
+    this.systemPrompt = "You echo things.";
+  }
+
+  protected getTools() {
+    return [
+      ...super.getTools(),
+      {
+        type: "function" as const,
+        function: {
+          name: "echo",
+          description: "Echo the given text",
+          parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+        },
+      },
+    ];
+  }
+
+  protected async executeTool(toolName: string, args: Record<string, unknown>): Promise<unknown> {
+    if (toolName === "echo") return { echoed: args.text };
+    return super.executeTool(toolName, args);
+  }
+}
+
+function toolCallResponse(id: string, name: string, args: Record<string, unknown>, totalTokens = 10) {
+  return {
+    id: "r",
+    created: 0,
+    model: "test-model",
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id, type: "function", function: { name, arguments: JSON.stringify(args) } }],
+        },
+        finish_reason: "tool_calls",
+      },
+    ],
+    usage: { prompt_tokens: totalTokens - 2, completion_tokens: 2, total_tokens: totalTokens },
+  };
+}
+
+function answerResponse(content: string, totalTokens = 10) {
+  return {
+    id: "r",
+    created: 0,
+    model: "test-model",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: { prompt_tokens: totalTokens - 2, completion_tokens: 2, total_tokens: totalTokens },
+  };
+}
+
+function newTask(): AgentTask {
+  return {
+    id: "task-1",
+    agentRole: "searcher",
+    description: "Echo hello",
+    context: {},
+    status: "idle",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("BaseAgent tool-calling loop", () => {
+  beforeEach(() => {
+    invokeLLM.mockReset();
+  });
+
+  it("feeds tool results back to the model until it answers", async () => {
+    invokeLLM
+      .mockResolvedValueOnce(toolCallResponse("call-1", "echo", { text: "hello" }))
+      .mockResolvedValueOnce(answerResponse("The echo said hello."));
+
+    const task = await new EchoAgent().execute(newTask());
+
+    expect(task.status).toBe("completed");
+    expect(task.result).toBe("The echo said hello.");
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+
+    const secondCall = invokeLLM.mock.calls[1][0];
+    expect(secondCall.messages.slice(-2)).toEqual([
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "call-1", type: "function", function: { name: "echo", arguments: '{"text":"hello"}' } }],
+      },
+      { role: "tool", tool_call_id: "call-1", name: "echo", content: '{"echoed":"hello"}' },
+    ]);
+
+    expect(task.steps?.map((step) => step.type)).toEqual(["model", "tool", "model"]);
+    expect(task.steps?.[1]).toMatchObject({
+      type: "tool",
+      iteration: 1,
+      toolCallId: "call-1",
+      toolName: "echo",
+      result: { echoed: "hello" },
+    });
+  });
+
+  it("reports tool failures to the model instead of failing the task", async () => {
+    invokeLLM
+      .mockResolvedValueOnce(toolCallResponse("call-1", "missing", {}))
+      .mockResolvedValueOnce(answerResponse("Could not run the tool."));
+
+    const task = await new EchoAgent().execute(newTask());
+
+    expect(task.status).toBe("completed");
+    const toolMessage = invokeLLM.mock.calls[1][0].messages.at(-1);
+    expect(toolMessage.role).toBe("tool");
+    expect(JSON.parse(toolMessage.content)).toEqual({ error: "Tool missing not implemented for searcher" });
+  });
+
+  it("withholds tools on the last iteration to force an answer", async () => {
+    invokeLLM
+      .mockResolvedValueOnce(toolCallResponse("call-1", "echo", { text: "a" }))
+      .mockResolvedValueOnce(toolCallResponse("call-2", "echo", { text: "b" }))
+      .mockResolvedValueOnce(answerResponse("Done."));
+
+    const agent = new EchoAgent();
+    agent.configureLoop({ maxIterations: 3 });
+    const task = await agent.execute(newTask());
+
+    expect(task.result).toBe("Done.");
+    expect(invokeLLM).toHaveBeenCalledTimes(3);
+    expect(invokeLLM.mock.calls[1][0].tools).toBeDefined();
+    expect(invokeLLM.mock.calls[2][0].tools).toBeUndefined();
+  });
+
+  it("fails the task once the token budget is spent", async () => {
+    invokeLLM.mockResolvedValue(toolCallResponse("call-1", "echo", { text: "a" }, 60));
+
+    const agent = new EchoAgent();
+    agent.configureLoop({ tokenBudget: 100 });
+    const task = await agent.execute(newTask());
+
+    expect(task.status).toBe("failed");
+    expect(task.error).toBe("Token budget of 100 exhausted after 2 model calls");
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+    expect(task.steps?.filter((step) => step.type === "model")).toHaveLength(2);
+  });
+});
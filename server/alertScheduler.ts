@@ -0,0 +1,278 @@
+/**
+ * Alert Scheduler
+ * Periodically evaluates enabled alert rules against market data and delivers
+ * what they trigger to the in-app inbox or the owner notification service.
+ * Every alert is recorded under a de-duplication key, so an event is only
+ * delivered once however often it is re-evaluated.
+ */
+
+import { ENV } from "./_core/env";
+import { notifyOwner } from "./_core/notification";
+import {
+  getEarningsInfo,
+  getStockNews,
+  getStockQuote,
+  EarningsInfo,
+  NewsItem,
+  StockQuote,
+} from "./_core/agents/tools/yahooFinance";
+import {
+  getEnabledAlertRules,
+  updateAlertRule,
+  createAlert,
+  getAlertByDedupeKey,
+} from "./db";
+import type { AlertRule } from "../drizzle/schema";
+
+export type AlertRuleType = AlertRule["type"];
+
+/** Values remembered between evaluations to detect crossings and flips */
+export interface AlertState {
+  lastPrice?: number;
+  sentiment?: "Positive" | "Negative";
+}
+
+export interface AlertEvent {
+  /** Identifies the event within its rule, e.g. the trading day of a crossing */
+  key: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * Market data for one symbol, fetched on first use and shared by every rule
+ * on that symbol within a run
+ */
+export interface SymbolMarketData {
+  quote(): Promise<StockQuote>;
+  earnings(): Promise<EarningsInfo>;
+  news(): Promise<NewsItem[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PERCENT_MOVE = 5;
+const DEFAULT_EARNINGS_DAYS = 7;
+// Number of most recent headlines that make up the sentiment reading
+const SENTIMENT_WINDOW = 5;
+
+function memoize<T>(load: () => Promise<T>): () => Promise<T> {
+  let value: Promise<T> | undefined;
+  return () => (value ??= load());
+}
+
+export function marketDataFor(symbol: string): SymbolMarketData {
+  return {
+    quote: memoize(() => getStockQuote(symbol)),
+    earnings: memoize(() => getEarningsInfo(symbol)),
+    news: memoize(() => getStockNews(symbol)),
+  };
+}
+
+function parseState(value: string | null): AlertState {
+  if (!value) return {};
+  try {
+    return JSON.parse(value) as AlertState;
+  } catch {
+    return {};
+  }
+}
+
+function day(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function netSentiment(news: NewsItem[]): AlertState["sentiment"] {
+  const recent = [...news].sort((a, b) => b.date.localeCompare(a.date)).slice(0, SENTIMENT_WINDOW);
+  const score = recent.reduce(
+    (sum, item) => sum + (item.sentiment === "Positive" ? 1 : item.sentiment === "Negative" ? -1 : 0),
+    0
+  );
+  return score > 0 ? "Positive" : score < 0 ? "Negative" : undefined;
+}
+
+/**
+ * Evaluate one rule, returning the events it triggers and the state to keep
+ * for the next evaluation. Price crossings compare against the price seen at
+ * the last evaluation, or the previous close on the first one.
+ */
+export async function evaluateAlertRule(
+  rule: Pick<AlertRule, "symbol" | "type" | "threshold" | "state">,
+  market: SymbolMarketData
+): Promise<{ events: AlertEvent[]; state: AlertState }> {
+  const state = parseState(rule.state);
+  const events: AlertEvent[] = [];
+
+  switch (rule.type) {
+    case "price_above":
+    case "price_below": {
+      if (rule.threshold === null) throw new Error(`${rule.type} alerts need a price threshold`);
+      const quote = await market.quote();
+      const previous = state.lastPrice ?? quote.price - quote.change;
+      const level = rule.threshold;
+      const crossed =
+        rule.type === "price_above"
+          ? previous < level && quote.price >= level
+          : previous > level && quote.price <= level;
+      if (crossed) {
+        const direction = rule.type === "price_above" ? "above" : "below";
+        events.push({
+          key: `${day(quote.asOf)}:${level}`,
+          title: `${quote.symbol} crossed ${direction} $${level}`,
+          content: `${quote.symbol} is at $${quote.price.toFixed(2)}, ${direction} your $${level} level (${quote.source} data as of ${quote.asOf.toISOString()}).`,
+        });
+      }
+      return { events, state: { ...state, lastPrice: quote.price } };
+    }
+
+    case "percent_move": {
+      const quote = await market.quote();
+      const threshold = rule.threshold ?? DEFAULT_PERCENT_MOVE;
+      if (Math.abs(quote.changePercent) >= threshold) {
+        const direction = quote.changePercent > 0 ? "up" : "down";
+        events.push({
+          key: day(quote.asOf),
+          title: `${quote.symbol} is ${direction} ${Math.abs(quote.changePercent).toFixed(2)}%`,
+          content: `${quote.symbol} moved ${quote.changePercent.toFixed(2)}% to $${quote.price.toFixed(2)}, beyond your ${threshold}% threshold (${quote.source} data as of ${quote.asOf.toISOString()}).`,
+        });
+      }
+      return { events, state };
+    }
+
+    case "fifty_two_week_high": {
+      const quote = await market.quote();
+      // Optional threshold: how close to the high, in percent, counts
+      const level = quote.fiftyTwoWeekHigh * (1 - (rule.threshold ?? 0) / 100);
+      if (quote.fiftyTwoWeekHigh > 0 && quote.price >= level) {
+        events.push({
+          key: day(quote.asOf),
+          title: `${quote.symbol} is at a 52-week high`,
+          content: `${quote.symbol} is at $${quote.price.toFixed(2)} against a 52-week high of $${quote.fiftyTwoWeekHigh.toFixed(2)} (${quote.source} data as of ${quote.asOf.toISOString()}).`,
+        });
+      }
+      return { events, state };
+    }
+
+    case "earnings_upcoming": {
+      const earnings = await market.earnings();
+      const window = rule.threshold ?? DEFAULT_EARNINGS_DAYS;
+      const next = new Date(`${earnings.nextEarningsDate}T00:00:00Z`);
+      const daysAway = Math.ceil((next.getTime() - earnings.asOf.getTime()) / DAY_MS);
+      if (!Number.isNaN(daysAway) && daysAway >= 0 && daysAway <= window) {
+        events.push({
+          key: earnings.nextEarningsDate,
+          title: `${earnings.symbol} reports earnings on ${earnings.nextEarningsDate}`,
+          content: `${earnings.symbol} reports in ${daysAway} day(s), on ${earnings.nextEarningsDate}. Last EPS was $${earnings.lastEarningsPerShare}.`,
+        });
+      }
+      return { events, state };
+    }
+
+    case "sentiment_flip": {
+      const news = await market.news();
+      const sentiment = netSentiment(news);
+      if (sentiment && state.sentiment && sentiment !== state.sentiment) {
+        const latest = news.reduce((newest, item) => (item.date > newest ? item.date : newest), "");
+        events.push({
+          key: `${latest}:${sentiment}`,
+          title: `${rule.symbol} news sentiment turned ${sentiment.toLowerCase()}`,
+          content: `Recent ${rule.symbol} headlines flipped from ${state.sentiment.toLowerCase()} to ${sentiment.toLowerCase()}:\n${news
+            .slice(0, SENTIMENT_WINDOW)
+            .map((item) => `- ${item.title} (${item.source}, ${item.sentiment})`)
+            .join("\n")}`,
+        });
+      }
+      return { events, state: { ...state, sentiment: sentiment ?? state.sentiment } };
+    }
+  }
+}
+
+export class AlertScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  /**
+   * Evaluate rules every `intervalMs`; a non-positive interval disables the
+   * scheduler
+   */
+  start(intervalMs: number = ENV.alertCheckIntervalMs) {
+    if (this.timer || intervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => console.warn("[Alerts] Evaluation failed:", error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Evaluate every enabled rule once. Returns the number of alerts delivered.
+   * Overlapping runs are skipped.
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const rules = await getEnabledAlertRules();
+      const markets = new Map<string, SymbolMarketData>();
+      let delivered = 0;
+
+      for (const rule of rules) {
+        if (!markets.has(rule.symbol)) markets.set(rule.symbol, marketDataFor(rule.symbol));
+
+        try {
+          const { events, state } = await evaluateAlertRule(rule, markets.get(rule.symbol)!);
+          await updateAlertRule(rule.id, { state, lastEvaluatedAt: now });
+
+          for (const event of events) {
+            if (await this.deliver(rule, event, now)) delivered++;
+          }
+        } catch (error) {
+          console.warn(`[Alerts] Could not evaluate rule ${rule.id} (${rule.type} ${rule.symbol}):`, error);
+        }
+      }
+
+      return delivered;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Record and send an event unless its rule is snoozed or it was already
+   * delivered. Snoozed events are dropped, not queued.
+   */
+  private async deliver(rule: AlertRule, event: AlertEvent, now: Date): Promise<boolean> {
+    if (rule.snoozedUntil && rule.snoozedUntil > now) return false;
+
+    const dedupeKey = `${rule.id}:${rule.type}:${event.key}`;
+    if (await getAlertByDedupeKey(dedupeKey)) return false;
+
+    await createAlert({
+      userId: rule.userId,
+      ruleId: rule.id,
+      symbol: rule.symbol,
+      title: event.title,
+      content: event.content,
+      dedupeKey,
+      channel: rule.channel,
+    });
+    await updateAlertRule(rule.id, { lastTriggeredAt: now });
+
+    if (rule.channel === "owner") {
+      try {
+        const accepted = await notifyOwner({ title: event.title, content: event.content });
+        if (!accepted) console.warn(`[Alerts] Notification service did not accept alert ${dedupeKey}`);
+      } catch (error) {
+        console.warn(`[Alerts] Could not notify owner of alert ${dedupeKey}:`, error);
+      }
+    }
+
+    return true;
+  }
+}
+
+export const alertScheduler = new AlertScheduler();
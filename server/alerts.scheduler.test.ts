@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  rules: new Map<number, any>(),
+  alerts: [] as any[],
+  nextId: 1,
+}));
+
+vi.mock("./db", () => ({
+  createAlertRule: vi.fn(async (userId: number, rule: any) => {
+    const id = store.nextId++;
+    store.rules.set(id, {
+      id,
+      userId,
+      threshold: null,
+      channel: "inbox",
+      enabled: true,
+      state: null,
+      snoozedUntil: null,
+      ...rule,
+    });
+    return { insertId: id };
+  }),
+  getAlertRuleById: vi.fn(async (id: number) => store.rules.get(id)),
+  getEnabledAlertRules: vi.fn(async () => Array.from(store.rules.values()).filter((rule) => rule.enabled)),
+  updateAlertRule: vi.fn(async (id: number, updates: any) => {
+    const { state, ...rest } = updates;
+    const rule = store.rules.get(id);
+    Object.assign(rule, rest);
+    if (state) rule.state = JSON.stringify(state);
+  }),
+  createAlert: vi.fn(async (alert: any) => {
+    store.alerts.push({ id: store.nextId++, readAt: null, ...alert });
+  }),
+  getAlertByDedupeKey: vi.fn(async (key: string) => store.alerts.find((alert) => alert.dedupeKey === key)),
+  getAlertsByUserId: vi.fn(async (userId: number) => store.alerts.filter((alert) => alert.userId === userId)),
+}));
+
+vi.mock("./_core/notification", () => ({
+  notifyOwner: vi.fn(async () => true),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { notifyOwner } from "./_core/notification";
+import { AlertScheduler, evaluateAlertRule, marketDataFor, SymbolMarketData } from "./alertScheduler";
+import type { NewsItem } from "./_core/agents/tools/yahooFinance";
+
+function createCaller(userId: number, role = "user") {
+  const ctx = {
+    user: { id: userId, openId: `test-user-${userId}`, role },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+function headlines(...sentiments: NewsItem["sentiment"][]): NewsItem[] {
+  return sentiments.map((sentiment, i) => ({
+    title: `Headline ${i}`,
+    source: "Wire",
+    date: `2024-10-${String(18 - i).padStart(2, "0")}`,
+    url: `https://example.com/${i}`,
+    sentiment,
+  }));
+}
+
+describe("alert scheduler", () => {
+  const originalProvider = ENV.marketDataProvider;
+  const now = new Date("2024-10-18T21:00:00Z");
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+    store.rules.clear();
+    store.alerts.length = 0;
+    vi.mocked(notifyOwner).mockClear();
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+  });
+
+  it("alerts once when the price crosses a level", async () => {
+    const caller = createCaller(1);
+    // AAPL closed at 238.90 the day before and trades at 235
+    const { insertId: ruleId } = (await caller.financialResearch.alerts.createRule({
+      symbol: "aapl",
+      type: "price_below",
+      threshold: 236,
+    })) as any;
+    await caller.financialResearch.alerts.createRule({ symbol: "AAPL", type: "price_above", threshold: 230 });
+
+    const scheduler = new AlertScheduler();
+    expect(await scheduler.runOnce(now)).toBe(1);
+    expect(await scheduler.runOnce(now)).toBe(0);
+
+    expect(store.alerts).toEqual([
+      expect.objectContaining({ userId: 1, symbol: "AAPL", title: "AAPL crossed below $236", channel: "inbox" }),
+    ]);
+    expect(JSON.parse(store.rules.get(ruleId).state)).toEqual({ lastPrice: 235 });
+    expect(store.rules.get(ruleId).lastTriggeredAt).toEqual(now);
+    expect(notifyOwner).not.toHaveBeenCalled();
+
+    expect(await caller.financialResearch.alerts.inbox({ unreadOnly: true })).toHaveLength(1);
+  });
+
+  it("holds back snoozed rules and notifies the owner on the owner channel", async () => {
+    const caller = createCaller(1, "admin");
+    const { insertId: ruleId } = (await caller.financialResearch.alerts.createRule({
+      symbol: "KO",
+      type: "fifty_two_week_high",
+      threshold: 5,
+      channel: "owner",
+    })) as any;
+    await caller.financialResearch.alerts.snoozeRule({ ruleId, until: new Date("2024-10-19T00:00:00Z") });
+
+    const scheduler = new AlertScheduler();
+    expect(await scheduler.runOnce(now)).toBe(0);
+    expect(store.rules.get(ruleId).lastEvaluatedAt).toEqual(now);
+
+    // KO at 70.12 is within 5% of its 73.53 high
+    expect(await scheduler.runOnce(new Date("2024-10-19T01:00:00Z"))).toBe(1);
+    expect(notifyOwner).toHaveBeenCalledWith({
+      title: "KO is at a 52-week high",
+      content: expect.stringContaining("52-week high of $73.53"),
+    });
+
+    await expect(createCaller(2).financialResearch.alerts.snoozeRule({ ruleId, until: null })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(
+      caller.financialResearch.alerts.createRule({ symbol: "KO", type: "price_above" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("keeps the owner channel to admins", async () => {
+    const caller = createCaller(2);
+
+    await expect(
+      caller.financialResearch.alerts.createRule({ symbol: "KO", type: "fifty_two_week_high", channel: "owner" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+    const { insertId: ruleId } = (await caller.financialResearch.alerts.createRule({
+      symbol: "KO",
+      type: "fifty_two_week_high",
+    })) as any;
+    await expect(caller.financialResearch.alerts.updateRule({ ruleId, channel: "owner" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(store.rules.get(ruleId).channel).toBe("inbox");
+  });
+
+  it("warns ahead of earnings dates within the window", async () => {
+    const rule = { symbol: "KO", type: "earnings_upcoming" as const, state: null };
+
+    const soon = await evaluateAlertRule({ ...rule, threshold: 7 }, marketDataFor("KO"));
+    expect(soon.events).toEqual([
+      expect.objectContaining({ key: "2024-10-23", title: "KO reports earnings on 2024-10-23" }),
+    ]);
+
+    const later = await evaluateAlertRule({ ...rule, threshold: 3 }, marketDataFor("KO"));
+    expect(later.events).toEqual([]);
+  });
+
+  it("alerts when news sentiment flips", async () => {
+    const market = (news: NewsItem[]): SymbolMarketData => ({
+      quote: () => Promise.reject(new Error("not used")),
+      earnings: () => Promise.reject(new Error("not used")),
+      news: async () => news,
+    });
+    const rule = { symbol: "KO", type: "sentiment_flip" as const, threshold: null };
+
+    // The first reading only sets the baseline, and neutral readings keep it
+    const first = await evaluateAlertRule({ ...rule, state: null }, market(headlines("Positive", "Neutral")));
+    expect(first).toEqual({ events: [], state: { sentiment: "Positive" } });
+    const neutral = await evaluateAlertRule(
+      { ...rule, state: JSON.stringify(first.state) },
+      market(headlines("Positive", "Negative"))
+    );
+    expect(neutral).toEqual({ events: [], state: { sentiment: "Positive" } });
+
+    const flipped = await evaluateAlertRule(
+      { ...rule, state: JSON.stringify(neutral.state) },
+      market(headlines("Negative", "Negative", "Positive"))
+    );
+    expect(flipped.state).toEqual({ sentiment: "Negative" });
+    expect(flipped.events).toEqual([
+      expect.objectContaining({ key: "2024-10-18:Negative", title: "KO news sentiment turned negative" }),
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  reports: new Map<number, any>(),
+  nextId: 1,
+}));
+
+vi.mock("./db", () => ({
+  createAnalysisReport: vi.fn(async (report: any) => {
+    const id = store.nextId++;
+    store.reports.set(id, { ...report, id, createdAt: report.createdAt ?? new Date(Date.UTC(2024, 9, id)) });
+    return id;
+  }),
+  getAnalysisReportById: vi.fn(async (id: number) => store.reports.get(id)),
+  getAnalysisReportsByUserId: vi.fn(async (userId: number, filter: { symbol?: string; kind?: string; limit?: number }) =>
+    [...store.reports.values()]
+      .filter((r) => r.userId === userId)
+      .filter((r) => !filter.symbol || r.symbol === filter.symbol)
+      .filter((r) => !filter.kind || r.kind === filter.kind)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filter.limit ?? 50)
+  ),
+  deleteAnalysisReport: vi.fn(async (id: number) => store.reports.delete(id)),  getUsageBudget: vi.fn(async () => undefined),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { parseStructured } from "./_core/llm";
+import {
+  diffReports,
+  MultiStockReport,
+  multiStockReportOutput,
+  StockReport,
+  stockReportOutput,
+} from "./_core/agents/analysisReports";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+function createCaller(userId: number) {
+  const ctx = {
+    user: { id: userId, openId: `test-user-${userId}`, role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+function stockReport(overrides: Partial<StockReport> = {}): StockReport {
+  return {
+    summary: "## AAPL\nSteady services growth.",
+    thesis: "Services growth offsets slowing hardware sales.",
+    strengths: ["Services margin expansion", "Net cash balance sheet"],
+    weaknesses: ["China revenue decline"],
+    risks: [{ description: "Antitrust rulings on the App Store", severity: "medium" }],
+    confidence: 0.6,
+    metricsCited: [
+      { name: "P/E Ratio", value: 30, unit: "x", source: "Key Metrics" },
+      { name: "Gross Margin", value: 45, unit: "%", source: "Key Metrics" },
+    ],
+    valuation: { method: "DCF", fairValue: 220, summary: "Fairly valued." },
+    rating: "hold",
+    priceTarget: { low: 200, base: 240, high: 270, currency: "USD", horizonMonths: 12 },
+    ...overrides,
+  };
+}
+
+const dated = (id: number, report: StockReport | MultiStockReport) => ({
+  id,
+  createdAt: new Date(Date.UTC(2024, 9, id)),
+  report,
+});
+
+describe("analysis reports", () => {
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+    store.reports.clear();
+    store.nextId = 1;
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+    vi.restoreAllMocks();
+  });
+
+  it("rejects price targets whose range does not bracket the base case", () => {
+    const inverted = stockReport({ priceTarget: { low: 260, base: 240, high: 270, currency: "USD", horizonMonths: 12 } });
+    const result = parseStructured(JSON.stringify(inverted), stockReportOutput);
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain("low <= base <= high");
+
+    expect(parseStructured(JSON.stringify(stockReport()), stockReportOutput).success).toBe(true);
+  });
+
+  it("diffs ratings, targets, lists and cited metrics", () => {
+    const older = stockReport();
+    const newer = stockReport({
+      thesis: "Services growth offsets slowing hardware sales.  ",
+      strengths: ["services margin expansion.", "AI upgrade cycle"],
+      risks: [],
+      confidence: 0.75,
+      metricsCited: [
+        { name: "P/E Ratio", value: 33, unit: "x", source: "Key Metrics" },
+        { name: "Free Cash Flow Yield", value: 3.4, unit: "%", source: "[DCF]" },
+      ],
+      rating: "buy",
+      priceTarget: { low: 230, base: 264, high: 300, currency: "USD", horizonMonths: 12 },
+    });
+
+    const diff = diffReports(dated(1, older), dated(2, newer));
+    expect(diff.thesisChanged).toBe(false);
+    expect(diff.rating).toEqual({ from: "hold", to: "buy", direction: "upgrade" });
+    expect(diff.priceTarget).toMatchObject({ from: 240, to: 264, change: 24 });
+    expect(diff.priceTarget.changePercent).toBeCloseTo(10, 10);
+    expect(diff.confidence.change).toBeCloseTo(0.15, 10);
+    expect(diff.strengths).toEqual({ added: ["AI upgrade cycle"], removed: ["Net cash balance sheet"] });
+    expect(diff.weaknesses).toEqual({ added: [], removed: [] });
+    expect(diff.risks).toEqual({ added: [], removed: ["Antitrust rulings on the App Store"] });
+    expect(diff.metrics).toEqual([
+      { name: "P/E Ratio", unit: "x", from: 30, to: 33, change: 3, changePercent: 10 },
+      { name: "Gross Margin", unit: "%", from: 45, to: null, change: null, changePercent: null },
+      { name: "Free Cash Flow Yield", unit: "%", from: null, to: 3.4, change: null, changePercent: null },
+    ]);
+    expect(diffReports(dated(2, newer), dated(3, older)).rating.direction).toBe("downgrade");
+  });
+
+  it("asks the model for a stock report and stores it", async () => {
+    const report = stockReport();
+    const execute = vi
+      .spyOn(FinancialAnalystAgent.prototype, "execute")
+      .mockResolvedValue({ status: "completed", result: report } as any);
+
+    const result = await createCaller(1).financialResearch.analyzeStock({ symbol: "aapl" });
+
+    expect(execute.mock.calls[0][1]).toBe(stockReportOutput);
+    expect(result.analysis).toEqual(report);
+    expect(result.reportId).toBe(1);
+    expect(store.reports.get(1)).toMatchObject({
+      userId: 1,
+      kind: "stock",
+      symbol: "AAPL",
+      symbols: '["AAPL"]',
+      rating: "hold",
+      priceTarget: 240,
+      confidence: 0.6,
+    });
+
+    execute.mockResolvedValue({ status: "failed", error: "model unavailable" } as any);
+    await expect(createCaller(1).financialResearch.analyzeStock({ symbol: "AAPL" })).rejects.toThrow(
+      /model unavailable/
+    );
+  });
+
+  it("lists a symbol's history with the changes between consecutive reports", async () => {
+    const caller = createCaller(1);
+    const execute = vi.spyOn(FinancialAnalystAgent.prototype, "execute");
+    execute.mockResolvedValueOnce({ status: "completed", result: stockReport() } as any);
+    await caller.financialResearch.analyzeStock({ symbol: "AAPL" });
+    execute.mockResolvedValueOnce({
+      status: "completed",
+      result: stockReport({ rating: "sell", priceTarget: null }),
+    } as any);
+    await caller.financialResearch.analyzeStock({ symbol: "AAPL" });
+
+    const history = await caller.financialResearch.reports.history({ symbol: "AAPL" });
+    expect(history.map((entry) => entry.id)).toEqual([2, 1]);
+    expect(history[0].changes?.rating).toEqual({ from: "hold", to: "sell", direction: "downgrade" });
+    expect(history[0].changes?.priceTarget).toMatchObject({ from: 240, to: null, change: null });
+    expect(history[1].changes).toBeNull();
+
+    // Another user's reports are out of reach
+    await expect(createCaller(2).financialResearch.reports.get({ reportId: 1 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(createCaller(2).financialResearch.reports.history({ symbol: "AAPL" })).resolves.toEqual([]);
+  });
+
+  it("diffs two reports in date order and refuses different kinds", async () => {
+    const caller = createCaller(1);
+    const execute = vi.spyOn(FinancialAnalystAgent.prototype, "execute");
+    execute.mockResolvedValueOnce({ status: "completed", result: stockReport() } as any);
+    await caller.financialResearch.analyzeStock({ symbol: "AAPL" });
+    execute.mockResolvedValueOnce({ status: "completed", result: stockReport({ rating: "strong_buy" }) } as any);
+    await caller.financialResearch.analyzeStock({ symbol: "AAPL" });
+
+    const diff = await caller.financialResearch.reports.diff({ fromReportId: 2, toReportId: 1 });
+    expect(diff.from.id).toBe(1);
+    expect(diff.rating.direction).toBe("upgrade");
+
+    const comparison: MultiStockReport = {
+      ...stockReport(),
+      valuation: "AAPL trades at a premium to KO.",
+      positions: [
+        { symbol: "AAPL", rating: "buy", priceTarget: null, allocationPercent: null, rationale: "Growth" },
+        { symbol: "KO", rating: "hold", priceTarget: null, allocationPercent: null, rationale: "Income" },
+      ],
+    };
+    delete (comparison as any).rating;
+    delete (comparison as any).priceTarget;
+    execute.mockResolvedValueOnce({ status: "completed", result: comparison } as any);
+    const { reportId } = await caller.financialResearch.compareStocksWithAnalysis({ symbols: ["AAPL", "KO"] });
+    expect(execute.mock.calls[2][1]).toBe(multiStockReportOutput);
+    expect(store.reports.get(reportId!)).toMatchObject({ kind: "comparison", symbol: null, rating: null });
+
+    await expect(caller.financialResearch.reports.diff({ fromReportId: 1, toReportId: reportId! })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+  });
+});
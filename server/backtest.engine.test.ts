@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { FixtureMarketDataProvider } from "./_core/agents/tools/marketData";
+import { BacktestError, runBacktest } from "./_core/agents/tools/backtest";
+import { sma } from "./_core/agents/tools/indicators";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+const noCosts = { commission: { perTrade: 0, rate: 0 }, slippageBps: 0 };
+
+async function dailyBars(symbol: string) {
+  return new FixtureMarketDataProvider().getHistory(symbol, new Date("2024-01-01"), new Date("2024-12-31"), "1d");
+}
+
+describe("backtester", () => {
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+  });
+
+  it("fills at the next open and marks the equity curve at each close", async () => {
+    const ko = await dailyBars("KO");
+    const result = await runBacktest({ strategy: { type: "rebalance", weights: { ko: 1 } }, ...noCosts });
+
+    expect(result.symbols).toEqual(["KO"]);
+    expect(result.startDate).toBe(ko[0].date);
+    expect(result.endDate).toBe(ko[ko.length - 1].date);
+    expect(result.trades[0]).toMatchObject({ date: ko[1].date, side: "buy", price: ko[1].open, commission: 0 });
+    expect(result.equityCurve[0].equity).toBe(100000);
+
+    const expected = (100000 / ko[1].open) * ko[ko.length - 1].close;
+    expect(result.finalEquity).toBeCloseTo(expected, 6);
+    expect(result.metrics.totalReturn).toBeCloseTo((expected / 100000 - 1) * 100, 6);
+    expect(result.metrics.cagr).toBeGreaterThan(result.metrics.totalReturn);
+    expect(result.metrics.maxDrawdown).toBeGreaterThan(0);
+  });
+
+  it("charges slippage and commission on every fill", async () => {
+    const ko = await dailyBars("KO");
+    const free = await runBacktest({ strategy: { type: "rebalance", weights: { KO: 1 } }, ...noCosts });
+    const costly = await runBacktest({
+      strategy: { type: "rebalance", weights: { KO: 1 } },
+      commission: { perTrade: 5, rate: 0.001 },
+      slippageBps: 10,
+    });
+
+    const [buy] = costly.trades;
+    expect(buy.price).toBeCloseTo(ko[1].open * 1.001, 10);
+    expect(buy.commission).toBeCloseTo(5 + 0.001 * buy.notional, 10);
+    expect(buy.notional + buy.commission).toBeCloseTo(100000, 6);
+    expect(buy.slippage).toBeCloseTo(buy.quantity * ko[1].open * 0.001, 10);
+    expect(costly.finalEquity).toBeLessThan(free.finalEquity);
+    expect(costly.metrics.totalCommission).toBeCloseTo(buy.commission, 10);
+  });
+
+  it("fills on the same dividend-adjusted basis the equity is marked on", async () => {
+    const ko = await dailyBars("KO");
+    // Adjusted prices sit 3% below the raw ones before an ex-dividend date
+    const exDate = ko[40].date;
+    const adjusted = (bar: (typeof ko)[number]) => ({ ...bar, adjClose: bar.date < exDate ? bar.close * 0.97 : bar.close });
+    const getHistory = FixtureMarketDataProvider.prototype.getHistory;
+    const spy = vi.spyOn(FixtureMarketDataProvider.prototype, "getHistory").mockImplementation(async function (
+      this: FixtureMarketDataProvider,
+      ...args: Parameters<FixtureMarketDataProvider["getHistory"]>
+    ) {
+      return (await getHistory.apply(this, args)).map(adjusted);
+    });
+
+    try {
+      const result = await runBacktest({ strategy: { type: "rebalance", weights: { KO: 1 } }, ...noCosts });
+
+      expect(result.trades[0].price).toBeCloseTo(ko[1].open * 0.97, 10);
+      // Holding from the first fill earns the adjusted return, with no loss on the fill itself
+      const expected = (100000 / (ko[1].open * 0.97)) * ko[ko.length - 1].close;
+      expect(result.finalEquity).toBeCloseTo(expected, 6);
+      expect(result.equityCurve[1].equity).toBeCloseTo((100000 / ko[1].open) * ko[1].close, 6);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("rebalances a weight vector at each period boundary", async () => {
+    const result = await runBacktest({
+      strategy: { type: "rebalance", weights: { AAPL: 0.5, MSFT: 0.5 }, frequency: "monthly" },
+      ...noCosts,
+    });
+
+    const rebalanceDates = Array.from(new Set(result.trades.map((trade) => trade.date)));
+    expect(rebalanceDates).toEqual(["2024-07-02", "2024-08-01", "2024-09-03", "2024-10-01"]);
+    // Rebalancing trades come on top of the initial purchase of the whole capital
+    const traded = result.trades.reduce((sum, trade) => sum + trade.notional, 0);
+    const averageEquity = result.equityCurve.reduce((sum, point) => sum + point.equity, 0) / result.equityCurve.length;
+    expect(result.metrics.turnover).toBeCloseTo((traded / 2 / averageEquity) * 100, 8);
+    expect(result.metrics.turnover).toBeGreaterThan(((100000 / 2) / averageEquity) * 100);
+  });
+
+  it("trades moving-average crossovers the day after the signal", async () => {
+    const msft = await dailyBars("MSFT");
+    const fast = sma(msft.map((bar) => bar.close), 5);
+    const slow = sma(msft.map((bar) => bar.close), 20);
+
+    const result = await runBacktest({
+      strategy: { type: "ma_crossover", symbol: "MSFT", fastPeriod: 5, slowPeriod: 20 },
+      startDate: "2024-08-01",
+      ...noCosts,
+    });
+
+    expect(result.trades.length).toBeGreaterThan(1);
+    result.trades.forEach((trade, i) => {
+      expect(trade.side).toBe(i % 2 === 0 ? "buy" : "sell");
+      const signalDay = msft.findIndex((bar) => bar.date === trade.date) - 1;
+      expect(fast[signalDay]! > slow[signalDay]!).toBe(trade.side === "buy");
+    });
+  });
+
+  it("rejects strategies that cannot be simulated", async () => {
+    await expect(
+      runBacktest({ strategy: { type: "ma_crossover", symbol: "MSFT", fastPeriod: 20, slowPeriod: 5 } })
+    ).rejects.toBeInstanceOf(BacktestError);
+    await expect(runBacktest({ strategy: { type: "rebalance", weights: { AAPL: 0.8, MSFT: 0.8 } } })).rejects.toThrow(
+      "weights must sum to at most 1"
+    );
+
+    const caller = appRouter.createCaller({
+      user: { id: 1, openId: "test-user-1", role: "user" },
+      req: { protocol: "https", headers: {} },
+      res: { clearCookie: vi.fn() },
+    } as unknown as TrpcContext);
+    await expect(
+      caller.financialResearch.backtest({ strategy: { type: "rsi", symbol: "KO", buyBelow: 70, sellAbove: 30 } })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("lets the financial analyst backtest its own ideas", async () => {
+    const agent = new FinancialAnalystAgent();
+    const output = (await agent["executeTool"]("backtest_strategy", {
+      strategy: "rsi",
+      symbol: "KO",
+      buyBelow: 40,
+      sellAbove: 60,
+    })) as Record<string, any>;
+
+    expect(output.strategy).toMatchObject({ type: "rsi", symbol: "KO", period: 14 });
+    expect(output.metrics).toHaveProperty("cagr");
+    expect(output).not.toHaveProperty("equityCurve");
+    expect(output.recentTrades.length).toBe(output.metrics.tradeCount);
+  });
+});
@@ -1,5 +1,5 @@
 import { drizzle } from "drizzle-orm/mysql2";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, sql, SQL } from "drizzle-orm";
 import {
   InsertUser,
   users,
@@ -14,6 +14,21 @@ import {
   researchArtifacts,
   citations,
   researchMemory,
+  portfolios,
+  holdings,
+  transactions,
+  InsertHolding,
+  watchlists,
+  watchlistItems,
+  alertRules,
+  alerts,
+  savedScreens,
+  analysisReports,
+  InsertAnalysisReport,
+  llmUsage,
+  InsertLlmUsage,
+  modelCosts,
+  usageBudgets,
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
@@ -350,7 +365,14 @@ export async function createResearchPlan(
   objectives: string[],
   strategy: string,
   estimatedSteps: number,
-  id: string
+  id: string,
+  options: {
+    llmModel?: string;
+    context?: Record<string, unknown>;
+    maxRounds?: number;
+    breadth?: number;
+    tokenBudget?: number;
+  } = {}
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -363,9 +385,56 @@ export async function createResearchPlan(
     objectives: JSON.stringify(objectives),
     strategy,
     estimatedSteps,
+    llmModel: options.llmModel,
+    context: options.context ? JSON.stringify(options.context) : undefined,
+    maxRounds: options.maxRounds,
+    breadth: options.breadth,
+    tokenBudget: options.tokenBudget,
   });
 }
 
+export async function updateResearchPlan(
+  id: string,
+  updates: {
+    objectives?: string[];
+    strategy?: string;
+    estimatedSteps?: number;
+    status?: "queued" | "running" | "completed" | "failed" | "cancelled";
+    report?: string | null;
+    error?: string | null;
+    attempts?: number;
+    startedAt?: Date | null;
+    completedAt?: Date | null;
+    rounds?: unknown[];
+  }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { objectives, rounds, ...rest } = updates;
+  const updateSet: Record<string, unknown> = { ...rest };
+  if (objectives) updateSet.objectives = JSON.stringify(objectives);
+  if (rounds) updateSet.rounds = JSON.stringify(rounds);
+
+  return await db
+    .update(researchPlans)
+    .set(updateSet)
+    .where(eq(researchPlans.id, id));
+}
+
+export async function getResearchPlansByStatus(
+  statuses: Array<"queued" | "running" | "completed" | "failed" | "cancelled">
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(researchPlans)
+    .where(inArray(researchPlans.status, statuses))
+    .orderBy((t) => t.createdAt);
+}
+
 export async function getResearchPlanById(id: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -397,7 +466,8 @@ export async function createAgentTask(
   description: string,
   context: Record<string, unknown>,
   status: string,
-  parentTaskId?: string
+  parentTaskId?: string,
+  outcome: { result?: unknown; error?: string; steps?: unknown[] } = {}
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -410,6 +480,9 @@ export async function createAgentTask(
     description,
     context: JSON.stringify(context),
     status: status as any,
+    result: outcome.result !== undefined ? JSON.stringify(outcome.result) : undefined,
+    error: outcome.error,
+    steps: outcome.steps !== undefined ? JSON.stringify(outcome.steps) : undefined,
   });
 }
 
@@ -418,7 +491,8 @@ export async function updateAgentTask(
   updates: {
     status?: string;
     result?: unknown;
-    error?: string;
+    error?: string | null;
+    steps?: unknown[];
   }
 ) {
   const db = await getDb();
@@ -426,8 +500,9 @@ export async function updateAgentTask(
 
   const updateSet: Record<string, unknown> = {};
   if (updates.status) updateSet.status = updates.status;
-  if (updates.result) updateSet.result = JSON.stringify(updates.result);
-  if (updates.error) updateSet.error = updates.error;
+  if (updates.result !== undefined) updateSet.result = JSON.stringify(updates.result);
+  if (updates.error !== undefined) updateSet.error = updates.error;
+  if (updates.steps !== undefined) updateSet.steps = JSON.stringify(updates.steps);
 
   return await db
     .update(agentTasks)
@@ -442,7 +517,8 @@ export async function getAgentTasksByResearchPlanId(researchPlanId: string) {
   return await db
     .select()
     .from(agentTasks)
-    .where(eq(agentTasks.researchPlanId, researchPlanId));
+    .where(eq(agentTasks.researchPlanId, researchPlanId))
+    .orderBy((t) => t.createdAt);
 }
 
 // Research Artifact Queries
@@ -483,7 +559,13 @@ export async function createCitation(
   artifactId: string,
   source: string,
   url?: string,
-  title?: string
+  title?: string,
+  details: {
+    number?: number;
+    artifactIds?: string[];
+    snippet?: string;
+    publishedAt?: Date;
+  } = {}
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -491,9 +573,13 @@ export async function createCitation(
   return await db.insert(citations).values({
     id,
     artifactId,
+    artifactIds: details.artifactIds ? JSON.stringify(details.artifactIds) : undefined,
+    number: details.number,
     source,
     url,
     title,
+    snippet: details.snippet,
+    publishedAt: details.publishedAt,
   });
 }
 
@@ -551,3 +637,553 @@ export async function getResearchMemory(sessionId: number) {
 
   return result.length > 0 ? result[0] : undefined;
 }
+
+// Portfolio Queries
+export async function createPortfolio(
+  userId: number,
+  name: string,
+  benchmark: string,
+  description?: string,
+  reportingCurrency?: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(portfolios).values({
+    userId,
+    name,
+    benchmark,
+    description,
+    reportingCurrency,
+  });
+}
+
+export async function getPortfoliosByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(portfolios)
+    .where(eq(portfolios.userId, userId))
+    .orderBy((t) => t.createdAt);
+}
+
+export async function getPortfolioById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(portfolios)
+    .where(eq(portfolios.id, id))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updatePortfolio(
+  id: number,
+  updates: { name?: string; description?: string; benchmark?: string; reportingCurrency?: string }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.update(portfolios).set(updates).where(eq(portfolios.id, id));
+}
+
+export async function deletePortfolio(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(transactions).where(eq(transactions.portfolioId, id));
+  await db.delete(holdings).where(eq(holdings.portfolioId, id));
+  return await db.delete(portfolios).where(eq(portfolios.id, id));
+}
+
+export async function getHoldingsByPortfolioId(portfolioId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(holdings)
+    .where(eq(holdings.portfolioId, portfolioId))
+    .orderBy((t) => t.symbol);
+}
+
+/**
+ * Replace the stored positions of a portfolio, e.g. after its transactions
+ * change
+ */
+export async function replaceHoldings(
+  portfolioId: number,
+  positions: Array<Omit<InsertHolding, "id" | "portfolioId" | "updatedAt">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(holdings).where(eq(holdings.portfolioId, portfolioId));
+  if (positions.length > 0) {
+    await db.insert(holdings).values(positions.map((position) => ({ ...position, portfolioId })));
+  }
+}
+
+export async function createTransaction(
+  portfolioId: number,
+  transaction: {
+    symbol: string;
+    type: "buy" | "sell" | "dividend";
+    quantity: number;
+    price: number;
+    fees?: number;
+    executedAt: Date;
+    note?: string;
+  }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(transactions).values({ portfolioId, ...transaction });
+}
+
+export async function getTransactionsByPortfolioId(portfolioId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(transactions)
+    .where(eq(transactions.portfolioId, portfolioId))
+    .orderBy((t) => t.executedAt);
+}
+
+export async function getTransactionById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(transactions)
+    .where(eq(transactions.id, id))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function deleteTransaction(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(transactions).where(eq(transactions.id, id));
+}
+
+// Watchlist Queries
+export async function createWatchlist(userId: number, name: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(watchlists).values({ userId, name });
+}
+
+export async function getWatchlistsByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(watchlists)
+    .where(eq(watchlists.userId, userId))
+    .orderBy((t) => t.createdAt);
+}
+
+export async function getWatchlistById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(watchlists)
+    .where(eq(watchlists.id, id))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function deleteWatchlist(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(watchlistItems).where(eq(watchlistItems.watchlistId, id));
+  return await db.delete(watchlists).where(eq(watchlists.id, id));
+}
+
+export async function addWatchlistItem(watchlistId: number, symbol: string, note?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(watchlistItems).values({ watchlistId, symbol, note });
+}
+
+export async function getWatchlistItems(watchlistId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(watchlistItems)
+    .where(eq(watchlistItems.watchlistId, watchlistId))
+    .orderBy((t) => t.symbol);
+}
+
+export async function deleteWatchlistItem(watchlistId: number, symbol: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .delete(watchlistItems)
+    .where(and(eq(watchlistItems.watchlistId, watchlistId), eq(watchlistItems.symbol, symbol)));
+}
+
+// Alert Queries
+export async function createAlertRule(
+  userId: number,
+  rule: {
+    symbol: string;
+    type: "price_above" | "price_below" | "percent_move" | "fifty_two_week_high" | "earnings_upcoming" | "sentiment_flip";
+    threshold?: number;
+    channel?: "inbox" | "owner";
+  }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(alertRules).values({ userId, ...rule });
+}
+
+export async function getAlertRulesByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(alertRules)
+    .where(eq(alertRules.userId, userId))
+    .orderBy((t) => t.createdAt);
+}
+
+export async function getEnabledAlertRules() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(alertRules).where(eq(alertRules.enabled, true));
+}
+
+export async function getAlertRuleById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(alertRules)
+    .where(eq(alertRules.id, id))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateAlertRule(
+  id: number,
+  updates: {
+    threshold?: number | null;
+    channel?: "inbox" | "owner";
+    enabled?: boolean;
+    snoozedUntil?: Date | null;
+    state?: object;
+    lastEvaluatedAt?: Date;
+    lastTriggeredAt?: Date;
+  }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { state, ...rest } = updates;
+  const updateSet: Record<string, unknown> = { ...rest };
+  if (state) updateSet.state = JSON.stringify(state);
+
+  return await db.update(alertRules).set(updateSet).where(eq(alertRules.id, id));
+}
+
+export async function deleteAlertRule(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(alertRules).where(eq(alertRules.id, id));
+}
+
+export async function createAlert(alert: {
+  userId: number;
+  ruleId: number;
+  symbol: string;
+  title: string;
+  content: string;
+  dedupeKey: string;
+  channel: "inbox" | "owner";
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(alerts).values(alert);
+}
+
+export async function getAlertByDedupeKey(dedupeKey: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(alerts)
+    .where(eq(alerts.dedupeKey, dedupeKey))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAlertsByUserId(userId: number, options: { unreadOnly?: boolean; limit?: number } = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(alerts)
+    .where(options.unreadOnly ? and(eq(alerts.userId, userId), isNull(alerts.readAt)) : eq(alerts.userId, userId))
+    .orderBy(desc(alerts.createdAt))
+    .limit(options.limit ?? 50);
+}
+
+export async function markAlertsRead(userId: number, alertIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(alerts)
+    .set({ readAt: new Date() })
+    .where(and(eq(alerts.userId, userId), inArray(alerts.id, alertIds)));
+}
+
+// Saved Screen Queries
+export async function createSavedScreen(userId: number, name: string, definition: object, description?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(savedScreens).values({
+    userId,
+    name,
+    description,
+    definition: JSON.stringify(definition),
+  });
+}
+
+export async function getSavedScreensByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(savedScreens)
+    .where(eq(savedScreens.userId, userId))
+    .orderBy((t) => t.createdAt);
+}
+
+export async function getSavedScreenById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(savedScreens)
+    .where(eq(savedScreens.id, id))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateSavedScreen(
+  id: number,
+  updates: { name?: string; description?: string; definition?: object }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { definition, ...rest } = updates;
+  const updateSet: Record<string, unknown> = { ...rest };
+  if (definition) updateSet.definition = JSON.stringify(definition);
+
+  return await db.update(savedScreens).set(updateSet).where(eq(savedScreens.id, id));
+}
+
+export async function deleteSavedScreen(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(savedScreens).where(eq(savedScreens.id, id));
+}
+
+// Analysis Report Queries
+export async function createAnalysisReport(report: InsertAnalysisReport): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [{ id }] = await db.insert(analysisReports).values(report).$returningId();
+  return id;
+}
+
+export async function getAnalysisReportById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select()
+    .from(analysisReports)
+    .where(eq(analysisReports.id, id))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAnalysisReportsByUserId(
+  userId: number,
+  filters: { symbol?: string; kind?: InsertAnalysisReport["kind"]; limit?: number } = {}
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conditions = [eq(analysisReports.userId, userId)];
+  if (filters.symbol) conditions.push(eq(analysisReports.symbol, filters.symbol));
+  if (filters.kind) conditions.push(eq(analysisReports.kind, filters.kind));
+
+  return await db
+    .select()
+    .from(analysisReports)
+    .where(and(...conditions))
+    .orderBy(desc(analysisReports.createdAt), desc(analysisReports.id))
+    .limit(filters.limit ?? 50);
+}
+
+export async function deleteAnalysisReport(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(analysisReports).where(eq(analysisReports.id, id));
+}
+
+// LLM Usage Queries
+export async function createLlmUsage(usage: InsertLlmUsage) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.insert(llmUsage).values(usage);
+}
+
+export type LlmUsageFilter = { userId?: number; researchPlanId?: string; since?: Date; until?: Date };
+
+function llmUsageConditions(filter: LlmUsageFilter): SQL[] {
+  const conditions: SQL[] = [];
+  if (filter.userId !== undefined) conditions.push(eq(llmUsage.userId, filter.userId));
+  if (filter.researchPlanId !== undefined) conditions.push(eq(llmUsage.researchPlanId, filter.researchPlanId));
+  if (filter.since) conditions.push(gte(llmUsage.createdAt, filter.since));
+  if (filter.until) conditions.push(lt(llmUsage.createdAt, filter.until));
+  return conditions;
+}
+
+// MySQL returns SUM() as a decimal string
+const usageAggregates = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)`.mapWith(Number),
+  completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)`.mapWith(Number),
+  totalTokens: sql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)`.mapWith(Number),
+  costUsd: sql<number>`coalesce(sum(${llmUsage.costUsd}), 0)`.mapWith(Number),
+};
+
+export async function getLlmUsageTotals(filter: LlmUsageFilter) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [totals] = await db
+    .select(usageAggregates)
+    .from(llmUsage)
+    .where(and(...llmUsageConditions(filter)));
+  return totals;
+}
+
+export type LlmUsageGroup = "model" | "agentRole" | "session" | "researchPlan" | "day";
+
+export async function getLlmUsageBreakdown(filter: LlmUsageFilter, groupBy: LlmUsageGroup) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const key = {
+    model: sql<string>`concat(${llmUsage.provider}, '/', ${llmUsage.model})`,
+    agentRole: sql<string | null>`${llmUsage.agentRole}`,
+    session: sql<string | null>`cast(${llmUsage.sessionId} as char)`,
+    researchPlan: sql<string | null>`${llmUsage.researchPlanId}`,
+    day: sql<string>`date_format(${llmUsage.createdAt}, '%Y-%m-%d')`,
+  }[groupBy];
+
+  return await db
+    .select({ key, ...usageAggregates })
+    .from(llmUsage)
+    .where(and(...llmUsageConditions(filter)))
+    .groupBy(key)
+    .orderBy(groupBy === "day" ? asc(key) : desc(usageAggregates.totalTokens));
+}
+
+export async function getLlmUsageByUserId(userId: number, limit: number = 50) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(llmUsage)
+    .where(eq(llmUsage.userId, userId))
+    .orderBy(desc(llmUsage.createdAt), desc(llmUsage.id))
+    .limit(limit);
+}
+
+export async function getModelCosts() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(modelCosts).orderBy(asc(modelCosts.model));
+}
+
+export async function upsertModelCost(model: string, promptCostPerMillion: number, completionCostPerMillion: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .insert(modelCosts)
+    .values({ model, promptCostPerMillion, completionCostPerMillion })
+    .onDuplicateKeyUpdate({ set: { promptCostPerMillion, completionCostPerMillion } });
+}
+
+export async function getUsageBudget(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(usageBudgets).where(eq(usageBudgets.userId, userId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function upsertUsageBudget(
+  userId: number,
+  limits: { tokenLimit: number | null; costLimitUsd: number | null }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .insert(usageBudgets)
+    .values({ userId, ...limits })
+    .onDuplicateKeyUpdate({ set: limits });
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getChatSessionById: vi.fn(async (id: number) => (id === 10 ? { id, userId: 1 } : undefined)),
+  getResearchPlanById: vi.fn(async (id: string) => (id === "plan-1" ? { id, userId: 1, sessionId: 10 } : undefined)),
+  getResearchPlansBySessionId: vi.fn(async () => [{ id: "plan-1" }]),
+  getResearchArtifactsBySessionId: vi.fn(async () => [{ id: "artifact-1" }]),
+  getResearchMemory: vi.fn(async () => []),
+  getAgentTasksByResearchPlanId: vi.fn(async () => [{ id: "task-1" }]),
+}));
+
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+function createCaller(userId: number) {
+  const ctx = {
+    user: { id: userId, openId: `test-user-${userId}`, role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+describe("deepResearch access", () => {
+  it("returns session data and tasks to their owner", async () => {
+    const caller = createCaller(1);
+
+    expect(await caller.deepResearch.getResearchPlans({ sessionId: 10 })).toEqual([{ id: "plan-1" }]);
+    expect(await caller.deepResearch.getResearchArtifacts({ sessionId: 10 })).toEqual([{ id: "artifact-1" }]);
+    expect(await caller.deepResearch.getResearchMemory({ sessionId: 10 })).toEqual([]);
+    expect(await caller.deepResearch.getAgentTasks({ researchPlanId: "plan-1" })).toEqual([{ id: "task-1" }]);
+  });
+
+  it("hides other users' sessions and plans", async () => {
+    const caller = createCaller(2);
+
+    for (const request of [
+      caller.deepResearch.getResearchPlans({ sessionId: 10 }),
+      caller.deepResearch.getResearchArtifacts({ sessionId: 10 }),
+      caller.deepResearch.getResearchMemory({ sessionId: 10 }),
+      caller.deepResearch.getAgentTasks({ researchPlanId: "plan-1" }),
+      caller.deepResearch.startResearch({ sessionId: 10, query: "Someone else's research session" }),
+    ]) {
+      await expect(request).rejects.toMatchObject({ code: "NOT_FOUND" });
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getResearchPlanById: vi.fn(async (id: string) => ({
+    id,
+    userId: 1,
+    status: id.startsWith("finished") ? "completed" : "running",
+  })),
+}));
+
+import { appRouter } from "./routers";
+import { researchEventBus } from "./_core/agents";
+import type { ResearchEvent } from "./_core/agents";
+import type { TrpcContext } from "./_core/context";
+
+function createAuthContext(userId = 1): TrpcContext {
+  return {
+    user: {
+      id: userId,
+      openId: `test-user-${userId}`,
+      email: `test${userId}@example.com`,
+      name: `Test User ${userId}`,
+      loginMethod: "test",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("deepResearch.watch", () => {
+  it("replays earlier events and streams new ones until the report", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const researchPlanId = "watch-test-plan";
+
+    researchEventBus.publish(researchPlanId, {
+      type: "phase",
+      phase: "planning",
+      progressPercentage: 10,
+      at: new Date(),
+    });
+
+    const subscription = await caller.deepResearch.watch({ researchPlanId });
+    const received: ResearchEvent[] = [];
+
+    const consumer = (async () => {
+      for await (const event of subscription) {
+        received.push(event);
+      }
+    })();
+
+    researchEventBus.publish(researchPlanId, {
+      type: "task",
+      task: {
+        id: "task-1",
+        agentRole: "searcher",
+        description: "Search for sources",
+        status: "thinking",
+      },
+      at: new Date(),
+    });
+    researchEventBus.publish(researchPlanId, {
+      type: "report",
+      report: "Final report",
+      findingsCount: 1,
+      citationsCount: 1,
+      citations: [
+        {
+          id: "c1",
+          number: 1,
+          artifactId: "a1",
+          artifactIds: ["a1"],
+          source: "example.com",
+          url: "https://example.com/",
+          accessedAt: new Date(),
+        },
+      ],
+      executionTime: 42,
+      at: new Date(),
+    });
+
+    await consumer;
+
+    expect(received.map((e) => e.type)).toEqual(["phase", "task", "report"]);
+  });
+
+  it("ends at once for finished runs whose events have expired", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const subscription = await caller.deepResearch.watch({ researchPlanId: "finished-plan" });
+    const received: ResearchEvent[] = [];
+    for await (const event of subscription) {
+      received.push(event);
+    }
+
+    expect(received).toEqual([]);
+  });
+
+  it("rejects users who do not own the research plan", async () => {
+    const caller = appRouter.createCaller(createAuthContext(2));
+    const researchPlanId = "watch-test-other-plan";
+
+    researchEventBus.publish(researchPlanId, {
+      type: "phase",
+      phase: "planning",
+      progressPercentage: 10,
+      at: new Date(),
+    });
+
+    const consume = async () => {
+      const subscription = await caller.deepResearch.watch({ researchPlanId });
+      for await (const _event of subscription) {
+        // The owner check fails before any event is delivered
+      }
+    };
+
+    await expect(consume()).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
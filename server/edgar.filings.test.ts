@@ -0,0 +1,192 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import {
+  FilingNotFoundError,
+  listFilings,
+  loadLatestFiling,
+  SecEdgarSource,
+} from "./_core/agents/tools/edgar";
+import { ResearchCoordinator, researchTickers } from "./_core/agents/researchCoordinator";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+const TEN_K_URL = "https://www.sec.gov/Archives/edgar/data/320193/000032019323000106/aapl-20230930.htm";
+
+function createCaller() {
+  return appRouter.createCaller({
+    user: { id: 1, openId: "test-user-1", role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext);
+}
+
+describe("SEC EDGAR filings", () => {
+  const originalSource = ENV.edgarSource;
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    ENV.edgarSource = "fixture";
+    ENV.marketDataProvider = "fixture";
+  });
+
+  afterEach(() => {
+    ENV.edgarSource = originalSource;
+    ENV.marketDataProvider = originalProvider;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("lists a company's filings by form, newest first", async () => {
+    const filings = await listFilings("aapl");
+    expect(filings.map((filing) => filing.form)).toEqual(["10-Q", "8-K", "10-Q", "10-K"]);
+
+    const [annual] = await listFilings("AAPL", { forms: ["10-K"] });
+    expect(annual).toMatchObject({
+      cik: "0000320193",
+      companyName: "Apple Inc.",
+      accessionNumber: "0000320193-23-000106",
+      filingDate: "2023-11-03",
+      reportDate: "2023-09-30",
+      url: TEN_K_URL,
+    });
+
+    await expect(listFilings("ZZZZ")).rejects.toBeInstanceOf(FilingNotFoundError);
+    await expect(createCaller().financialResearch.secFilings({ symbol: "ZZZZ" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("splits filings into their items past the table of contents", async () => {
+    const annual = await loadLatestFiling("AAPL", "10-K");
+    const risks = annual.sections.find((section) => section.key === "risk_factors")!;
+    const mdna = annual.sections.find((section) => section.key === "mdna")!;
+
+    expect(risks).toMatchObject({ item: "1A", title: "Risk Factors" });
+    expect(risks.content).toMatch(/^The Company’s business, reputation/);
+    expect(risks.content).toContain("outsourcing partners");
+    expect(risks.content).not.toContain("2023 Form 10-K |");
+    expect(risks.content).not.toContain("Unresolved Staff Comments");
+    expect(mdna.item).toBe("7");
+    expect(mdna.content).toContain("Total net sales decreased 3%");
+    expect(annual.sections.map((section) => section.key)).not.toContain("item_10-k");
+
+    // MD&A is Item 2 of a 10-Q, and Part II restarts the numbering
+    const quarterly = await loadLatestFiling("AAPL", "10-Q");
+    const keys = quarterly.sections.map((section) => `${section.key}:${section.item}`);
+    expect(keys).toEqual(["financial_statements:1", "mdna:2", "market_risk:3", "legal_proceedings:1", "risk_factors:1A"]);
+
+    const current = await loadLatestFiling("AAPL", "8-K");
+    expect(current.sections[0]).toMatchObject({ key: "item_2.02", title: "Results of Operations and Financial Condition" });
+    expect(current.facts).toEqual([]);
+  });
+
+  it("extracts the XBRL facts each filing reported for its own period", async () => {
+    const annual = await loadLatestFiling("AAPL", "10-K");
+    const revenue = annual.facts.find((fact) => fact.name === "revenue")!;
+    expect(revenue).toMatchObject({
+      concept: "RevenueFromContractWithCustomerExcludingAssessedTax",
+      value: 383285000000,
+      periodStart: "2022-09-25",
+      periodEnd: "2023-09-30",
+      fiscalPeriod: "FY",
+      accessionNumber: "0000320193-23-000106",
+    });
+
+    // The quarter rather than the year to date, and the quarter-end balance
+    const quarterly = await loadLatestFiling("AAPL", "10-Q");
+    const value = (name: string) => quarterly.facts.find((fact) => fact.name === name)?.value;
+    expect(value("revenue")).toBe(85777000000);
+    expect(value("dilutedEps")).toBe(1.4);
+    expect(value("totalAssets")).toBe(331612000000);
+    // Cash flow is only reported year to date
+    expect(value("operatingCashFlow")).toBe(91443000000);
+  });
+
+  it("identifies itself to the SEC and caches documents on disk", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "edgar-"));
+    const originalUserAgent = ENV.edgarUserAgent;
+    ENV.edgarUserAgent = "Research Desk research@example.com";
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith("missing.htm") ? new Response("", { status: 404 }) : new Response("<p>10-K</p>", { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const source = new SecEdgarSource(directory);
+      expect(await source.getDocument(TEN_K_URL)).toBe("<p>10-K</p>");
+      expect(await new SecEdgarSource(directory).getDocument(TEN_K_URL)).toBe("<p>10-K</p>");
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect((init.headers as Record<string, string>)["user-agent"]).toBe("Research Desk research@example.com");
+
+      await expect(source.getDocument(TEN_K_URL.replace("aapl-20230930", "missing"))).rejects.toBeInstanceOf(
+        FilingNotFoundError
+      );
+    } finally {
+      ENV.edgarUserAgent = originalUserAgent;
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("adds cited Risk Factors and MD&A sources to deep research", async () => {
+    const request = { sessionId: 1, userId: 1, query: "Is $AAPL overvalued vs $MSFT?", context: { tickers: ["msft", "KO"] } };
+    expect(researchTickers(request)).toEqual(["MSFT", "KO", "AAPL"]);
+
+    const coordinator = new ResearchCoordinator(1);
+    const artifacts = await coordinator["collectFilingArtifacts"]({ ...request, query: "Apple's margins", context: { tickers: ["AAPL"] } });
+
+    const sections = artifacts.map((artifact) => `${artifact.metadata.form} ${artifact.metadata.section}`);
+    expect(sections).toEqual([
+      "10-K financial_facts",
+      "10-K risk_factors",
+      "10-K mdna",
+      "10-Q financial_facts",
+      "10-Q risk_factors",
+      "10-Q mdna",
+    ]);
+    expect(artifacts.every((artifact) => artifact.type === "source")).toBe(true);
+    expect(artifacts[1].content).toContain("Item 1A. Risk Factors");
+
+    // Every section of a filing cites the one document
+    const citations = coordinator["state"].citations;
+    expect(citations).toHaveLength(2);
+    expect(citations[0]).toMatchObject({
+      number: 1,
+      source: "SEC EDGAR",
+      url: expect.stringContaining("/000032019323000106/aapl-20230930.htm"),
+    });
+    expect(citations[0].publishedDate).toEqual(new Date("2023-11-03T00:00:00Z"));
+    expect(artifacts.map((artifact) => artifact.metadata.citationNumbers)).toEqual([[1], [1], [1], [2], [2], [2]]);
+  });
+
+  it("grounds the earnings quality assessment in the 10-K", async () => {
+    const agent = new FinancialAnalystAgent();
+    const execute = vi.spyOn(agent, "execute").mockResolvedValue({ result: "assessment" } as any);
+
+    expect(await agent.assessEarningsQuality("AAPL")).toBe("assessment");
+
+    const [task] = execute.mock.calls[0];
+    expect(task.description).toContain("[10-K 0000320193-23-000106] Apple Inc. 10-K filed 2023-11-03");
+    expect(task.description).toContain(
+      "- Net Cash Provided by (Used in) Operating Activities (NetCashProvidedByUsedInOperatingActivities): $110,543,000,000, FY 2023, 2022-09-25 to 2023-09-30"
+    );
+    expect(task.description).toContain("- Cash conversion (operating cash flow / net income): 1.14x");
+    expect(task.description).toContain("- Accruals ratio ((net income - operating cash flow) / total assets): -3.84%");
+    expect(task.description).toContain("Total net sales decreased 3%");
+    expect(task.description).toContain("cite the filing as [10-K 0000320193-23-000106]");
+    expect(task.context.filing).toMatchObject({ accessionNumber: "0000320193-23-000106" });
+
+    // Companies without recorded filings are still assessed
+    await agent.assessEarningsQuality("KO");
+    expect(execute.mock.calls[1][0].description).toContain("SEC filings unavailable: No SEC registrant found for ticker \"KO\"");
+
+    const tool = (await agent["executeTool"]("sec_filings", { symbol: "AAPL", form: "8-k" })) as any;
+    expect(tool.filing.form).toBe("8-K");
+    expect(tool.sections.map((section: { key: string }) => section.key)).toEqual(["item_2.02", "item_9.01"]);
+  });
+});
@@ -0,0 +1,233 @@
+import { deflateSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Hosts under .internal resolve to a private address, everything else to a public one
+vi.mock("node:dns/promises", () => ({
+  lookup: vi.fn(async (host: string) => {
+    if (/^[\d.]+$|:/.test(host)) return [{ address: host, family: host.includes(":") ? 6 : 4 }];
+    return [{ address: host.endsWith(".internal") ? "10.1.2.3" : "93.184.215.14", family: 4 }];
+  }),
+}));
+
+import { fetchUrl } from "./_core/agents/tools/webSearch";
+import { clearRobotsCache, isPathAllowed, parseRobotsTxt } from "./_core/agents/tools/fetch/robots";
+import { decodeEntities } from "./_core/agents/tools/fetch/html";
+
+const ARTICLE_HTML = `<!doctype html>
+<html lang="en-GB">
+<head>
+  <title>Fallback title | Example News</title>
+  <meta property="og:title" content="Solar capacity doubles in 2024 &amp; beyond">
+  <meta name="author" content="Jane Doe">
+  <meta property="article:published_time" content="2024-10-09T08:30:00Z">
+  <link rel="canonical" href="/news/solar-capacity">
+  <script>window.tracking = "<p>not content</p>";</script>
+</head>
+<body>
+  <header><nav><a href="/">Home</a> <a href="/news">News</a> <a href="/about">About</a></nav></header>
+  <div class="layout">
+    <div class="sidebar"><p>Subscribe to our newsletter for weekly updates on everything.</p></div>
+    <article class="post-content">
+      <h1>Solar capacity doubles</h1>
+      <p>Global solar photovoltaic capacity additions nearly doubled last year, according to the latest figures from the agency.</p>
+      <p>Analysts expect the growth to continue as module prices fall and grid connection queues shorten across major markets.</p>
+      <ul><li><a href="/a">Related one</a></li><li><a href="/b">Related two</a></li></ul>
+    </article>
+  </div>
+  <footer><p>Copyright Example News. All rights reserved.</p></footer>
+</body>
+</html>`;
+
+/** A PDF whose text stream follows the given raw content streams */
+function minimalPdf(...leading: Buffer[]): Uint8Array {
+  const streams = [
+    ...leading,
+    Buffer.from("BT /F1 12 Tf 72 712 Td (Quarterly revenue grew) Tj 0 -14 Td [(by 12) -250 (percent.)] TJ ET", "latin1"),
+  ].map((content, i) => {
+    const data = deflateSync(content);
+    return Buffer.concat([
+      Buffer.from(`${i + 2} 0 obj << /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream\nendobj\n", "latin1"),
+    ]);
+  });
+  const head = Buffer.from(
+    `%PDF-1.4\n1 0 obj << /Title (Annual Report) /Author (ACME Corp) /CreationDate (D:20240131120000Z) >> endobj\n`,
+    "latin1"
+  );
+  const tail = Buffer.from("trailer << /Info 1 0 R >>\n%%EOF", "latin1");
+  return new Uint8Array(Buffer.concat([head, ...streams, tail]));
+}
+
+function mockFetch(routes: Record<string, () => Response>) {
+  const fetchMock = vi.fn(async (input: URL | string) => {
+    const url = input.toString();
+    const route = routes[url];
+    if (!route) return new Response("not found", { status: 404, statusText: "Not Found" });
+    const response = route();
+    Object.defineProperty(response, "url", { value: url });
+    return response;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("fetchUrl", () => {
+  beforeEach(() => {
+    clearRobotsCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("extracts the main article text and metadata from HTML", async () => {
+    mockFetch({
+      "https://news.example.com/story": () =>
+        new Response(ARTICLE_HTML, { headers: { "content-type": "text/html; charset=utf-8" } }),
+    });
+
+    const page = await fetchUrl("https://news.example.com/story");
+
+    expect(page.title).toBe("Solar capacity doubles in 2024 & beyond");
+    expect(page.author).toBe("Jane Doe");
+    expect(page.publishedDate?.toISOString()).toBe("2024-10-09T08:30:00.000Z");
+    expect(page.canonicalUrl).toBe("https://news.example.com/news/solar-capacity");
+    expect(page.metadata.contentType).toBe("text/html");
+    expect(page.metadata.language).toBe("en-GB");
+    expect(page.metadata.fetchTimeMs).toBeGreaterThanOrEqual(0);
+
+    expect(page.content).toContain("Global solar photovoltaic capacity additions nearly doubled");
+    expect(page.content).toContain("Analysts expect the growth to continue");
+    expect(page.content).not.toContain("newsletter");
+    expect(page.content).not.toContain("Copyright");
+    expect(page.content).not.toContain("Related one");
+    expect(page.content).not.toContain("not content");
+  });
+
+  it("extracts text and document info from PDFs", async () => {
+    mockFetch({
+      "https://ir.example.com/report.pdf": () =>
+        new Response(minimalPdf(), { headers: { "content-type": "application/pdf" } }),
+    });
+
+    const page = await fetchUrl("https://ir.example.com/report.pdf");
+
+    expect(page.title).toBe("Annual Report");
+    expect(page.author).toBe("ACME Corp");
+    expect(page.publishedDate?.toISOString()).toBe("2024-01-31T12:00:00.000Z");
+    expect(page.content).toBe("Quarterly revenue grew\nby 12 percent.");
+    expect(page.metadata.contentType).toBe("application/pdf");
+  });
+
+  it("skips PDF streams that inflate past the size limit", async () => {
+    // About 16 KB compressed, 16 MB inflated
+    const bomb = Buffer.alloc(16 * 1024 * 1024, " ");
+    mockFetch({
+      "https://ir.example.com/bomb.pdf": () =>
+        new Response(minimalPdf(bomb), { headers: { "content-type": "application/pdf" } }),
+    });
+
+    const page = await fetchUrl("https://ir.example.com/bomb.pdf");
+
+    expect(page.content).toBe("Quarterly revenue grew\nby 12 percent.");
+    expect(page.metadata).toMatchObject({ contentType: "application/pdf", truncated: true });
+  });
+
+  it("returns plain text as-is and truncates at the size limit", async () => {
+    mockFetch({
+      "https://data.example.com/notes.txt": () =>
+        new Response("0123456789abcdef", { headers: { "content-type": "text/plain" } }),
+    });
+
+    const page = await fetchUrl("https://data.example.com/notes.txt", { maxBytes: 10 });
+
+    expect(page.content).toBe("0123456789");
+    expect(page.metadata).toMatchObject({ contentType: "text/plain", bytes: 10, truncated: true });
+  });
+
+  it("refuses URLs disallowed by robots.txt", async () => {
+    const fetchMock = mockFetch({
+      "https://private.example.com/robots.txt": () =>
+        new Response("User-agent: *\nDisallow: /private/\nAllow: /private/public-page\n"),
+      "https://private.example.com/private/secret": () => new Response("secret"),
+    });
+
+    await expect(fetchUrl("https://private.example.com/private/secret")).rejects.toThrow(
+      "disallowed by robots.txt"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses private, loopback and metadata addresses", async () => {
+    const fetchMock = mockFetch({});
+
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data/",
+      "http://127.0.0.1:3000/",
+      "http://[::1]/",
+      "http://[::ffff:10.0.0.1]/",
+      "https://db.corp.internal/admin",
+    ]) {
+      await expect(fetchUrl(url)).rejects.toThrow("private or reserved address");
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("checks every redirect hop before following it", async () => {
+    const fetchMock = mockFetch({
+      "https://short.example.com/to-metadata": () =>
+        new Response(null, { status: 302, headers: { location: "http://169.254.169.254/latest/meta-data/" } }),
+      "https://short.example.com/to-article": () =>
+        new Response(null, { status: 301, headers: { location: "https://blog.example.org/post" } }),
+      "https://short.example.com/to-private-path": () =>
+        new Response(null, { status: 307, headers: { location: "https://private.example.com/private/secret" } }),
+      "https://private.example.com/robots.txt": () => new Response("User-agent: *\nDisallow: /private/\n"),
+      "https://blog.example.org/post": () => new Response("Moved here", { headers: { "content-type": "text/plain" } }),
+    });
+
+    await expect(fetchUrl("https://short.example.com/to-metadata")).rejects.toThrow("private or reserved address");
+    expect(fetchMock.mock.calls.map(([url]) => url.toString())).not.toContain("http://169.254.169.254/latest/meta-data/");
+
+    await expect(fetchUrl("https://short.example.com/to-private-path")).rejects.toThrow("disallowed by robots.txt");
+    expect(fetchMock.mock.calls.map(([url]) => url.toString())).not.toContain("https://private.example.com/private/secret");
+
+    const page = await fetchUrl("https://short.example.com/to-article");
+    expect(page.url).toBe("https://blog.example.org/post");
+    expect(page.content).toBe("Moved here");
+    expect(fetchMock.mock.calls.map(([url]) => url.toString())).toContain("https://blog.example.org/robots.txt");
+  });
+
+  it("follows robots.txt redirects only to public addresses", async () => {
+    const fetchMock = mockFetch({
+      "https://relay.example.com/robots.txt": () =>
+        new Response(null, { status: 302, headers: { location: "http://169.254.169.254/robots.txt" } }),
+      "http://169.254.169.254/robots.txt": () => new Response("User-agent: *\nDisallow: /\n"),
+      "https://relay.example.com/page": () => new Response("Still here", { headers: { "content-type": "text/plain" } }),
+      "https://moved.example.com/robots.txt": () =>
+        new Response(null, { status: 301, headers: { location: "https://rules.example.net/robots.txt" } }),
+      "https://rules.example.net/robots.txt": () => new Response("User-agent: *\nDisallow: /\n"),
+    });
+
+    const page = await fetchUrl("https://relay.example.com/page");
+    expect(page.content).toBe("Still here");
+    expect(fetchMock.mock.calls.map(([url]) => url.toString())).not.toContain("http://169.254.169.254/robots.txt");
+
+    await expect(fetchUrl("https://moved.example.com/page")).rejects.toThrow("disallowed by robots.txt");
+  });
+
+  it("applies the most specific robots.txt rule", () => {
+    const rules = parseRobotsTxt(
+      "User-agent: other\nDisallow: /\n\nUser-agent: AgentJ-Research\nDisallow: /reports\nAllow: /reports/*.pdf$\n",
+      "AgentJ-Research/1.0"
+    );
+
+    expect(isPathAllowed(rules, "/")).toBe(true);
+    expect(isPathAllowed(rules, "/reports/index.html")).toBe(false);
+    expect(isPathAllowed(rules, "/reports/2024/annual.pdf")).toBe(true);
+  });
+
+  it("keeps numeric entities that are not valid code points as written", () => {
+    expect(decodeEntities("&#9999999; &#xD800; &#x1F600; &amp;")).toBe("&#9999999; &#xD800; \u{1F600} &");
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  portfolios: new Map<number, any>(),
+  transactions: new Map<number, any>(),
+}));
+
+vi.mock("./db", () => ({
+  getPortfolioById: vi.fn(async (id: number) => store.portfolios.get(id)),
+  getTransactionsByPortfolioId: vi.fn(async (portfolioId: number) =>
+    [...store.transactions.values()].filter((t) => t.portfolioId === portfolioId)
+  ),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { FixtureMarketDataProvider } from "./_core/agents/tools/marketData";
+import {
+  clearFxCache,
+  FixtureFxProvider,
+  formatConverted,
+  FxError,
+  fxAdapter,
+  getFxRate,
+  getFxSeries,
+} from "./_core/agents/tools/fx";
+import { clearScreenerCache, runScreen } from "./_core/agents/tools/screener";
+import { computePerformance } from "./_core/agents/tools/portfolio";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+function createCaller(userId: number) {
+  const ctx = {
+    user: { id: userId, openId: `test-user-${userId}`, role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+const at = (date: string) => new Date(`${date}T15:00:00Z`);
+
+// USD to EUR fixings from the bundled fixtures
+const EUR_JULY_1 = 0.9322;
+const EUR_OCT_18 = 0.9204;
+
+describe("FX conversion", () => {
+  const originalEnv = { ...ENV };
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+    ENV.fxProvider = "fixture";
+    clearFxCache();
+    clearScreenerCache();
+    store.portfolios.clear();
+    store.transactions.clear();
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+    vi.restoreAllMocks();
+  });
+
+  it("looks up rates on a day, crosses currencies and scales minor units", async () => {
+    // A Saturday uses Friday's fixing
+    await expect(getFxRate("USD", "EUR", "2024-10-19")).resolves.toEqual({
+      from: "USD",
+      to: "EUR",
+      rate: EUR_OCT_18,
+      date: "2024-10-18",
+      source: "fixture",
+    });
+    expect((await getFxRate("EUR", "GBP", "2024-07-15")).rate).toBeCloseTo(0.7907 / EUR_JULY_1, 12);
+    expect((await getFxRate("GBp", "USD", "2024-10-18")).rate).toBeCloseTo(0.01 / 0.7664, 12);
+
+    const getRates = vi.spyOn(fxAdapter.getProvider("fixture"), "getRates");
+    await expect(getFxRate("usd", "USD")).resolves.toMatchObject({ rate: 1, source: "identity" });
+    expect(getRates).not.toHaveBeenCalled();
+
+    await expect(getFxRate("USD", "XYZ", "2024-10-18")).rejects.toBeInstanceOf(FxError);
+    expect(formatConverted(235, await getFxRate("USD", "EUR", "2024-10-18"))).toBe("€216.29 (native $235.00)");
+  });
+
+  it("caches past fixings and expires the latest ones", async () => {
+    const counting = new FixtureFxProvider();
+    const getRates = vi.spyOn(counting, "getRates");
+    fxAdapter.registerProvider("counting", counting);
+    ENV.fxProvider = "counting";
+
+    await getFxRate("USD", "EUR", "2024-07-01");
+    await getFxRate("USD", "GBP", "2024-07-01");
+    expect(getRates).toHaveBeenCalledTimes(1);
+
+    ENV.fxLatestTtlMs = 0;
+    await getFxRate("USD", "EUR");
+    await getFxRate("USD", "EUR");
+    expect(getRates).toHaveBeenCalledTimes(3);
+    expect(getRates).toHaveBeenLastCalledWith("USD", undefined);
+  });
+
+  it("fills a rate series forward over days without a fixing", async () => {
+    const series = await getFxSeries("USD", "EUR", "2024-07-04", "2024-10-18");
+    expect(series.rateOn("2024-07-04")).toBe(EUR_JULY_1);
+    expect(series.rateOn("2024-08-15")).toBe(0.9251);
+    expect(series.rateOn("2024-10-18")).toBe(EUR_OCT_18);
+  });
+
+  it("normalizes compared quotes and screens to a reporting currency", async () => {
+    const caller = createCaller(1);
+    const [aapl] = await caller.financialResearch.compareStocks({ symbols: ["AAPL"], reportingCurrency: "eur" });
+    expect(aapl).toMatchObject({ price: 235, currency: "USD", reportingCurrency: "EUR" });
+    expect(aapl.converted.price).toBeCloseTo(235 * EUR_OCT_18, 10);
+    expect(aapl.fx).toMatchObject({ rate: EUR_OCT_18, date: "2024-10-18" });
+
+    // Thresholds apply to converted prices: AAPL is $235.00 but €216.29
+    const screen = await runScreen({ filter: { field: "price", op: "lte", value: 220 }, reportingCurrency: "EUR" });
+    expect(screen.currency).toBe("EUR");
+    expect(screen.results.map((row) => row.symbol)).toEqual(["AAPL", "KO"]);
+    expect(screen.results[0]).toMatchObject({ currency: "EUR", nativeCurrency: "USD", fxRate: EUR_OCT_18 });
+    expect(screen.results[0].price).toBeCloseTo(235 * EUR_OCT_18, 10);
+
+    await expect(
+      caller.financialResearch.compareStocks({ symbols: ["AAPL"], reportingCurrency: "XYZ" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("values portfolios at historical cost rates and the latest price rate", async () => {
+    store.portfolios.set(1, { id: 1, userId: 1, name: "Euro", benchmark: "SPY", reportingCurrency: "EUR" });
+    store.transactions.set(1, {
+      id: 1,
+      portfolioId: 1,
+      symbol: "AAPL",
+      type: "buy",
+      quantity: 4,
+      price: 200,
+      fees: 0,
+      executedAt: at("2024-07-01"),
+    });
+
+    const valuation = await createCaller(1).financialResearch.portfolio.costBasis({ portfolioId: 1 });
+    expect(valuation.currency).toBe("EUR");
+    expect(valuation.totalCostBasis).toBeCloseTo(800 * EUR_JULY_1, 10);
+    expect(valuation.totalMarketValue).toBeCloseTo(4 * 235 * EUR_OCT_18, 10);
+    expect(valuation.positions[0]).toMatchObject({ nativePrice: 235, nativeCurrency: "USD", fxRate: EUR_OCT_18 });
+
+    const inDollars = await createCaller(1).financialResearch.portfolio.costBasis({
+      portfolioId: 1,
+      reportingCurrency: "USD",
+    });
+    expect(inDollars).toMatchObject({ currency: "USD", totalCostBasis: 800, totalMarketValue: 940 });
+  });
+
+  it("measures performance with currency moves included", async () => {
+    const ko = await new FixtureMarketDataProvider().getHistory("KO", new Date("2024-07-01"), new Date("2024-10-18"), "1d");
+    const performance = await computePerformance(
+      [{ symbol: "KO", type: "buy", quantity: 10, price: ko[0].close, fees: 0, executedAt: at("2024-07-01") }],
+      "KO",
+      "EUR"
+    );
+
+    const koReturnInEur = ((ko[ko.length - 1].close * EUR_OCT_18) / (ko[0].close * EUR_JULY_1) - 1) * 100;
+    expect(performance.currency).toBe("EUR");
+    expect(performance.timeWeightedReturn).toBeCloseTo(koReturnInEur, 8);
+    expect(performance.benchmarkReturn).toBeCloseTo(koReturnInEur, 8);
+    expect(performance.series[performance.series.length - 1].value).toBeCloseTo(10 * ko[ko.length - 1].close * EUR_OCT_18, 8);
+  });
+
+  it("shows native and converted prices in the analyst's prompts", async () => {
+    const agent = new FinancialAnalystAgent();
+    agent.setReportingCurrency("EUR");
+    const execute = vi.spyOn(agent, "execute").mockResolvedValue({ result: "comparison" } as any);
+
+    await agent.compareStocks(["AAPL", "KO"]);
+
+    const prompt = execute.mock.calls[0][0].description;
+    expect(prompt).toContain("with prices in EUR and native values in parentheses (1 USD = 0.9204 EUR (fixture, 2024-10-18))");
+    expect(prompt).toContain("- Price: €216.29 (native $235.00)");
+  });
+
+  it("writes earnings and cash flows in both currencies", async () => {
+    const agent = new FinancialAnalystAgent();
+    agent.setReportingCurrency("EUR");
+    const execute = vi.spyOn(agent, "execute").mockResolvedValue({ result: "assessment" } as any);
+
+    await agent.assessEarningsQuality("KO");
+
+    const prompt = execute.mock.calls[0][0].description;
+    expect(prompt).toContain("Amounts are in EUR with native USD values in parentheses (1 USD = 0.9204 EUR (fixture, 2024-10-18))");
+    expect(prompt).toMatch(/EPS €[\d.]+ \(native \$[\d.]+\), Revenue €[\d.]+[KMBT]? \(native \$[\d.]+[KMBT]?\)/);
+    expect(prompt).toMatch(/- Net Income: €[\d.]+[KMBT]? \(native \$[\d.]+[KMBT]?\)/);
+  });
+});
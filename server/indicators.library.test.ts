@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ENV } from "./_core/env";
+import {
+  bollingerBands,
+  ema,
+  findPivots,
+  macd,
+  maxDrawdown,
+  movingAverageCrossover,
+  periodReturn,
+  rsi,
+  sharpeRatio,
+  simpleReturns,
+  sma,
+  sortinoRatio,
+  supportResistance,
+} from "./_core/agents/tools/indicators";
+import { adjustedPriceBars, analyzeStockPerformance } from "./_core/agents/tools/yahooFinance";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+const bars = (highs: number[]) =>
+  highs.map((high, i) => ({ date: `2024-01-0${i + 1}`, high, low: high - 0.5, close: high - 0.25 }));
+
+describe("indicator library", () => {
+  it("computes returns and drawdowns", () => {
+    expect(periodReturn([100, 110, 121], 2)).toBeCloseTo(21, 10);
+    expect(periodReturn([100, 110], 2)).toBeNull();
+    expect(simpleReturns([100, 110, 99])).toEqual([expect.closeTo(0.1, 10), expect.closeTo(-0.1, 10)]);
+    expect(maxDrawdown([100, 120, 90, 130, 104])).toEqual({ maxDrawdown: 25, peakIndex: 1, troughIndex: 2 });
+  });
+
+  it("measures risk-adjusted returns against the risk-free rate", () => {
+    const returns = [0.01, -0.01, 0.02, 0];
+
+    expect(sharpeRatio(returns)).toBeCloseTo((0.005 / Math.sqrt(5e-4 / 3)) * Math.sqrt(252), 10);
+    expect(sortinoRatio(returns)).toBeCloseTo(Math.sqrt(252), 10);
+    expect(sharpeRatio(returns, 0.04)!).toBeLessThan(sharpeRatio(returns)!);
+    expect(sharpeRatio([0.01, 0.01, 0.01])).toBeNull();
+    expect(sortinoRatio([0.01, 0.02])).toBeNull();
+  });
+
+  it("computes moving averages, RSI, MACD and Bollinger bands", () => {
+    expect(sma([1, 2, 3, 4], 2)).toEqual([null, 1.5, 2.5, 3.5]);
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+
+    expect(rsi([1, 2, 1, 2], 2)).toBeCloseTo(75, 10);
+    expect(rsi([1, 2, 3, 4], 2)).toBe(100);
+
+    expect(macd(Array(40).fill(50))).toEqual({ macd: 0, signal: 0, histogram: 0 });
+    expect(macd(Array(30).fill(50))).toBeNull();
+
+    const bands = bollingerBands([1, 2, 3, 4, 5], 5, 2)!;
+    expect(bands.middle).toBe(3);
+    expect(bands.upper).toBeCloseTo(3 + 2 * Math.SQRT2, 10);
+    expect(bands.percentB).toBeCloseTo((2 + 2 * Math.SQRT2) / (4 * Math.SQRT2), 10);
+  });
+
+  it("finds support and resistance from pivots", () => {
+    const series = bars([1, 2, 5, 2, 1, 3, 1]);
+
+    expect(findPivots(series, 1).map(({ type, index }) => [type, index])).toEqual([
+      ["high", 2],
+      ["low", 4],
+      ["high", 5],
+    ]);
+    expect(supportResistance(series, 2, 1)).toMatchObject({ support: 0.5, resistance: 3 });
+  });
+
+  it("puts highs and lows on the adjusted close basis", () => {
+    // Before a 2:1 split the raw prices are twice the adjusted ones
+    const history = [
+      { date: "2024-01-01", open: 100, high: 110, low: 90, close: 100, adjClose: 50, volume: 1 },
+      { date: "2024-01-02", open: 52, high: 55, low: 48, close: 52, adjClose: 52, volume: 1 },
+    ];
+
+    expect(adjustedPriceBars(history)).toEqual([
+      { date: "2024-01-01", high: 55, low: 45, close: 50 },
+      { date: "2024-01-02", high: 55, low: 48, close: 52 },
+    ]);
+  });
+
+  it("derives the trend from moving-average crossovers", () => {
+    expect(movingAverageCrossover([10, 9, 8, 7, 6, 7, 8, 9, 10], 2, 4)).toMatchObject({
+      trend: "Uptrend",
+      lastCrossover: { type: "golden", index: 6 },
+    });
+    expect(movingAverageCrossover([1, 2, 3], 2, 4)).toBeNull();
+  });
+});
+
+describe("indicators over market data", () => {
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+  });
+
+  it("reports risk metrics against a configurable risk-free rate", async () => {
+    const base = await analyzeStockPerformance("KO", { riskFreeRate: 0 });
+    const withRate = await analyzeStockPerformance("KO", { riskFreeRate: 0.05 });
+
+    expect(withRate.performanceMetrics.riskFreeRate).toBe(0.05);
+    expect(withRate.performanceMetrics.sharpeRatio!).toBeLessThan(base.performanceMetrics.sharpeRatio!);
+    expect(base.performanceMetrics.maxDrawdown).toBeGreaterThan(0);
+    expect(base.technicalAnalysis.macdValues).not.toBeNull();
+    expect(base.technicalAnalysis.bollingerBands).not.toBeNull();
+  });
+
+  it("exposes the indicators to the financial analyst as tools", async () => {
+    const agent = new FinancialAnalystAgent();
+    const names = agent["getTools"]().map((tool) => tool.function.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining(["getCurrentDateTime", "performance_metrics", "rsi", "macd", "support_resistance"])
+    );
+
+    const output = (await agent["executeTool"]("rsi", { symbol: "msft", period: 14 })) as {
+      symbol: string;
+      source: string;
+      result: { rsi: number };
+    };
+    expect(output).toMatchObject({ symbol: "MSFT", source: "fixture" });
+    expect(output.result.rsi).toBeGreaterThan(0);
+
+    const trend = (await agent["executeTool"]("moving_average_trend", { symbol: "MSFT" })) as { result: unknown };
+    expect(trend.result).toBe("Insufficient history for the requested periods");
+  });
+});
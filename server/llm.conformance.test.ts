@@ -0,0 +1,410 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+
+vi.mock("./db", () => ({
+  createLlmUsage: vi.fn(async () => undefined),
+  getModelCosts: vi.fn(async () => []),
+}));
+
+import { ENV } from "./_core/env";
+import { llmAdapter } from "./_core/llm/LLMAdapter";
+import type { LLMProvider } from "./_core/llm/LLMProvider";
+import { OpenAIProvider } from "./_core/llm/openaiProvider";
+import { OpenAICompatibleProvider } from "./_core/llm/openaiCompatibleProvider";
+import { AnthropicProvider } from "./_core/llm/anthropicProvider";
+import { GoogleGeminiProvider } from "./_core/llm/googleGeminiProvider";
+import { OllamaProvider } from "./_core/llm/ollamaProvider";
+import { parseStructured, responseFormatFor } from "./_core/llm";
+import { toJsonSchema } from "./_core/llm/structured";
+import type { InvokeParams, StreamChunk, StructuredOutputMode } from "./_core/llm";
+import { BaseAgent } from "./_core/agents/baseAgent";
+
+/**
+ * Provider conformance suite. Every provider runs against a mock server that
+ * speaks its wire format and answers like a tiny model: tool results are
+ * summarised, offered tools are called, schemas are answered with JSON and
+ * anything else gets a greeting. A new provider joins by adding a harness.
+ */
+
+type Recorded = { url: string; body: any };
+
+/** What a native request asked for, in provider-neutral terms */
+type WireView = {
+  toolNames: string[];
+  schema?: unknown;
+  toolCalls: Array<{ name: string; args: unknown }>;
+  toolResults: string[];
+};
+
+type Answer = { text: string } | { tool: { name: string; args: Record<string, unknown> } };
+
+interface Harness {
+  name: string;
+  structuredOutput: StructuredOutputMode;
+  /** URL prefix the provider's requests arrive under */
+  prefix: string;
+  create(baseUrl: string): LLMProvider;
+  isStream(request: Recorded): boolean;
+  view(body: any): WireView;
+  reply(answer: Answer, stream: boolean, res: ServerResponse): void;
+}
+
+const TOKENS = { prompt: 10, completion: 5 };
+
+function json(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sse(res: ServerResponse, events: unknown[]) {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  events.forEach((event) => res.write(`data: ${JSON.stringify(event)}\n\n`));
+  res.end();
+}
+
+function ndjson(res: ServerResponse, lines: unknown[]) {
+  res.writeHead(200, { "content-type": "application/x-ndjson" });
+  lines.forEach((line) => res.write(`${JSON.stringify(line)}\n`));
+  res.end();
+}
+
+// Streamed text arrives in two pieces so concatenation is exercised
+const halves = (text: string) => [text.slice(0, Math.ceil(text.length / 2)), text.slice(Math.ceil(text.length / 2))];
+
+const openAIWire: Pick<Harness, "isStream" | "view" | "reply"> = {
+  isStream: (request) => request.body.stream === true,
+  view: (body) => ({
+    toolNames: (body.tools ?? []).map((t: any) => t.function.name),
+    schema: body.response_format?.type === "json_schema" ? body.response_format.json_schema.schema : undefined,
+    toolCalls: body.messages.flatMap((m: any) =>
+      (m.tool_calls ?? []).map((c: any) => ({ name: c.function.name, args: JSON.parse(c.function.arguments) }))
+    ),
+    toolResults: body.messages.filter((m: any) => m.role === "tool").map((m: any) => m.content),
+  }),
+  reply(answer, stream, res) {
+    const usage = { prompt_tokens: TOKENS.prompt, completion_tokens: TOKENS.completion, total_tokens: TOKENS.prompt + TOKENS.completion };
+    if (!stream) {
+      const message =
+        "text" in answer
+          ? { role: "assistant", content: answer.text }
+          : {
+              role: "assistant",
+              content: null,
+              tool_calls: [{ id: "call_1", type: "function", function: { name: answer.tool.name, arguments: JSON.stringify(answer.tool.args) } }],
+            };
+      return json(res, {
+        id: "chatcmpl-1",
+        created: 1,
+        model: "mock-model",
+        choices: [{ index: 0, message, finish_reason: "text" in answer ? "stop" : "tool_calls" }],
+        usage,
+      });
+    }
+    if ("text" in answer) {
+      return sse(res, [
+        ...halves(answer.text).map((content) => ({ model: "mock-model", choices: [{ delta: { content } }] })),
+        { model: "mock-model", choices: [{ delta: {}, finish_reason: "stop" }] },
+        { model: "mock-model", choices: [], usage },
+      ]);
+    }
+    const args = halves(JSON.stringify(answer.tool.args));
+    sse(res, [
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: answer.tool.name, arguments: "" } }] } }] },
+      ...args.map((fragment) => ({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: fragment } }] } }] })),
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+      { choices: [], usage },
+    ]);
+  },
+};
+
+const harnesses: Harness[] = [
+  {
+    name: "openai",
+    structuredOutput: "json_schema",
+    prefix: "/forge/",
+    create(baseUrl) {
+      ENV.forgeApiUrl = `${baseUrl}/forge`;
+      ENV.forgeApiKey = "forge-key";
+      return new OpenAIProvider();
+    },
+    ...openAIWire,
+  },
+  {
+    name: "openai-compatible",
+    structuredOutput: "json_schema",
+    prefix: "/compat/",
+    create: (baseUrl) =>
+      new OpenAICompatibleProvider({ name: "vllm", baseUrl: `${baseUrl}/compat/v1`, structuredOutput: "json_schema" }),
+    ...openAIWire,
+  },
+  {
+    name: "anthropic",
+    structuredOutput: "json_object",
+    prefix: "/anthropic/",
+    create: (baseUrl) => new AnthropicProvider({ apiKey: "sk-ant-test", baseUrl: `${baseUrl}/anthropic` }),
+    isStream: (request) => request.body.stream === true,
+    view: (body) => ({
+      toolNames: (body.tools ?? []).map((t: any) => t.name),
+      toolCalls: body.messages.flatMap((m: any) =>
+        m.content.filter((b: any) => b.type === "tool_use").map((b: any) => ({ name: b.name, args: b.input }))
+      ),
+      toolResults: body.messages.flatMap((m: any) =>
+        m.content.filter((b: any) => b.type === "tool_result").map((b: any) => b.content)
+      ),
+    }),
+    reply(answer, stream, res) {
+      const block =
+        "text" in answer
+          ? { type: "text", text: answer.text }
+          : { type: "tool_use", id: "toolu_1", name: answer.tool.name, input: answer.tool.args };
+      const stopReason = "text" in answer ? "end_turn" : "tool_use";
+      if (!stream) {
+        return json(res, {
+          id: "msg_1",
+          type: "message",
+          model: "mock-model",
+          content: [block],
+          stop_reason: stopReason,
+          usage: { input_tokens: TOKENS.prompt, output_tokens: TOKENS.completion },
+        });
+      }
+      const deltas =
+        "text" in answer
+          ? halves(answer.text).map((text) => ({ type: "text_delta", text }))
+          : halves(JSON.stringify(answer.tool.args)).map((partial_json) => ({ type: "input_json_delta", partial_json }));
+      sse(res, [
+        { type: "message_start", message: { model: "mock-model", usage: { input_tokens: TOKENS.prompt, output_tokens: 1 } } },
+        { type: "content_block_start", index: 0, content_block: "text" in answer ? { type: "text", text: "" } : { ...block, input: {} } },
+        ...deltas.map((delta) => ({ type: "content_block_delta", index: 0, delta })),
+        { type: "content_block_stop", index: 0 },
+        { type: "message_delta", delta: { stop_reason: stopReason }, usage: { output_tokens: TOKENS.completion } },
+        { type: "message_stop" },
+      ]);
+    },
+  },
+  {
+    name: "gemini",
+    structuredOutput: "json_schema",
+    prefix: "/gemini/",
+    create(baseUrl) {
+      ENV.googleApiUrl = `${baseUrl}/gemini`;
+      ENV.googleApiKey = "gemini-key";
+      return new GoogleGeminiProvider();
+    },
+    isStream: (request) => request.url.includes(":streamGenerateContent"),
+    view: (body) => ({
+      toolNames: (body.tools?.[0]?.functionDeclarations ?? []).map((d: any) => d.name),
+      schema: body.generationConfig?.responseJsonSchema,
+      toolCalls: body.contents.flatMap((c: any) =>
+        c.parts.filter((p: any) => p.functionCall).map((p: any) => ({ name: p.functionCall.name, args: p.functionCall.args }))
+      ),
+      toolResults: body.contents.flatMap((c: any) =>
+        c.parts.filter((p: any) => p.functionResponse).map((p: any) => JSON.stringify(p.functionResponse.response))
+      ),
+    }),
+    reply(answer, stream, res) {
+      const usageMetadata = { promptTokenCount: TOKENS.prompt, candidatesTokenCount: TOKENS.completion };
+      const candidate = (parts: unknown[], finishReason?: string) => ({ content: { role: "model", parts }, ...(finishReason ? { finishReason } : {}) });
+      const parts = "text" in answer ? [{ text: answer.text }] : [{ functionCall: { name: answer.tool.name, args: answer.tool.args } }];
+      if (!stream) {
+        return json(res, { candidates: [candidate(parts, "STOP")], usageMetadata });
+      }
+      if ("text" in answer) {
+        const [first, second] = halves(answer.text);
+        return sse(res, [
+          { candidates: [candidate([{ text: first }])] },
+          { candidates: [candidate([{ text: second }], "STOP")], usageMetadata },
+        ]);
+      }
+      sse(res, [{ candidates: [candidate(parts, "STOP")], usageMetadata }]);
+    },
+  },
+  {
+    name: "ollama",
+    structuredOutput: "json_schema",
+    prefix: "/ollama/",
+    create(baseUrl) {
+      ENV.ollamaApiUrl = `${baseUrl}/ollama/api`;
+      return new OllamaProvider();
+    },
+    isStream: (request) => request.body.stream === true,
+    view: (body) => ({
+      toolNames: (body.tools ?? []).map((t: any) => t.function.name),
+      schema: typeof body.format === "object" ? body.format : undefined,
+      toolCalls: body.messages.flatMap((m: any) =>
+        (m.tool_calls ?? []).map((c: any) => ({ name: c.function.name, args: c.function.arguments }))
+      ),
+      toolResults: body.messages.filter((m: any) => m.role === "tool").map((m: any) => m.content),
+    }),
+    reply(answer, stream, res) {
+      const done = { model: "mock-model", done: true, done_reason: "stop", prompt_eval_count: TOKENS.prompt, eval_count: TOKENS.completion };
+      const message =
+        "text" in answer
+          ? { role: "assistant", content: answer.text }
+          : { role: "assistant", content: "", tool_calls: [{ function: { name: answer.tool.name, arguments: answer.tool.args } }] };
+      if (!stream) {
+        return json(res, { ...done, message });
+      }
+      const pieces =
+        "text" in answer
+          ? halves(answer.text).map((content) => ({ model: "mock-model", message: { role: "assistant", content }, done: false }))
+          : [{ model: "mock-model", message, done: false }];
+      ndjson(res, [...pieces, { ...done, message: { role: "assistant", content: "" } }]);
+    },
+  },
+];
+
+/** The mock model's answer to a request */
+function answer(view: WireView): Answer {
+  if (view.toolResults.length > 0) return { text: `Result: ${view.toolResults[view.toolResults.length - 1]}` };
+  if (view.toolNames.length > 0) return { tool: { name: view.toolNames[0], args: { text: "hello" } } };
+  if (view.schema) return { text: '{"answer":"hello"}' };
+  return { text: "Hello there" };
+}
+
+const echoTool = {
+  type: "function" as const,
+  function: {
+    name: "echo",
+    description: "Echo the given text",
+    parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+  },
+};
+
+class EchoAgent extends BaseAgent {
+  constructor() {
+    super("searcher", "mock-model");
+  }
+
+  protected getTools() {
+    return [echoTool];
+  }
+
+  protected async executeTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+    if (name === "echo") return { echoed: args.text };
+    return super.executeTool(name, args);
+  }
+}
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const prompt = (content: string): InvokeParams => ({ model: "mock-model", messages: [{ role: "user", content }] });
+
+describe.each(harnesses)("$name provider conformance", (harness) => {
+  const originalEnv = { ...ENV };
+  const requests: Recorded[] = [];
+  let server: Server;
+  let provider: LLMProvider;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const request = { url: req.url ?? "", body: raw ? JSON.parse(raw) : undefined };
+        if (req.method !== "POST" || !request.url.startsWith(harness.prefix)) return json(res, { error: "not found" }, 404);
+        requests.push(request);
+        harness.reply(answer(harness.view(request.body)), harness.isStream(request), res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    provider = harness.create(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+  });
+
+  it("answers a plain prompt with text, a finish reason and usage", async () => {
+    const result = await provider.invoke(prompt("Hi"));
+
+    expect(provider.structuredOutput).toBe(harness.structuredOutput);
+    expect(result.choices[0].message).toMatchObject({ role: "assistant", content: "Hello there" });
+    expect(result.choices[0].message.tool_calls ?? []).toEqual([]);
+    expect(result.choices[0].finish_reason).toBe("stop");
+    expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+  });
+
+  it("sends tools natively and maps tool calls back to tool_calls", async () => {
+    const result = await provider.invoke({ ...prompt("Echo hello"), tools: [echoTool] });
+
+    expect(harness.view(requests[0].body).toolNames).toEqual(["echo"]);
+    const [call] = result.choices[0].message.tool_calls ?? [];
+    expect(call).toMatchObject({ type: "function", function: { name: "echo" } });
+    expect(call.id).toEqual(expect.any(String));
+    expect(call.id.length).toBeGreaterThan(0);
+    expect(JSON.parse(call.function.arguments)).toEqual({ text: "hello" });
+    expect(result.choices[0].finish_reason).toBe("tool_calls");
+    expect(typeof result.choices[0].message.content).toBe("string");
+  });
+
+  it("runs an agent's tool loop, sending calls and results back in native form", async () => {
+    llmAdapter.registerProvider(`conformance-${harness.name}`, provider);
+    ENV.llmProvider = `conformance-${harness.name}`;
+    ENV.llmFallbackChain = "";
+
+    const task = await new EchoAgent().execute({
+      id: "task-1",
+      agentRole: "searcher",
+      description: "Echo hello",
+      context: {},
+      status: "idle",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(task.error).toBeUndefined();
+    expect(task.status).toBe("completed");
+    expect(task.result).toBe('Result: {"echoed":"hello"}');
+    expect(harness.view(requests[1].body)).toMatchObject({
+      toolCalls: [{ name: "echo", args: { text: "hello" } }],
+      toolResults: ['{"echoed":"hello"}'],
+    });
+  });
+
+  it("streams text, whole tool calls from deltas and one final usage record", async () => {
+    const text = await collect(provider.stream(prompt("Hi")));
+    expect(text.filter((c) => c.type === "text").map((c) => (c as { delta: string }).delta).join("")).toBe("Hello there");
+    expect(text.filter((c) => c.type === "usage")).toHaveLength(1);
+    expect(text[text.length - 1]).toMatchObject({ type: "usage", usage: { total_tokens: 15 }, finish_reason: "stop" });
+
+    const chunks = await collect(provider.stream({ ...prompt("Echo hello"), tools: [echoTool] }));
+    const calls = new Map<number, { id?: string; name?: string; args: string }>();
+    chunks.forEach((chunk) => {
+      if (chunk.type !== "tool_call") return;
+      const call = calls.get(chunk.index) ?? { args: "" };
+      calls.set(chunk.index, { id: call.id ?? chunk.id, name: call.name ?? chunk.name, args: call.args + chunk.argumentsDelta });
+    });
+    expect(Array.from(calls.values())).toEqual([{ id: expect.any(String), name: "echo", args: expect.any(String) }]);
+    expect(JSON.parse(calls.get(0)!.args)).toEqual({ text: "hello" });
+    expect(chunks[chunks.length - 1]).toMatchObject({ type: "usage", finish_reason: "tool_calls" });
+  });
+
+  it.skipIf(harness.structuredOutput !== "json_schema")("passes json_schema response formats to the native schema API", async () => {
+    const output = { name: "greeting", schema: z.object({ answer: z.string() }) };
+    const result = await provider.invoke({
+      ...prompt("Greet me"),
+      responseFormat: responseFormatFor(output, provider.structuredOutput),
+    });
+
+    expect(harness.view(requests[0].body).schema).toEqual(toJsonSchema(output.schema));
+    expect(parseStructured(String(result.choices[0].message.content), output)).toEqual({
+      success: true,
+      data: { answer: "hello" },
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { LLMAdapter, parseProviderRoutes, routesForModel } from "./_core/llm/LLMAdapter";
+import type { LLMProvider } from "./_core/llm/LLMProvider";
+import { OpenAIProvider } from "./_core/llm/openaiProvider";
+import { LLMProviderError, LLMUnavailableError } from "./_core/llm/errors";
+import { backoffDelay } from "./_core/llm/resilience";
+import { structuredOutputMode } from "./_core/llm";
+import type { InvokeParams, InvokeResult, StreamChunk } from "./_core/llm";
+
+function reply(text: string, model = ""): InvokeResult {
+  return {
+    id: "r",
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+  };
+}
+
+function fakeProvider(
+  invoke: (params: InvokeParams) => Promise<InvokeResult>,
+  stream?: (params: InvokeParams) => AsyncGenerator<StreamChunk>
+): LLMProvider & { invoke: ReturnType<typeof vi.fn> } {
+  return {
+    structuredOutput: "json_schema",
+    invoke: vi.fn(invoke),
+    stream: stream ?? (async function* () {}),
+    getAvailableModels: async () => [],
+  };
+}
+
+const throttled = () => Promise.reject(new LLMProviderError("429 Too Many Requests", "test", 429));
+const params: InvokeParams = { model: "gpt-4.1-mini", messages: [{ role: "user", content: "hi" }] };
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe("LLM fallback and retries", () => {
+  const originalEnv = { ...ENV };
+  let adapter: LLMAdapter;
+
+  beforeEach(() => {
+    ENV.llmMaxRetries = 2;
+    ENV.llmRetryBaseDelayMs = 0;
+    ENV.llmTimeoutMs = 1000;
+    ENV.llmProviderTimeoutsMs = "";
+    ENV.llmCircuitFailureThreshold = 5;
+    ENV.llmCircuitCooldownMs = 60000;
+    adapter = new LLMAdapter();
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries retryable failures and records who answered", async () => {
+    const openai = fakeProvider(async () => reply("hello"));
+    openai.invoke.mockImplementationOnce(throttled).mockImplementationOnce(throttled);
+    adapter.registerProvider("openai", openai);
+
+    const result = await adapter.invoke("openai", params);
+    expect(openai.invoke).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({ provider: "openai", model: "gpt-4.1-mini" });
+
+    const rejected = fakeProvider(() => Promise.reject(new LLMProviderError("400 Bad Request", "openai", 400)));
+    adapter.registerProvider("openai", rejected);
+    await expect(adapter.invoke("openai", params)).rejects.toBeInstanceOf(LLMUnavailableError);
+    expect(rejected.invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("backs off exponentially with full jitter and honours Retry-After", async () => {
+    const policy = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 8000, timeoutMs: 1000 };
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect([0, 1, 2, 5].map((retry) => backoffDelay(retry, policy))).toEqual([250, 500, 1000, 4000]);
+    expect(backoffDelay(0, policy, 3000)).toBe(3000);
+    expect(backoffDelay(0, policy, 60000)).toBe(8000);
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(new Response("slow down", { status: 429, headers: { "retry-after": "2" } }))
+    );
+    ENV.forgeApiKey = "test-key";
+    const error = await new OpenAIProvider().invoke(params).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error).toMatchObject({ provider: "openai", status: 429, retryable: true, retryAfterMs: 2000 });
+  });
+
+  it("falls back along the chain with each route's model", async () => {
+    const openai = fakeProvider(throttled);
+    const gemini = fakeProvider(() => Promise.reject(new Error("Google API Key is not configured")));
+    const ollama = fakeProvider(async ({ model }) => reply(`from ${model}`));
+    adapter.registerProvider("openai", openai);
+    adapter.registerProvider("gemini", gemini);
+    adapter.registerProvider("ollama", ollama);
+
+    const routes = [{ provider: "openai" }, ...parseProviderRoutes("gemini:gemini-2.5-flash, ollama:llama3.1")];
+    const result = await adapter.invoke(routes, params);
+
+    expect(openai.invoke).toHaveBeenCalledTimes(3);
+    expect(gemini.invoke).toHaveBeenCalledTimes(1);
+    expect(gemini.invoke.mock.calls[0][0].model).toBe("gemini-2.5-flash");
+    expect(result).toMatchObject({ provider: "ollama", model: "llama3.1" });
+    expect(result.choices[0].message.content).toBe("from llama3.1");
+  });
+
+  it("skips providers in the chain that are not registered", async () => {
+    const ollama = fakeProvider(async ({ model }) => reply(`from ${model}`));
+    adapter.registerProvider("ollama", ollama);
+
+    const result = await adapter.invoke(parseProviderRoutes("mistral, ollama:llama3.1"), params);
+    expect(result).toMatchObject({ provider: "ollama", model: "llama3.1" });
+
+    const error = await adapter.invoke(parseProviderRoutes("mistral"), params).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMUnavailableError);
+    expect(error.message).toContain("mistral/gpt-4.1-mini: not registered");
+
+    ENV.llmProvider = "openai";
+    ENV.llmFallbackChain = "mistral";
+    expect(structuredOutputMode()).toBe("json_schema");
+  });
+
+  it("times out slow providers per provider and aborts the request", async () => {
+    ENV.llmMaxRetries = 0;
+    ENV.llmProviderTimeoutsMs = "openai=20";
+    let signal: AbortSignal | undefined;
+    adapter.registerProvider(
+      "openai",
+      fakeProvider((p) => {
+        signal = p.signal;
+        return new Promise(() => {});
+      })
+    );
+    adapter.registerProvider("ollama", fakeProvider(async () => reply("local")));
+
+    const result = await adapter.invoke([{ provider: "openai" }, { provider: "ollama" }], params);
+    expect(result.provider).toBe("ollama");
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("skips a provider after repeated failures until the cooldown passes", async () => {
+    ENV.llmMaxRetries = 0;
+    ENV.llmCircuitFailureThreshold = 2;
+    const now = vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+    const openai = fakeProvider(throttled);
+    adapter.registerProvider("openai", openai);
+    adapter.registerProvider("ollama", fakeProvider(async () => reply("local")));
+    const chain = [{ provider: "openai" }, { provider: "ollama" }];
+
+    await adapter.invoke(chain, params);
+    await adapter.invoke(chain, params);
+    expect(adapter.isCircuitOpen("openai")).toBe(true);
+
+    await adapter.invoke(chain, params);
+    expect(openai.invoke).toHaveBeenCalledTimes(2);
+    await expect(adapter.invoke("openai", params)).rejects.toThrow("openai/gpt-4.1-mini: circuit open");
+
+    // After the cooldown one trial goes through and its success closes the circuit
+    now.mockReturnValue(1_000_000 + 60000);
+    openai.invoke.mockImplementation(async () => reply("back"));
+    await expect(adapter.invoke(chain, params)).resolves.toMatchObject({ provider: "openai" });
+    expect(adapter.isCircuitOpen("openai")).toBe(false);
+  });
+
+  it("keeps the circuit closed when the provider rejects bad requests", async () => {
+    ENV.llmMaxRetries = 0;
+    ENV.llmCircuitFailureThreshold = 2;
+    const openai = fakeProvider(() => Promise.reject(new LLMProviderError("400 Bad Request", "test", 400)));
+    adapter.registerProvider("openai", openai);
+
+    for (let i = 0; i < 4; i++) {
+      await expect(adapter.invoke("openai", params)).rejects.toThrow("400 Bad Request");
+    }
+    expect(adapter.isCircuitOpen("openai")).toBe(false);
+    expect(openai.invoke).toHaveBeenCalledTimes(4);
+  });
+
+  it("falls back on streams that fail before their first chunk", async () => {
+    adapter.registerProvider(
+      "openai",
+      fakeProvider(throttled, async function* () {
+        throw new LLMProviderError("503 Service Unavailable", "openai", 503);
+      })
+    );
+    adapter.registerProvider(
+      "gemini",
+      fakeProvider(throttled, async function* (p) {
+        yield { type: "text", delta: "Hi" };
+        yield { type: "usage", model: p.model, usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }, finish_reason: "stop" };
+      })
+    );
+
+    const chunks = await collect(adapter.stream([{ provider: "openai" }, { provider: "gemini", model: "gemini-2.5-flash" }], params));
+    expect(chunks).toEqual([
+      { type: "text", delta: "Hi" },
+      {
+        type: "usage",
+        model: "gemini-2.5-flash",
+        provider: "gemini",
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        finish_reason: "stop",
+      },
+    ]);
+  });
+
+  it("asks for the JSON mode every provider in the configured chain supports", () => {
+    ENV.llmProvider = "openai";
+    ENV.llmFallbackChain = "";
+    expect(structuredOutputMode()).toBe("json_schema");
+    ENV.llmFallbackChain = "anthropic:claude-haiku-4-5";
+    expect(structuredOutputMode()).toBe("json_object");
+    expect(structuredOutputMode("openai")).toBe("json_schema");
+  });
+
+  it("routes a provider-qualified model to its provider first", () => {
+    ENV.llmProvider = "openai";
+    ENV.llmFallbackChain = "gemini:gemini-2.5-flash";
+
+    expect(routesForModel("ollama:llama3.1:8b")).toEqual({
+      routes: [{ provider: "ollama" }, { provider: "gemini", model: "gemini-2.5-flash" }],
+      model: "llama3.1:8b",
+    });
+    expect(routesForModel("llama3.1:8b")).toEqual({
+      routes: [{ provider: "openai" }, { provider: "gemini", model: "gemini-2.5-flash" }],
+      model: "llama3.1:8b",
+    });
+    expect(structuredOutputMode(routesForModel("anthropic:claude-haiku-4-5").routes)).toBe("json_object");
+  });
+});
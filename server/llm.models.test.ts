@@ -0,0 +1,231 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+vi.mock("./db", () => ({
+  getModelCosts: vi.fn(async () => []),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { LLMAdapter, llmAdapter } from "./_core/llm/LLMAdapter";
+import { OpenAIProvider } from "./_core/llm/openaiProvider";
+import { OpenAICompatibleProvider } from "./_core/llm/openaiCompatibleProvider";
+import { AnthropicProvider } from "./_core/llm/anthropicProvider";
+import { GoogleGeminiProvider } from "./_core/llm/googleGeminiProvider";
+import { OllamaProvider } from "./_core/llm/ollamaProvider";
+import { LLMProviderError } from "./_core/llm/errors";
+import { clearModelCostCache } from "./_core/llm";
+
+type Recorded = { method: string; url: string; body: any };
+type Handler = (request: Recorded, res: ServerResponse) => void;
+
+const originalEnv = { ...ENV };
+const requests: Recorded[] = [];
+// Keyed by method and path; query strings are ignored
+const routes = new Map<string, Handler>();
+let server: Server;
+let baseUrl: string;
+
+function json(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const OLLAMA_SHOW: Record<string, unknown> = {
+  "llama3.1:8b": { capabilities: ["completion", "tools"], model_info: { "llama.context_length": 131072 } },
+  "nomic-embed-text": { capabilities: ["embedding"], model_info: { "nomic-bert.context_length": 2048 } },
+  "llava:7b": { capabilities: ["completion", "vision"], model_info: { "llama.context_length": 4096 } },
+};
+
+function serveOllama() {
+  routes.set("GET /ollama/api/tags", (_, res) =>
+    json(res, { models: [{ name: "llama3.1:8b" }, { name: "nomic-embed-text" }, { name: "llava:7b" }, { name: "custom:latest" }] })
+  );
+  routes.set("POST /ollama/api/show", (request, res) => {
+    const details = OLLAMA_SHOW[request.body.model];
+    if (details) json(res, details);
+    else json(res, { error: "model not found" }, 404);
+  });
+}
+
+function serveGemini() {
+  routes.set("GET /gemini/models", (_, res) =>
+    json(res, {
+      models: [
+        { name: "models/gemini-2.5-flash", inputTokenLimit: 1048576, supportedGenerationMethods: ["generateContent", "countTokens"] },
+        { name: "models/text-embedding-004", inputTokenLimit: 2048, supportedGenerationMethods: ["embedContent"] },
+      ],
+    })
+  );
+}
+
+function createCaller() {
+  const ctx = {
+    user: { id: 1, openId: "test-user-1", role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+describe("model discovery", () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const recorded = { method: req.method ?? "", url: req.url ?? "", body: raw ? JSON.parse(raw) : undefined };
+        requests.push(recorded);
+        const handler = routes.get(`${recorded.method} ${recorded.url.split("?")[0]}`);
+        if (handler) handler(recorded, res);
+        else json(res, { error: "not found" }, 404);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    routes.clear();
+    clearModelCostCache();
+    ENV.ollamaApiUrl = `${baseUrl}/ollama/api`;
+    ENV.googleApiUrl = `${baseUrl}/gemini`;
+    ENV.googleApiKey = "gemini-key";
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+  });
+
+  it("lists Ollama models from /tags with capabilities from /show", async () => {
+    serveOllama();
+
+    await expect(new OllamaProvider().getAvailableModels()).resolves.toEqual([
+      { id: "llama3.1:8b", contextWindow: 131072, tools: true, vision: false },
+      { id: "llava:7b", contextWindow: 4096, tools: false, vision: true },
+      // /show failed, so only the name is known
+      { id: "custom:latest" },
+    ]);
+    expect(requests.filter((r) => r.url === "/ollama/api/show").map((r) => r.body.model)).toHaveLength(4);
+  });
+
+  it("lists Gemini models that generate content, without the models/ prefix", async () => {
+    serveGemini();
+
+    await expect(new GoogleGeminiProvider().getAvailableModels()).resolves.toEqual([
+      { id: "gemini-2.5-flash", contextWindow: 1048576 },
+    ]);
+    expect(requests[0].url).toBe("/gemini/models?key=gemini-key&pageSize=1000");
+  });
+
+  it("reads OpenAI-compatible /models metadata and fails when the listing does", async () => {
+    routes.set("GET /router/v1/models", (_, res) =>
+      json(res, {
+        data: [
+          {
+            id: "openai/gpt-4.1",
+            context_length: 1047576,
+            architecture: { input_modalities: ["text", "image"] },
+            supported_parameters: ["tools", "response_format"],
+          },
+          { id: "qwen2.5-7b", max_model_len: 32768 },
+        ],
+      })
+    );
+    const provider = new OpenAICompatibleProvider({ name: "router", baseUrl: `${baseUrl}/router/v1` });
+
+    await expect(provider.getAvailableModels()).resolves.toEqual([
+      { id: "openai/gpt-4.1", contextWindow: 1047576, tools: true, vision: true },
+      { id: "qwen2.5-7b", contextWindow: 32768 },
+    ]);
+
+    const down = new OpenAICompatibleProvider({ name: "down", baseUrl: `${baseUrl}/down/v1` });
+    await expect(down.getAvailableModels()).rejects.toBeInstanceOf(LLMProviderError);
+  });
+
+  it("caches model lists per provider until refreshed, but not failures", async () => {
+    let listings = 0;
+    routes.set("GET /local/v1/models", (_, res) => {
+      listings++;
+      if (listings === 1) json(res, { error: "starting up" }, 503);
+      else json(res, { data: [{ id: "qwen2.5" }] });
+    });
+    const adapter = new LLMAdapter();
+    adapter.registerProvider("local", new OpenAICompatibleProvider({ name: "local", baseUrl: `${baseUrl}/local/v1` }));
+
+    await expect(adapter.getAvailableModels("local")).rejects.toThrow();
+    await expect(adapter.getAvailableModels("local")).resolves.toEqual([{ id: "qwen2.5" }]);
+    await expect(adapter.getAvailableModels("local")).resolves.toEqual([{ id: "qwen2.5" }]);
+    expect(listings).toBe(2);
+
+    await adapter.getAvailableModels("local", { refresh: true });
+    expect(listings).toBe(3);
+
+    // Replacing the provider drops its cached list
+    adapter.registerProvider("local", new OpenAICompatibleProvider({ name: "local", baseUrl: `${baseUrl}/local/v1` }));
+    await adapter.getAvailableModels("local");
+    expect(listings).toBe(4);
+  });
+
+  it("returns capabilities and prices per model from system.models", async () => {
+    serveOllama();
+    serveGemini();
+    routes.set("GET /forge/v1/models", (_, res) => json(res, { data: [{ id: "gpt-4.1-mini-2025-04-14" }] }));
+    ENV.forgeApiUrl = `${baseUrl}/forge`;
+    ENV.forgeApiKey = "forge-key";
+    llmAdapter.registerProvider("openai", new OpenAIProvider());
+    llmAdapter.registerProvider("ollama", new OllamaProvider());
+    llmAdapter.registerProvider("gemini", new GoogleGeminiProvider());
+    llmAdapter.registerProvider("anthropic", new AnthropicProvider({ apiKey: "" }));
+
+    const result = await createCaller().system.models();
+
+    expect(result.map((p) => p.provider)).toEqual(["openai", "ollama", "gemini", "anthropic"]);
+    expect(result[0]).toEqual({
+      provider: "openai",
+      available: true,
+      models: [
+        {
+          id: "gpt-4.1-mini-2025-04-14",
+          provider: "openai",
+          // Known family capabilities fill in what /models does not report
+          contextWindow: 1047576,
+          tools: true,
+          vision: true,
+          jsonSchema: true,
+          cost: { promptCostPerMillion: 0.4, completionCostPerMillion: 1.6 },
+        },
+      ],
+    });
+    expect(result[1].models.map((m) => [m.id, m.contextWindow, m.tools, m.vision])).toEqual([
+      ["llama3.1:8b", 131072, true, false],
+      ["llava:7b", 4096, false, true],
+      ["custom:latest", null, false, false],
+    ]);
+    expect(result[1].models[0].cost).toEqual({ promptCostPerMillion: 0, completionCostPerMillion: 0 });
+    expect(result[2].models).toEqual([
+      expect.objectContaining({ id: "gemini-2.5-flash", contextWindow: 1048576, tools: true, jsonSchema: true }),
+    ]);
+    expect(result[3]).toEqual({
+      provider: "anthropic",
+      available: false,
+      error: "Anthropic API Key is not configured",
+      models: [],
+    });
+
+    // Served from the cache until a refresh is asked for
+    const listings = () => requests.filter((r) => r.method === "GET").length;
+    const before = listings();
+    await createCaller().system.models();
+    expect(listings()).toBe(before);
+    await createCaller().system.models({ refresh: true });
+    expect(listings()).toBe(before + 3);
+  });
+});
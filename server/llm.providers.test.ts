@@ -0,0 +1,302 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { ENV } from "./_core/env";
+import { LLMAdapter } from "./_core/llm/LLMAdapter";
+import { AnthropicProvider } from "./_core/llm/anthropicProvider";
+import { OpenAICompatibleProvider } from "./_core/llm/openaiCompatibleProvider";
+import { parseProviderConfigs } from "./_core/llm/providerConfig";
+import { LLMProviderError } from "./_core/llm/errors";
+import type { InvokeParams, StreamChunk } from "./_core/llm";
+
+type Recorded = { method: string; url: string; headers: IncomingMessage["headers"]; body: any };
+type Handler = (request: Recorded, res: ServerResponse) => void;
+
+const requests: Recorded[] = [];
+const routes = new Map<string, Handler>();
+let server: Server;
+let baseUrl: string;
+
+function json(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sse(res: ServerResponse, events: unknown[]) {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  events.forEach((event) => res.write(`event: message\ndata: ${JSON.stringify(event)}\n\n`));
+  res.end();
+}
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const weatherTool = {
+  type: "function" as const,
+  function: {
+    name: "get_weather",
+    description: "Current weather",
+    parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+  },
+};
+
+// A finished tool round trip, so translation of every message kind is exercised
+const conversation: InvokeParams = {
+  model: "claude-sonnet-4-5",
+  maxTokens: 1024,
+  tools: [weatherTool],
+  toolChoice: "required",
+  messages: [
+    { role: "system", content: "You are terse." },
+    { role: "user", content: "Weather in Oslo and Bergen?" },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [
+        { id: "toolu_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Oslo"}' } },
+        { id: "toolu_2", type: "function", function: { name: "get_weather", arguments: '{"city":"Bergen"}' } },
+      ],
+    },
+    { role: "tool", tool_call_id: "toolu_1", name: "get_weather", content: '{"temp":4}' },
+    { role: "tool", tool_call_id: "toolu_2", name: "get_weather", content: '{"temp":7}' },
+  ],
+};
+
+describe("LLM providers against a mock HTTP server", () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const recorded = { method: req.method ?? "", url: req.url ?? "", headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+        requests.push(recorded);
+        const handler = routes.get(`${recorded.method} ${recorded.url}`);
+        if (handler) handler(recorded, res);
+        else json(res, { error: "not found" }, 404);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    routes.clear();
+  });
+
+  it("sends Anthropic Messages API requests with tools and reads tool use back", async () => {
+    routes.set("POST /v1/messages", (_, res) =>
+      json(res, {
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "claude-sonnet-4-5-20250929",
+        content: [
+          { type: "text", text: "Checking Tromsø too." },
+          { type: "tool_use", id: "toolu_3", name: "get_weather", input: { city: "Tromsø" } },
+        ],
+        stop_reason: "tool_use",
+        usage: { input_tokens: 120, output_tokens: 30 },
+      })
+    );
+
+    const provider = new AnthropicProvider({ apiKey: "sk-ant-test", baseUrl });
+    const result = await provider.invoke(conversation);
+
+    const [request] = requests;
+    expect(request.headers).toMatchObject({ "x-api-key": "sk-ant-test", "anthropic-version": "2023-06-01" });
+    expect(request.body).toEqual({
+      model: "claude-sonnet-4-5",
+      max_tokens: 1024,
+      stream: false,
+      system: "You are terse.",
+      tools: [
+        {
+          name: "get_weather",
+          description: "Current weather",
+          input_schema: weatherTool.function.parameters,
+        },
+      ],
+      tool_choice: { type: "any" },
+      messages: [
+        { role: "user", content: [{ type: "text", text: "Weather in Oslo and Bergen?" }] },
+        {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Oslo" } },
+            { type: "tool_use", id: "toolu_2", name: "get_weather", input: { city: "Bergen" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_1", content: '{"temp":4}' },
+            { type: "tool_result", tool_use_id: "toolu_2", content: '{"temp":7}' },
+          ],
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      model: "claude-sonnet-4-5-20250929",
+      usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+    });
+    expect(result.choices[0]).toMatchObject({
+      finish_reason: "tool_calls",
+      message: {
+        content: "Checking Tromsø too.",
+        tool_calls: [{ id: "toolu_3", type: "function", function: { name: "get_weather", arguments: '{"city":"Tromsø"}' } }],
+      },
+    });
+  });
+
+  it("streams Anthropic text and tool-call deltas with usage", async () => {
+    routes.set("POST /v1/messages", (_, res) =>
+      sse(res, [
+        { type: "message_start", message: { model: "claude-haiku-4-5", usage: { input_tokens: 50, output_tokens: 1 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me " } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "check." } },
+        { type: "content_block_stop", index: 0 },
+        { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_9", name: "get_weather", input: {} } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"city":' } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"Oslo"}' } },
+        { type: "content_block_stop", index: 1 },
+        { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 22 } },
+        { type: "message_stop" },
+      ])
+    );
+
+    const provider = new AnthropicProvider({ apiKey: "sk-ant-test", baseUrl });
+    const chunks = await collect(provider.stream({ ...conversation, messages: conversation.messages.slice(0, 2) }));
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks).toEqual([
+      { type: "text", delta: "Let me " },
+      { type: "text", delta: "check." },
+      { type: "tool_call", index: 0, id: "toolu_9", name: "get_weather", argumentsDelta: "" },
+      { type: "tool_call", index: 0, argumentsDelta: '{"city":' },
+      { type: "tool_call", index: 0, argumentsDelta: '"Oslo"}' },
+      {
+        type: "usage",
+        model: "claude-haiku-4-5",
+        usage: { prompt_tokens: 50, completion_tokens: 22, total_tokens: 72 },
+        finish_reason: "tool_calls",
+      },
+    ]);
+  });
+
+  it("classifies Anthropic overload and request errors for retries", async () => {
+    routes.set("POST /v1/messages", (_, res) => json(res, { type: "error", error: { type: "overloaded_error" } }, 529));
+    const provider = new AnthropicProvider({ name: "claude", apiKey: "sk-ant-test", baseUrl });
+
+    const overloaded = await provider.invoke(conversation).catch((e) => e);
+    expect(overloaded).toBeInstanceOf(LLMProviderError);
+    expect(overloaded).toMatchObject({ provider: "claude", status: 529, retryable: true });
+
+    routes.set("POST /v1/messages", (_, res) => json(res, { type: "error", error: { type: "invalid_request_error" } }, 400));
+    await expect(provider.invoke(conversation)).rejects.toMatchObject({ status: 400, retryable: false });
+
+    await expect(new AnthropicProvider({ apiKey: "", baseUrl }).invoke(conversation)).rejects.toThrow(
+      "Anthropic API Key is not configured"
+    );
+  });
+
+  it("talks to OpenAI-compatible servers by base URL, key and headers", async () => {
+    routes.set("POST /vllm/v1/chat/completions", (request, res) =>
+      request.body.stream
+        ? sse(res, [
+            { model: "qwen2.5", choices: [{ delta: { content: "Hel" } }] },
+            { model: "qwen2.5", choices: [{ delta: { content: "lo" }, finish_reason: "stop" }] },
+            { model: "qwen2.5", choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } },
+          ])
+        : json(res, {
+            id: "cmpl-1",
+            created: 1,
+            model: "qwen2.5",
+            choices: [{ index: 0, message: { role: "assistant", content: "Hello" }, finish_reason: "stop" }],
+          })
+    );
+    routes.set("GET /vllm/v1/models", (_, res) => json(res, { object: "list", data: [{ id: "qwen2.5" }, { id: "llama3.1" }] }));
+
+    const provider = new OpenAICompatibleProvider({
+      name: "vllm",
+      baseUrl: `${baseUrl}/vllm/v1/`,
+      apiKey: "local-key",
+      headers: { "x-title": "Agent-J" },
+    });
+    const params = { model: "qwen2.5", messages: [{ role: "user" as const, content: "Hi" }] };
+
+    await expect(provider.invoke(params)).resolves.toMatchObject({ choices: [{ message: { content: "Hello" } }] });
+    expect(requests[0].headers).toMatchObject({ authorization: "Bearer local-key", "x-title": "Agent-J" });
+    expect(requests[0].body).toMatchObject({ model: "qwen2.5", messages: [{ role: "user", content: "Hi" }] });
+
+    const chunks = await collect(provider.stream(params));
+    expect(chunks.filter((c) => c.type === "text").map((c) => (c as { delta: string }).delta).join("")).toBe("Hello");
+    expect(chunks[chunks.length - 1]).toMatchObject({ type: "usage", usage: { total_tokens: 5 }, finish_reason: "stop" });
+
+    await expect(provider.getAvailableModels()).resolves.toEqual([{ id: "qwen2.5" }, { id: "llama3.1" }]);
+    expect(provider.structuredOutput).toBe("json_object");
+
+    // Keyless local servers get no authorization header
+    await new OpenAICompatibleProvider({ name: "lmstudio", baseUrl: `${baseUrl}/vllm/v1` }).invoke(params);
+    expect(requests[requests.length - 1].headers.authorization).toBeUndefined();
+  });
+
+  it("registers providers from config side by side and falls back between them", async () => {
+    routes.set("POST /down/v1/chat/completions", (_, res) => json(res, { error: "bad gateway" }, 502));
+    routes.set("POST /up/v1/chat/completions", (request, res) =>
+      json(res, {
+        id: "cmpl-2",
+        created: 1,
+        model: request.body.model,
+        choices: [{ index: 0, message: { role: "assistant", content: "from up" }, finish_reason: "stop" }],
+      })
+    );
+    process.env.TEST_OPENROUTER_KEY = "or-key";
+
+    const configs = parseProviderConfigs(
+      JSON.stringify([
+        { name: "down", type: "openai-compatible", baseUrl: `${baseUrl}/down/v1` },
+        { name: "up", type: "openai-compatible", baseUrl: `${baseUrl}/up/v1`, apiKeyEnv: "TEST_OPENROUTER_KEY", structuredOutput: "json_schema", models: ["meta/llama-3.1-70b"] },
+        { name: "claude", type: "anthropic", apiKey: "sk-ant-test", baseUrl },
+      ])
+    );
+    const retries = ENV.llmMaxRetries;
+    ENV.llmMaxRetries = 0;
+    try {
+      const adapter = new LLMAdapter();
+      adapter.registerConfiguredProviders(configs);
+
+      const result = await adapter.invoke([{ provider: "down" }, { provider: "up", model: "meta/llama-3.1-70b" }], {
+        model: "qwen2.5",
+        messages: [{ role: "user", content: "Hi" }],
+      });
+      expect(result).toMatchObject({ provider: "up", model: "meta/llama-3.1-70b" });
+      expect(requests.map((r) => r.url)).toEqual(["/down/v1/chat/completions", "/up/v1/chat/completions"]);
+      expect(requests[1].headers.authorization).toBe("Bearer or-key");
+
+      expect(adapter.getProvider("up").structuredOutput).toBe("json_schema");
+      await expect(adapter.getAvailableModels("up")).resolves.toEqual([{ id: "meta/llama-3.1-70b" }]);
+      expect(adapter.getProvider("claude")).toBeInstanceOf(AnthropicProvider);
+      expect(adapter.getProvider("anthropic")).toBeInstanceOf(AnthropicProvider);
+    } finally {
+      ENV.llmMaxRetries = retries;
+      delete process.env.TEST_OPENROUTER_KEY;
+    }
+
+    expect(() => parseProviderConfigs('[{"name":"a:b","type":"openai-compatible","baseUrl":"http://x"}]')).toThrow(
+      /Invalid LLM_PROVIDERS: 0\.name/
+    );
+    expect(() => parseProviderConfigs('[{"name":"x","type":"cohere"}]')).toThrow(/Invalid LLM_PROVIDERS/);
+    expect(() => parseProviderConfigs("[")).toThrow(/not valid JSON/);
+    expect(parseProviderConfigs("")).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { OpenAIProvider } from "./_core/llm/openaiProvider";
+import { OllamaProvider } from "./_core/llm/ollamaProvider";
+import { GoogleGeminiProvider } from "./_core/llm/googleGeminiProvider";
+import { readLines } from "./_core/llm/streaming";
+import type { StreamChunk } from "./_core/llm";
+
+function streamResponse(lines: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split mid-line to make sure chunk boundaries are handled.
+      const text = lines.join("\n");
+      const middle = Math.floor(text.length / 2);
+      controller.enqueue(encoder.encode(text.slice(0, middle)));
+      controller.enqueue(encoder.encode(text.slice(middle)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe("LLM streaming", () => {
+  const originalEnv = { ...ENV };
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+    vi.unstubAllGlobals();
+  });
+
+  it("parses OpenAI server-sent events into text, tool-call and usage chunks", async () => {
+    ENV.forgeApiKey = "test-key";
+    const fetchMock = vi.fn().mockResolvedValue(
+      streamResponse([
+        `data: ${JSON.stringify({ model: "gpt-4.1-mini", choices: [{ delta: { content: "Hel" } }] })}`,
+        "",
+        `data: ${JSON.stringify({ choices: [{ delta: { content: "lo" } }] })}`,
+        "",
+        `data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "web_search", arguments: "{\"q\":" } }] } }] })}`,
+        "",
+        `data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "\"x\"}" } }] }, finish_reason: "tool_calls" }] })}`,
+        "",
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } })}`,
+        "",
+        "data: [DONE]",
+        "",
+      ])
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const chunks = await collect(
+      new OpenAIProvider().stream({ model: "gpt-4.1-mini", messages: [{ role: "user", content: "hi" }] })
+    );
+
+    const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(payload.stream).toBe(true);
+    expect(chunks).toEqual([
+      { type: "text", delta: "Hel" },
+      { type: "text", delta: "lo" },
+      { type: "tool_call", index: 0, id: "call_1", name: "web_search", argumentsDelta: "{\"q\":" },
+      { type: "tool_call", index: 0, id: undefined, name: undefined, argumentsDelta: "\"x\"}" },
+      {
+        type: "usage",
+        model: "gpt-4.1-mini",
+        usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 },
+        finish_reason: "tool_calls",
+      },
+    ]);
+  });
+
+  it("parses Ollama NDJSON lines and reports eval counts as usage", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        streamResponse([
+          JSON.stringify({ model: "llama3", message: { content: "Hi" }, done: false }),
+          JSON.stringify({ model: "llama3", message: { content: " there" }, done: false }),
+          JSON.stringify({ model: "llama3", message: { content: "" }, done: true, prompt_eval_count: 3, eval_count: 2 }),
+        ])
+      )
+    );
+
+    const chunks = await collect(
+      new OllamaProvider().stream({ model: "llama3", messages: [{ role: "user", content: "hi" }] })
+    );
+
+    expect(chunks).toEqual([
+      { type: "text", delta: "Hi" },
+      { type: "text", delta: " there" },
+      {
+        type: "usage",
+        model: "llama3",
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+        finish_reason: "stop",
+      },
+    ]);
+  });
+
+  it("streams Gemini candidates through the SSE endpoint", async () => {
+    ENV.googleApiKey = "test-key";
+    const fetchMock = vi.fn().mockResolvedValue(
+      streamResponse([
+        `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text: "Bonjour" }] } }] })}`,
+        "",
+        `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text: "!" }] }, finishReason: "STOP" }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2 } })}`,
+        "",
+      ])
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const chunks = await collect(
+      new GoogleGeminiProvider().stream({ model: "gemini-2.5-flash", messages: [{ role: "user", content: "hi" }] })
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toContain(":streamGenerateContent?alt=sse");
+    expect(chunks.map(c => c.type)).toEqual(["text", "text", "usage"]);
+    expect(chunks[2]).toMatchObject({
+      usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+      finish_reason: "stop",
+    });
+  });
+
+  it("cancels the response body when the reader stops early", async () => {
+    const cancel = vi.fn();
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode("first\nsecond\n"));
+        // The stream stays open, as a provider still generating would
+      },
+      cancel,
+    });
+
+    for await (const line of readLines(body)) {
+      expect(line).toBe("first");
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalledTimes(1);
+    expect(body.locked).toBe(false);
+  });
+});
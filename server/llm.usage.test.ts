@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  usage: [] as any[],
+  costs: [] as any[],
+  budgets: new Map<number, any>(),
+}));
+
+function matching(filter: { userId?: number; researchPlanId?: string; since?: Date; until?: Date }) {
+  return store.usage.filter(
+    (row) =>
+      (filter.userId === undefined || row.userId === filter.userId) &&
+      (filter.researchPlanId === undefined || row.researchPlanId === filter.researchPlanId) &&
+      (!filter.since || row.createdAt >= filter.since) &&
+      (!filter.until || row.createdAt < filter.until)
+  );
+}
+
+function totals(rows: any[]) {
+  return {
+    calls: rows.length,
+    promptTokens: rows.reduce((sum, row) => sum + row.promptTokens, 0),
+    completionTokens: rows.reduce((sum, row) => sum + row.completionTokens, 0),
+    totalTokens: rows.reduce((sum, row) => sum + row.totalTokens, 0),
+    costUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+  };
+}
+
+vi.mock("./db", () => ({
+  createLlmUsage: vi.fn(async (row: any) => {
+    store.usage.push({ ...row, id: store.usage.length + 1, createdAt: row.createdAt ?? new Date() });
+  }),
+  getLlmUsageTotals: vi.fn(async (filter: any) => totals(matching(filter))),
+  getLlmUsageBreakdown: vi.fn(async (filter: any, groupBy: string) => {
+    const groups = new Map<string, any[]>();
+    matching(filter).forEach((row) => {
+      const key = groupBy === "model" ? `${row.provider}/${row.model}` : row.agentRole;
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    });
+    return [...groups.entries()].map(([key, rows]) => ({ key, ...totals(rows) }));
+  }),
+  getLlmUsageByUserId: vi.fn(async (userId: number, limit = 50) => matching({ userId }).slice(0, limit)),
+  getModelCosts: vi.fn(async () => store.costs),
+  upsertModelCost: vi.fn(async (model: string, promptCostPerMillion: number, completionCostPerMillion: number) => {
+    store.costs = [...store.costs.filter((c) => c.model !== model), { model, promptCostPerMillion, completionCostPerMillion }];
+  }),
+  getUsageBudget: vi.fn(async (userId: number) => store.budgets.get(userId)),
+  upsertUsageBudget: vi.fn(async (userId: number, limits: any) => {
+    store.budgets.set(userId, { userId, ...limits });
+  }),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { llmAdapter } from "./_core/llm/LLMAdapter";
+import { BudgetExceededError, budgetPeriodBounds, clearModelCostCache, invokeLLM } from "./_core/llm";
+import { findModelPrice } from "./_core/llm/usage";
+import { BaseAgent } from "./_core/agents/baseAgent";
+
+class SearchAgent extends BaseAgent {
+  constructor() {
+    super("searcher", "gpt-4o");
+  }
+}
+
+function reply(model: string, provider: string, promptTokens: number, completionTokens: number) {
+  return {
+    id: "r",
+    created: 0,
+    model,
+    provider,
+    choices: [{ index: 0, message: { role: "assistant" as const, content: "ok" }, finish_reason: "stop" }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  };
+}
+
+function createCaller(role: "user" | "admin" = "user") {
+  return appRouter.createCaller({
+    user: { id: 7, openId: "u7", role },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext);
+}
+
+const params = { model: "gpt-4o", messages: [{ role: "user" as const, content: "hi" }] };
+
+describe("LLM usage accounting", () => {
+  const originalEnv = { ...ENV };
+
+  beforeEach(() => {
+    store.usage = [];
+    store.costs = [];
+    store.budgets.clear();
+    clearModelCostCache();
+    ENV.usageBudgetPeriod = "month";
+    ENV.usageUserTokenBudget = 0;
+    ENV.usageUserCostBudgetUsd = 0;
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+    vi.restoreAllMocks();
+  });
+
+  it("records each call's tokens and cost against its user, research and agent role", async () => {
+    const invoke = vi.spyOn(llmAdapter, "invoke");
+    invoke.mockResolvedValueOnce(reply("gpt-4.1-mini-2025-04-14", "openai", 1_000_000, 500_000));
+    invoke.mockResolvedValueOnce(reply("llama3.1", "ollama", 2000, 1000));
+
+    await invokeLLM(params, { userId: 7, sessionId: 3, researchPlanId: "plan-1", agentRole: "searcher" });
+    await invokeLLM(params, { userId: 7 });
+
+    expect(store.usage).toMatchObject([
+      {
+        userId: 7,
+        sessionId: 3,
+        researchPlanId: "plan-1",
+        agentRole: "searcher",
+        provider: "openai",
+        model: "gpt-4.1-mini-2025-04-14",
+        promptTokens: 1_000_000,
+        completionTokens: 500_000,
+        totalTokens: 1_500_000,
+      },
+      { userId: 7, sessionId: null, agentRole: null, provider: "ollama", model: "llama3.1", costUsd: 0 },
+    ]);
+    // 1M prompt tokens at $0.40 plus 0.5M completion tokens at $1.60
+    expect(store.usage[0].costUsd).toBeCloseTo(1.2);
+  });
+
+  it("prices models by their longest listed prefix, preferring configured prices", async () => {
+    const prices = new Map([
+      ["gpt-4.1", { promptCostPerMillion: 2, completionCostPerMillion: 8 }],
+      ["gpt-4.1-mini", { promptCostPerMillion: 0.4, completionCostPerMillion: 1.6 }],
+    ]);
+    expect(findModelPrice(prices, "gpt-4.1-mini-2025-04-14")?.promptCostPerMillion).toBe(0.4);
+    expect(findModelPrice(prices, "gpt-4.1-2025-04-14")?.promptCostPerMillion).toBe(2);
+    expect(findModelPrice(prices, "claude-sonnet")).toBeUndefined();
+
+    await createCaller("admin").usage.setModelCost({ model: "gpt-4.1-mini", promptCostPerMillion: 1, completionCostPerMillion: 2 });
+    vi.spyOn(llmAdapter, "invoke").mockResolvedValue(reply("gpt-4.1-mini", "openai", 1_000_000, 1_000_000));
+    await invokeLLM(params, { userId: 7 });
+    expect(store.usage[0].costUsd).toBeCloseTo(3);
+
+    const costs = await createCaller().usage.modelCosts();
+    expect(costs.find((c) => c.model === "gpt-4.1-mini")).toMatchObject({ promptCostPerMillion: 1, source: "configured" });
+    expect(costs.find((c) => c.model === "gpt-4o")).toMatchObject({ source: "default" });
+    await expect(
+      createCaller().usage.setModelCost({ model: "gpt-4o", promptCostPerMillion: 0, completionCostPerMillion: 0 })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("refuses calls once the user's token or spending budget is spent", async () => {
+    const invoke = vi.spyOn(llmAdapter, "invoke").mockResolvedValue(reply("gpt-4o", "openai", 600, 400));
+    ENV.usageUserTokenBudget = 1500;
+
+    await invokeLLM(params, { userId: 7 });
+    await invokeLLM(params, { userId: 7 });
+    const error = await invokeLLM(params, { userId: 7 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ scope: "user", limit: 1500, used: 2000, unit: "tokens" });
+    expect(error.message).toMatch(/^Monthly token budget of 1,500 exhausted \(2,000 used\); resets \d{4}-\d{2}-01$/);
+    expect(invoke).toHaveBeenCalledTimes(2);
+
+    // A per-user override replaces the default, and spending is capped too
+    store.budgets.set(7, { userId: 7, tokenLimit: 0, costLimitUsd: 0.01 });
+    await expect(invokeLLM(params, { userId: 7 })).rejects.toMatchObject({ unit: "usd", limit: 0.01 });
+    // Other users keep the default budget
+    await expect(invokeLLM(params, { userId: 8 })).resolves.toMatchObject({ model: "gpt-4o" });
+  });
+
+  it("stops a research's agents at its own token budget", async () => {
+    vi.spyOn(llmAdapter, "invoke").mockResolvedValue(reply("gpt-4o", "openai", 300, 200));
+    const scope = { userId: 7, researchPlanId: "plan-1", researchTokenBudget: 1000 };
+
+    await invokeLLM(params, scope);
+    await invokeLLM(params, scope);
+    await expect(invokeLLM(params, scope)).rejects.toMatchObject({ scope: "research", used: 1000 });
+    await expect(invokeLLM(params, { ...scope, researchPlanId: "plan-2" })).resolves.toBeDefined();
+
+    // An agent fails its task rather than the whole run
+    const agent = new SearchAgent();
+    agent.setUsageScope(scope);
+    const task = await agent.execute({
+      id: "task-1",
+      agentRole: "searcher",
+      description: "Search",
+      context: {},
+      status: "idle",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    expect(task.status).toBe("failed");
+    expect(task.error).toBe("Research token budget of 1,000 exhausted (1,000 used)");
+  });
+
+  it("reports a budget spent during an analysis as too many requests", async () => {
+    ENV.marketDataProvider = "fixture";
+    ENV.fxProvider = "fixture";
+    ENV.usageUserTokenBudget = 1000;
+    // The first answer is not a report, and the budget is spent before it can be repaired
+    const invoke = vi.spyOn(llmAdapter, "invoke").mockResolvedValue(reply("gpt-4o", "openai", 600, 400));
+
+    await expect(
+      createCaller().financialResearch.compareStocksWithAnalysis({ symbols: ["AAPL", "KO"] })
+    ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS", cause: expect.any(BudgetExceededError) });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("summarises the current period and breaks usage down for the dashboard", async () => {
+    ENV.usageUserTokenBudget = 10_000;
+    const { since } = budgetPeriodBounds();
+    const lastPeriod = new Date(since.getTime() - 1000);
+    store.usage.push(
+      { userId: 7, provider: "openai", model: "gpt-4o", agentRole: "searcher", promptTokens: 1000, completionTokens: 500, totalTokens: 1500, costUsd: 0.0075, createdAt: new Date() },
+      { userId: 7, provider: "gemini", model: "gemini-2.5-flash", agentRole: "synthesizer", promptTokens: 2000, completionTokens: 500, totalTokens: 2500, costUsd: 0.00185, createdAt: new Date() },
+      { userId: 7, provider: "openai", model: "gpt-4o", agentRole: "searcher", promptTokens: 9000, completionTokens: 0, totalTokens: 9000, costUsd: 0.0225, createdAt: lastPeriod },
+      { userId: 8, provider: "openai", model: "gpt-4o", agentRole: "searcher", promptTokens: 100, completionTokens: 0, totalTokens: 100, costUsd: 0.00025, createdAt: new Date() }
+    );
+
+    const summary = await createCaller().usage.summary();
+    expect(summary).toMatchObject({
+      period: "month",
+      totals: { calls: 2, totalTokens: 4000 },
+      budget: { tokenLimit: 10_000, costLimitUsd: null, tokensRemaining: 6000, costRemainingUsd: null },
+    });
+    expect(summary.since).toEqual(since);
+
+    const byModel = await createCaller().usage.breakdown({ groupBy: "model", from: since });
+    expect(byModel.map((row) => [row.key, row.totalTokens])).toEqual([
+      ["openai/gpt-4o", 1500],
+      ["gemini/gemini-2.5-flash", 2500],
+    ]);
+    expect(await createCaller().usage.recent({ limit: 10 })).toHaveLength(3);
+
+    await createCaller("admin").usage.setBudget({ userId: 7, tokenLimit: 3000, costLimitUsd: null });
+    await expect(createCaller().usage.summary()).resolves.toMatchObject({ budget: { tokenLimit: 3000, tokensRemaining: 0 } });
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const yahoo = vi.hoisted(() => ({
+  quote: vi.fn(),
+  chart: vi.fn(),
+  quoteSummary: vi.fn(),
+  fundamentalsTimeSeries: vi.fn(),
+  search: vi.fn(),
+}));
+
+vi.mock("yahoo-finance2", () => ({
+  default: vi.fn(() => yahoo),
+}));
+
+import { ENV } from "./_core/env";
+import {
+  FixtureMarketDataProvider,
+  RateLimitError,
+  SymbolNotFoundError,
+  YahooMarketDataProvider,
+} from "./_core/agents/tools/marketData";
+import { analyzeStockPerformance, getStockQuote, screenStocks } from "./_core/agents/tools/yahooFinance";
+
+describe("market data providers", () => {
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    Object.values(yahoo).forEach((fn) => fn.mockReset());
+    ENV.marketDataProvider = "fixture";
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+  });
+
+  it("serves recorded fixtures with their as-of time and source", async () => {
+    const provider = new FixtureMarketDataProvider();
+
+    const quote = await provider.getQuote("aapl");
+    expect(quote).toMatchObject({ symbol: "AAPL", price: 235, source: "fixture" });
+    expect(quote.asOf.toISOString()).toBe("2024-10-18T20:00:00.000Z");
+
+    const [statement] = await provider.getFinancialStatements("MSFT", "annual");
+    expect(statement).toMatchObject({ date: "2024-06-30", source: "fixture" });
+    expect(statement.asOf).toEqual(quote.asOf);
+
+    await expect(provider.getQuote("NOPE")).rejects.toBeInstanceOf(SymbolNotFoundError);
+  });
+
+  it("aggregates recorded daily bars into weekly bars", async () => {
+    const provider = new FixtureMarketDataProvider();
+    const start = new Date("2024-10-07T00:00:00Z");
+    const end = new Date("2024-10-18T00:00:00Z");
+
+    const daily = await provider.getHistory("KO", start, end, "1d");
+    const weekly = await provider.getHistory("KO", start, end, "1wk");
+
+    expect(daily).toHaveLength(10);
+    expect(weekly.map((bar) => bar.date)).toEqual(["2024-10-07", "2024-10-14"]);
+    expect(weekly[0]).toMatchObject({
+      open: daily[0].open,
+      close: daily[4].close,
+      high: Math.max(...daily.slice(0, 5).map((bar) => bar.high)),
+      low: Math.min(...daily.slice(0, 5).map((bar) => bar.low)),
+      volume: daily.slice(0, 5).reduce((sum, bar) => sum + bar.volume, 0),
+    });
+  });
+
+  it("maps Yahoo quotes and records the market time as asOf", async () => {
+    const marketTime = new Date("2024-10-18T20:00:00Z");
+    yahoo.quote.mockResolvedValue({
+      symbol: "AAPL",
+      longName: "Apple Inc.",
+      regularMarketPrice: 235,
+      regularMarketChange: -3.9,
+      regularMarketChangePercent: -1.63,
+      currency: "USD",
+      marketCap: 3.57e12,
+      trailingPE: 35.7,
+      regularMarketTime: marketTime,
+    });
+
+    const quote = await new YahooMarketDataProvider().getQuote("AAPL");
+
+    expect(quote).toMatchObject({ symbol: "AAPL", name: "Apple Inc.", price: 235, peRatio: 35.7, source: "yahoo" });
+    expect(quote.asOf).toEqual(marketTime);
+  });
+
+  it("turns Yahoo failures into typed errors", async () => {
+    const provider = new YahooMarketDataProvider();
+
+    yahoo.quote.mockResolvedValue(undefined);
+    await expect(provider.getQuote("NOPE")).rejects.toMatchObject({ name: "SymbolNotFoundError", symbol: "NOPE" });
+
+    yahoo.quoteSummary.mockRejectedValue(Object.assign(new Error("Quote not found for symbol: NOPE"), { code: 404 }));
+    await expect(provider.getKeyMetrics("NOPE")).rejects.toBeInstanceOf(SymbolNotFoundError);
+
+    yahoo.chart.mockRejectedValue(Object.assign(new Error("Too Many Requests"), { code: 429 }));
+    await expect(provider.getHistory("AAPL", new Date("2024-01-01"), new Date("2024-02-01"), "1d")).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+  });
+
+  it("computes performance from provider history instead of fixed numbers", async () => {
+    const performance = await analyzeStockPerformance("MSFT");
+
+    expect(performance.source).toBe("fixture");
+    expect(performance.performanceMetrics.oneMonthReturn).toBeCloseTo((418.16 / 407.08 - 1) * 100, 6);
+    // The fixtures hold under four months of bars
+    expect(performance.performanceMetrics.sixMonthReturn).toBeNull();
+    expect(performance.performanceMetrics.volatility).toBeGreaterThan(0);
+    expect(performance.technicalAnalysis.rsi).not.toBeNull();
+    expect(performance.technicalAnalysis.support).toBeLessThanOrEqual(performance.technicalAnalysis.resistance);
+  });
+
+  it("screens the provider's universe", async () => {
+    expect((await getStockQuote(" ko ")).symbol).toBe("KO");
+
+    const technology = await screenStocks({ sector: "technology" });
+    expect(technology.map((quote) => quote.symbol)).toEqual(["AAPL", "MSFT"]);
+
+    const income = await screenStocks({ minDividendYield: 2 });
+    expect(income.map((quote) => quote.symbol)).toEqual(["KO"]);
+  });
+});
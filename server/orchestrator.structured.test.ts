@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { invokeLLM } = vi.hoisted(() => ({ invokeLLM: vi.fn() }));
+
+vi.mock("./_core/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./_core/llm")>()),
+  invokeLLM,
+}));
+
+import { ENV } from "./_core/env";
+import { parseStructured } from "./_core/llm";
+import { OrchestratorAgent } from "./_core/agents/orchestratorAgent";
+import type { OrchestratorState, ResearchPlan } from "./_core/agents/types";
+import { z } from "zod";
+
+function reply(content: string) {
+  return {
+    id: "test",
+    created: Date.now(),
+    model: "test-model",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+  };
+}
+
+function newOrchestrator() {
+  const state: OrchestratorState = {
+    sessionId: 1,
+    researchPlanId: "plan-1",
+    activeTasks: [],
+    completedTasks: [],
+    findings: [],
+    citations: [],
+    currentPhase: "planning",
+    progressPercentage: 0,
+  };
+  return new OrchestratorAgent(state, "test-model");
+}
+
+const plan: ResearchPlan = {
+  id: "plan-1",
+  sessionId: 1,
+  userId: 1,
+  query: "Solid-state batteries",
+  objectives: ["Energy density", "Commercial timelines"],
+  strategy: "Search papers and industry news",
+  estimatedSteps: 4,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("structured orchestrator outputs", () => {
+  const originalProvider = ENV.llmProvider;
+
+  beforeEach(() => {
+    invokeLLM.mockReset();
+    ENV.llmProvider = "openai";
+  });
+
+  afterEach(() => {
+    ENV.llmProvider = originalProvider;
+  });
+
+  it("extracts JSON from fenced or wrapped model output", () => {
+    const output = { name: "point", schema: z.object({ x: z.number() }) };
+
+    expect(parseStructured('Here you go:\n```json\n{"x": 1}\n```', output)).toEqual({ success: true, data: { x: 1 } });
+    expect(parseStructured('Sure! {"x": 2} Hope that helps.', output)).toEqual({ success: true, data: { x: 2 } });
+    expect(parseStructured('{"x": "one"}', output).success).toBe(false);
+    expect(parseStructured("not json", output).success).toBe(false);
+  });
+
+  it("requests a json_schema response and builds the plan from it", async () => {
+    invokeLLM.mockResolvedValueOnce(
+      reply(JSON.stringify({ objectives: ["Energy density"], strategy: "Search", estimatedSteps: 3 }))
+    );
+
+    const result = await newOrchestrator().planResearch("Solid-state batteries", {});
+
+    expect(result).toMatchObject({ objectives: ["Energy density"], strategy: "Search", estimatedSteps: 3 });
+
+    const { responseFormat } = invokeLLM.mock.calls[0][0];
+    expect(responseFormat.type).toBe("json_schema");
+    expect(responseFormat.json_schema.name).toBe("research_plan");
+    expect(responseFormat.json_schema.schema.required).toEqual(["objectives", "strategy", "estimatedSteps"]);
+    expect(responseFormat.json_schema.schema.$schema).toBeUndefined();
+  });
+
+  it("sends invalid output back for repair", async () => {
+    invokeLLM
+      .mockResolvedValueOnce(reply('{"tasks": []}'))
+      .mockResolvedValueOnce(reply('{"tasks": [{"description": "Search recent papers"}]}'));
+
+    const tasks = await newOrchestrator().decomposeTasks("Solid-state batteries", plan);
+
+    expect(tasks.map((t) => t.description)).toEqual(["Search recent papers"]);
+    expect(tasks[0].agentRole).toBe("searcher");
+
+    const repairMessages = invokeLLM.mock.calls[1][0].messages.slice(-2);
+    expect(repairMessages[0]).toEqual({ role: "assistant", content: '{"tasks": []}' });
+    expect(repairMessages[1].role).toBe("user");
+    expect(repairMessages[1].content).toContain("does not match the schema");
+  });
+
+  it("fails after the repair attempts are used up", async () => {
+    invokeLLM.mockResolvedValue(reply("The research looks complete."));
+
+    await expect(newOrchestrator().evaluateCompleteness("Solid-state batteries", [], plan)).rejects.toThrow(
+      /completeness_evaluation failed: Invalid completeness_evaluation output: Invalid JSON/
+    );
+    expect(invokeLLM).toHaveBeenCalledTimes(3);
+  });
+
+  it("falls back to json_object with the schema in the prompt for Anthropic", async () => {
+    ENV.llmProvider = "anthropic";
+    invokeLLM.mockResolvedValueOnce(reply('{"isComplete": false, "gaps": ["Pricing data"]}'));
+
+    const evaluation = await newOrchestrator().evaluateCompleteness("Solid-state batteries", [], plan);
+
+    expect(evaluation).toEqual({ isComplete: false, gaps: ["Pricing data"] });
+
+    const { responseFormat, messages } = invokeLLM.mock.calls[0][0];
+    expect(responseFormat).toEqual({ type: "json_object" });
+    const instruction = messages.find((m: any) => m.role === "system" && String(m.content).includes("JSON schema"));
+    expect(instruction.content).toContain('"isComplete"');
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TRPCError } from "@trpc/server";
+
+const store = vi.hoisted(() => ({
+  portfolios: new Map<number, any>(),
+  transactions: new Map<number, any>(),
+  holdings: new Map<number, any[]>(),
+  nextId: 1,
+}));
+
+vi.mock("./db", () => ({
+  createPortfolio: vi.fn(async (userId: number, name: string, benchmark: string, description?: string) => {
+    const id = store.nextId++;
+    store.portfolios.set(id, { id, userId, name, benchmark, description: description ?? null });
+    return { insertId: id };
+  }),
+  getPortfolioById: vi.fn(async (id: number) => store.portfolios.get(id)),
+  getHoldingsByPortfolioId: vi.fn(async (portfolioId: number) => store.holdings.get(portfolioId) ?? []),
+  replaceHoldings: vi.fn(async (portfolioId: number, positions: any[]) => {
+    store.holdings.set(portfolioId, positions.map((position) => ({ ...position, portfolioId })));
+  }),
+  createTransaction: vi.fn(async (portfolioId: number, transaction: any) => {
+    const id = store.nextId++;
+    store.transactions.set(id, { id, portfolioId, fees: 0, ...transaction });
+    return { insertId: id };
+  }),
+  getTransactionsByPortfolioId: vi.fn(async (portfolioId: number) =>
+    [...store.transactions.values()].filter((t) => t.portfolioId === portfolioId)
+  ),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { FixtureMarketDataProvider } from "./_core/agents/tools/marketData";
+import { buildPositions, computePerformance, PositionError, valuePositions } from "./_core/agents/tools/portfolio";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+function createCaller(userId: number) {
+  const ctx = {
+    user: { id: userId, openId: `test-user-${userId}`, role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+const at = (date: string) => new Date(`${date}T15:00:00Z`);
+
+describe("portfolio analytics", () => {
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+    store.portfolios.clear();
+    store.transactions.clear();
+    store.holdings.clear();
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+  });
+
+  it("tracks average cost basis, realized gains and dividends", () => {
+    const [position] = buildPositions([
+      { symbol: "ko", type: "sell", quantity: 5, price: 130, fees: 1, executedAt: at("2024-03-01") },
+      { symbol: "ko", type: "buy", quantity: 10, price: 100, fees: 1, executedAt: at("2024-01-01") },
+      { symbol: "KO", type: "buy", quantity: 10, price: 120, fees: 0, executedAt: at("2024-02-01") },
+      { symbol: "KO", type: "dividend", quantity: 15, price: 0.5, fees: 0, executedAt: at("2024-04-01") },
+    ]);
+
+    expect(position.symbol).toBe("KO");
+    expect(position.quantity).toBe(15);
+    expect(position.costBasis).toBeCloseTo(2201 * 0.75, 10);
+    expect(position.realizedGain).toBeCloseTo(650 - 1 - 2201 * 0.25, 10);
+    expect(position.income).toBeCloseTo(7.5, 10);
+
+    expect(() =>
+      buildPositions([{ symbol: "KO", type: "sell", quantity: 1, price: 70, fees: 0, executedAt: at("2024-01-01") }])
+    ).toThrow(PositionError);
+  });
+
+  it("computes time-weighted returns independent of cash flows", async () => {
+    const provider = new FixtureMarketDataProvider();
+    const range = [new Date("2024-07-01"), new Date("2024-10-18")] as const;
+    const ko = await provider.getHistory("KO", ...range, "1d");
+    const msft = await provider.getHistory("MSFT", ...range, "1d");
+    const closeOn = (date: string) => ko.find((bar) => bar.date === date)!.close;
+
+    // Trading at the close adds or removes money without changing the return
+    const performance = await computePerformance(
+      [
+        { symbol: "KO", type: "buy", quantity: 10, price: closeOn("2024-07-01"), fees: 0, executedAt: at("2024-07-01") },
+        { symbol: "KO", type: "buy", quantity: 30, price: closeOn("2024-08-01"), fees: 0, executedAt: at("2024-08-01") },
+        { symbol: "KO", type: "sell", quantity: 20, price: closeOn("2024-09-03"), fees: 0, executedAt: at("2024-09-03") },
+      ],
+      "msft"
+    );
+
+    const koReturn = (ko[ko.length - 1].close / ko[0].close - 1) * 100;
+    const msftReturn = (msft[msft.length - 1].close / msft[0].close - 1) * 100;
+    expect(performance).toMatchObject({ benchmark: "MSFT", from: "2024-07-01", to: "2024-10-18", source: "fixture" });
+    expect(performance.timeWeightedReturn).toBeCloseTo(koReturn, 8);
+    expect(performance.benchmarkReturn).toBeCloseTo(msftReturn, 8);
+    expect(performance.excessReturn).toBeCloseTo(koReturn - msftReturn, 8);
+    expect(performance.series[performance.series.length - 1].value).toBeCloseTo(20 * ko[ko.length - 1].close, 8);
+  });
+
+  it("counts dividends once when the adjusted close differs from the close", async () => {
+    const provider = new FixtureMarketDataProvider();
+    const range = [new Date("2024-07-01"), new Date("2024-10-18")] as const;
+    const ko = await provider.getHistory("KO", ...range, "1d");
+    const closeOn = (date: string) => ko.find((bar) => bar.date === date)!.close;
+
+    // Dividend-adjusted closes sit below the close until the ex-dividend date
+    const getHistory = FixtureMarketDataProvider.prototype.getHistory;
+    const spy = vi.spyOn(FixtureMarketDataProvider.prototype, "getHistory").mockImplementation(async function (
+      this: FixtureMarketDataProvider,
+      ...args: Parameters<FixtureMarketDataProvider["getHistory"]>
+    ) {
+      const bars = await getHistory.apply(this, args);
+      return bars.map((bar) => ({ ...bar, adjClose: bar.date < "2024-09-03" ? bar.close * 0.97 : bar.close }));
+    });
+
+    try {
+      const performance = await computePerformance(
+        [
+          { symbol: "KO", type: "buy", quantity: 10, price: closeOn("2024-07-01"), fees: 0, executedAt: at("2024-07-01") },
+          { symbol: "KO", type: "dividend", quantity: 10, price: 0.5, fees: 0, executedAt: at("2024-09-03") },
+        ],
+        "msft"
+      );
+
+      // Buying at the close neither gains nor loses on the day
+      expect(performance.series[0].portfolioReturn).toBeCloseTo(0, 8);
+      const expected = ((ko[ko.length - 1].close / ko[0].close) * (1 + 0.5 / closeOn("2024-09-03")) - 1) * 100;
+      expect(performance.timeWeightedReturn).toBeCloseTo(expected, 8);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("manages holdings through the portfolio router", async () => {
+    const caller = createCaller(1);
+    const { insertId: portfolioId } = (await caller.financialResearch.portfolio.create({ name: "Core" })) as any;
+    expect(store.portfolios.get(portfolioId).benchmark).toBe(ENV.portfolioBenchmark);
+
+    await caller.financialResearch.portfolio.addTransaction({
+      portfolioId,
+      symbol: " aapl ",
+      type: "buy",
+      quantity: 4,
+      price: 200,
+      executedAt: at("2024-07-01"),
+    });
+    expect(store.holdings.get(portfolioId)).toEqual([expect.objectContaining({ symbol: "AAPL", quantity: 4, costBasis: 800 })]);
+
+    await expect(
+      caller.financialResearch.portfolio.addTransaction({
+        portfolioId,
+        symbol: "AAPL",
+        type: "sell",
+        quantity: 5,
+        price: 230,
+        executedAt: at("2024-08-01"),
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(store.transactions.size).toBe(1);
+
+    const valuation = await caller.financialResearch.portfolio.costBasis({ portfolioId });
+    expect(valuation.totalMarketValue).toBe(4 * 235);
+    expect(valuation.positions[0]).toMatchObject({ averageCost: 200, unrealizedGain: 140, weight: 100 });
+
+    await expect(createCaller(2).financialResearch.portfolio.costBasis({ portfolioId })).rejects.toBeInstanceOf(TRPCError);
+  });
+
+  it("grounds the analyst's prompts in the portfolio", async () => {
+    const agent = new FinancialAnalystAgent();
+    const [position] = buildPositions([
+      { symbol: "KO", type: "buy", quantity: 10, price: 60, fees: 0, executedAt: at("2024-07-01") },
+    ]);
+    agent.setPortfolio({ name: "Income", benchmark: "SPY", valuation: await valuePositions([position]) });
+
+    const prompt = agent["formatTaskDescription"]({
+      id: "t1",
+      agentRole: "financial_analyst",
+      description: "Recommend a portfolio",
+      context: {},
+      status: "idle",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(prompt).toContain('Current portfolio "Income" (benchmark SPY');
+    expect(prompt).toContain("- KO: 10 shares, average cost $60.00, value $701.20 (100.0% of portfolio)");
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  CitationRegistry,
+  canonicalizeUrl,
+  collectSources,
+  finalizeReferences,
+  selectCitedSources,
+} from "./_core/agents/citations";
+import type { AgentTask } from "./_core/agents/types";
+
+function searcherTask(): AgentTask {
+  return {
+    id: "task-1",
+    agentRole: "searcher",
+    description: "Find solar capacity figures",
+    context: {},
+    status: "completed",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    steps: [
+      {
+        type: "tool",
+        iteration: 1,
+        toolCallId: "call-1",
+        toolName: "web_search",
+        arguments: "{}",
+        result: {
+          query: "solar capacity",
+          results: [
+            { title: "Renewables 2024", url: "https://www.iea.org/reports/renewables-2024?utm_source=x", snippet: "5 500 GW", source: "IEA" },
+            { title: "Solar - Wikipedia", url: "https://en.wikipedia.org/wiki/Solar_power", snippet: "Solar power" },
+          ],
+        },
+        at: new Date(),
+      },
+      {
+        type: "tool",
+        iteration: 2,
+        toolCallId: "call-2",
+        toolName: "fetch_url",
+        arguments: "{}",
+        result: {
+          url: "https://iea.org/reports/renewables-2024/",
+          canonicalUrl: "https://www.iea.org/reports/renewables-2024",
+          title: "Renewables 2024 – Analysis",
+          content: "The world is set to add more than 5 500 GW.",
+          publishedDate: "2024-10-09T00:00:00.000Z",
+        },
+        at: new Date(),
+      },
+    ],
+  };
+}
+
+describe("research citations", () => {
+  it("canonicalizes URLs so aliases compare equal", () => {
+    expect(canonicalizeUrl("https://WWW.Example.com/a/?utm_source=x&b=2&a=1#top")).toBe(
+      "https://example.com/a?a=1&b=2"
+    );
+  });
+
+  it("cites fetched pages and de-duplicates search results that point at them", () => {
+    const task = searcherTask();
+    const sources = selectCitedSources(collectSources(task), "Capacity will grow sharply.");
+
+    expect(sources.map((source) => source.url)).toEqual(["https://iea.org/reports/renewables-2024/"]);
+
+    const registry = new CitationRegistry();
+    const [citation] = registry.cite("artifact-1", sources);
+
+    expect(citation).toMatchObject({
+      number: 1,
+      artifactId: "artifact-1",
+      artifactIds: ["artifact-1"],
+      url: "https://iea.org/reports/renewables-2024",
+      title: "Renewables 2024 – Analysis",
+      source: "iea.org",
+    });
+    expect(citation.publishedDate?.toISOString()).toBe("2024-10-09T00:00:00.000Z");
+  });
+
+  it("reuses citation numbers across artifacts and links derived artifacts", () => {
+    const registry = new CitationRegistry();
+    const first = registry.cite("artifact-1", [
+      { url: "https://example.com/a", title: "A", fetched: false },
+      { url: "https://example.com/b", title: "B", fetched: false },
+    ]);
+    const second = registry.cite("artifact-2", [
+      { url: "https://www.example.com/b/", title: "B again", fetched: false },
+      { url: "https://example.com/c", title: "C", fetched: false },
+    ]);
+
+    expect(first.map((c) => c.number)).toEqual([1, 2]);
+    expect(second.map((c) => c.number)).toEqual([2, 3]);
+    expect(registry.all()).toHaveLength(3);
+
+    const inherited = registry.inherit("analysis-1", "artifact-2");
+    expect(inherited.map((c) => c.number)).toEqual([2, 3]);
+    expect(registry.all()[1].artifactIds).toEqual(["artifact-1", "artifact-2", "analysis-1"]);
+  });
+
+  it("keeps all search results when the answer cites none of them and nothing was fetched", () => {
+    const task = searcherTask();
+    task.steps = task.steps!.slice(0, 1);
+
+    expect(selectCitedSources(collectSources(task), "No URLs here.")).toHaveLength(2);
+    expect(
+      selectCitedSources(collectSources(task), "See https://en.wikipedia.org/wiki/Solar_power").map((s) => s.title)
+    ).toEqual(["Solar - Wikipedia"]);
+  });
+
+  it("skips malformed tool results and fields", () => {
+    const task = searcherTask();
+    const [search, fetch] = task.steps!;
+    task.steps = [
+      { ...search, result: { results: [null, "https://example.com", { url: 42 }, { url: "https://example.com/a", title: 7 }] } },
+      { ...fetch, result: ["https://example.com/b"] },
+      { ...fetch, result: null },
+    ];
+
+    expect(collectSources(task)).toEqual([
+      {
+        url: "https://example.com/a",
+        title: undefined,
+        source: undefined,
+        snippet: undefined,
+        publishedDate: undefined,
+        fetched: false,
+      },
+    ]);
+  });
+
+  it("drops unresolvable inline references and appends the reference list", () => {
+    const registry = new CitationRegistry();
+    registry.cite("artifact-1", [
+      { url: "https://example.com/a", title: "Page A", source: "Example", fetched: true },
+      { url: "https://example.com/b", fetched: false },
+    ]);
+
+    const report = finalizeReferences("Solar grew [1]. Wind grew [2, 7]. Hydro was flat [9].", registry.all());
+
+    expect(report).toBe(
+      "Solar grew [1]. Wind grew [2]. Hydro was flat.\n\n## References\n\n" +
+        "[1] Page A — Example. https://example.com/a\n" +
+        "[2] example.com. https://example.com/b"
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { createAgentTask } = vi.hoisted(() => ({ createAgentTask: vi.fn() }));
+vi.mock("./db", () => ({
+  createAgentTask,
+  updateAgentTask: vi.fn(async () => undefined),  getUsageBudget: vi.fn(async () => undefined),
+}));
+
+const { invokeLLM } = vi.hoisted(() => ({ invokeLLM: vi.fn() }));
+vi.mock("./_core/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./_core/llm")>()),
+  invokeLLM,
+}));
+
+import { ResearchCoordinator } from "./_core/agents/researchCoordinator";
+import type { ResearchEvent, ResearchRound } from "./_core/agents/types";
+
+function reply(content: string, totalTokens = 0) {
+  return {
+    id: "test",
+    created: Date.now(),
+    model: "test-model",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: { prompt_tokens: totalTokens, completion_tokens: 0, total_tokens: totalTokens },
+  };
+}
+
+const request = { sessionId: 1, userId: 7, query: "State of solid-state batteries" };
+
+/**
+ * Answer planning, decomposition and evaluation prompts; everything else is a
+ * worker task. `evaluations` are returned in order, one per completeness check.
+ */
+function scriptLLM(
+  evaluations: object[],
+  tokensPerTask = 0,
+  tasks = ["Search recent papers", "Search market reports", "Search patents"]
+) {
+  const queue = [...evaluations];
+  invokeLLM.mockImplementation(async ({ messages }) => {
+    const prompt = String(messages[messages.length - 1].content);
+    if (prompt.includes("Create a detailed research plan")) {
+      return reply(JSON.stringify({ objectives: ["Energy density"], strategy: "Search", estimatedSteps: 3 }));
+    }
+    if (prompt.includes("Decompose")) {
+      return reply(JSON.stringify({ tasks: tasks.map((description) => ({ description })) }));
+    }
+    if (prompt.includes("Evaluate if we have sufficient information")) {
+      return reply(JSON.stringify(queue.shift() ?? { isComplete: true, gaps: [] }));
+    }
+    return reply(`Result for: ${prompt.substring(0, 40)}`, tokensPerTask);
+  });
+}
+
+function evaluationCalls() {
+  return invokeLLM.mock.calls.filter(([params]) =>
+    String(params.messages[params.messages.length - 1].content).includes("Evaluate if we have sufficient information")
+  ).length;
+}
+
+function runResearch(limits: { maxRounds?: number; breadth?: number; tokenBudget?: number }) {
+  const coordinator = new ResearchCoordinator(1, "test-model", "plan-1");
+  const rounds: ResearchRound[] = [];
+  coordinator.onEvent((event: ResearchEvent) => {
+    if (event.type === "round") rounds.push(event.round);
+  });
+  return coordinator.executeResearch(request, { limits }).then((result) => ({ result, rounds }));
+}
+
+/** Searcher tasks as saved to agent_tasks */
+function savedSearchTasks() {
+  return createAgentTask.mock.calls
+    .filter(([, , agentRole]) => agentRole === "searcher")
+    .map(([id, , , description, context]) => ({ id, description, context }));
+}
+
+describe("iterative research rounds", () => {
+  beforeEach(() => {
+    invokeLLM.mockReset();
+    createAgentTask.mockReset();
+    createAgentTask.mockResolvedValue(undefined);
+  });
+
+  it("researches the reported gaps until the evaluation says the findings are complete", async () => {
+    scriptLLM([
+      { isComplete: false, gaps: ["Cycle life data", "Manufacturing cost"] },
+      { isComplete: true, gaps: [] },
+    ]);
+
+    const { result, rounds } = await runResearch({ maxRounds: 4, breadth: 3 });
+
+    expect(rounds.map((r) => [r.round, r.findingsCount, r.stopReason])).toEqual([
+      [1, 3, undefined],
+      [2, 2, "complete"],
+    ]);
+    expect(rounds[0].evaluation?.gaps).toEqual(["Cycle life data", "Manufacturing cost"]);
+
+    const gapTasks = savedSearchTasks().filter((task) => task.context.round === 2);
+    expect(gapTasks.map((task) => task.description)).toEqual(["Cycle life data", "Manufacturing cost"]);
+    expect(gapTasks.map((task) => task.context.gap)).toEqual(["Cycle life data", "Manufacturing cost"]);
+    expect(rounds[1].taskIds).toEqual(gapTasks.map((task) => task.id));
+
+    expect(result.rounds).toEqual(rounds);
+  });
+
+  it("limits each round to the configured breadth", async () => {
+    scriptLLM([{ isComplete: false, gaps: ["Gap one", "Gap two", "Gap three"] }]);
+
+    const { rounds } = await runResearch({ maxRounds: 2, breadth: 2 });
+
+    expect(rounds.map((r) => r.taskIds.length)).toEqual([2, 2]);
+    expect(rounds[1].stopReason).toBe("max_rounds");
+  });
+
+  it("accepts as many decomposed tasks and gaps as the widest breadth allows", async () => {
+    const searches = Array.from({ length: 8 }, (_, i) => `Search angle ${i + 1}`);
+    const gaps = Array.from({ length: 8 }, (_, i) => `Gap ${i + 1}`);
+    scriptLLM([{ isComplete: false, gaps }], 0, searches);
+
+    const { rounds } = await runResearch({ maxRounds: 2, breadth: 8 });
+
+    expect(rounds.map((r) => r.taskIds.length)).toEqual([8, 8]);
+  });
+
+  it("stops at the round limit without evaluating the last round", async () => {
+    scriptLLM([]);
+
+    const { rounds } = await runResearch({ maxRounds: 1, breadth: 3 });
+
+    expect(rounds).toHaveLength(1);
+    expect(rounds[0].stopReason).toBe("max_rounds");
+    expect(evaluationCalls()).toBe(0);
+  });
+
+  it("stops once the token budget is spent", async () => {
+    scriptLLM([{ isComplete: false, gaps: ["More data"] }], 500);
+
+    const { result, rounds } = await runResearch({ maxRounds: 5, breadth: 3, tokenBudget: 1000 });
+
+    expect(rounds).toHaveLength(1);
+    expect(rounds[0]).toMatchObject({ stopReason: "budget", tokensUsed: 1500 });
+    expect(evaluationCalls()).toBe(0);
+
+    // The findings so far are reported without analysis or synthesis
+    expect(result.budgetExceeded).toBe("token budget of 1,000 spent (1,500 used)");
+    expect(result.report).toContain("_Research stopped early: token budget of 1,000 spent");
+    expect(result.report).toContain("1. Result for: ");
+  });
+
+  it("stops when the evaluation reports no gaps", async () => {
+    scriptLLM([{ isComplete: false, gaps: ["  "] }]);
+
+    const { rounds } = await runResearch({ maxRounds: 3, breadth: 3 });
+
+    expect(rounds.map((r) => r.stopReason)).toEqual(["no_gaps"]);
+  });
+});
@@ -0,0 +1,315 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  plans: new Map<string, any>(),
+  tasks: new Map<string, any>(),
+}));
+
+vi.mock("./db", () => ({
+  createResearchPlan: vi.fn(async (sessionId, userId, query, objectives, strategy, estimatedSteps, id, options = {}) => {
+    store.plans.set(id, {
+      id,
+      sessionId,
+      userId,
+      query,
+      objectives: JSON.stringify(objectives),
+      strategy,
+      estimatedSteps,
+      status: "queued",
+      llmModel: options.llmModel ?? null,
+      context: options.context ? JSON.stringify(options.context) : null,
+      report: null,
+      error: null,
+      attempts: 0,
+      startedAt: null,
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }),
+  getResearchPlanById: vi.fn(async (id: string) => store.plans.get(id)),
+  getResearchPlansByStatus: vi.fn(async (statuses: string[]) =>
+    [...store.plans.values()].filter((p) => statuses.includes(p.status))
+  ),
+  updateResearchPlan: vi.fn(async (id: string, updates: Record<string, any>) => {
+    const { objectives, ...rest } = updates;
+    Object.assign(store.plans.get(id), rest, objectives ? { objectives: JSON.stringify(objectives) } : {});
+  }),
+  createAgentTask: vi.fn(async (id, researchPlanId, agentRole, description, context, status, parentTaskId, outcome = {}) => {
+    store.tasks.set(id, {
+      id,
+      researchPlanId,
+      parentTaskId: parentTaskId ?? null,
+      agentRole,
+      description,
+      context: JSON.stringify(context),
+      status,
+      statusHistory: [status],
+      result: outcome.result !== undefined ? JSON.stringify(outcome.result) : null,
+      error: outcome.error ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }),
+  updateAgentTask: vi.fn(async (id: string, updates: Record<string, any>) => {
+    const task = store.tasks.get(id);
+    if (updates.status) {
+      task.status = updates.status;
+      task.statusHistory?.push(updates.status);
+    }
+    if (updates.result !== undefined) task.result = JSON.stringify(updates.result);
+    if (updates.error !== undefined) task.error = updates.error;
+  }),
+  getAgentTasksByResearchPlanId: vi.fn(async (planId: string) =>
+    [...store.tasks.values()].filter((t) => t.researchPlanId === planId)
+  ),
+  createResearchArtifact: vi.fn(async () => undefined),
+  createCitation: vi.fn(async () => undefined),
+  createOrUpdateResearchMemory: vi.fn(async () => undefined),
+  getUsageBudget: vi.fn(async () => undefined),
+}));
+
+const invokeLLM = vi.hoisted(() => vi.fn());
+vi.mock("./_core/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./_core/llm")>()),
+  invokeLLM,
+}));
+
+import { ResearchJobQueue } from "./researchJobs";
+import { researchEventBus } from "./_core/agents";
+import { SYNTHESIS_DESCRIPTION } from "./_core/agents/orchestratorAgent";
+
+function reply(content: string) {
+  return {
+    id: "test",
+    created: Date.now(),
+    model: "test-model",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+  };
+}
+
+async function waitForStatus(jobId: string, statuses: string[]) {
+  await vi.waitFor(() => {
+    expect(statuses).toContain(store.plans.get(jobId).status);
+  });
+}
+
+describe("ResearchJobQueue", () => {
+  beforeEach(() => {
+    store.plans.clear();
+    store.tasks.clear();
+    invokeLLM.mockReset();
+    invokeLLM.mockImplementation(async ({ messages }) => {
+      const prompt = String(messages[messages.length - 1].content);
+      if (prompt.includes("Create a detailed research plan")) {
+        return reply(JSON.stringify({ objectives: ["Cover recent research"], strategy: "Search then analyze", estimatedSteps: 3 }));
+      }
+      if (prompt.includes("Decompose")) {
+        return reply(JSON.stringify({ tasks: [{ description: "Search recent papers" }, { description: "Search market reports" }] }));
+      }
+      if (prompt.includes("Evaluate if we have sufficient information")) {
+        return reply(JSON.stringify({ isComplete: true, gaps: [] }));
+      }
+      return reply(`Result for: ${prompt.substring(0, 40)}`);
+    });
+  });
+
+  it("returns a job id immediately and completes the run in the background", async () => {
+    const queue = new ResearchJobQueue(1);
+
+    const jobId = await queue.enqueue({ sessionId: 1, userId: 7, query: "State of solid-state batteries" });
+    expect(store.plans.get(jobId).userId).toBe(7);
+
+    await waitForStatus(jobId, ["completed", "failed"]);
+
+    const plan = store.plans.get(jobId);
+    expect(plan.status).toBe("completed");
+    expect(plan.attempts).toBe(1);
+    expect(plan.report).toBeTruthy();
+    expect([...store.tasks.values()].every((t) => t.status === "completed")).toBe(true);
+  });
+
+  it("records every agent task with its parent, status transitions and result", async () => {
+    const queue = new ResearchJobQueue(1);
+
+    const jobId = await queue.enqueue({ sessionId: 1, userId: 7, query: "State of solid-state batteries" });
+    await waitForStatus(jobId, ["completed", "failed"]);
+
+    const tasks = [...store.tasks.values()].filter((t) => t.researchPlanId === jobId);
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    const roles = new Set(tasks.map((t) => t.agentRole));
+    expect(roles).toEqual(new Set(["orchestrator", "searcher", "extractor", "fact_checker"]));
+
+    const searchTasks = tasks.filter((t) => t.agentRole === "searcher");
+    expect(searchTasks).toHaveLength(2);
+    for (const task of searchTasks) {
+      expect(byId.get(task.parentTaskId)?.agentRole).toBe("orchestrator");
+      expect(task.statusHistory).toEqual(["idle", "thinking", "completed"]);
+      expect(JSON.parse(task.result)).toContain("Result for");
+    }
+
+    for (const task of tasks.filter((t) => t.agentRole === "extractor")) {
+      expect(byId.get(task.parentTaskId)?.agentRole).toBe("searcher");
+      expect(JSON.parse(task.context).finding).toBeDefined();
+    }
+  });
+
+  it("resumes interrupted jobs without re-running completed tasks", async () => {
+    const queue = new ResearchJobQueue(1);
+    store.plans.set("job-1", {
+      id: "job-1",
+      sessionId: 1,
+      userId: 7,
+      query: "State of solid-state batteries",
+      objectives: JSON.stringify(["Cover recent research"]),
+      strategy: "Search then analyze",
+      estimatedSteps: 3,
+      status: "running",
+      llmModel: null,
+      context: null,
+      report: null,
+      error: null,
+      attempts: 1,
+      startedAt: new Date(),
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    for (const [id, status] of [["done-task", "completed"], ["open-task", "thinking"]] as const) {
+      store.tasks.set(id, {
+        id,
+        researchPlanId: "job-1",
+        parentTaskId: null,
+        agentRole: "searcher",
+        description: `Finish ${id}`,
+        context: "{}",
+        status,
+        result: status === "completed" ? JSON.stringify("Earlier finding") : null,
+        error: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+
+    expect(await queue.resumeInterrupted()).toBe(1);
+    await waitForStatus("job-1", ["completed", "failed"]);
+
+    const prompts = invokeLLM.mock.calls.map(([params]) => String(params.messages[params.messages.length - 1].content));
+    expect(prompts.some((p) => p.includes("Finish open-task"))).toBe(true);
+    expect(prompts.some((p) => p.startsWith("Task: Finish done-task"))).toBe(false);
+    expect(prompts.some((p) => p.includes("Decompose"))).toBe(false);
+    expect(store.plans.get("job-1").status).toBe("completed");
+    expect(store.plans.get("job-1").attempts).toBe(2);
+  });
+
+  it("reuses completed analysis, verification and synthesis when resuming", async () => {
+    const queue = new ResearchJobQueue(1);
+    store.plans.set("job-2", {
+      id: "job-2",
+      sessionId: 1,
+      userId: 7,
+      query: "State of solid-state batteries",
+      objectives: JSON.stringify(["Cover recent research"]),
+      strategy: "Search then analyze",
+      estimatedSteps: 3,
+      status: "running",
+      llmModel: null,
+      context: null,
+      report: null,
+      error: null,
+      attempts: 1,
+      startedAt: new Date(),
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    const saved = [
+      { id: "search-1", agentRole: "searcher", parentTaskId: null, description: "Search recent papers", result: "Earlier finding" },
+      { id: "extract-1", agentRole: "extractor", parentTaskId: "search-1", description: "Analyze earlier finding", result: "Earlier analysis" },
+      { id: "check-1", agentRole: "fact_checker", parentTaskId: "search-1", description: "Verify earlier finding", result: "Confirmed" },
+      { id: "check-2", agentRole: "fact_checker", parentTaskId: "extract-1", description: "Verify earlier analysis", result: "Confirmed" },
+      { id: "synth-1", agentRole: "orchestrator", parentTaskId: null, description: SYNTHESIS_DESCRIPTION, result: "Earlier report" },
+    ];
+    for (const task of saved) {
+      store.tasks.set(task.id, {
+        ...task,
+        researchPlanId: "job-2",
+        context: JSON.stringify({ round: 1 }),
+        status: "completed",
+        result: JSON.stringify(task.result),
+        error: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+
+    await queue.resumeInterrupted();
+    await waitForStatus("job-2", ["completed", "failed"]);
+
+    const prompts = invokeLLM.mock.calls.map(([params]) => String(params.messages[params.messages.length - 1].content));
+    expect(prompts.some((p) => p.includes("Analyze and extract key insights"))).toBe(false);
+    expect(prompts.some((p) => p.includes("Verify the accuracy"))).toBe(false);
+    expect(prompts.some((p) => p.includes("Synthesize all research findings"))).toBe(false);
+    expect(store.plans.get("job-2").report).toContain("Earlier report");
+
+    const roles = [...store.tasks.values()].filter((t) => t.researchPlanId === "job-2").map((t) => t.agentRole);
+    expect(roles.filter((role) => role === "extractor")).toHaveLength(1);
+    expect(roles.filter((role) => role === "fact_checker")).toHaveLength(2);
+  });
+
+  it("cancels a queued job and allows it to be retried", async () => {
+    const queue = new ResearchJobQueue(0);
+
+    const jobId = await queue.enqueue({ sessionId: 1, userId: 7, query: "State of solid-state batteries" });
+    expect(await queue.cancel(jobId)).toBe(true);
+    expect(store.plans.get(jobId).status).toBe("cancelled");
+    // Watchers of the job see it end
+    expect(researchEventBus.replay(jobId)).toEqual([
+      expect.objectContaining({ type: "error", message: "Research was cancelled" }),
+    ]);
+    expect(await queue.cancel(jobId)).toBe(false);
+
+    expect(await queue.retry(jobId)).toBe(true);
+    expect(store.plans.get(jobId).status).toBe("queued");
+  });
+
+  it("runs a job retried right after cancelling once the cancelled run unwinds", async () => {
+    const queue = new ResearchJobQueue(1);
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const answer = invokeLLM.getMockImplementation()!;
+    invokeLLM.mockImplementation(async (params) => {
+      await gate;
+      return answer(params);
+    });
+
+    const jobId = await queue.enqueue({ sessionId: 1, userId: 7, query: "State of solid-state batteries" });
+    await waitForStatus(jobId, ["running"]);
+
+    expect(await queue.cancel(jobId)).toBe(true);
+    expect(await queue.retry(jobId)).toBe(true);
+    expect(store.plans.get(jobId).status).toBe("queued");
+
+    release();
+    await waitForStatus(jobId, ["completed", "failed"]);
+    expect(store.plans.get(jobId).status).toBe("completed");
+    expect(store.plans.get(jobId).attempts).toBe(2);
+  });
+
+  it("keeps a cancellation that lands while results are being saved", async () => {
+    const queue = new ResearchJobQueue(1);
+    const db = await import("./db");
+    let jobId = "";
+    vi.mocked(db.createResearchArtifact).mockImplementationOnce(async () => {
+      await queue.cancel(jobId);
+    });
+
+    jobId = await queue.enqueue({ sessionId: 1, userId: 7, query: "State of solid-state batteries" });
+    await vi.waitFor(() => expect(db.createResearchArtifact).toHaveBeenCalled());
+    // Let the run finish saving
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(store.plans.get(jobId).status).toBe("cancelled");
+    expect(store.plans.get(jobId).report).toBeNull();
+  });
+});
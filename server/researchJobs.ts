@@ -0,0 +1,300 @@
+/**
+ * Research Job Queue
+ * Runs deep research in the background, persisting job state in research_plans.
+ * Interrupted runs resume from the tasks the coordinator saved in agent_tasks.
+ */
+
+import { nanoid } from "nanoid";
+import { ResearchCoordinator, researchEventBus } from "./_core/agents";
+import type { AgentTask, ResearchPlan, ResearchRound } from "./_core/agents";
+import { ENV } from "./_core/env";
+import {
+  createResearchPlan,
+  getResearchPlanById,
+  getResearchPlansByStatus,
+  updateResearchPlan,
+  getAgentTasksByResearchPlanId,
+  createResearchArtifact,
+  createCitation,
+  createOrUpdateResearchMemory,
+} from "./db";
+
+export interface ResearchJobInput {
+  sessionId: number;
+  userId: number;
+  query: string;
+  context?: Record<string, unknown>;
+  llmModel?: string;
+  /** Maximum search rounds; defaults to RESEARCH_MAX_ROUNDS */
+  maxRounds?: number;
+  /** Maximum tasks per round; defaults to RESEARCH_BREADTH */
+  breadth?: number;
+  /** Tokens the research may spend; defaults to RESEARCH_TOKEN_BUDGET */
+  tokenBudget?: number;
+}
+
+type ResearchPlanRow = NonNullable<Awaited<ReturnType<typeof getResearchPlanById>>>;
+type AgentTaskRow = Awaited<ReturnType<typeof getAgentTasksByResearchPlanId>>[number];
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toAgentTask(row: AgentTaskRow): AgentTask {
+  return {
+    id: row.id,
+    parentTaskId: row.parentTaskId ?? undefined,
+    agentRole: row.agentRole,
+    description: row.description,
+    context: parseJson(row.context, {}),
+    status: row.status,
+    result: parseJson<unknown>(row.result, undefined),
+    error: row.error ?? undefined,
+    steps: parseJson<AgentTask["steps"]>(row.steps, undefined),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toResearchPlan(row: ResearchPlanRow): ResearchPlan {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    userId: row.userId,
+    query: row.query,
+    objectives: parseJson(row.objectives, []),
+    strategy: row.strategy,
+    estimatedSteps: row.estimatedSteps,
+    rounds: parseJson<ResearchRound[] | undefined>(row.rounds, undefined),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class ResearchJobQueue {
+  private pending: string[] = [];
+  private running: Map<string, AbortController> = new Map();
+  // Jobs retried while their cancelled run is still unwinding
+  private requeued: Set<string> = new Set();
+
+  constructor(private concurrency: number = 2) {}
+
+  /**
+   * Create a queued research job and return its id (the research plan id)
+   */
+  async enqueue(input: ResearchJobInput): Promise<string> {
+    const jobId = nanoid();
+
+    await createResearchPlan(
+      input.sessionId,
+      input.userId,
+      input.query,
+      [],
+      "Research plan created",
+      0,
+      jobId,
+      {
+        llmModel: input.llmModel,
+        context: input.context,
+        maxRounds: input.maxRounds,
+        breadth: input.breadth,
+        tokenBudget: input.tokenBudget,
+      }
+    );
+
+    this.schedule(jobId);
+    return jobId;
+  }
+
+  /**
+   * Cancel a queued or running job, ending its watchers' streams. Returns
+   * false if the job had already finished.
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    const plan = await getResearchPlanById(jobId);
+    if (!plan || (plan.status !== "queued" && plan.status !== "running")) {
+      return false;
+    }
+
+    this.pending = this.pending.filter((id) => id !== jobId);
+    this.requeued.delete(jobId);
+    this.running.get(jobId)?.abort();
+
+    await updateResearchPlan(jobId, { status: "cancelled", completedAt: new Date() });
+    researchEventBus.publish(jobId, { type: "error", message: "Research was cancelled", at: new Date() });
+    return true;
+  }
+
+  /**
+   * Re-queue a failed or cancelled job. Tasks that completed earlier are kept.
+   */
+  async retry(jobId: string): Promise<boolean> {
+    const plan = await getResearchPlanById(jobId);
+    if (!plan || (plan.status !== "failed" && plan.status !== "cancelled")) {
+      return false;
+    }
+
+    await updateResearchPlan(jobId, { status: "queued", error: null, completedAt: null });
+    this.schedule(jobId);
+    return true;
+  }
+
+  /**
+   * Re-queue jobs that were queued or running when the server last stopped
+   */
+  async resumeInterrupted(): Promise<number> {
+    const plans = await getResearchPlansByStatus(["queued", "running"]);
+
+    for (const plan of plans) {
+      if (plan.status === "running") {
+        await updateResearchPlan(plan.id, { status: "queued" });
+      }
+      this.schedule(plan.id);
+    }
+
+    return plans.length;
+  }
+
+  private schedule(jobId: string): void {
+    if (this.running.get(jobId)?.signal.aborted) {
+      this.requeued.add(jobId);
+      return;
+    }
+    if (this.running.has(jobId) || this.pending.includes(jobId)) return;
+    this.pending.push(jobId);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const jobId = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(jobId, controller);
+
+      this.run(jobId, controller.signal)
+        .catch((error) => console.error(`[ResearchJobs] Job ${jobId} crashed:`, error))
+        .finally(() => {
+          this.running.delete(jobId);
+          if (this.requeued.delete(jobId)) this.pending.push(jobId);
+          this.drain();
+        });
+    }
+  }
+
+  private async run(jobId: string, signal: AbortSignal): Promise<void> {
+    const plan = await getResearchPlanById(jobId);
+    if (!plan || plan.status !== "queued") return;
+
+    await updateResearchPlan(jobId, {
+      status: "running",
+      attempts: plan.attempts + 1,
+      startedAt: new Date(),
+    });
+
+    const savedTasks = (await getAgentTasksByResearchPlanId(jobId)).map(toAgentTask);
+
+    const coordinator = new ResearchCoordinator(plan.sessionId, plan.llmModel ?? undefined, jobId);
+    const rounds: ResearchRound[] = [];
+    coordinator.onEvent((event) => {
+      researchEventBus.publish(jobId, event);
+
+      if (event.type === "plan") {
+        updateResearchPlan(jobId, {
+          objectives: event.plan.objectives,
+          strategy: event.plan.strategy,
+          estimatedSteps: event.plan.estimatedSteps,
+        }).catch((error) => console.warn("[ResearchJobs] Failed to save plan:", error));
+      }
+
+      if (event.type === "round") {
+        rounds.push(event.round);
+        updateResearchPlan(jobId, { rounds: [...rounds] }).catch((error) =>
+          console.warn("[ResearchJobs] Failed to save round:", error)
+        );
+      }
+    });
+
+    try {
+      const result = await coordinator.executeResearch(
+        {
+          sessionId: plan.sessionId,
+          userId: plan.userId,
+          query: plan.query,
+          context: parseJson(plan.context, {}),
+        },
+        {
+          signal,
+          limits: {
+            maxRounds: plan.maxRounds ?? undefined,
+            breadth: plan.breadth ?? undefined,
+            tokenBudget: plan.tokenBudget ?? undefined,
+          },
+          checkpoint: savedTasks.length > 0 ? { plan: toResearchPlan(plan), tasks: savedTasks } : undefined,
+        }
+      );
+
+      for (const artifact of result.findings) {
+        await createResearchArtifact(
+          artifact.id,
+          artifact.taskId,
+          plan.sessionId,
+          artifact.type,
+          artifact.content,
+          artifact.metadata
+        );
+      }
+
+      for (const citation of result.citations) {
+        await createCitation(
+          citation.id,
+          citation.artifactId,
+          citation.source,
+          citation.url,
+          citation.title,
+          {
+            number: citation.number,
+            artifactIds: citation.artifactIds,
+            snippet: citation.snippet,
+            publishedAt: citation.publishedDate,
+          }
+        );
+      }
+
+      const memory = coordinator.getMemory();
+      if (memory) {
+        await createOrUpdateResearchMemory(
+          plan.sessionId,
+          memory.shortTermMemory,
+          memory.longTermMemory
+        );
+      }
+
+      // A cancel that landed while results were being saved stands
+      if (signal.aborted) return;
+
+      await updateResearchPlan(jobId, {
+        status: "completed",
+        report: result.report,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        // cancel() has already recorded the cancellation
+        return;
+      }
+
+      await updateResearchPlan(jobId, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+    }
+  }
+}
+
+export const researchJobQueue = new ResearchJobQueue(ENV.researchJobConcurrency);
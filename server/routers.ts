@@ -5,6 +5,7 @@ import { publicProcedure, router } from "./_core/trpc";
 import { chatRouter } from "./routers/chat";
 import { deepResearchRouter } from "./routers/deepResearch";
 import { financialResearchRouter } from "./routers/financialResearch";
+import { usageRouter } from "./routers/usage";
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -23,6 +24,7 @@ export const appRouter = router({
   chat: chatRouter,
   deepResearch: deepResearchRouter,
   financialResearch: financialResearchRouter,
+  usage: usageRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -4,24 +4,49 @@
  */
 
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
-import { ResearchCoordinator } from "../_core/agents";
+import { MAX_RESEARCH_BREADTH, researchEventBus } from "../_core/agents";
+import { checkUsageBudget } from "../_core/llm";
 import {
-  createResearchPlan,
+  getChatSessionById,
+  getResearchPlanById,
   getResearchPlansBySessionId,
-  createAgentTask,
   getAgentTasksByResearchPlanId,
-  createResearchArtifact,
   getResearchArtifactsBySessionId,
-  createCitation,
-  createOrUpdateResearchMemory,
   getResearchMemory,
 } from "../db";
-import { nanoid } from "nanoid";
+import { researchJobQueue } from "../researchJobs";
+
+/**
+ * Load a research plan, hiding plans that belong to other users
+ */
+async function getOwnedResearchPlan(researchPlanId: string, userId: number) {
+  const plan = await getResearchPlanById(researchPlanId);
+  if (!plan || plan.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Research plan not found" });
+  }
+  return plan;
+}
+
+/**
+ * Load a chat session, hiding sessions that belong to other users
+ */
+async function getOwnedSession(sessionId: number, userId: number) {
+  const session = await getChatSessionById(sessionId);
+  if (!session || session.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+  }
+  return session;
+}
+
+// Runs in these states publish no more events
+const FINISHED_STATUSES = ["completed", "failed", "cancelled"];
 
 export const deepResearchRouter = router({
   /**
-   * Start a deep research session
+   * Start a deep research session as a background job. Returns the job id,
+   * which is also the research plan id used by watch/getAgentTasks.
    */
   startResearch: protectedProcedure
     .input(
@@ -30,77 +55,88 @@ export const deepResearchRouter = router({
         query: z.string().min(10, "Query must be at least 10 characters"),
         context: z.record(z.string(), z.unknown()).optional(),
         llmModel: z.string().optional(),
+        maxRounds: z.number().int().min(1).max(10).optional(),
+        breadth: z.number().int().min(1).max(MAX_RESEARCH_BREADTH).optional(),
+        tokenBudget: z.number().int().min(1000).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      try {
-        const coordinator = new ResearchCoordinator(input.sessionId, input.llmModel);
+      await getOwnedSession(input.sessionId, ctx.user.id);
+      const exceeded = await checkUsageBudget({ userId: ctx.user.id });
+      if (exceeded) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: exceeded.message });
+      }
 
-        // Create research plan in database
-        const planId = nanoid();
-        await createResearchPlan(
-          input.sessionId,
-          ctx.user.id,
-          input.query,
-          [],
-          "Research plan created",
-          0,
-          planId
-        );
+      const jobId = await researchJobQueue.enqueue({
+        sessionId: input.sessionId,
+        userId: ctx.user.id,
+        query: input.query,
+        context: input.context,
+        llmModel: input.llmModel,
+        maxRounds: input.maxRounds,
+        breadth: input.breadth,
+        tokenBudget: input.tokenBudget,
+      });
 
-        // Start research (this will run in background in production)
-        const result = await coordinator.executeResearch({
-          sessionId: input.sessionId,
-          userId: ctx.user.id,
-          query: input.query,
-          context: input.context,
-        });
+      return {
+        success: true,
+        jobId,
+      };
+    }),
 
-        // Save findings and citations to database
-        for (const artifact of result.findings) {
-          await createResearchArtifact(
-            artifact.id,
-            artifact.taskId,
-            input.sessionId,
-            artifact.type,
-            artifact.content,
-            artifact.metadata
-          );
-        }
+  /**
+   * Get the status of a research job
+   */
+  getResearchJob: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const plan = await getOwnedResearchPlan(input.jobId, ctx.user.id);
+      return {
+        jobId: plan.id,
+        status: plan.status,
+        query: plan.query,
+        report: plan.report,
+        error: plan.error,
+        attempts: plan.attempts,
+        startedAt: plan.startedAt,
+        completedAt: plan.completedAt,
+      };
+    }),
 
-        for (const citation of result.citations) {
-          await createCitation(
-            citation.id,
-            citation.artifactId,
-            citation.source,
-            citation.url,
-            citation.title
-          );
-        }
+  /**
+   * Cancel a queued or running research job
+   */
+  cancelResearch: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedResearchPlan(input.jobId, ctx.user.id);
+      return { success: await researchJobQueue.cancel(input.jobId) };
+    }),
 
-        // Save memory
-        const memory = coordinator.getMemory();
-        if (memory) {
-          await createOrUpdateResearchMemory(
-            input.sessionId,
-            memory.shortTermMemory,
-            memory.longTermMemory
-          );
-        }
+  /**
+   * Retry a failed or cancelled research job, skipping tasks that already completed
+   */
+  retryResearch: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedResearchPlan(input.jobId, ctx.user.id);
+      return { success: await researchJobQueue.retry(input.jobId) };
+    }),
 
-        return {
-          success: true,
-          report: result.report,
-          findingsCount: result.findings.length,
-          citationsCount: result.citations.length,
-          executionTime: result.executionTime,
-        };
-      } catch (error) {
-        console.error("Deep research failed:", error);
-        throw new Error(
-          error instanceof Error ? error.message : "Research execution failed"
-        );
+  /**
+   * Stream live progress for a research run: phase changes, agent task
+   * transitions, new artifacts and the final report. A finished run only
+   * replays the events still kept for it, then the stream ends.
+   */
+  watch: protectedProcedure
+    .input(z.object({ researchPlanId: z.string() }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      const plan = await getOwnedResearchPlan(input.researchPlanId, ctx.user.id);
+      if (FINISHED_STATUSES.includes(plan.status)) {
+        yield* researchEventBus.replay(input.researchPlanId);
+        return;
       }
+      yield* researchEventBus.subscribe(input.researchPlanId, signal);
     }),
 
   /**
@@ -108,7 +144,8 @@ export const deepResearchRouter = router({
    */
   getResearchPlans: protectedProcedure
     .input(z.object({ sessionId: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await getOwnedSession(input.sessionId, ctx.user.id);
       return await getResearchPlansBySessionId(input.sessionId);
     }),
 
@@ -117,7 +154,8 @@ export const deepResearchRouter = router({
    */
   getResearchArtifacts: protectedProcedure
     .input(z.object({ sessionId: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await getOwnedSession(input.sessionId, ctx.user.id);
       return await getResearchArtifactsBySessionId(input.sessionId);
     }),
 
@@ -126,7 +164,8 @@ export const deepResearchRouter = router({
    */
   getResearchMemory: protectedProcedure
     .input(z.object({ sessionId: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await getOwnedSession(input.sessionId, ctx.user.id);
       return await getResearchMemory(input.sessionId);
     }),
 
@@ -135,7 +174,8 @@ export const deepResearchRouter = router({
    */
   getAgentTasks: protectedProcedure
     .input(z.object({ researchPlanId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await getOwnedResearchPlan(input.researchPlanId, ctx.user.id);
       return await getAgentTasksByResearchPlanId(input.researchPlanId);
     }),
 });
@@ -0,0 +1,33 @@
+import { TRPCError } from "@trpc/server";
+import { SymbolNotFoundError, RateLimitError } from "../_core/agents/tools/yahooFinance";
+import { BacktestError } from "../_core/agents/tools/backtest";
+import { ScreenError } from "../_core/agents/tools/screener";
+import { ValuationError } from "../_core/agents/tools/valuation";
+import { FilingNotFoundError } from "../_core/agents/tools/edgar";
+import { FxError } from "../_core/agents/tools/fx";
+import { BudgetExceededError } from "../_core/llm";
+
+/**
+ * Map market data failures to tRPC codes so clients can tell an unknown
+ * symbol or filing, a throttled provider or spent usage budget, or an
+ * unworkable request (including a currency with no exchange rate) from other
+ * failures
+ */
+export function toTRPCError(message: string, error: unknown): TRPCError {
+  if (error instanceof TRPCError) return error;
+  if (error instanceof SymbolNotFoundError || error instanceof FilingNotFoundError) {
+    return new TRPCError({ code: "NOT_FOUND", message: error.message, cause: error });
+  }
+  if (error instanceof RateLimitError || error instanceof BudgetExceededError) {
+    return new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message, cause: error });
+  }
+  if (
+    error instanceof BacktestError ||
+    error instanceof ScreenError ||
+    error instanceof ValuationError ||
+    error instanceof FxError
+  ) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+  }
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `${message}: ${error}`, cause: error });
+}
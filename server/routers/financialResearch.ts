@@ -18,10 +18,37 @@ import {
   getEarningsInfo,
   getStockNews,
   compareStocks,
-  screenStocks,
 } from "../_core/agents/tools/yahooFinance";
+import { backtestRequestSchema, runBacktest } from "../_core/agents/tools/backtest";
+import { runScreen, screenQuerySchema } from "../_core/agents/tools/screener";
+import { valuationRequestSchema, valueStock } from "../_core/agents/tools/valuation";
+import { filingFormSchema, listFilings, loadLatestFiling } from "../_core/agents/tools/edgar";
+import { currencySchema } from "../_core/agents/tools/fx";
+import { toTRPCError } from "./errors";
+import { loadPortfolioContext, portfolioRouter } from "./portfolio";
+import { alertsRouter, watchlistRouter } from "./watchlist";
+import { screensRouter } from "./screener";
+import { reportsRouter, saveAnalysisReport } from "./reports";
+import { assertWithinBudget } from "../_core/llm";
+
+/**
+ * A financial analyst whose model calls are billed to the user, once the
+ * user's usage budget allows another analysis
+ */
+async function createAnalyst(userId: number, llmModel?: string): Promise<FinancialAnalystAgent> {
+  await assertWithinBudget({ userId });
+  const agent = new FinancialAnalystAgent(llmModel);
+  agent.setUsageScope({ userId });
+  return agent;
+}
 
 export const financialResearchRouter = router({
+  portfolio: portfolioRouter,
+  watchlist: watchlistRouter,
+  alerts: alertsRouter,
+  screens: screensRouter,
+  reports: reportsRouter,
+
   /**
    * Get stock quote and current metrics
    */
@@ -31,7 +58,7 @@ export const financialResearchRouter = router({
       try {
         return await getStockQuote(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch stock quote: ${error}`);
+        throw toTRPCError("Failed to fetch stock quote", error);
       }
     }),
 
@@ -56,7 +83,7 @@ export const financialResearchRouter = router({
           input.interval || "1d"
         );
       } catch (error) {
-        throw new Error(`Failed to fetch historical data: ${error}`);
+        throw toTRPCError("Failed to fetch historical data", error);
       }
     }),
 
@@ -74,7 +101,7 @@ export const financialResearchRouter = router({
       try {
         return await getFinancialStatements(input.symbol, input.period || "annual");
       } catch (error) {
-        throw new Error(`Failed to fetch financial statements: ${error}`);
+        throw toTRPCError("Failed to fetch financial statements", error);
       }
     }),
 
@@ -87,7 +114,7 @@ export const financialResearchRouter = router({
       try {
         return await getCompanyProfile(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch company profile: ${error}`);
+        throw toTRPCError("Failed to fetch company profile", error);
       }
     }),
 
@@ -100,7 +127,7 @@ export const financialResearchRouter = router({
       try {
         return await getAnalystRecommendations(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch analyst recommendations: ${error}`);
+        throw toTRPCError("Failed to fetch analyst recommendations", error);
       }
     }),
 
@@ -113,7 +140,7 @@ export const financialResearchRouter = router({
       try {
         return await getDividendInfo(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch dividend info: ${error}`);
+        throw toTRPCError("Failed to fetch dividend info", error);
       }
     }),
 
@@ -126,7 +153,7 @@ export const financialResearchRouter = router({
       try {
         return await getKeyMetrics(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch key metrics: ${error}`);
+        throw toTRPCError("Failed to fetch key metrics", error);
       }
     }),
 
@@ -134,15 +161,27 @@ export const financialResearchRouter = router({
    * Analyze stock performance
    */
   analyzeStockPerformance: protectedProcedure
-    .input(z.object({ symbol: z.string() }))
+    .input(z.object({ symbol: z.string(), riskFreeRate: z.number().min(0).max(1).optional() }))
     .query(async ({ input }) => {
       try {
-        return await analyzeStockPerformance(input.symbol);
+        return await analyzeStockPerformance(input.symbol, { riskFreeRate: input.riskFreeRate });
       } catch (error) {
-        throw new Error(`Failed to analyze stock performance: ${error}`);
+        throw toTRPCError("Failed to analyze stock performance", error);
       }
     }),
 
+  /**
+   * Backtest a moving-average crossover, RSI threshold or periodic
+   * rebalancing strategy over historical prices
+   */
+  backtest: protectedProcedure.input(backtestRequestSchema).query(async ({ input }) => {
+    try {
+      return await runBacktest(input);
+    } catch (error) {
+      throw toTRPCError("Failed to run backtest", error);
+    }
+  }),
+
   /**
    * Get earnings information
    */
@@ -152,7 +191,7 @@ export const financialResearchRouter = router({
       try {
         return await getEarningsInfo(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch earnings info: ${error}`);
+        throw toTRPCError("Failed to fetch earnings info", error);
       }
     }),
 
@@ -165,7 +204,7 @@ export const financialResearchRouter = router({
       try {
         return await getStockNews(input.symbol);
       } catch (error) {
-        throw new Error(`Failed to fetch stock news: ${error}`);
+        throw toTRPCError("Failed to fetch stock news", error);
       }
     }),
 
@@ -173,34 +212,70 @@ export const financialResearchRouter = router({
    * Compare multiple stocks
    */
   compareStocks: protectedProcedure
-    .input(z.object({ symbols: z.array(z.string()) }))
+    .input(z.object({ symbols: z.array(z.string()), reportingCurrency: currencySchema.optional() }))
     .query(async ({ input }) => {
       try {
-        return await compareStocks(input.symbols);
+        return await compareStocks(input.symbols, input.reportingCurrency);
       } catch (error) {
-        throw new Error(`Failed to compare stocks: ${error}`);
+        throw toTRPCError("Failed to compare stocks", error);
       }
     }),
 
   /**
-   * Screen stocks based on criteria
+   * Screen the cached universe with a filter, sort and page
    */
   screenStocks: protectedProcedure
+    .input(screenQuerySchema)
+    .query(async ({ input }) => {
+      try {
+        return await runScreen(input);
+      } catch (error) {
+        throw toTRPCError("Failed to screen stocks", error);
+      }
+    }),
+
+  /**
+   * DCF and trading-comparables valuation with sensitivity tables
+   */
+  valuation: protectedProcedure
+    .input(valuationRequestSchema)
+    .query(async ({ input }) => {
+      try {
+        return await valueStock(input);
+      } catch (error) {
+        throw toTRPCError("Failed to value stock", error);
+      }
+    }),
+
+  /**
+   * Recent 10-K, 10-Q and 8-K filings from SEC EDGAR
+   */
+  secFilings: protectedProcedure
     .input(
       z.object({
-        minPrice: z.number().optional(),
-        maxPrice: z.number().optional(),
-        minMarketCap: z.number().optional(),
-        maxPeRatio: z.number().optional(),
-        minDividendYield: z.number().optional(),
-        sector: z.string().optional(),
+        symbol: z.string(),
+        forms: z.array(filingFormSchema).min(1).optional(),
+        limit: z.number().int().min(1).max(40).default(10),
       })
     )
     .query(async ({ input }) => {
       try {
-        return await screenStocks(input);
+        return await listFilings(input.symbol, { forms: input.forms, limit: input.limit });
+      } catch (error) {
+        throw toTRPCError("Failed to list SEC filings", error);
+      }
+    }),
+
+  /**
+   * The latest filing of a form, split into sections, with its XBRL facts
+   */
+  secFiling: protectedProcedure
+    .input(z.object({ symbol: z.string(), form: filingFormSchema.default("10-K") }))
+    .query(async ({ input }) => {
+      try {
+        return await loadLatestFiling(input.symbol, input.form);
       } catch (error) {
-        throw new Error(`Failed to screen stocks: ${error}`);
+        throw toTRPCError("Failed to load SEC filing", error);
       }
     }),
 
@@ -212,19 +287,26 @@ export const financialResearchRouter = router({
       z.object({
         symbol: z.string(),
         llmModel: z.string().optional(),
+        portfolioId: z.number().optional(),
+        reportingCurrency: currencySchema.optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const agent = new FinancialAnalystAgent(input.llmModel);
+        const agent = await createAnalyst(ctx.user.id, input.llmModel);
+        if (input.reportingCurrency) agent.setReportingCurrency(input.reportingCurrency);
+        if (input.portfolioId !== undefined) {
+          agent.setPortfolio(await loadPortfolioContext(input.portfolioId, ctx.user.id, input.reportingCurrency));
+        }
         const analysis = await agent.analyzeStock(input.symbol);
         return {
           symbol: input.symbol,
           analysis,
+          reportId: await saveAnalysisReport(ctx.user.id, "stock", [input.symbol], agent.getModel(), analysis),
           timestamp: new Date(),
         };
       } catch (error) {
-        throw new Error(`Failed to analyze stock: ${error}`);
+        throw toTRPCError("Failed to analyze stock", error);
       }
     }),
 
@@ -236,19 +318,22 @@ export const financialResearchRouter = router({
       z.object({
         symbols: z.array(z.string()),
         llmModel: z.string().optional(),
+        reportingCurrency: currencySchema.optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const agent = new FinancialAnalystAgent(input.llmModel);
+        const agent = await createAnalyst(ctx.user.id, input.llmModel);
+        if (input.reportingCurrency) agent.setReportingCurrency(input.reportingCurrency);
         const analysis = await agent.compareStocks(input.symbols);
         return {
           symbols: input.symbols,
           analysis,
+          reportId: await saveAnalysisReport(ctx.user.id, "comparison", input.symbols, agent.getModel(), analysis),
           timestamp: new Date(),
         };
       } catch (error) {
-        throw new Error(`Failed to compare stocks: ${error}`);
+        throw toTRPCError("Failed to compare stocks", error);
       }
     }),
 
@@ -262,11 +347,17 @@ export const financialResearchRouter = router({
         riskTolerance: z.enum(["Low", "Medium", "High"]),
         investmentHorizon: z.string(),
         llmModel: z.string().optional(),
+        portfolioId: z.number().optional(),
+        reportingCurrency: currencySchema.optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const agent = new FinancialAnalystAgent(input.llmModel);
+        const agent = await createAnalyst(ctx.user.id, input.llmModel);
+        if (input.reportingCurrency) agent.setReportingCurrency(input.reportingCurrency);
+        if (input.portfolioId !== undefined) {
+          agent.setPortfolio(await loadPortfolioContext(input.portfolioId, ctx.user.id, input.reportingCurrency));
+        }
         const recommendation = await agent.generatePortfolioRecommendation(
           input.investmentAmount,
           input.riskTolerance,
@@ -277,10 +368,17 @@ export const financialResearchRouter = router({
           riskTolerance: input.riskTolerance,
           investmentHorizon: input.investmentHorizon,
           recommendation,
+          reportId: await saveAnalysisReport(
+            ctx.user.id,
+            "portfolio",
+            recommendation.positions.map((position) => position.symbol),
+            agent.getModel(),
+            recommendation
+          ),
           timestamp: new Date(),
         };
       } catch (error) {
-        throw new Error(`Failed to generate portfolio recommendation: ${error}`);
+        throw toTRPCError("Failed to generate portfolio recommendation", error);
       }
     }),
 
@@ -292,19 +390,28 @@ export const financialResearchRouter = router({
       z.object({
         minYield: z.number(),
         llmModel: z.string().optional(),
+        reportingCurrency: currencySchema.optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const agent = new FinancialAnalystAgent(input.llmModel);
+        const agent = await createAnalyst(ctx.user.id, input.llmModel);
+        if (input.reportingCurrency) agent.setReportingCurrency(input.reportingCurrency);
         const opportunities = await agent.findDividendOpportunities(input.minYield);
         return {
           minYield: input.minYield,
           opportunities,
+          reportId: await saveAnalysisReport(
+            ctx.user.id,
+            "dividends",
+            opportunities.positions.map((position) => position.symbol),
+            agent.getModel(),
+            opportunities
+          ),
           timestamp: new Date(),
         };
       } catch (error) {
-        throw new Error(`Failed to find dividend opportunities: ${error}`);
+        throw toTRPCError("Failed to find dividend opportunities", error);
       }
     }),
 
@@ -318,17 +425,18 @@ export const financialResearchRouter = router({
         llmModel: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const agent = new FinancialAnalystAgent(input.llmModel);
+        const agent = await createAnalyst(ctx.user.id, input.llmModel);
         const assessment = await agent.assessEarningsQuality(input.symbol);
         return {
           symbol: input.symbol,
           assessment,
+          reportId: await saveAnalysisReport(ctx.user.id, "earnings_quality", [input.symbol], agent.getModel(), assessment),
           timestamp: new Date(),
         };
       } catch (error) {
-        throw new Error(`Failed to assess earnings quality: ${error}`);
+        throw toTRPCError("Failed to assess earnings quality", error);
       }
     }),
 });
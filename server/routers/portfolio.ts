@@ -0,0 +1,256 @@
+/**
+ * Portfolio Router
+ * Portfolio, holding and transaction management with cost basis and
+ * benchmark-relative performance. Mounted at financialResearch.portfolio.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { ENV } from "../_core/env";
+import {
+  buildPositions,
+  computePerformance,
+  convertTransactions,
+  PortfolioContext,
+  PortfolioTransaction,
+  Position,
+  PositionError,
+  valuePositions,
+} from "../_core/agents/tools/portfolio";
+import { currencySchema } from "../_core/agents/tools/fx";
+import { toTRPCError } from "./errors";
+import {
+  createPortfolio,
+  getPortfoliosByUserId,
+  getPortfolioById,
+  updatePortfolio,
+  deletePortfolio,
+  getHoldingsByPortfolioId,
+  replaceHoldings,
+  createTransaction,
+  getTransactionsByPortfolioId,
+  getTransactionById,
+  deleteTransaction,
+} from "../db";
+import type { Transaction } from "../../drizzle/schema";
+
+export const symbolSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(16)
+  .transform((symbol) => symbol.toUpperCase());
+
+async function getOwnedPortfolio(portfolioId: number, userId: number) {
+  const portfolio = await getPortfolioById(portfolioId);
+  if (!portfolio || portfolio.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Portfolio not found" });
+  }
+  return portfolio;
+}
+
+function toPortfolioTransaction(row: Transaction): PortfolioTransaction {
+  return {
+    symbol: row.symbol,
+    type: row.type,
+    quantity: row.quantity,
+    price: row.price,
+    fees: row.fees,
+    executedAt: row.executedAt,
+  };
+}
+
+/**
+ * Positions after a portfolio's full transaction list, rejecting lists that
+ * would sell more than was held
+ */
+function rebuildPositions(transactions: PortfolioTransaction[]): Position[] {
+  try {
+    return buildPositions(transactions);
+  } catch (error) {
+    if (error instanceof PositionError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Value a portfolio for use as analyst context, in its reporting currency or
+ * the one given. Positions are replayed from the transactions so each trade
+ * converts at the exchange rate of its day.
+ */
+export async function loadPortfolioContext(
+  portfolioId: number,
+  userId: number,
+  reportingCurrency?: string
+): Promise<PortfolioContext> {
+  const portfolio = await getOwnedPortfolio(portfolioId, userId);
+  const currency = reportingCurrency ?? portfolio.reportingCurrency ?? ENV.reportingCurrency;
+  const transactions = (await getTransactionsByPortfolioId(portfolioId)).map(toPortfolioTransaction);
+  const positions = buildPositions(await convertTransactions(transactions, currency));
+  return {
+    name: portfolio.name,
+    benchmark: portfolio.benchmark,
+    valuation: await valuePositions(positions, currency),
+  };
+}
+
+export const portfolioRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await getPortfoliosByUserId(ctx.user.id);
+  }),
+
+  /**
+   * Get a portfolio with its holdings and transactions
+   */
+  get: protectedProcedure
+    .input(z.object({ portfolioId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const portfolio = await getOwnedPortfolio(input.portfolioId, ctx.user.id);
+      return {
+        ...portfolio,
+        holdings: await getHoldingsByPortfolioId(input.portfolioId),
+        transactions: await getTransactionsByPortfolioId(input.portfolioId),
+      };
+    }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1, "Name is required"),
+        description: z.string().optional(),
+        benchmark: symbolSchema.optional(),
+        reportingCurrency: currencySchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await createPortfolio(
+        ctx.user.id,
+        input.name,
+        input.benchmark ?? ENV.portfolioBenchmark,
+        input.description,
+        input.reportingCurrency ?? ENV.reportingCurrency
+      );
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        portfolioId: z.number(),
+        name: z.string().min(1).optional(),
+        description: z.string().optional(),
+        benchmark: symbolSchema.optional(),
+        reportingCurrency: currencySchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedPortfolio(input.portfolioId, ctx.user.id);
+      return await updatePortfolio(input.portfolioId, {
+        name: input.name,
+        description: input.description,
+        benchmark: input.benchmark,
+        reportingCurrency: input.reportingCurrency,
+      });
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ portfolioId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedPortfolio(input.portfolioId, ctx.user.id);
+      return await deletePortfolio(input.portfolioId);
+    }),
+
+  /**
+   * Record a buy, sell or dividend and rebuild the portfolio's holdings
+   */
+  addTransaction: protectedProcedure
+    .input(
+      z.object({
+        portfolioId: z.number(),
+        symbol: symbolSchema,
+        type: z.enum(["buy", "sell", "dividend"]),
+        quantity: z.number().positive(),
+        price: z.number().nonnegative(),
+        fees: z.number().nonnegative().default(0),
+        executedAt: z.date(),
+        note: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { portfolioId, ...transaction } = input;
+      await getOwnedPortfolio(portfolioId, ctx.user.id);
+
+      const existing = (await getTransactionsByPortfolioId(portfolioId)).map(toPortfolioTransaction);
+      const positions = rebuildPositions([...existing, transaction]);
+
+      const result = await createTransaction(portfolioId, transaction);
+      await replaceHoldings(portfolioId, positions);
+      return result;
+    }),
+
+  deleteTransaction: protectedProcedure
+    .input(z.object({ transactionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const transaction = await getTransactionById(input.transactionId);
+      if (!transaction) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Transaction not found" });
+      }
+      await getOwnedPortfolio(transaction.portfolioId, ctx.user.id);
+
+      const remaining = (await getTransactionsByPortfolioId(transaction.portfolioId))
+        .filter((row) => row.id !== transaction.id)
+        .map(toPortfolioTransaction);
+      const positions = rebuildPositions(remaining);
+
+      const result = await deleteTransaction(transaction.id);
+      await replaceHoldings(transaction.portfolioId, positions);
+      return result;
+    }),
+
+  /**
+   * Cost basis, market value and gains of each holding at the latest quotes,
+   * in the portfolio's reporting currency or the one given
+   */
+  costBasis: protectedProcedure
+    .input(z.object({ portfolioId: z.number(), reportingCurrency: currencySchema.optional() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return (await loadPortfolioContext(input.portfolioId, ctx.user.id, input.reportingCurrency)).valuation;
+      } catch (error) {
+        throw toTRPCError("Failed to value portfolio", error);
+      }
+    }),
+
+  /**
+   * Time-weighted return since the first transaction against the portfolio's
+   * benchmark, or the one given, measured in the portfolio's reporting
+   * currency or the one given
+   */
+  performance: protectedProcedure
+    .input(
+      z.object({
+        portfolioId: z.number(),
+        benchmark: symbolSchema.optional(),
+        reportingCurrency: currencySchema.optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const portfolio = await getOwnedPortfolio(input.portfolioId, ctx.user.id);
+      const transactions = (await getTransactionsByPortfolioId(input.portfolioId)).map(toPortfolioTransaction);
+      if (transactions.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Portfolio has no transactions" });
+      }
+
+      try {
+        return await computePerformance(
+          transactions,
+          input.benchmark ?? portfolio.benchmark,
+          input.reportingCurrency ?? portfolio.reportingCurrency ?? ENV.reportingCurrency
+        );
+      } catch (error) {
+        throw toTRPCError("Failed to compute portfolio performance", error);
+      }
+    }),
+});
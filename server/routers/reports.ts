@@ -0,0 +1,137 @@
+/**
+ * Analysis Reports Router
+ * Stored financial analyst reports, listed per symbol and compared over time.
+ * Mounted at financialResearch.reports.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import {
+  AnalysisReport,
+  diffReports,
+  isStockReport,
+  REPORT_KINDS,
+  ReportKind,
+  SINGLE_SYMBOL_KINDS,
+} from "../_core/agents/analysisReports";
+import { symbolSchema } from "./portfolio";
+import {
+  createAnalysisReport,
+  deleteAnalysisReport,
+  getAnalysisReportById,
+  getAnalysisReportsByUserId,
+} from "../db";
+import type { AnalysisReportRow } from "../../drizzle/schema";
+
+// Reports compared by history, newest first
+const HISTORY_LIMIT = 20;
+
+function toStoredReport(row: AnalysisReportRow) {
+  return {
+    ...row,
+    symbols: JSON.parse(row.symbols) as string[],
+    report: JSON.parse(row.report) as AnalysisReport,
+  };
+}
+
+async function getOwnedReport(reportId: number, userId: number) {
+  const row = await getAnalysisReportById(reportId);
+  if (!row || row.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Analysis report not found" });
+  }
+  return toStoredReport(row);
+}
+
+/**
+ * Store a report in the user's history. A report that cannot be stored is
+ * still returned to the caller, so failures are logged and give a null id.
+ */
+export async function saveAnalysisReport(
+  userId: number,
+  kind: ReportKind,
+  symbols: string[],
+  model: string,
+  report: AnalysisReport
+): Promise<number | null> {
+  const covered = Array.from(new Set(symbols.map((symbol) => symbol.trim().toUpperCase())));
+  const stock = isStockReport(report) ? report : undefined;
+  try {
+    return await createAnalysisReport({
+      userId,
+      kind,
+      symbol: SINGLE_SYMBOL_KINDS.includes(kind) ? covered[0] : null,
+      symbols: JSON.stringify(covered),
+      rating: stock?.rating ?? null,
+      priceTarget: stock?.priceTarget?.base ?? null,
+      confidence: report.confidence,
+      model,
+      report: JSON.stringify(report),
+    });
+  } catch (error) {
+    console.warn(`[Reports] Failed to store ${kind} report for ${covered.join(", ")}:`, error);
+    return null;
+  }
+}
+
+export const reportsRouter = router({
+  /**
+   * The user's reports, newest first
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        symbol: symbolSchema.optional(),
+        kind: z.enum(REPORT_KINDS).optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const rows = await getAnalysisReportsByUserId(ctx.user.id, input);
+      return rows.map(toStoredReport);
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ reportId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return await getOwnedReport(input.reportId, ctx.user.id);
+    }),
+
+  /**
+   * A symbol's reports of one kind, newest first, each with what changed
+   * since the one before it
+   */
+  history: protectedProcedure
+    .input(z.object({ symbol: symbolSchema, kind: z.enum(["stock", "earnings_quality"]).default("stock") }))
+    .query(async ({ ctx, input }) => {
+      const reports = (
+        await getAnalysisReportsByUserId(ctx.user.id, { symbol: input.symbol, kind: input.kind, limit: HISTORY_LIMIT })
+      ).map(toStoredReport);
+      return reports.map((report, i) => ({
+        ...report,
+        changes: i + 1 < reports.length ? diffReports(reports[i + 1], report) : null,
+      }));
+    }),
+
+  /**
+   * What changed between two reports of the same kind, older to newer
+   */
+  diff: protectedProcedure
+    .input(z.object({ fromReportId: z.number(), toReportId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const from = await getOwnedReport(input.fromReportId, ctx.user.id);
+      const to = await getOwnedReport(input.toReportId, ctx.user.id);
+      if (from.kind !== to.kind) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Cannot compare a ${from.kind} report with a ${to.kind} report` });
+      }
+      const [older, newer] = from.createdAt <= to.createdAt ? [from, to] : [to, from];
+      return diffReports(older, newer);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ reportId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedReport(input.reportId, ctx.user.id);
+      return await deleteAnalysisReport(input.reportId);
+    }),
+});
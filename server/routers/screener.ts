@@ -0,0 +1,101 @@
+/**
+ * Saved Screens Router
+ * Stores stock screens (a filter and sort) per user and re-runs them against
+ * the current universe. Mounted at financialResearch.screens.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { runScreen, screenDefinitionSchema, ScreenDefinition } from "../_core/agents/tools/screener";
+import { toTRPCError } from "./errors";
+import {
+  createSavedScreen,
+  getSavedScreensByUserId,
+  getSavedScreenById,
+  updateSavedScreen,
+  deleteSavedScreen,
+} from "../db";
+import type { SavedScreen } from "../../drizzle/schema";
+
+async function getOwnedScreen(screenId: number, userId: number) {
+  const screen = await getSavedScreenById(screenId);
+  if (!screen || screen.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Saved screen not found" });
+  }
+  return screen;
+}
+
+function parseDefinition(screen: SavedScreen): ScreenDefinition {
+  const parsed = screenDefinitionSchema.safeParse(JSON.parse(screen.definition));
+  if (!parsed.success) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Saved screen "${screen.name}" is no longer valid` });
+  }
+  return parsed.data;
+}
+
+export const screensRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const screens = await getSavedScreensByUserId(ctx.user.id);
+    return screens.map((screen) => ({ ...screen, definition: JSON.parse(screen.definition) as ScreenDefinition }));
+  }),
+
+  save: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1, "Name is required"),
+        description: z.string().optional(),
+        definition: screenDefinitionSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await createSavedScreen(ctx.user.id, input.name, input.definition, input.description);
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        screenId: z.number(),
+        name: z.string().min(1).optional(),
+        description: z.string().optional(),
+        definition: screenDefinitionSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedScreen(input.screenId, ctx.user.id);
+      return await updateSavedScreen(input.screenId, {
+        name: input.name,
+        description: input.description,
+        definition: input.definition,
+      });
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ screenId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedScreen(input.screenId, ctx.user.id);
+      return await deleteSavedScreen(input.screenId);
+    }),
+
+  /**
+   * Re-run a saved screen against the current universe
+   */
+  run: protectedProcedure
+    .input(
+      z.object({
+        screenId: z.number(),
+        page: z.number().int().min(1).default(1),
+        pageSize: z.number().int().min(1).max(100).default(25),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const screen = await getOwnedScreen(input.screenId, ctx.user.id);
+      const definition = parseDefinition(screen);
+
+      try {
+        return await runScreen({ ...definition, page: input.page, pageSize: input.pageSize });
+      } catch (error) {
+        throw toTRPCError("Failed to run screen", error);
+      }
+    }),
+});
@@ -0,0 +1,157 @@
+/**
+ * Usage Router
+ * LLM token usage and cost aggregates for the usage dashboard, plus the
+ * admin settings for model prices and per-user budgets
+ */
+
+import { z } from "zod";
+import { adminProcedure, protectedProcedure, router } from "../_core/trpc";
+import {
+  budgetPeriod,
+  budgetPeriodBounds,
+  clearModelCostCache,
+  DEFAULT_MODEL_COSTS,
+  getUserBudget,
+} from "../_core/llm";
+import {
+  getLlmUsageBreakdown,
+  getLlmUsageByUserId,
+  getLlmUsageTotals,
+  getModelCosts,
+  upsertModelCost,
+  upsertUsageBudget,
+} from "../db";
+import { toTRPCError } from "./errors";
+
+const usageGroupSchema = z.enum(["model", "agentRole", "session", "researchPlan", "day"]);
+
+// Remaining allowance, or null when the limit is unlimited
+const remaining = (limit: number, used: number) => (limit > 0 ? Math.max(0, limit - used) : null);
+
+export const usageRouter = router({
+  /**
+   * The current budget period's totals against the user's limits
+   */
+  summary: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const period = budgetPeriod();
+      const { since, until } = budgetPeriodBounds(new Date(), period);
+      const [totals, budget] = await Promise.all([
+        getLlmUsageTotals({ userId: ctx.user.id, since }),
+        getUserBudget(ctx.user.id),
+      ]);
+      return {
+        period,
+        since,
+        resetsAt: until,
+        totals,
+        budget: {
+          tokenLimit: budget.tokenLimit > 0 ? budget.tokenLimit : null,
+          costLimitUsd: budget.costLimitUsd > 0 ? budget.costLimitUsd : null,
+          tokensRemaining: remaining(budget.tokenLimit, totals.totalTokens),
+          costRemainingUsd: remaining(budget.costLimitUsd, totals.costUsd),
+        },
+      };
+    } catch (error) {
+      throw toTRPCError("Failed to load usage summary", error);
+    }
+  }),
+
+  /**
+   * The user's usage grouped by model, agent role, session, research plan
+   * or day, between optional dates
+   */
+  breakdown: protectedProcedure
+    .input(
+      z.object({
+        groupBy: usageGroupSchema,
+        from: z.date().optional(),
+        to: z.date().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getLlmUsageBreakdown({ userId: ctx.user.id, since: input.from, until: input.to }, input.groupBy);
+      } catch (error) {
+        throw toTRPCError("Failed to load usage breakdown", error);
+      }
+    }),
+
+  /**
+   * The user's most recent LLM calls
+   */
+  recent: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(200).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getLlmUsageByUserId(ctx.user.id, input?.limit);
+      } catch (error) {
+        throw toTRPCError("Failed to load recent usage", error);
+      }
+    }),
+
+  /**
+   * Prices per million tokens: the built-in list prices overridden by the
+   * model_costs table
+   */
+  modelCosts: protectedProcedure.query(async () => {
+    try {
+      const prices = new Map(
+        Object.entries(DEFAULT_MODEL_COSTS).map(([model, price]) => [model, { model, ...price, source: "default" }])
+      );
+      (await getModelCosts()).forEach((row) =>
+        prices.set(row.model, {
+          model: row.model,
+          promptCostPerMillion: row.promptCostPerMillion,
+          completionCostPerMillion: row.completionCostPerMillion,
+          source: "configured",
+        })
+      );
+      return Array.from(prices.values()).sort((a, b) => a.model.localeCompare(b.model));
+    } catch (error) {
+      throw toTRPCError("Failed to load model costs", error);
+    }
+  }),
+
+  /**
+   * Set a model's price; names match model ids by prefix
+   */
+  setModelCost: adminProcedure
+    .input(
+      z.object({
+        model: z.string().min(1).max(128),
+        promptCostPerMillion: z.number().min(0),
+        completionCostPerMillion: z.number().min(0),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        await upsertModelCost(input.model, input.promptCostPerMillion, input.completionCostPerMillion);
+        clearModelCostCache();
+        return { success: true } as const;
+      } catch (error) {
+        throw toTRPCError("Failed to set model cost", error);
+      }
+    }),
+
+  /**
+   * Override a user's per-period limits; null falls back to the configured
+   * default and 0 is unlimited
+   */
+  setBudget: adminProcedure
+    .input(
+      z.object({
+        userId: z.number().int(),
+        tokenLimit: z.number().int().min(0).nullable(),
+        costLimitUsd: z.number().min(0).nullable(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        await upsertUsageBudget(input.userId, { tokenLimit: input.tokenLimit, costLimitUsd: input.costLimitUsd });
+        return { success: true } as const;
+      } catch (error) {
+        throw toTRPCError("Failed to set usage budget", error);
+      }
+    }),
+});
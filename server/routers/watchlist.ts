@@ -0,0 +1,194 @@
+/**
+ * Watchlist and Alert Routers
+ * Watchlists of symbols, the alert rules evaluated by the alert scheduler and
+ * the in-app alert inbox. Mounted at financialResearch.watchlist and
+ * financialResearch.alerts.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { symbolSchema } from "./portfolio";
+import {
+  createWatchlist,
+  getWatchlistsByUserId,
+  getWatchlistById,
+  deleteWatchlist,
+  addWatchlistItem,
+  getWatchlistItems,
+  deleteWatchlistItem,
+  createAlertRule,
+  getAlertRulesByUserId,
+  getAlertRuleById,
+  updateAlertRule,
+  deleteAlertRule,
+  getAlertsByUserId,
+  markAlertsRead,
+} from "../db";
+
+const alertRuleTypes = [
+  "price_above",
+  "price_below",
+  "percent_move",
+  "fifty_two_week_high",
+  "earnings_upcoming",
+  "sentiment_flip",
+] as const;
+
+const channelSchema = z.enum(["inbox", "owner"]);
+
+/**
+ * Only admins may route alerts to the app owner's notifications; everyone
+ * else is limited to their in-app inbox
+ */
+function assertChannelAllowed(channel: string | undefined, role: string) {
+  if (channel === "owner" && role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can send alerts to the owner" });
+  }
+}
+
+async function getOwnedWatchlist(watchlistId: number, userId: number) {
+  const watchlist = await getWatchlistById(watchlistId);
+  if (!watchlist || watchlist.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Watchlist not found" });
+  }
+  return watchlist;
+}
+
+async function getOwnedAlertRule(ruleId: number, userId: number) {
+  const rule = await getAlertRuleById(ruleId);
+  if (!rule || rule.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Alert rule not found" });
+  }
+  return rule;
+}
+
+export const watchlistRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await getWatchlistsByUserId(ctx.user.id);
+  }),
+
+  /**
+   * Get a watchlist with its symbols
+   */
+  get: protectedProcedure
+    .input(z.object({ watchlistId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const watchlist = await getOwnedWatchlist(input.watchlistId, ctx.user.id);
+      return { ...watchlist, items: await getWatchlistItems(input.watchlistId) };
+    }),
+
+  create: protectedProcedure
+    .input(z.object({ name: z.string().min(1, "Name is required") }))
+    .mutation(async ({ ctx, input }) => {
+      return await createWatchlist(ctx.user.id, input.name);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ watchlistId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedWatchlist(input.watchlistId, ctx.user.id);
+      return await deleteWatchlist(input.watchlistId);
+    }),
+
+  addSymbol: protectedProcedure
+    .input(z.object({ watchlistId: z.number(), symbol: symbolSchema, note: z.string().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedWatchlist(input.watchlistId, ctx.user.id);
+      const items = await getWatchlistItems(input.watchlistId);
+      if (items.some((item) => item.symbol === input.symbol)) {
+        throw new TRPCError({ code: "CONFLICT", message: `${input.symbol} is already on this watchlist` });
+      }
+      return await addWatchlistItem(input.watchlistId, input.symbol, input.note);
+    }),
+
+  removeSymbol: protectedProcedure
+    .input(z.object({ watchlistId: z.number(), symbol: symbolSchema }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedWatchlist(input.watchlistId, ctx.user.id);
+      return await deleteWatchlistItem(input.watchlistId, input.symbol);
+    }),
+});
+
+export const alertsRouter = router({
+  rules: protectedProcedure.query(async ({ ctx }) => {
+    return await getAlertRulesByUserId(ctx.user.id);
+  }),
+
+  /**
+   * Create a rule. The threshold is the price level for price_above and
+   * price_below, the percent change for percent_move (default 5), the
+   * distance from the high in percent for fifty_two_week_high (default 0)
+   * and the number of days ahead for earnings_upcoming (default 7).
+   */
+  createRule: protectedProcedure
+    .input(
+      z
+        .object({
+          symbol: symbolSchema,
+          type: z.enum(alertRuleTypes),
+          threshold: z.number().nonnegative().optional(),
+          channel: channelSchema.default("inbox"),
+        })
+        .refine((rule) => !rule.type.startsWith("price_") || rule.threshold !== undefined, {
+          message: "Price alerts need a threshold",
+          path: ["threshold"],
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertChannelAllowed(input.channel, ctx.user.role);
+      return await createAlertRule(ctx.user.id, input);
+    }),
+
+  updateRule: protectedProcedure
+    .input(
+      z.object({
+        ruleId: z.number(),
+        threshold: z.number().nonnegative().optional(),
+        channel: channelSchema.optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedAlertRule(input.ruleId, ctx.user.id);
+      assertChannelAllowed(input.channel, ctx.user.role);
+      return await updateAlertRule(input.ruleId, {
+        threshold: input.threshold,
+        channel: input.channel,
+        enabled: input.enabled,
+      });
+    }),
+
+  deleteRule: protectedProcedure
+    .input(z.object({ ruleId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedAlertRule(input.ruleId, ctx.user.id);
+      return await deleteAlertRule(input.ruleId);
+    }),
+
+  /**
+   * Silence a rule until the given time, or clear its snooze with null.
+   * Events triggered while snoozed are not delivered later.
+   */
+  snoozeRule: protectedProcedure
+    .input(z.object({ ruleId: z.number(), until: z.date().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedAlertRule(input.ruleId, ctx.user.id);
+      return await updateAlertRule(input.ruleId, { snoozedUntil: input.until });
+    }),
+
+  /**
+   * Delivered alerts, newest first
+   */
+  inbox: protectedProcedure
+    .input(z.object({ unreadOnly: z.boolean().default(false), limit: z.number().min(1).max(200).default(50) }))
+    .query(async ({ ctx, input }) => {
+      return await getAlertsByUserId(ctx.user.id, input);
+    }),
+
+  markRead: protectedProcedure
+    .input(z.object({ alertIds: z.array(z.number()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      return await markAlertsRead(ctx.user.id, input.alertIds);
+    }),
+});
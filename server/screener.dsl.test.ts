@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  screens: new Map<number, any>(),
+  nextId: 1,
+}));
+
+vi.mock("./db", () => ({
+  createSavedScreen: vi.fn(async (userId: number, name: string, definition: object, description?: string) => {
+    const id = store.nextId++;
+    store.screens.set(id, { id, userId, name, description: description ?? null, definition: JSON.stringify(definition) });
+    return { insertId: id };
+  }),
+  getSavedScreenById: vi.fn(async (id: number) => store.screens.get(id)),
+  getSavedScreensByUserId: vi.fn(async (userId: number) =>
+    Array.from(store.screens.values()).filter((screen) => screen.userId === userId)
+  ),
+}));
+
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { FixtureMarketDataProvider } from "./_core/agents/tools/marketData";
+import { clearScreenerCache, runScreen, ScreenError } from "./_core/agents/tools/screener";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+function createCaller(userId: number) {
+  const ctx = {
+    user: { id: userId, openId: `test-user-${userId}`, role: "user" },
+    req: { protocol: "https", headers: {} },
+    res: { clearCookie: vi.fn() },
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+const symbols = (result: { results: { symbol: string }[] }) => result.results.map((row) => row.symbol);
+
+describe("stock screener", () => {
+  const originalProvider = ENV.marketDataProvider;
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+    store.screens.clear();
+    clearScreenerCache();
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+    vi.restoreAllMocks();
+  });
+
+  it("combines comparisons, ranges and membership in AND/OR groups", async () => {
+    const technology = await runScreen({ filter: { field: "sector", op: "in", values: [" technology "] } });
+    expect(symbols(technology)).toEqual(["AAPL", "MSFT"]);
+    expect(technology).toMatchObject({ total: 2, universeSize: 3, source: "fixture" });
+
+    // Cheap on earnings, or a high-return technology name
+    const result = await runScreen({
+      filter: {
+        or: [
+          { field: "peRatio", op: "lt", value: 30 },
+          {
+            and: [
+              { field: "sector", op: "eq", value: "Technology" },
+              { field: "roe", op: "between", min: 100, max: 200 },
+            ],
+          },
+        ],
+      },
+    });
+    expect(symbols(result)).toEqual(["AAPL", "KO"]);
+
+    const notBeverages = await runScreen({ filter: { field: "industry", op: "notIn", values: ["Beverages - Non-Alcoholic"] } });
+    expect(symbols(notBeverages)).toEqual(["AAPL", "MSFT"]);
+  });
+
+  it("sorts on any field and pages the matches", async () => {
+    const first = await runScreen({ sort: [{ field: "marketCap", direction: "desc" }], pageSize: 2 });
+    expect(symbols(first)).toEqual(["AAPL", "MSFT"]);
+    expect(first).toMatchObject({ total: 3, page: 1, pageCount: 2 });
+
+    const second = await runScreen({ sort: [{ field: "marketCap", direction: "desc" }], page: 2, pageSize: 2 });
+    expect(symbols(second)).toEqual(["KO"]);
+
+    const byYield = await runScreen({ sort: [{ field: "dividendYield", direction: "asc" }] });
+    expect(symbols(byYield)).toEqual(["AAPL", "MSFT", "KO"]);
+  });
+
+  it("rejects filters that do not fit their field", async () => {
+    await expect(runScreen({ filter: { field: "sector", op: "gt", value: 3 } })).rejects.toBeInstanceOf(ScreenError);
+    await expect(runScreen({ filter: { field: "price", op: "in", values: ["235"] } })).rejects.toBeInstanceOf(ScreenError);
+    await expect(
+      createCaller(1).financialResearch.screenStocks({ filter: { field: "beta", op: "between", min: 2, max: 1 } })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("reuses the cached universe until it expires", async () => {
+    const universe = vi.spyOn(FixtureMarketDataProvider.prototype, "getUniverse");
+
+    await runScreen({});
+    await runScreen({ filter: { field: "price", op: "gt", value: 100 } });
+    expect(universe).toHaveBeenCalledTimes(1);
+
+    clearScreenerCache();
+    await runScreen({});
+    expect(universe).toHaveBeenCalledTimes(2);
+  });
+
+  it("saves screens and re-runs them for their owner", async () => {
+    const caller = createCaller(1);
+    const { insertId: screenId } = (await caller.financialResearch.screens.save({
+      name: "Yield",
+      definition: {
+        filter: { field: "dividendYield", op: "gte", value: 0.5 },
+        sort: [{ field: "dividendYield", direction: "desc" }],
+      },
+    })) as any;
+
+    const result = await caller.financialResearch.screens.run({ screenId });
+    expect(symbols(result)).toEqual(["KO", "MSFT"]);
+    expect((await caller.financialResearch.screens.list())[0].definition.filter).toEqual({
+      field: "dividendYield",
+      op: "gte",
+      value: 0.5,
+    });
+
+    await expect(createCaller(2).financialResearch.screens.run({ screenId })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("grounds dividend ideas in the screen", async () => {
+    const agent = new FinancialAnalystAgent();
+    const execute = vi.spyOn(agent, "execute").mockResolvedValue({ result: "ideas" } as any);
+
+    expect(await agent.findDividendOpportunities(2)).toBe("ideas");
+
+    const [task] = execute.mock.calls[0];
+    expect(task.context).toEqual({ minYield: 2, candidates: ["KO"] });
+    expect(task.description).toContain("1 of 3 stocks in the universe match");
+    expect(task.description).toContain(
+      "- KO (The Coca-Cola Company, Consumer Defensive): yield 2.77%, annual dividend $1.94, payout ratio 77.60%"
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { filteredSearch, webSearch } from "./_core/agents/tools/webSearch";
+import { SearchAdapter } from "./_core/agents/tools/search";
+import { BraveSearchProvider } from "./_core/agents/tools/search/braveProvider";
+import { TavilySearchProvider } from "./_core/agents/tools/search/tavilyProvider";
+import { SearxngSearchProvider } from "./_core/agents/tools/search/searxngProvider";
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+describe("web search providers", () => {
+  const isProduction = ENV.isProduction;
+
+  beforeEach(() => {
+    ENV.searchProvider = "fixture";
+    ENV.searchFixturesPath = "";
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.isProduction = isProduction;
+  });
+
+  it("ranks fixture documents by matching query terms", async () => {
+    const response = await webSearch("renewable energy solar capacity", 3);
+
+    expect(response.provider).toBe("fixture");
+    expect(response.results.length).toBeGreaterThan(0);
+    expect(response.results[0].url).toBe("https://www.iea.org/reports/renewables-2024");
+  });
+
+  it("honours domain, date range and language filters", async () => {
+    const byDomain = await filteredSearch("renewable energy", { domain: "wikipedia.org" });
+    expect(byDomain.results.map((r) => r.url)).toEqual(["https://en.wikipedia.org/wiki/Renewable_energy"]);
+
+    const byLanguage = await filteredSearch("renewable energy", { language: "de-DE" });
+    expect(byLanguage.results.map((r) => r.language)).toEqual(["de"]);
+
+    const byDate = await filteredSearch("renewable energy", {
+      dateRange: { from: new Date("2024-10-01"), to: new Date("2024-10-31") },
+    });
+    expect(byDate.results.map((r) => r.url)).toEqual(["https://www.iea.org/reports/renewables-2024"]);
+  });
+
+  it("passes filters to the Brave API and enforces them on the results", async () => {
+    ENV.braveSearchApiKey = "brave-key";
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        web: {
+          results: [
+            { title: "<strong>Fed</strong> statement", url: "https://www.federalreserve.gov/a", description: "Rates", page_age: "2024-09-18T18:00:00", language: "en" },
+            { title: "Mirror", url: "https://mirror.example.com/a", description: "Rates", language: "en" },
+          ],
+        },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const adapter = new SearchAdapter();
+    adapter.registerProvider("brave", new BraveSearchProvider());
+    const response = await adapter.search("brave", "fomc", {
+      numResults: 5,
+      domain: "federalreserve.gov",
+      language: "en",
+      dateRange: { from: new Date("2024-09-01"), to: new Date("2024-09-30") },
+    });
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get("q")).toBe("fomc site:federalreserve.gov");
+    expect(url.searchParams.get("search_lang")).toBe("en");
+    expect(url.searchParams.get("freshness")).toBe("2024-09-01to2024-09-30");
+    expect(fetchMock.mock.calls[0][1].headers["x-subscription-token"]).toBe("brave-key");
+
+    expect(response.results).toHaveLength(1);
+    expect(response.results[0].title).toBe("Fed statement");
+    expect(response.results[0].publishedDate).toBeInstanceOf(Date);
+  });
+
+  it("sends Tavily filters in the request body", async () => {
+    ENV.tavilyApiKey = "tavily-key";
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({ results: [{ title: "SEC filing", url: "https://www.sec.gov/x", content: "10-K" }] })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await new TavilySearchProvider().search("apple 10-k", {
+      numResults: 3,
+      domain: "sec.gov",
+      dateRange: { from: new Date("2024-01-01"), to: new Date("2024-12-31") },
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.authorization).toBe("Bearer tavily-key");
+    expect(JSON.parse(init.body)).toMatchObject({
+      query: "apple 10-k",
+      max_results: 3,
+      include_domains: ["sec.gov"],
+      start_date: "2024-01-01",
+      end_date: "2024-12-31",
+    });
+    expect(response.results[0].snippet).toBe("10-K");
+  });
+
+  it("surfaces missing configuration and HTTP errors", async () => {
+    ENV.searxngUrl = "";
+    await expect(new SearxngSearchProvider().search("x", { numResults: 1 })).rejects.toThrow(
+      "SEARXNG_URL is not configured"
+    );
+
+    ENV.searxngUrl = "http://searx.local";
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("nope", { status: 403, statusText: "Forbidden" })));
+    await expect(new SearxngSearchProvider().search("x", { numResults: 1 })).rejects.toThrow(
+      "SearXNG search failed: 403 Forbidden – nope"
+    );
+  });
+
+  it("keeps the path of a SearXNG instance served under one", async () => {
+    const fetchMock = vi.fn(async (_url: URL) => Response.json({ results: [] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    for (const base of ["https://example.com/searx", "https://example.com/searx/"]) {
+      ENV.searxngUrl = base;
+      await new SearxngSearchProvider().search("x", { numResults: 1 });
+    }
+
+    expect(fetchMock.mock.calls.map(([url]) => `${url.origin}${url.pathname}`)).toEqual([
+      "https://example.com/searx/search",
+      "https://example.com/searx/search",
+    ]);
+  });
+
+  it("refuses to search without a configured provider, or with fixtures in production", async () => {
+    ENV.searchProvider = "";
+    await expect(webSearch("solar capacity", 3)).rejects.toThrow("SEARCH_PROVIDER is not set");
+
+    ENV.searchProvider = "fixture";
+    ENV.isProduction = true;
+    await expect(webSearch("solar capacity", 3)).rejects.toThrow("not allowed in production");
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { buildComparables, buildDcf, ValuationError } from "./_core/agents/tools/valuation";
+import { clearScreenerCache } from "./_core/agents/tools/screener";
+import { FinancialAnalystAgent } from "./_core/agents/financialAnalystAgent";
+
+// KO's latest annual statement (2023-12-31)
+const KO_REVENUE = 45754000000;
+
+describe("valuation models", () => {
+  const originalProvider = ENV.marketDataProvider;
+  const originalRiskFreeRate = ENV.riskFreeRate;
+
+  beforeEach(() => {
+    ENV.marketDataProvider = "fixture";
+    ENV.riskFreeRate = 0.04;
+    clearScreenerCache();
+  });
+
+  afterEach(() => {
+    ENV.marketDataProvider = originalProvider;
+    ENV.riskFreeRate = originalRiskFreeRate;
+    vi.restoreAllMocks();
+  });
+
+  it("discounts projected free cash flow and a terminal value", async () => {
+    const dcf = await buildDcf("KO", {
+      revenueGrowth: [10, 5],
+      fcfMargin: 20,
+      wacc: 8,
+      terminalGrowth: 2,
+      years: 3,
+      netDebt: 1e9,
+      sharesOutstanding: 1e9,
+    });
+
+    const revenues = [KO_REVENUE * 1.1, KO_REVENUE * 1.1 * 1.05, KO_REVENUE * 1.1 * 1.05 * 1.05];
+    const cashFlows = revenues.map((revenue) => revenue * 0.2);
+    const presentValues = cashFlows.map((cashFlow, i) => cashFlow / Math.pow(1.08, i + 1));
+    const terminal = (cashFlows[2] * 1.02) / 0.06;
+    const enterpriseValue = presentValues.reduce((a, b) => a + b, 0) + terminal / Math.pow(1.08, 3);
+
+    expect(dcf.projections.map((p) => p.revenueGrowth)).toEqual([10, 5, 5]);
+    expect(dcf.terminalValue).toBeCloseTo(terminal, 0);
+    expect(dcf.enterpriseValue).toBeCloseTo(enterpriseValue, 0);
+    expect(dcf.valuePerShare).toBeCloseTo((enterpriseValue - 1e9) / 1e9, 8);
+    expect(dcf.upside).toBeCloseTo((dcf.valuePerShare / 70.12 - 1) * 100, 8);
+    expect(dcf.derivedAssumptions).toEqual([]);
+    expect(dcf.inputs[0]).toMatchObject({ description: expect.stringContaining("2023-12-31"), source: "fixture" });
+  });
+
+  it("derives missing assumptions from the statements and quote", async () => {
+    const dcf = await buildDcf("KO");
+    const a = dcf.assumptions;
+
+    expect(dcf.derivedAssumptions).toEqual(
+      expect.arrayContaining(["revenueGrowth", "fcfMargin", "wacc", "terminalGrowth", "netDebt", "sharesOutstanding"])
+    );
+    expect(a.revenueGrowth[0]).toBeCloseTo((KO_REVENUE / 43004000000 - 1) * 100, 8);
+    expect(a.revenueGrowth[4]).toBeCloseTo(2.5, 8);
+    expect(a.fcfMargin).toBeCloseTo(((9747 / 45754 + 9534 / 43004) / 2) * 100, 8);
+    expect(a.wacc).toBeCloseTo(4 + 0.61 * 5.5, 8);
+    expect(a.netDebt).toBeCloseTo(1.72 * 25941000000, 0);
+    expect(a.sharesOutstanding).toBeCloseTo(302100000000 / 70.12, 0);
+  });
+
+  it("tabulates value per share across WACC, growth and margin", async () => {
+    const dcf = await buildDcf("KO", { wacc: 4, terminalGrowth: 2.5 });
+    const { waccVsTerminalGrowth, revenueGrowthVsMargin } = dcf.sensitivity;
+
+    expect(waccVsTerminalGrowth.rows).toEqual([2, 3, 4, 5, 6]);
+    expect(waccVsTerminalGrowth.columns).toEqual([1.5, 2, 2.5, 3, 3.5]);
+    expect(waccVsTerminalGrowth.values[2][2]).toBeCloseTo(dcf.valuePerShare, 8);
+    // A discount rate at or below terminal growth has no value
+    expect(waccVsTerminalGrowth.values[0][2]).toBeNull();
+    expect(waccVsTerminalGrowth.values[0][0]).not.toBeNull();
+    expect(waccVsTerminalGrowth.values[3][2]!).toBeLessThan(dcf.valuePerShare);
+
+    expect(revenueGrowthVsMargin.rows).toEqual([-4, -2, 0, 2, 4]);
+    expect(revenueGrowthVsMargin.values[2][2]).toBeCloseTo(dcf.valuePerShare, 8);
+    expect(revenueGrowthVsMargin.values[4][4]!).toBeGreaterThan(revenueGrowthVsMargin.values[0][0]!);
+  });
+
+  it("values a stock at its peers' median multiples", async () => {
+    // The screening universe's other technology stock is MSFT
+    const comps = await buildComparables("AAPL");
+    const shares = 3573000000000 / 235;
+
+    expect(comps.peers.map((peer) => peer.symbol)).toEqual(["MSFT"]);
+    expect(comps.multiples.peRatio).toEqual({ peerMedian: 35.35, perShareMetric: 6.58, impliedPrice: 35.35 * 6.58 });
+    expect(comps.multiples.pbRatio.impliedPrice).toBeCloseTo(11.58 * (62146000000 / shares), 8);
+    expect(comps.multiples.priceToSalesRatio.impliedPrice).toBeCloseTo(12.68 * (383285000000 / shares), 8);
+    expect(comps.impliedPrice!.median).toBeCloseTo(35.35 * 6.58, 8);
+
+    const multiplePeers = await buildComparables("KO", ["aapl", "MSFT", "KO"]);
+    expect(multiplePeers.peers.map((peer) => peer.symbol)).toEqual(["AAPL", "MSFT"]);
+    expect(multiplePeers.multiples.peRatio.peerMedian).toBeCloseTo((35.72 + 35.35) / 2, 8);
+
+    const noPeers = await buildComparables("KO");
+    expect(noPeers.impliedPrice).toBeNull();
+  });
+
+  it("rejects assumptions the model cannot use", async () => {
+    await expect(buildDcf("KO", { wacc: 2, terminalGrowth: 3 })).rejects.toBeInstanceOf(ValuationError);
+
+    const caller = appRouter.createCaller({
+      user: { id: 1, openId: "test-user-1", role: "user" },
+      req: { protocol: "https", headers: {} },
+      res: { clearCookie: vi.fn() },
+    } as unknown as TrpcContext);
+    await expect(
+      caller.financialResearch.valuation({ symbol: "KO", assumptions: { wacc: 2, terminalGrowth: 3 } })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    const result = await caller.financialResearch.valuation({ symbol: "aapl", assumptions: { wacc: 9 } });
+    expect(result.dcf).toMatchObject({ ref: "DCF", symbol: "AAPL" });
+    expect(result.comparables.ref).toBe("COMPS");
+  });
+
+  it("has the analyst cite the models for its price target", async () => {
+    const agent = new FinancialAnalystAgent();
+    const execute = vi.spyOn(agent, "execute").mockResolvedValue({ result: "analysis" } as any);
+
+    await agent.analyzeStock("AAPL");
+
+    const [task] = execute.mock.calls[0];
+    expect(task.description).toMatch(/\[DCF\] \$\d+\.\d{2} per share vs\. \$235\.00/);
+    expect(task.description).toContain("[COMPS] $232.60 per share");
+    expect(task.description).toContain("cite [DCF] or [COMPS] for every valuation figure");
+
+    const tool = (await agent["executeTool"]("valuation", { symbol: "KO", wacc: 7, peers: ["MSFT"] })) as any;
+    expect(tool.dcf.assumptions.wacc).toBe(7);
+    expect(tool.comparables.peers).toHaveLength(1);
+  });
+});